@@ -5,12 +5,16 @@ import { Toaster } from '@/components/ui/toaster';
 import { LandingPage } from '@/pages/LandingPage';
 import { ProjectsPage } from '@/pages/ProjectsPage';
 import { EditorPage } from '@/pages/EditorPage';
+import { ContractPage } from '@/pages/ContractPage';
 import { SharedProjectPage } from '@/pages/SharedProjectPage';
 import { GAPageView } from '@/components/analytics/GAPageView';
 import { initGA } from '@/lib/analytics';
 import { supabase } from '@/lib/supabase';
 import { User } from '@/lib/types';
 import { createInitialProjects } from '@/lib/auth';
+import { StacksWalletProvider } from '@/contexts/StacksWalletContext';
+import { WalletProvider } from '@/contexts/WalletContext';
+import { RPCProvider } from '@/contexts/RPCContext';
 
 // Auth context for centralized state management
 type AuthContextType = {
@@ -387,22 +391,33 @@ function AppContent() {
   // For authenticated routes, use ThemeProvider for dark/light mode support
   return (
     <ThemeProvider attribute="class" defaultTheme="system" enableSystem>
-      <Routes>
-        {/* Protected routes */}
-        <Route path="/projects" element={
-          <PrivateRoute>
-            <ProjectsPage />
-          </PrivateRoute>
-        } />
-        <Route path="/projects/:id" element={
-          <PrivateRoute>
-            <EditorPage />
-          </PrivateRoute>
-        } />
-
-        {/* Catch all redirect */}
-        <Route path="*" element={<Navigate to="/" replace />} />
-      </Routes>
+      <RPCProvider>
+        <WalletProvider>
+          <StacksWalletProvider>
+            <Routes>
+              {/* Protected routes */}
+              <Route path="/projects" element={
+                <PrivateRoute>
+                  <ProjectsPage />
+                </PrivateRoute>
+              } />
+              <Route path="/projects/:id" element={
+                <PrivateRoute>
+                  <EditorPage />
+                </PrivateRoute>
+              } />
+              <Route path="/contracts/:contractId" element={
+                <PrivateRoute>
+                  <ContractPage />
+                </PrivateRoute>
+              } />
+
+              {/* Catch all redirect */}
+              <Route path="*" element={<Navigate to="/" replace />} />
+            </Routes>
+          </StacksWalletProvider>
+        </WalletProvider>
+      </RPCProvider>
       <Toaster />
     </ThemeProvider>
   );
@@ -1,5 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 import MonacoEditor from "@monaco-editor/react";
+import type * as Monaco from 'monaco-editor';
 import { EditorHeader } from './editor/EditorHeader';
 import { FileTabs } from './editor/FileTabs';
 import { DeployDialog } from './editor/DeployDialog';
@@ -12,7 +13,9 @@ import {
   defineEditorTheme,
   defaultEditorOptions
 } from '@/lib/editor';
-import { CompilationResult, OpenFile } from '@/lib/types';
+import { setClarityLanguageVersion } from '@/lib/clarityLanguage';
+import { ClarityVersion } from '@/lib/clarityVersions';
+import { ClarityError, CompilationResult, OpenFile } from '@/lib/types';
 
 interface EditorProps {
   value: string;
@@ -24,6 +27,8 @@ interface EditorProps {
   lastCompilation?: CompilationResult | null;
   onDeploySuccess?: () => void;
   onSave?: () => void;
+  // Saves the open file to the project's files instead of its single `code` column
+  onSaveFile?: () => Promise<void>;
   isSharedView?: boolean;
   onRequestDeploy?: () => void;
   onOpenTests?: () => void;
@@ -38,6 +43,95 @@ interface EditorProps {
   onCloseAllFiles?: () => void;
   // Jump to line (from search results)
   goToLine?: number | null;
+  // Jump to an exact location (from the problems list); a new object re-triggers the jump
+  goToPosition?: { line: number; column?: number } | null;
+  // Validation errors and warnings shown as squiggles
+  diagnostics?: ClarityError[];
+  // Clarity version used for highlighting and completions
+  clarityVersion?: ClarityVersion;
+}
+
+const MARKER_OWNER = 'clarity-validation';
+
+function toMarker(monaco: typeof Monaco, model: Monaco.editor.ITextModel, problem: ClarityError): Monaco.editor.IMarkerData {
+  const line = Math.min(problem.line!, model.getLineCount());
+  const column = problem.column ?? 1;
+  let endLine = problem.endLine ?? line;
+  let endColumn = problem.endColumn;
+  if (!endColumn) {
+    if (problem.column) {
+      // No range given: underline the word at the reported position
+      endColumn = model.getWordAtPosition({ lineNumber: line, column })?.endColumn ?? column + 1;
+    } else {
+      endLine = line;
+      endColumn = model.getLineMaxColumn(line);
+    }
+  }
+
+  return {
+    severity: problem.severity === 'warning' ? monaco.MarkerSeverity.Warning : monaco.MarkerSeverity.Error,
+    message: problem.message,
+    source: problem.file,
+    startLineNumber: line,
+    startColumn: column,
+    endLineNumber: endLine,
+    endColumn,
+    relatedInformation: (problem.notes ?? [])
+      .filter(note => note.line)
+      .map(note => ({
+        resource: model.uri,
+        message: note.message,
+        startLineNumber: note.line!,
+        startColumn: note.column ?? 1,
+        endLineNumber: note.line!,
+        endColumn: (note.column ?? 1) + 1,
+      })),
+  };
+}
+
+function applyDiagnostics(
+  editor: Monaco.editor.IStandaloneCodeEditor | null,
+  monaco: typeof Monaco | null,
+  diagnostics?: ClarityError[]
+) {
+  const model = editor?.getModel();
+  if (!monaco || !model) return;
+  const markers = (diagnostics ?? [])
+    .filter(problem => problem.line)
+    .map(problem => toMarker(monaco, model, problem));
+  monaco.editor.setModelMarkers(model, MARKER_OWNER, markers);
+}
+
+function revealPosition(
+  editor: Monaco.editor.IStandaloneCodeEditor,
+  monaco: typeof Monaco,
+  lineNumber: number,
+  column: number
+) {
+  // Small delay to ensure editor is ready
+  setTimeout(() => {
+    // Scroll to line and center it
+    editor.revealLineInCenter(lineNumber);
+    // Set cursor position
+    editor.setPosition({ lineNumber, column });
+    // Highlight the line briefly
+    const decorations = editor.deltaDecorations([], [
+      {
+        range: new monaco.Range(lineNumber, 1, lineNumber, 1),
+        options: {
+          isWholeLine: true,
+          className: 'search-highlight-line',
+          glyphMarginClassName: 'search-highlight-glyph',
+        },
+      },
+    ]);
+    // Remove highlight after 2 seconds
+    setTimeout(() => {
+      editor.deltaDecorations(decorations, []);
+    }, 2000);
+    // Focus the editor
+    editor.focus();
+  }, 100);
 }
 
 export function Editor({
@@ -50,6 +144,7 @@ export function Editor({
   lastCompilation,
   onDeploySuccess,
   onSave,
+  onSaveFile,
   isSharedView = false,
   onRequestDeploy,
   onOpenTests,
@@ -62,12 +157,17 @@ export function Editor({
   onCloseFile,
   onCloseAllFiles,
   goToLine,
+  goToPosition,
+  diagnostics,
+  clarityVersion,
 }: EditorProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [showDeployDialog, setShowDeployDialog] = useState(false);
   const [showABIError, setShowABIError] = useState(false);
   const editorRef = useRef<any>(null);
   const monacoRef = useRef<any>(null);
+  const diagnosticsRef = useRef(diagnostics);
+  diagnosticsRef.current = diagnostics;
   const { theme, systemTheme } = useTheme();
   const { toast } = useToast();
 
@@ -79,9 +179,12 @@ export function Editor({
     monacoRef.current = monaco;
     
     initializeMonaco(monaco);
+    if (clarityVersion) setClarityLanguageVersion(monaco, clarityVersion);
     defineEditorTheme(monaco, effectiveTheme === 'dark');
 
-    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, handleSave);
+    // Through the ref, so the shortcut saves with the latest props
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => handleSaveRef.current());
+    applyDiagnostics(editor, monaco, diagnosticsRef.current);
   };
 
   const handleSave = async () => {
@@ -89,17 +192,21 @@ export function Editor({
     
     setIsSaving(true);
     try {
-      const currentValue = editorRef.current.getValue();
-      
-      const { error } = await supabase
-        .from('projects')
-        .update({ 
-          code: currentValue,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('id', projectId);
+      if (onSaveFile) {
+        await onSaveFile();
+      } else {
+        const currentValue = editorRef.current.getValue();
 
-      if (error) throw error;
+        const { error } = await supabase
+          .from('projects')
+          .update({
+            code: currentValue,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', projectId);
+
+        if (error) throw error;
+      }
 
       toast({
         title: "Changes saved",
@@ -120,6 +227,9 @@ export function Editor({
     }
   };
 
+  const handleSaveRef = useRef(handleSave);
+  handleSaveRef.current = handleSave;
+
   const handleDeployClick = () => {
     // If we have a shared deploy handler, use it
     if (onRequestDeploy) {
@@ -179,37 +289,30 @@ export function Editor({
     }
   }, [effectiveTheme]);
 
+  useEffect(() => {
+    if (clarityVersion && monacoRef.current) {
+      setClarityLanguageVersion(monacoRef.current, clarityVersion);
+    }
+  }, [clarityVersion]);
+
+  useEffect(() => {
+    applyDiagnostics(editorRef.current, monacoRef.current, diagnostics);
+  }, [diagnostics, activeFilePath]);
+
   // Jump to line when goToLine changes
   useEffect(() => {
     if (goToLine && editorRef.current && monacoRef.current) {
-      // Small delay to ensure editor is ready
-      setTimeout(() => {
-        const editor = editorRef.current;
-        // Scroll to line and center it
-        editor.revealLineInCenter(goToLine);
-        // Set cursor position
-        editor.setPosition({ lineNumber: goToLine, column: 1 });
-        // Highlight the line briefly
-        const decorations = editor.deltaDecorations([], [
-          {
-            range: new monacoRef.current.Range(goToLine, 1, goToLine, 1),
-            options: {
-              isWholeLine: true,
-              className: 'search-highlight-line',
-              glyphMarginClassName: 'search-highlight-glyph',
-            },
-          },
-        ]);
-        // Remove highlight after 2 seconds
-        setTimeout(() => {
-          editor.deltaDecorations(decorations, []);
-        }, 2000);
-        // Focus the editor
-        editor.focus();
-      }, 100);
+      revealPosition(editorRef.current, monacoRef.current, goToLine, 1);
     }
   }, [goToLine, activeFilePath]);
 
+  // Jump to a problem's location
+  useEffect(() => {
+    if (goToPosition && editorRef.current && monacoRef.current) {
+      revealPosition(editorRef.current, monacoRef.current, goToPosition.line, goToPosition.column ?? 1);
+    }
+  }, [goToPosition]);
+
   return (
     <div className="h-full flex flex-col bg-background border rounded-md overflow-hidden">
       {showHeader && (
@@ -23,7 +23,7 @@ import { Deployment } from '@/lib/types';
 import { formatDistanceToNow } from 'date-fns';
 import { useToast } from '@/hooks/use-toast';
 import { useState } from 'react';
-import { getExplorerAccountUrl } from '@/lib/config';
+import { getExplorerAccountUrl, networkOfDeployment } from '@/lib/config';
 import { DeploymentInfoBar } from './DeploymentInfoBar';
 import { VerificationModal } from '@/components/verification/VerificationModal';
 import { VerifyContractResult } from '@/lib/verification';
@@ -132,9 +132,8 @@ export function ABIContractSelector({
   };
 
   // Determine network from deployment
-  const network: 'testnet' | 'mainnet' = selectedDeployment?.chain_name?.toLowerCase().includes('mainnet')
-    ? 'mainnet'
-    : 'testnet';
+  const deploymentNetwork = selectedDeployment ? networkOfDeployment(selectedDeployment) : undefined;
+  const network: 'testnet' | 'mainnet' = deploymentNetwork?.isMainnet ? 'mainnet' : 'testnet';
 
   const formatDeploymentTime = (dateString: string) => {
     try {
@@ -146,7 +145,7 @@ export function ABIContractSelector({
 
 
   const handleOpenExplorer = (address: string) => {
-    window.open(getExplorerAccountUrl(address), '_blank');
+    window.open(getExplorerAccountUrl(address, deploymentNetwork), '_blank');
   };
 
   if (isLoading) {
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -8,7 +8,6 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import {
@@ -23,13 +22,31 @@ import {
   XCircle,
   Clock,
 } from 'lucide-react';
-import { ABIMethod } from '@/lib/types';
+import { ABIMethod, ABIMethodInput, BroadcastInfo, FeeEstimateRequest, FeeLevel, PostConditionMode, PostConditionSpec, SimulationEvent, SimulationStateChange } from '@/lib/types';
 import { ABIMethodSignature } from './ABIMethodSignature';
-import { executeClarityReadOnly, parseClarityValue } from '@/lib/stacksContract';
-import { callPublicFunction } from '@/lib/api';
+import { SimulationDetails } from './SimulationDetails';
+import { ClarityValueInput } from './ClarityValueInput';
+import { ClarityValueTree } from './ClarityValueTree';
+import { PostConditionBuilder } from './PostConditionBuilder';
+import { FeePicker } from './FeePicker';
+import { executeClarityReadOnly } from '@/lib/stacksContract';
+import { callPublicFunction, callSimulatedFunction } from '@/lib/api';
+import { WalletTransactionResult, callContractWithWallet } from '@/lib/walletDeployment';
+import { useWallet } from '@/contexts/WalletContext';
+import { useRPC } from '@/contexts/RPCContext';
+import { DEFAULT_STACKS_NETWORK, StacksNetworkConfig, getExplorerAccountUrl } from '@/lib/config';
 import { useToast } from '@/hooks/use-toast';
+import { useTransactionStatus } from '@/hooks/useTransactionStatus';
+import { useFeeEstimates } from '@/hooks/useFeeEstimates';
 import { cn } from '@/lib/utils';
-import { STACKS_TESTNET_API } from '@/lib/config';
+import { clarityValueToJSON, clarityValueToString, decodeClarityValue } from '@/lib/clarityValue';
+import {
+  PostConditionDraft,
+  draftToPostCondition,
+  explainPostConditionAbort,
+  postConditionDraftError,
+} from '@/lib/postConditions';
+import { ArgErrors, ArgValue, argValueToClarity, emptyArgValue, validateArgValue } from '@/lib/clarityArgs';
 
 interface ABIExecuteDialogProps {
   open: boolean;
@@ -37,17 +54,31 @@ interface ABIExecuteDialogProps {
   method: ABIMethod;
   contractAddress: string;
   projectId: string;
-  onExecute: (result: any) => void;
+  onExecute: (result: ExecutionResult) => void;
+  // The network the contract was deployed to (testnet if omitted)
+  network?: StacksNetworkConfig;
+  // Run against the local simulator instead of a network
+  simulation?: { sessionId: string; sender: string };
 }
 
-type TxStatus = 'pending' | 'success' | 'abort_by_response' | 'abort_by_post_condition';
-
-interface ExecutionResult {
+export interface ExecutionResult {
   status: 'success' | 'error' | 'pending';
   result?: any;
+  // Serialized return value, shown as a tree when present
+  resultHex?: string;
   error?: string;
   txId?: string;
   explorerUrl?: string;
+  // Local simulator only
+  inputs?: Record<string, string>;
+  events?: SimulationEvent[];
+  stateChanges?: SimulationStateChange[];
+  blockHeight?: number;
+}
+
+// Inputs built before the contract interface carried structured types fall back to a text field
+function inputType(input: ABIMethodInput) {
+  return input.abiType ?? input.type;
 }
 
 export function ABIExecuteDialog({
@@ -57,88 +88,166 @@ export function ABIExecuteDialog({
   contractAddress,
   projectId,
   onExecute,
+  network = DEFAULT_STACKS_NETWORK,
+  simulation,
 }: ABIExecuteDialogProps) {
-  const [inputs, setInputs] = useState<Record<string, string>>({});
+  const [values, setValues] = useState<Record<string, ArgValue>>(() =>
+    Object.fromEntries((method.inputs || []).map(input => [input.name, emptyArgValue(inputType(input))]))
+  );
+  const [showAllErrors, setShowAllErrors] = useState(false);
+  const [postConditionDrafts, setPostConditionDrafts] = useState<PostConditionDraft[]>([]);
+  const [postConditionMode, setPostConditionMode] = useState<PostConditionMode>('allow');
+  const [feeLevel, setFeeLevel] = useState<FeeLevel>('medium');
+  const [abortReason, setAbortReason] = useState<string | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [result, setResult] = useState<ExecutionResult | null>(null);
-  const [txStatus, setTxStatus] = useState<TxStatus | null>(null);
-  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // The broadcast transaction being followed, with what it was sent with to explain an abort
+  const [trackedTx, setTrackedTx] = useState<{ txId: string; postConditions: PostConditionSpec[]; mode: PostConditionMode } | null>(null);
+  // Watching stops when the dialog closes
+  const { phase: txPhase, settlement, error: trackingError } = useTransactionStatus(open ? trackedTx?.txId ?? null : null, network);
+  const txStatus = settlement?.status ?? txPhase;
+  const txAborted = txStatus === 'abort_by_response' || txStatus === 'abort_by_post_condition';
   const { toast } = useToast();
+  // In wallet mode public calls are signed in the user's Leather or Xverse wallet
+  const ownWallet = useWallet();
+  const { withFailover } = useRPC();
 
   const isReadOnly = method.stateMutability === 'view' || method.stateMutability === 'pure';
 
-  // Stop polling on unmount or dialog close
-  useEffect(() => {
-    if (!open) {
-      if (pollRef.current) clearInterval(pollRef.current);
-      pollRef.current = null;
+  const errors = useMemo(() => {
+    const found: ArgErrors = {};
+    for (const input of method.inputs || []) {
+      validateArgValue(values[input.name], inputType(input), input.name, found);
     }
-    return () => {
-      if (pollRef.current) clearInterval(pollRef.current);
+    return found;
+  }, [method, values]);
+  // Post-conditions only apply to on-chain transactions
+  const usesPostConditions = !isReadOnly && !simulation;
+  const signsInWallet = usesPostConditions && ownWallet.deploymentMode === 'wallet';
+  const hasErrors = Object.keys(errors).length > 0
+    || (usesPostConditions && postConditionDrafts.some(draft => postConditionDraftError(draft)));
+
+  // Clarity literal for each parameter, in order
+  const literals = () => (method.inputs || []).map(input => argValueToClarity(values[input.name], inputType(input)));
+
+  // Contract address and name of the called contract
+  const dotIndex = contractAddress.indexOf('.');
+  const addr = dotIndex !== -1 ? contractAddress.slice(0, dotIndex) : contractAddress;
+  const name = dotIndex !== -1 ? contractAddress.slice(dotIndex + 1) : '';
+
+  // The backend encodes each value according to its type
+  const typedArgs = () => literals().map((value, i) => ({
+    name: method.inputs[i].name,
+    value,
+    type: method.inputs[i].type,
+  }));
+
+  const feeRequest = useMemo<FeeEstimateRequest | null>(() => {
+    if (!open || !usesPostConditions || hasErrors) return null;
+    return {
+      type: 'call',
+      contractAddress: addr,
+      contractName: name,
+      functionName: method.name,
+      args: typedArgs(),
+      postConditions: postConditionDrafts.map(draftToPostCondition),
     };
-  }, [open]);
-
-  const startPollingTxStatus = (txId: string) => {
-    setTxStatus('pending');
-    let attempts = 0;
-    const maxAttempts = 30; // ~90s max
+  }, [open, usesPostConditions, hasErrors, values, postConditionDrafts, contractAddress, method]); // eslint-disable-line react-hooks/exhaustive-deps
+  const fees = useFeeEstimates(feeRequest, network);
+  const selectedFee = fees.estimates?.estimates.find(estimate => estimate.level === feeLevel)?.fee;
 
-    pollRef.current = setInterval(async () => {
-      attempts++;
-      try {
-        const res = await fetch(`${STACKS_TESTNET_API}/extended/v1/tx/${txId}`);
-        if (!res.ok) return;
-        const data = await res.json();
-        const status: TxStatus = data.tx_status;
-
-        if (status !== 'pending') {
-          setTxStatus(status);
-          if (pollRef.current) clearInterval(pollRef.current);
-          pollRef.current = null;
-          if (status === 'success') {
-            toast({ title: 'Transaction Confirmed', description: 'State change is now on-chain.' });
-          } else {
-            toast({ title: 'Transaction Failed', description: `Status: ${status}`, variant: 'destructive' });
-          }
-        }
-      } catch {
-        // network error — keep polling
-      }
+  useEffect(() => {
+    if (!settlement || !trackedTx) return;
+    if (settlement.result) {
+      // Show the on-chain return value and events in place of the bare txid
+      setResult(prev => prev && {
+        ...prev,
+        result: settlement.result!.repr,
+        resultHex: settlement.result!.hex,
+        events: settlement.events,
+        blockHeight: settlement.blockHeight,
+      });
+    }
+    if (settlement.status === 'success') {
+      toast({ title: 'Transaction Confirmed', description: 'State change is now on-chain.' });
+    } else if (settlement.status === 'abort_by_post_condition') {
+      const reason = explainPostConditionAbort(trackedTx.postConditions, trackedTx.mode, settlement.senderAddress ?? '', settlement.vmError);
+      setAbortReason(reason);
+      toast({ title: 'Transaction Failed', description: reason, variant: 'destructive' });
+    } else if (settlement.status !== 'timeout') {
+      toast({ title: 'Transaction Failed', description: `Status: ${settlement.apiStatus ?? settlement.status}`, variant: 'destructive' });
+    }
+  }, [settlement]); // eslint-disable-line react-hooks/exhaustive-deps
 
-      if (attempts >= maxAttempts) {
-        if (pollRef.current) clearInterval(pollRef.current);
-        pollRef.current = null;
-      }
-    }, 3000);
+  const handleValueChange = (name: string, value: ArgValue) => {
+    setValues(prev => ({ ...prev, [name]: value }));
   };
 
-  const handleInputChange = (name: string, value: string) => {
-    setInputs(prev => ({ ...prev, [name]: value }));
+  const handleSimulate = async (sessionId: string, sender: string) => {
+    const args = literals();
+    const response = await callSimulatedFunction(sessionId, {
+      contract: contractAddress,
+      functionName: method.name,
+      args,
+      sender,
+      readOnly: isReadOnly,
+    });
+
+    const executionResult: ExecutionResult = {
+      status: response.success ? 'success' : 'error',
+      result: response.result?.repr,
+      resultHex: response.result?.hex,
+      error: response.error ?? (response.success ? undefined : `Returned ${response.result?.repr}; changes were rolled back`),
+      inputs: Object.fromEntries((method.inputs || []).map((input, i) => [input.name, args[i]])),
+      events: response.events,
+      stateChanges: response.stateChanges,
+      blockHeight: response.blockHeight,
+    };
+    setResult(executionResult);
+    onExecute(executionResult);
+    if (!response.success) {
+      toast({ title: 'Call failed', description: executionResult.error, variant: 'destructive' });
+    }
   };
 
   const handleExecute = async () => {
     if (!method || !contractAddress) return;
+    if (hasErrors) {
+      setShowAllErrors(true);
+      return;
+    }
+
+    if (simulation) {
+      setIsExecuting(true);
+      setResult({ status: 'pending' });
+      try {
+        await handleSimulate(simulation.sessionId, simulation.sender);
+      } catch (error) {
+        const errorResult: ExecutionResult = {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to call function',
+        };
+        setResult(errorResult);
+        toast({ title: 'Error', description: errorResult.error, variant: 'destructive' });
+      } finally {
+        setIsExecuting(false);
+      }
+      return;
+    }
 
     setIsExecuting(true);
     setResult({ status: 'pending' });
-    setTxStatus(null);
-    if (pollRef.current) { clearInterval(pollRef.current); pollRef.current = null; }
+    setTrackedTx(null);
+    setAbortReason(null);
 
-    const dotIndex = contractAddress.indexOf('.');
-    const addr = dotIndex !== -1 ? contractAddress.slice(0, dotIndex) : contractAddress;
-    const name = dotIndex !== -1 ? contractAddress.slice(dotIndex + 1) : '';
+    const args = typedArgs();
 
     try {
       if (isReadOnly) {
-        const args = (method.inputs || []).map(input => {
-          const val = inputs[input.name] || '';
-          return parseClarityValue(val, input.type);
-        });
-
-        const response = await executeClarityReadOnly(addr, name, method.name, args, addr);
+        const response = await withFailover(network, endpoint => executeClarityReadOnly(addr, name, method.name, args, addr, endpoint));
 
         if (response.success) {
-          const successResult: ExecutionResult = { status: 'success', result: response.result };
+          const successResult: ExecutionResult = { status: 'success', result: response.result, resultHex: response.hex };
           setResult(successResult);
           onExecute(successResult);
           toast({ title: 'Success', description: 'Function called successfully' });
@@ -148,17 +257,32 @@ export function ABIExecuteDialog({
           toast({ title: 'Error', description: response.error, variant: 'destructive' });
         }
       } else {
-        const argsPayload = (method.inputs || []).map(input => ({
-          value: inputs[input.name] || '',
-          type: input.type,
-        }));
-
-        const response = await callPublicFunction({
-          contractAddress: addr,
-          contractName: name,
-          functionName: method.name,
-          args: argsPayload,
-        });
+        const postConditions = postConditionDrafts.map(draftToPostCondition);
+        // Only the deployer wallet queues broadcasts
+        const response: WalletTransactionResult & Partial<BroadcastInfo> = signsInWallet
+          ? await callContractWithWallet({
+              sender: ownWallet.address ?? await ownWallet.connectWallet(),
+              contractAddress: addr,
+              contractName: name,
+              functionName: method.name,
+              args,
+              network,
+              // Without an estimate the wallet suggests a fee
+              fee: selectedFee,
+              postConditions,
+              postConditionMode,
+            })
+          : await callPublicFunction({
+              contractAddress: addr,
+              contractName: name,
+              functionName: method.name,
+              args,
+              network,
+              // Without an estimate the backend picks the medium fee itself
+              fee: selectedFee ? Number(selectedFee) : undefined,
+              postConditions,
+              postConditionMode,
+            });
 
         const successResult: ExecutionResult = {
           status: 'success',
@@ -167,8 +291,13 @@ export function ABIExecuteDialog({
         };
         setResult(successResult);
         onExecute(successResult);
-        toast({ title: 'Transaction Submitted', description: 'Waiting for confirmation…' });
-        startPollingTxStatus(response.txId);
+        toast({
+          title: 'Transaction Submitted',
+          description: response.queuePosition
+            ? `Sent with nonce ${response.nonce} after ${response.queuePosition} queued transaction${response.queuePosition === 1 ? '' : 's'}. Waiting for confirmation…`
+            : 'Waiting for confirmation…',
+        });
+        setTrackedTx({ txId: response.txId, postConditions, mode: postConditionMode });
       }
     } catch (error) {
       const errorResult: ExecutionResult = {
@@ -182,13 +311,22 @@ export function ABIExecuteDialog({
     }
   };
 
+  const decodedResult = useMemo(() => {
+    if (!result?.resultHex) return null;
+    try {
+      return decodeClarityValue(result.resultHex);
+    } catch {
+      return null;
+    }
+  }, [result?.resultHex]);
+
   const handleCopy = async (content: any) => {
     await navigator.clipboard.writeText(typeof content === 'string' ? content : JSON.stringify(content, null, 2));
     toast({ title: 'Copied', description: 'Result copied to clipboard' });
   };
 
-  const explorerUrl = contractAddress
-    ? `https://explorer.hiro.so/address/${contractAddress}?chain=testnet`
+  const explorerUrl = contractAddress && !simulation
+    ? getExplorerAccountUrl(contractAddress, network)
     : '';
 
   return (
@@ -236,7 +374,9 @@ export function ABIExecuteDialog({
             {/* Public function notice */}
             {!isReadOnly && (
               <div className="p-3 rounded-lg bg-orange-500/5 border border-orange-500/20 text-xs text-muted-foreground">
-                Public functions submit a transaction to the Stacks testnet. Execution uses the shared deployer wallet.
+                {simulation
+                  ? `Public functions run on the local simnet as ${simulation.sender}. Each call mines a block instantly; nothing is sent to testnet.`
+                  : `Public functions submit a transaction to ${network.name}. Execution uses the shared deployer wallet.`}
               </div>
             )}
 
@@ -251,17 +391,48 @@ export function ABIExecuteDialog({
                       <span className="text-xs text-muted-foreground font-mono">{input.type}</span>
                       <Info className="h-3.5 w-3.5 text-muted-foreground ml-auto" />
                     </label>
-                    <Input
-                      value={inputs[input.name] || ''}
-                      onChange={(e) => handleInputChange(input.name, e.target.value)}
-                      placeholder={`Enter ${input.type}`}
-                      className="font-mono text-sm"
+                    <ClarityValueInput
+                      type={inputType(input)}
+                      value={values[input.name]}
+                      onChange={(value) => handleValueChange(input.name, value)}
+                      path={input.name}
+                      errors={errors}
+                      showAllErrors={showAllErrors}
                     />
                   </div>
                 ))}
               </div>
             )}
 
+            {usesPostConditions && (
+              <PostConditionBuilder
+                drafts={postConditionDrafts}
+                onChange={setPostConditionDrafts}
+                mode={postConditionMode}
+                onModeChange={setPostConditionMode}
+                contractId={contractAddress}
+                showErrors={showAllErrors}
+              />
+            )}
+
+            {usesPostConditions && (
+              <FeePicker
+                estimates={fees.estimates}
+                isLoading={fees.isLoading}
+                error={fees.error}
+                level={feeLevel}
+                onLevelChange={setFeeLevel}
+              />
+            )}
+
+            {signsInWallet && (
+              <p className="text-xs text-muted-foreground">
+                {ownWallet.address
+                  ? <>Signed in your wallet as <span className="font-mono">{ownWallet.address}</span></>
+                  : 'You will be asked to connect Leather or Xverse to sign this call'}
+              </p>
+            )}
+
             {/* Result */}
             {result && (
               <div className="space-y-2">
@@ -282,7 +453,26 @@ export function ABIExecuteDialog({
                     {result.status === 'pending' && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
                   </div>
 
-                  {result.status === 'success' && result.result !== undefined && (
+                  {result.status === 'success' && decodedResult && (
+                    <div className="space-y-1.5">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-muted-foreground">Return value</span>
+                        <div className="flex items-center">
+                          <Button variant="ghost" size="sm" className="h-6 gap-1" onClick={() => handleCopy(clarityValueToString(decodedResult))}>
+                            <Copy className="h-3 w-3" />
+                            <span className="text-xs">Clarity</span>
+                          </Button>
+                          <Button variant="ghost" size="sm" className="h-6 gap-1" onClick={() => handleCopy(clarityValueToJSON(decodedResult))}>
+                            <Copy className="h-3 w-3" />
+                            <span className="text-xs">JSON</span>
+                          </Button>
+                        </div>
+                      </div>
+                      <ClarityValueTree value={decodedResult} />
+                    </div>
+                  )}
+
+                  {result.status === 'success' && !decodedResult && result.result !== undefined && (
                     <div className="space-y-1.5">
                       <div className="flex items-center justify-between">
                         <span className="text-xs text-muted-foreground">Return value</span>
@@ -303,23 +493,37 @@ export function ABIExecuteDialog({
                       <div className={cn(
                         "flex items-center gap-2 p-3 rounded-lg text-xs border",
                         txStatus === 'success' && "bg-green-500/5 border-green-500/20 text-green-600",
-                        txStatus === 'pending' && "bg-yellow-500/5 border-yellow-500/20 text-yellow-600",
-                        (txStatus === 'abort_by_response' || txStatus === 'abort_by_post_condition') && "bg-red-500/5 border-red-500/20 text-red-600",
-                        !txStatus && "bg-muted border-border text-muted-foreground",
+                        (txStatus === 'pending' || txStatus === 'microblock' || txStatus === 'anchored') && "bg-yellow-500/5 border-yellow-500/20 text-yellow-600",
+                        (txAborted || txStatus === 'dropped') && "bg-red-500/5 border-red-500/20 text-red-600",
+                        (!txStatus || txStatus === 'timeout') && "bg-muted border-border text-muted-foreground",
                       )}>
                         {txStatus === 'success' && <CheckCircle2 className="h-4 w-4 flex-shrink-0" />}
-                        {txStatus === 'pending' && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />}
-                        {(txStatus === 'abort_by_response' || txStatus === 'abort_by_post_condition') && <XCircle className="h-4 w-4 flex-shrink-0" />}
-                        {!txStatus && <Clock className="h-4 w-4 flex-shrink-0" />}
+                        {(txStatus === 'pending' || txStatus === 'microblock' || txStatus === 'anchored') && <Loader2 className="h-4 w-4 flex-shrink-0 animate-spin" />}
+                        {(txAborted || txStatus === 'dropped') && <XCircle className="h-4 w-4 flex-shrink-0" />}
+                        {(!txStatus || txStatus === 'timeout') && <Clock className="h-4 w-4 flex-shrink-0" />}
                         <span className="font-medium">
-                          {txStatus === 'success' && 'Confirmed — state change is now on-chain'}
+                          {txStatus === 'success' && `Confirmed in block ${settlement?.blockHeight ?? '?'} — state change is now on-chain`}
                           {txStatus === 'pending' && 'Pending — waiting for next Stacks block (~10s)'}
+                          {txStatus === 'microblock' && 'In a microblock — waiting for the anchor block'}
+                          {txStatus === 'anchored' && 'Anchored — reading the result'}
                           {txStatus === 'abort_by_response' && 'Aborted — contract returned an error'}
                           {txStatus === 'abort_by_post_condition' && 'Aborted — post-condition failed'}
-                          {!txStatus && 'Transaction broadcast'}
+                          {txStatus === 'dropped' && `Dropped from the mempool (${settlement?.apiStatus})`}
+                          {txStatus === 'timeout' && 'Still unconfirmed — check the explorer'}
+                          {!txStatus && (trackingError ? `Transaction broadcast — ${trackingError}` : 'Transaction broadcast')}
                         </span>
                       </div>
 
+                      {settlement?.fee && (
+                        <p className="text-xs text-muted-foreground">Fee: {settlement.fee.rate} µSTX</p>
+                      )}
+
+                      {txStatus === 'abort_by_post_condition' && abortReason && (
+                        <p className="text-xs text-red-500 p-3 bg-red-500/5 rounded-lg border border-red-500/20">
+                          {abortReason}
+                        </p>
+                      )}
+
                       {/* TX ID */}
                       <div className="space-y-1">
                         <div className="flex items-center justify-between">
@@ -353,6 +557,10 @@ export function ABIExecuteDialog({
                       {result.error}
                     </p>
                   )}
+
+                  {result.events && (
+                    <SimulationDetails events={result.events} stateChanges={result.stateChanges ?? []} />
+                  )}
                 </div>
               </div>
             )}
@@ -361,10 +569,10 @@ export function ABIExecuteDialog({
 
         <DialogFooter className="gap-2">
           <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
-          <Button disabled={isExecuting} onClick={handleExecute} className="gap-2">
+          <Button disabled={isExecuting || (showAllErrors && hasErrors)} onClick={handleExecute} className="gap-2">
             {isExecuting
-              ? <><Loader2 className="h-4 w-4 animate-spin" /> {isReadOnly ? 'Calling...' : 'Submitting...'}</>
-              : <><PlayCircle className="h-4 w-4" /> {isReadOnly ? 'Call' : 'Submit'}</>}
+              ? <><Loader2 className="h-4 w-4 animate-spin" /> {isReadOnly || simulation ? 'Calling...' : 'Submitting...'}</>
+              : <><PlayCircle className="h-4 w-4" /> {isReadOnly || simulation ? 'Call' : 'Submit'}</>}
           </Button>
         </DialogFooter>
       </DialogContent>
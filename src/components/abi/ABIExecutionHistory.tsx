@@ -38,9 +38,11 @@ import { getExplorerTxUrl } from '@/lib/config';
 interface ABIExecutionHistoryProps {
   projectId: string;
   contractAddress?: string;
+  // Calls made in this browser session (local simulator); shown instead of the saved history
+  localCalls?: ABICall[];
 }
 
-export function ABIExecutionHistory({ projectId, contractAddress }: ABIExecutionHistoryProps) {
+export function ABIExecutionHistory({ projectId, contractAddress, localCalls }: ABIExecutionHistoryProps) {
   const [calls, setCalls] = useState<ABICall[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
@@ -52,9 +54,16 @@ export function ABIExecutionHistory({ projectId, contractAddress }: ABIExecution
   useEffect(() => {
     fetchCalls();
     setCurrentPage(1); // Reset to first page when filters change
-  }, [projectId, contractAddress, sortOrder]);
+  }, [projectId, contractAddress, sortOrder, localCalls]);
 
   const fetchCalls = async () => {
+    if (localCalls) {
+      const sorted = [...localCalls].sort((a, b) => a.created_at.localeCompare(b.created_at));
+      setCalls(sortOrder === 'asc' ? sorted : sorted.reverse());
+      setIsLoading(false);
+      return;
+    }
+
     try {
       setIsLoading(true);
       let query = supabase
@@ -372,7 +381,7 @@ export function ABIExecutionHistory({ projectId, contractAddress }: ABIExecution
                             variant="ghost"
                             size="icon"
                             className="h-8 w-8"
-                            onClick={() => handleCopy(selectedCall.outputs.transaction_hash)}
+                            onClick={() => handleCopy(selectedCall.outputs.transaction_hash ?? '')}
                           >
                             <Copy className="h-4 w-4" />
                           </Button>
@@ -382,7 +391,7 @@ export function ABIExecutionHistory({ projectId, contractAddress }: ABIExecution
                             className="h-8 w-8"
                             onClick={() => {
                               window.open(
-                                getExplorerTxUrl(selectedCall.outputs.transaction_hash),
+                                getExplorerTxUrl(selectedCall.outputs.transaction_hash ?? ''),
                                 '_blank'
                               );
                             }}
@@ -0,0 +1,248 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ClarityAbiType } from '@/lib/types';
+import { ArgErrors, ArgValue, emptyArgValue, formatAbiType } from '@/lib/clarityArgs';
+import { cn } from '@/lib/utils';
+
+interface ClarityValueInputProps {
+  type: ClarityAbiType;
+  value: ArgValue;
+  onChange: (value: ArgValue) => void;
+  path: string;
+  errors: ArgErrors;
+  // Show errors on empty fields too, once the user has tried to send the call
+  showAllErrors: boolean;
+}
+
+function FieldError({ message }: { message?: string }) {
+  if (!message) return null;
+  return <p className="text-xs text-red-500">{message}</p>;
+}
+
+// Two-way switch, e.g. none/some or hex/UTF-8
+function Segmented<T extends string>({ options, value, onChange }: {
+  options: Array<{ value: T; label: string }>;
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="inline-flex rounded-md border p-0.5 bg-muted/40">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          onClick={() => onChange(option.value)}
+          className={cn(
+            'px-2 py-0.5 text-xs rounded font-mono transition-colors',
+            value === option.value ? 'bg-background shadow-sm text-foreground' : 'text-muted-foreground hover:text-foreground'
+          )}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function placeholderFor(type: string): string {
+  switch (type) {
+    case 'uint128': return '0';
+    case 'int128': return '-1';
+    case 'principal': return 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+    case 'trait_reference': return 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM.my-contract';
+    default: return `Enter ${type}`;
+  }
+}
+
+/**
+ * Editor for one argument, built from its type: text fields for scalars, a none/some switch for
+ * optionals, rows for lists and a field group for tuples. Nested values render recursively.
+ */
+export function ClarityValueInput({ type, value, onChange, path, errors, showAllErrors }: ClarityValueInputProps) {
+  const error = errors[path];
+
+  if (typeof type === 'string') {
+    const text = value.kind === 'text' ? value.text : '';
+    if (type === 'bool') {
+      return (
+        <Segmented
+          options={[{ value: 'false', label: 'false' }, { value: 'true', label: 'true' }]}
+          value={text === 'true' ? 'true' : 'false'}
+          onChange={next => onChange({ kind: 'text', text: next })}
+        />
+      );
+    }
+    return (
+      <div className="space-y-1">
+        <Input
+          value={text}
+          onChange={(e) => onChange({ kind: 'text', text: e.target.value })}
+          placeholder={placeholderFor(type)}
+          className={cn('font-mono text-sm', error && (showAllErrors || text) && 'border-red-500/50')}
+        />
+        {(showAllErrors || text) && <FieldError message={error} />}
+      </div>
+    );
+  }
+
+  if (('string-ascii' in type || 'string-utf8' in type) && value.kind === 'text') {
+    const length = 'string-ascii' in type ? type['string-ascii'].length : type['string-utf8'].length;
+    return (
+      <div className="space-y-1">
+        <Textarea
+          value={value.text}
+          onChange={(e) => onChange({ kind: 'text', text: e.target.value })}
+          placeholder={`Up to ${length} characters`}
+          rows={1}
+          className={cn('font-mono text-sm min-h-[36px]', error && 'border-red-500/50')}
+        />
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if ('buffer' in type && value.kind === 'buffer') {
+    return (
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <Input
+            value={value.text}
+            onChange={(e) => onChange({ ...value, text: e.target.value })}
+            placeholder={value.encoding === 'hex' ? `0x… (up to ${type.buffer.length} bytes)` : 'Text, encoded as UTF-8'}
+            className={cn('font-mono text-sm', error && (showAllErrors || value.text) && 'border-red-500/50')}
+          />
+          <Segmented
+            options={[{ value: 'hex', label: 'hex' }, { value: 'utf8', label: 'UTF-8' }]}
+            value={value.encoding}
+            onChange={encoding => onChange({ ...value, encoding })}
+          />
+        </div>
+        {(showAllErrors || value.text) && <FieldError message={error} />}
+      </div>
+    );
+  }
+
+  if ('optional' in type && value.kind === 'optional') {
+    return (
+      <div className="space-y-2">
+        <Segmented
+          options={[{ value: 'none', label: 'none' }, { value: 'some', label: 'some' }]}
+          value={value.some ? 'some' : 'none'}
+          onChange={next => onChange({ ...value, some: next === 'some' })}
+        />
+        {value.some && (
+          <div className="pl-3 border-l-2 border-muted">
+            <ClarityValueInput
+              type={type.optional}
+              value={value.value}
+              onChange={inner => onChange({ ...value, value: inner })}
+              path={path}
+              errors={errors}
+              showAllErrors={showAllErrors}
+            />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  if ('response' in type && value.kind === 'response') {
+    const branch = value.ok ? type.response.ok : type.response.error;
+    return (
+      <div className="space-y-2">
+        <Segmented
+          options={[{ value: 'ok', label: 'ok' }, { value: 'err', label: 'err' }]}
+          value={value.ok ? 'ok' : 'err'}
+          onChange={next => {
+            const ok = next === 'ok';
+            if (ok !== value.ok) onChange({ kind: 'response', ok, value: emptyArgValue(ok ? type.response.ok : type.response.error) });
+          }}
+        />
+        <div className="pl-3 border-l-2 border-muted">
+          <ClarityValueInput
+            type={branch}
+            value={value.value}
+            onChange={inner => onChange({ ...value, value: inner })}
+            path={path}
+            errors={errors}
+            showAllErrors={showAllErrors}
+          />
+        </div>
+      </div>
+    );
+  }
+
+  if ('list' in type && value.kind === 'list') {
+    const { length: maxLength, type: itemType } = type.list;
+    const setItem = (index: number, item: ArgValue) =>
+      onChange({ kind: 'list', items: value.items.map((existing, i) => (i === index ? item : existing)) });
+    return (
+      <div className="space-y-2">
+        {value.items.map((item, index) => (
+          <div key={index} className="flex items-start gap-2">
+            <span className="text-xs text-muted-foreground font-mono w-5 pt-2 text-right">{index}</span>
+            <div className="flex-1 min-w-0">
+              <ClarityValueInput
+                type={itemType}
+                value={item}
+                onChange={next => setItem(index, next)}
+                path={`${path}.${index}`}
+                errors={errors}
+                showAllErrors={showAllErrors}
+              />
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0"
+              onClick={() => onChange({ kind: 'list', items: value.items.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1"
+            disabled={value.items.length >= maxLength}
+            onClick={() => onChange({ kind: 'list', items: [...value.items, emptyArgValue(itemType)] })}
+          >
+            <Plus className="h-3 w-3" />
+            <span className="text-xs">Add item</span>
+          </Button>
+          <span className="text-xs text-muted-foreground">{value.items.length} / {maxLength}</span>
+        </div>
+        <FieldError message={error} />
+      </div>
+    );
+  }
+
+  if ('tuple' in type && value.kind === 'tuple') {
+    return (
+      <div className="space-y-3 p-3 rounded-lg border bg-muted/20">
+        {type.tuple.map(field => (
+          <div key={field.name} className="space-y-1.5">
+            <label className="text-xs flex items-center gap-2">
+              <span className="font-medium">{field.name}</span>
+              <span className="text-muted-foreground font-mono truncate">{formatAbiType(field.type)}</span>
+            </label>
+            <ClarityValueInput
+              type={field.type}
+              value={value.fields[field.name]}
+              onChange={next => onChange({ kind: 'tuple', fields: { ...value.fields, [field.name]: next } })}
+              path={`${path}.${field.name}`}
+              errors={errors}
+              showAllErrors={showAllErrors}
+            />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return null;
+}
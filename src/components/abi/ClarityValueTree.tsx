@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { ChevronRight, ChevronDown } from 'lucide-react';
+import { ClarityValue, clarityValueToString, principalToString } from '@/lib/clarityValue';
+import { cn } from '@/lib/utils';
+
+interface ClarityValueTreeProps {
+  value: ClarityValue;
+}
+
+// Children of a composite value, labelled by field name or list index
+function childrenOf(value: ClarityValue): Array<{ label: string; value: ClarityValue }> | null {
+  switch (value.type) {
+    case 'ok':
+    case 'err':
+    case 'some':
+      return [{ label: 'value', value: value.value }];
+    case 'list':
+      return value.items.map((item, i) => ({ label: String(i), value: item }));
+    case 'tuple':
+      return value.fields.map(field => ({ label: field.name, value: field.value }));
+    default:
+      return null;
+  }
+}
+
+function summary(value: ClarityValue): string {
+  switch (value.type) {
+    case 'ok':
+    case 'err':
+    case 'some':
+      return value.type;
+    case 'list':
+      return `list [${value.items.length}]`;
+    case 'tuple':
+      return `tuple {${value.fields.length}}`;
+    default:
+      return clarityValueToString(value);
+  }
+}
+
+function leafClass(value: ClarityValue): string {
+  switch (value.type) {
+    case 'int':
+    case 'uint': return 'text-blue-500';
+    case 'bool':
+    case 'none': return 'text-purple-500';
+    case 'principal': return 'text-orange-500';
+    case 'string-ascii':
+    case 'string-utf8': return 'text-green-600';
+    default: return 'text-foreground';
+  }
+}
+
+function leafText(value: ClarityValue): string {
+  return value.type === 'principal' ? principalToString(value) : clarityValueToString(value);
+}
+
+function TreeNode({ label, value, depth }: { label?: string; value: ClarityValue; depth: number }) {
+  const children = childrenOf(value);
+  // Wrappers like (ok ...) stay open so the payload is visible; large lists start collapsed
+  const [expanded, setExpanded] = useState(depth < 3 && !(value.type === 'list' && value.items.length > 20));
+
+  if (!children) {
+    return (
+      <div className="flex items-baseline gap-2 py-0.5 pl-5">
+        {label !== undefined && <span className="text-muted-foreground">{label}:</span>}
+        <span className={cn('break-all', leafClass(value))}>{leafText(value)}</span>
+        <span className="text-[10px] text-muted-foreground/70">{value.type}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <button
+        type="button"
+        className="flex items-center gap-1 py-0.5 hover:text-primary transition-colors text-left"
+        onClick={() => setExpanded(prev => !prev)}
+      >
+        {expanded ? <ChevronDown className="h-3.5 w-3.5 flex-shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 flex-shrink-0" />}
+        {label !== undefined && <span className="text-muted-foreground">{label}:</span>}
+        <span className={cn(value.type === 'err' && 'text-red-500', value.type === 'ok' && 'text-green-600')}>
+          {summary(value)}
+        </span>
+      </button>
+      {expanded && (
+        <div className="pl-4 border-l border-border ml-1.5">
+          {children.map(child => (
+            <TreeNode key={child.label} label={value.type === 'list' || value.type === 'tuple' ? child.label : undefined} value={child.value} depth={depth + 1} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Collapsible view of a decoded Clarity value: responses, optionals, lists and tuples expand
+ * into their members, and leaves show their value with its type.
+ */
+export function ClarityValueTree({ value }: ClarityValueTreeProps) {
+  return (
+    <div className="p-3 bg-muted rounded-lg font-mono text-xs">
+      <TreeNode value={value} depth={0} />
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { Deployment } from '@/lib/types';
-import { getExplorerAccountUrl } from '@/lib/config';
+import { getExplorerAccountUrl, networkOfDeployment } from '@/lib/config';
 
 interface DeploymentInfoBarProps {
   deployment: Deployment;
@@ -20,8 +20,9 @@ export function DeploymentInfoBar({
   // Get deployer account from metadata
   const deployerAccount = deployment.metadata?.wallet_address || deployment.metadata?.deployer_account;
 
-  const explorerUrl = getExplorerAccountUrl(deployment.contract_address);
-  const deployerExplorerUrl = deployerAccount ? getExplorerAccountUrl(deployerAccount) : null;
+  const network = networkOfDeployment(deployment);
+  const explorerUrl = getExplorerAccountUrl(deployment.contract_address, network);
+  const deployerExplorerUrl = deployerAccount ? getExplorerAccountUrl(deployerAccount, network) : null;
 
   return (
     <div className="flex items-center gap-2 flex-wrap">
@@ -87,7 +88,7 @@ export function DeploymentInfoBar({
                 className="gap-1.5 bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/15 border-blue-500/20 cursor-pointer"
               >
                 <Globe className="h-3 w-3" />
-                Testnet
+                <span className="capitalize">{network.network}</span>
                 <ExternalLink className="h-3 w-3" />
               </Badge>
             </a>
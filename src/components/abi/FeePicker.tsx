@@ -0,0 +1,65 @@
+import { Coins, Loader2 } from 'lucide-react';
+import { FeeEstimates, FeeLevel } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface FeePickerProps {
+  estimates: FeeEstimates | null;
+  isLoading: boolean;
+  error: string | null;
+  level: FeeLevel;
+  onLevelChange: (level: FeeLevel) => void;
+}
+
+const LEVEL_LABELS: Record<FeeLevel, string> = { low: 'Low', medium: 'Medium', high: 'High' };
+
+function formatFeeStx(microStx: string): string {
+  return `${(Number(microStx) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 6 })} STX`;
+}
+
+/**
+ * Low, medium and high fee options for a testnet transaction, with their cost in STX
+ */
+export function FeePicker({ estimates, isLoading, error, level, onLevelChange }: FeePickerProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <Coins className="h-4 w-4" />
+          Fee
+        </h4>
+        {isLoading && <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />}
+      </div>
+
+      {estimates ? (
+        <>
+          <div className="grid grid-cols-3 gap-2">
+            {estimates.estimates.map(estimate => (
+              <button
+                key={estimate.level}
+                type="button"
+                onClick={() => onLevelChange(estimate.level)}
+                className={cn(
+                  'p-2 rounded-lg border text-left transition-colors',
+                  level === estimate.level ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                )}
+              >
+                <div className="text-xs text-muted-foreground">{LEVEL_LABELS[estimate.level]}</div>
+                <div className="text-sm font-mono">{formatFeeStx(estimate.fee)}</div>
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {estimates.byteLength.toLocaleString()} bytes ·{' '}
+            {estimates.source === 'node'
+              ? 'estimated by the node from recent fee rates'
+              : 'no estimate for this payload yet, based on the transfer fee rate'}
+          </p>
+        </>
+      ) : error ? (
+        <p className="text-xs text-muted-foreground">Could not estimate fees ({error}). The server will pick one.</p>
+      ) : (
+        <p className="text-xs text-muted-foreground">Estimating…</p>
+      )}
+    </div>
+  );
+}
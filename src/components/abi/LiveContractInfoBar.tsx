@@ -0,0 +1,51 @@
+import { ExternalLink, Globe, Loader2, RefreshCw } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { StacksNetworkConfig, getExplorerAccountUrl } from '@/lib/config';
+
+interface LiveContractInfoBarProps {
+  contractId: string;
+  network: StacksNetworkConfig;
+  onRefresh: () => void;
+  isLoading: boolean;
+  error?: string | null;
+}
+
+export function LiveContractInfoBar({ contractId, network, onRefresh, isLoading, error }: LiveContractInfoBarProps) {
+  return (
+    <div className="p-4 border-b bg-muted/20 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <a
+          href={getExplorerAccountUrl(contractId, network)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex"
+          title="View contract on Hiro Explorer"
+        >
+          <Badge
+            variant="secondary"
+            className="gap-1.5 bg-blue-500/10 text-blue-600 dark:text-blue-400 hover:bg-blue-500/15 border-blue-500/20 cursor-pointer"
+          >
+            <Globe className="h-3 w-3" />
+            {network.name}
+            <ExternalLink className="h-3 w-3" />
+          </Badge>
+        </a>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5" onClick={onRefresh} disabled={isLoading}>
+          {isLoading
+            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            : <RefreshCw className="h-3.5 w-3.5" />}
+          <span className="text-xs">Refresh</span>
+        </Button>
+      </div>
+
+      <div className="font-mono text-xs text-muted-foreground truncate">{contractId}</div>
+
+      {error && (
+        <p className="text-xs text-red-500 p-2 bg-red-500/5 rounded border border-red-500/20 whitespace-pre-wrap">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { Plus, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { PostConditionMode, PostConditionSpec } from '@/lib/types';
+import { PostConditionDraft, emptyPostConditionDraft, postConditionDraftError } from '@/lib/postConditions';
+
+interface PostConditionBuilderProps {
+  drafts: PostConditionDraft[];
+  onChange: (drafts: PostConditionDraft[]) => void;
+  mode: PostConditionMode;
+  onModeChange: (mode: PostConditionMode) => void;
+  // Prefix for new token assets, usually the called contract
+  contractId: string;
+  showErrors: boolean;
+}
+
+const TYPE_LABELS: Record<PostConditionSpec['type'], string> = { stx: 'STX', ft: 'Token', nft: 'NFT' };
+
+const FUNGIBLE_CONDITIONS = [
+  { value: 'lte', label: 'sends ≤' },
+  { value: 'lt', label: 'sends <' },
+  { value: 'eq', label: 'sends exactly' },
+  { value: 'gte', label: 'sends ≥' },
+  { value: 'gt', label: 'sends >' },
+];
+
+const NFT_CONDITIONS = [
+  { value: 'sends', label: 'sends' },
+  { value: 'does-not-send', label: 'does not send' },
+];
+
+/**
+ * Post-conditions for a testnet call: each one limits what a principal may send, and Deny mode
+ * aborts the transaction if it moves any asset they don't cover.
+ */
+export function PostConditionBuilder({ drafts, onChange, mode, onModeChange, contractId, showErrors }: PostConditionBuilderProps) {
+  const update = (id: number, changes: Partial<PostConditionDraft>) =>
+    onChange(drafts.map(draft => (draft.id === id ? { ...draft, ...changes } : draft)));
+
+  const add = (type: PostConditionSpec['type']) => {
+    const id = Math.max(0, ...drafts.map(draft => draft.id)) + 1;
+    onChange([...drafts, emptyPostConditionDraft(id, type, type === 'stx' ? '' : `${contractId}::`)]);
+    // Adding the first post-condition switches to Deny, matching the backend's default
+    if (drafts.length === 0) onModeChange('deny');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Post-conditions
+        </h4>
+        <Select value={mode} onValueChange={(value) => onModeChange(value as PostConditionMode)}>
+          <SelectTrigger className="h-7 w-[150px] text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="deny" className="text-xs">Deny mode</SelectItem>
+            <SelectItem value="allow" className="text-xs">Allow mode</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {mode === 'deny'
+          ? 'The transaction aborts if it moves any asset not covered below.'
+          : 'Assets not covered below may move freely. Use Deny mode to catch unexpected transfers.'}
+      </p>
+
+      {drafts.map(draft => {
+        const error = postConditionDraftError(draft);
+        return (
+          <div key={draft.id} className="p-3 rounded-lg border bg-muted/20 space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium w-12">{TYPE_LABELS[draft.type]}</span>
+              <Input
+                value={draft.principal}
+                onChange={(e) => update(draft.id, { principal: e.target.value })}
+                placeholder="sender"
+                className="h-8 font-mono text-xs flex-1"
+              />
+              <Select value={draft.condition} onValueChange={(condition) => update(draft.id, { condition: condition as PostConditionDraft['condition'] })}>
+                <SelectTrigger className="h-8 w-[130px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(draft.type === 'nft' ? NFT_CONDITIONS : FUNGIBLE_CONDITIONS).map(option => (
+                    <SelectItem key={option.value} value={option.value} className="text-xs">{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => onChange(drafts.filter(other => other.id !== draft.id))}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <div className="flex items-center gap-2 pl-14">
+              {draft.type !== 'nft' && (
+                <Input
+                  value={draft.amount}
+                  onChange={(e) => update(draft.id, { amount: e.target.value })}
+                  placeholder={draft.type === 'stx' ? 'Amount in STX' : 'Amount in base units'}
+                  className="h-8 font-mono text-xs w-[140px]"
+                />
+              )}
+              {draft.type !== 'stx' && (
+                <Input
+                  value={draft.asset}
+                  onChange={(e) => update(draft.id, { asset: e.target.value })}
+                  placeholder="ST1….contract::token-name"
+                  className="h-8 font-mono text-xs flex-1"
+                />
+              )}
+              {draft.type === 'nft' && (
+                <Input
+                  value={draft.tokenId}
+                  onChange={(e) => update(draft.id, { tokenId: e.target.value })}
+                  placeholder="Token id, e.g. u1"
+                  className="h-8 font-mono text-xs w-[120px]"
+                />
+              )}
+            </div>
+            {draft.type === 'nft' && (
+              <div className="flex items-center gap-2 pl-14">
+                <span className="text-xs text-muted-foreground">Token id type</span>
+                <Input
+                  value={draft.tokenIdType}
+                  onChange={(e) => update(draft.id, { tokenIdType: e.target.value })}
+                  className="h-7 font-mono text-xs w-[160px]"
+                />
+              </div>
+            )}
+            {error && (showErrors || draft.amount || draft.tokenId) && (
+              <p className="text-xs text-red-500 pl-14">{error}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        {(['stx', 'ft', 'nft'] as const).map(type => (
+          <Button key={type} variant="outline" size="sm" className="h-7 gap-1" onClick={() => add(type)}>
+            <Plus className="h-3 w-3" />
+            <span className="text-xs">{TYPE_LABELS[type]}</span>
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Cpu, RefreshCw, Loader2, Boxes } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { SimulationSession } from '@/lib/types';
+
+interface SimnetInfoBarProps {
+  session: SimulationSession | null;
+  contractId: string | null;
+  sender: string;
+  onSenderChange: (sender: string) => void;
+  onReload: () => void;
+  isDeploying: boolean;
+  isOutOfDate: boolean;
+  error?: string | null;
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+export function SimnetInfoBar({
+  session,
+  contractId,
+  sender,
+  onSenderChange,
+  onReload,
+  isDeploying,
+  isOutOfDate,
+  error,
+}: SimnetInfoBarProps) {
+  return (
+    <div className="p-4 border-b bg-muted/20 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          <Badge
+            variant="secondary"
+            className="gap-1.5 bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20"
+          >
+            <Cpu className="h-3 w-3" />
+            Local Simnet
+          </Badge>
+          {session && (
+            <Badge variant="outline" className="gap-1.5 text-xs">
+              <Boxes className="h-3 w-3" />
+              Block {session.blockHeight}
+            </Badge>
+          )}
+          {isOutOfDate && !isDeploying && (
+            <Badge variant="outline" className="text-xs bg-yellow-500/10 text-yellow-600 border-yellow-500/30">
+              Editor changed
+            </Badge>
+          )}
+        </div>
+        <Button variant="outline" size="sm" className="h-7 gap-1.5" onClick={onReload} disabled={isDeploying}>
+          {isDeploying
+            ? <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            : <RefreshCw className="h-3.5 w-3.5" />}
+          <span className="text-xs">Reload from editor</span>
+        </Button>
+      </div>
+
+      {contractId && (
+        <div className="font-mono text-xs text-muted-foreground truncate">{contractId}</div>
+      )}
+
+      {session && (
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium whitespace-nowrap">Call as</label>
+          <Select value={sender} onValueChange={onSenderChange}>
+            <SelectTrigger className="h-8 font-mono text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {session.accounts.map(account => (
+                <SelectItem key={account.name} value={account.name} className="font-mono text-xs">
+                  {account.name} ({shortAddress(account.address)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-500 p-2 bg-red-500/5 rounded border border-red-500/20 whitespace-pre-wrap">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { SimulationEvent, SimulationStateChange } from '@/lib/types';
+
+interface SimulationDetailsProps {
+  events: SimulationEvent[];
+  stateChanges: SimulationStateChange[];
+}
+
+function describeEvent(event: SimulationEvent): string {
+  switch (event.type) {
+    case 'print':
+      return event.value;
+    case 'stx-transfer':
+      return `${event.amount} µSTX ${event.sender} → ${event.recipient}`;
+    case 'stx-burn':
+      return `${event.amount} µSTX from ${event.sender}`;
+    case 'ft-mint':
+      return `${event.amount} ${event.asset} → ${event.recipient}`;
+    case 'ft-transfer':
+      return `${event.amount} ${event.asset} ${event.sender} → ${event.recipient}`;
+    case 'ft-burn':
+      return `${event.amount} ${event.asset} from ${event.sender}`;
+    case 'nft-mint':
+      return `${event.asset} ${event.value} → ${event.recipient}`;
+    case 'nft-transfer':
+      return `${event.asset} ${event.value} ${event.sender} → ${event.recipient}`;
+    case 'nft-burn':
+      return `${event.asset} ${event.value} from ${event.sender}`;
+    default:
+      return JSON.stringify(event);
+  }
+}
+
+function describeChange(change: SimulationStateChange): { target: string; before?: string; after?: string } {
+  switch (change.type) {
+    case 'stx-balance':
+      return { target: `STX balance of ${change.principal}`, before: change.before, after: change.after };
+    case 'data-var':
+      return { target: `var ${change.name}`, before: change.before, after: change.after };
+    case 'map-entry':
+      return { target: `${change.map}[${change.key}]`, before: change.before, after: change.after };
+    case 'ft-balance':
+      return { target: `${change.token} balance of ${change.principal}`, before: change.before, after: change.after };
+    case 'nft-owner':
+      return { target: `owner of ${change.token} ${change.id}`, before: change.before, after: change.after };
+  }
+}
+
+/** Events and state diff of a call on the local simulator */
+export function SimulationDetails({ events, stateChanges }: SimulationDetailsProps) {
+  return (
+    <div className="space-y-3">
+      {events.length > 0 && (
+        <div className="space-y-1.5">
+          <span className="text-xs text-muted-foreground">Events</span>
+          <div className="p-3 bg-muted rounded-lg space-y-1.5">
+            {events.map((event, index) => (
+              <div key={index} className="font-mono text-xs break-all">
+                <span className="text-primary">{event.type}</span> {describeEvent(event)}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {stateChanges.length > 0 && (
+        <div className="space-y-1.5">
+          <span className="text-xs text-muted-foreground">State changes</span>
+          <div className="p-3 bg-muted rounded-lg space-y-1.5">
+            {stateChanges.map((change, index) => {
+              const { target, before, after } = describeChange(change);
+              return (
+                <div key={index} className="font-mono text-xs break-all">
+                  <span className="text-muted-foreground">{target}:</span>{' '}
+                  <span className="text-red-500">{before ?? '∅'}</span>
+                  {' → '}
+                  <span className="text-green-500">{after ?? '∅'}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {events.length === 0 && stateChanges.length === 0 && (
+        <p className="text-xs text-muted-foreground">No events or state changes</p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import {
   Dialog,
   DialogContent,
@@ -20,14 +20,25 @@ import {
   PlayCircle,
   Globe,
   Server,
+  Wallet,
+  XCircle,
 } from 'lucide-react';
-import { deployContract } from '@/lib/api';
+import { deployContract, recordDeploymentStatus } from '@/lib/api';
+import { WalletDeployResult, deployContractWithWallet } from '@/lib/walletDeployment';
 import { useToast } from '@/hooks/use-toast';
+import { useTransactionStatus } from '@/hooks/useTransactionStatus';
+import { useFeeEstimates } from '@/hooks/useFeeEstimates';
+import { FeePicker } from '@/components/abi/FeePicker';
+import { BroadcastInfo, FeeLevel } from '@/lib/types';
 import { useAuth } from '@/App';
+import { useStacksWallet } from '@/contexts/StacksWalletContext';
+import { useWallet } from '@/contexts/WalletContext';
 import { supabase } from '@/lib/supabase';
-import { getExplorerTxUrl } from '@/lib/config';
-
-const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001';
+import { getExplorerAccountUrl, getExplorerTxUrl, toDeploymentNetwork } from '@/lib/config';
+import { cn } from '@/lib/utils';
+import { ClarityVersion, DEFAULT_CLARITY_VERSION } from '@/lib/clarityVersions';
+import { remapRequirements } from '@/lib/requirements';
+import { ProjectRequirement } from '@/lib/types';
 
 interface DeployDialogProps {
   open: boolean;
@@ -35,6 +46,9 @@ interface DeployDialogProps {
   projectId: string;
   code: string;
   initialContractName: string;
+  clarityVersion?: ClarityVersion;
+  // The project's requirements, whose mainnet principals are swapped for where they are on the network deployed to
+  requirements?: ProjectRequirement[];
   onDeploySuccess?: () => void;
 }
 
@@ -44,16 +58,32 @@ export function DeployDialog({
   projectId,
   code,
   initialContractName,
+  clarityVersion = DEFAULT_CLARITY_VERSION,
+  requirements = [],
   onDeploySuccess,
 }: DeployDialogProps) {
   const [contractName, setContractName] = useState(initialContractName);
   const [isDeploying, setIsDeploying] = useState(false);
-  const [deployerAddress, setDeployerAddress] = useState<string>('');
   const [deployResult, setDeployResult] = useState<{ txId: string; contractAddress: string; explorerUrl: string } | null>(null);
   const [deployError, setDeployError] = useState<string | null>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [feeLevel, setFeeLevel] = useState<FeeLevel>('medium');
   const { toast } = useToast();
   const { user } = useAuth();
+  const { wallet, balance, refreshBalance } = useStacksWallet();
+  // In wallet mode the user signs in Leather or Xverse and deploys from their own address
+  const ownWallet = useWallet();
+  const signsInWallet = ownWallet.deploymentMode === 'wallet';
+  const network = ownWallet.stacksNetwork;
+  const deployedCode = useMemo(() => remapRequirements(code, requirements, network), [code, requirements, network]);
+  // Fees scale with the contract's size; the name barely changes it
+  const fees = useFeeEstimates(open && !deployResult && contractName.trim()
+    ? { type: 'deploy', code: deployedCode, contractName: contractName.trim(), clarityVersion }
+    : null, network);
+  const selectedFee = fees.estimates?.estimates.find(estimate => estimate.level === feeLevel)?.fee;
+  const { phase, settlement } = useTransactionStatus(open ? deployResult?.txId ?? null : null, network);
+  const confirmed = settlement?.status === 'success';
+  const failed = settlement !== null && !confirmed && settlement.status !== 'timeout';
 
   // Reset state when dialog opens, append unique suffix to avoid ContractAlreadyExists
   useEffect(() => {
@@ -66,21 +96,30 @@ export function DeployDialog({
     }
   }, [open, initialContractName]);
 
-  // Fetch deployer wallet info
-  useEffect(() => {
-    if (!open) return;
-    fetch(`${API_URL}/wallet/info`)
-      .then(r => r.json())
-      .then(d => { if (d.address) setDeployerAddress(d.address); })
-      .catch(() => {});
-  }, [open]);
-
   const handleDeploy = async () => {
     if (!user || !contractName.trim()) return;
     setIsDeploying(true);
     setDeployError(null);
     try {
-      const result = await deployContract({ code, contractName: contractName.trim() });
+      // Only the deployer wallet queues broadcasts
+      const result: WalletDeployResult & Partial<BroadcastInfo> = signsInWallet
+        ? await deployContractWithWallet({
+            sender: ownWallet.address ?? await ownWallet.connectWallet(),
+            code: deployedCode,
+            contractName: contractName.trim(),
+            clarityVersion,
+            network,
+            // Without an estimate the wallet suggests a fee
+            fee: selectedFee,
+          })
+        : await deployContract({
+            code: deployedCode,
+            contractName: contractName.trim(),
+            clarityVersion,
+            network,
+            // Without an estimate the backend picks the medium fee itself
+            fee: selectedFee ? Number(selectedFee) : undefined,
+          });
 
       setDeployResult({ txId: result.txId, contractAddress: result.contractAddress, explorerUrl: result.explorerUrl });
 
@@ -90,13 +129,34 @@ export function DeployDialog({
         contract_address: result.contractAddress,
         contract_name: contractName.trim(),
         tx_id: result.txId,
-        network: 'stacks-testnet',
+        network: toDeploymentNetwork(network),
         abi: {},
-        metadata: { explorer_url: result.explorerUrl, network: 'testnet', wallet_type: 'playground' },
+        metadata: {
+          explorer_url: result.explorerUrl,
+          network: network.network,
+          // Custom networks are looked up again through their API URL
+          ...(network.network === 'custom' ? { api_url: network.apiUrl } : {}),
+          wallet_type: signsInWallet ? 'external' : 'playground',
+          wallet_address: result.contractAddress.split('.')[0],
+          clarity_version: clarityVersion,
+        },
       });
 
       onDeploySuccess?.();
-      toast({ title: 'Success', description: 'Contract deployed to Stacks testnet' });
+      if (signsInWallet) {
+        // The backend only watches the deploys it broadcasts itself
+        recordDeploymentStatus(result.txId).catch(err => console.warn('Could not watch deployment status:', err));
+        ownWallet.refreshBalance();
+      } else {
+        // The fee comes out of the user's deployer wallet
+        refreshBalance();
+      }
+      toast({
+        title: 'Success',
+        description: result.queuePosition
+          ? `Broadcast to ${network.name} after ${result.queuePosition} queued transaction${result.queuePosition === 1 ? '' : 's'}`
+          : `Contract deployed to ${network.name}`,
+      });
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Deployment failed';
       setDeployError(msg);
@@ -133,27 +193,45 @@ export function DeployDialog({
                   <Globe className="h-4 w-4 text-blue-500" />
                 </div>
                 <div className="flex-1">
-                  <div className="text-sm font-medium">Stacks Testnet</div>
-                  <div className="text-xs text-muted-foreground">api.testnet.hiro.so</div>
+                  <div className="text-sm font-medium">{network.name}</div>
+                  <div className="text-xs text-muted-foreground">{network.apiUrl.replace(/^https?:\/\//, '')} · Clarity {clarityVersion}</div>
                 </div>
-                <Badge variant="outline" className="text-xs bg-blue-500/10 text-blue-500 border-blue-500/30">testnet</Badge>
+                <Badge variant="outline" className="text-xs bg-blue-500/10 text-blue-500 border-blue-500/30">{network.network}</Badge>
               </div>
 
               <div className="border-t" />
 
-              <div className="flex items-start gap-3">
-                <div className="p-2 bg-purple-500/10 rounded-md">
-                  <Server className="h-4 w-4 text-purple-500" />
+              {signsInWallet ? (
+                <div className="flex items-start gap-3">
+                  <div className="p-2 bg-purple-500/10 rounded-md">
+                    <Wallet className="h-4 w-4 text-purple-500" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-sm font-medium">Your Stacks Wallet</div>
+                    {ownWallet.address ? (
+                      <div className="text-xs font-mono text-muted-foreground mt-0.5">{ownWallet.address} · {ownWallet.balance ?? '0'} STX</div>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">Not connected. You will be asked to connect Leather or Xverse.</div>
+                    )}
+                  </div>
                 </div>
-                <div className="flex-1">
-                  <div className="text-sm font-medium">Shared Deployer Wallet</div>
-                  {deployerAddress ? (
-                    <div className="text-xs font-mono text-muted-foreground mt-0.5">{deployerAddress}</div>
-                  ) : (
-                    <div className="text-xs text-muted-foreground">Loading...</div>
-                  )}
+              ) : (
+                <div className="flex items-start gap-3">
+                  <div className="p-2 bg-purple-500/10 rounded-md">
+                    <Server className="h-4 w-4 text-purple-500" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="text-sm font-medium">
+                      {wallet?.accountIndex !== undefined ? 'Your Deployer Wallet' : 'Shared Deployer Wallet'}
+                    </div>
+                    {wallet ? (
+                      <div className="text-xs font-mono text-muted-foreground mt-0.5">{wallet.address} · {balance} STX</div>
+                    ) : (
+                      <div className="text-xs text-muted-foreground">Loading...</div>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
             </div>
 
             <div className="border-t" />
@@ -171,13 +249,31 @@ export function DeployDialog({
               <p className="text-xs text-muted-foreground">Lowercase letters, numbers, and hyphens only</p>
             </div>
 
+            {deployedCode !== code && (
+              <p className="text-xs text-muted-foreground">
+                Calls to the project's requirements are deployed pointing at their {network.name} principals.
+              </p>
+            )}
+
+            {!deployResult && (
+              <FeePicker
+                estimates={fees.estimates}
+                isLoading={fees.isLoading}
+                error={fees.error}
+                level={feeLevel}
+                onLevelChange={setFeeLevel}
+              />
+            )}
+
             {/* Deploying state */}
             {isDeploying && (
               <div className="flex items-center gap-3 p-3 rounded-lg border bg-muted/30">
                 <Loader2 className="h-4 w-4 animate-spin text-primary" />
                 <div>
-                  <p className="text-sm font-medium">Deploying to Stacks Testnet...</p>
-                  <p className="text-xs text-muted-foreground mt-0.5">Broadcasting transaction, this may take a few seconds</p>
+                  <p className="text-sm font-medium">Deploying to {network.name}...</p>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    {signsInWallet ? 'Confirm the transaction in your wallet' : 'Broadcasting transaction, this may take a few seconds'}
+                  </p>
                 </div>
               </div>
             )}
@@ -196,11 +292,29 @@ export function DeployDialog({
             {/* Deploy success */}
             {deployResult && (
               <div className="space-y-3">
-                <div className="flex items-center gap-2 p-3 rounded-lg border border-green-500/50 bg-green-500/5">
-                  <CheckCircle className="h-4 w-4 text-green-600" />
+                <div className={cn(
+                  "flex items-center gap-2 p-3 rounded-lg border",
+                  failed ? "border-red-500/50 bg-red-500/5" : confirmed ? "border-green-500/50 bg-green-500/5" : "border-yellow-500/50 bg-yellow-500/5"
+                )}>
+                  {failed
+                    ? <XCircle className="h-4 w-4 text-red-600" />
+                    : confirmed
+                      ? <CheckCircle className="h-4 w-4 text-green-600" />
+                      : <Loader2 className="h-4 w-4 text-yellow-600 animate-spin" />}
                   <div>
-                    <p className="text-sm font-medium">Deployment Submitted</p>
-                    <p className="text-xs text-muted-foreground mt-0.5">Transaction broadcast to Stacks testnet</p>
+                    <p className="text-sm font-medium">
+                      {confirmed ? 'Contract Deployed' : failed ? 'Deployment Failed' : 'Deployment Submitted'}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {confirmed && `Confirmed in block ${settlement.blockHeight ?? '?'}`}
+                      {failed && (settlement.vmError || settlement.result?.repr || `Transaction ${settlement.apiStatus ?? settlement.status}`)}
+                      {settlement?.status === 'timeout' && 'Not confirmed yet — check the explorer'}
+                      {!settlement && (phase === 'microblock'
+                        ? 'In a microblock, waiting for the anchor block'
+                        : phase === 'anchored'
+                          ? 'Anchored, reading the result'
+                          : `Transaction broadcast to ${network.name}, waiting for the next block`)}
+                    </p>
                   </div>
                 </div>
 
@@ -218,7 +332,7 @@ export function DeployDialog({
                           : <Copy className="h-3.5 w-3.5" />}
                       </Button>
                       <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0"
-                        onClick={() => window.open(`https://explorer.hiro.so/address/${deployResult.contractAddress}?chain=testnet`, '_blank')}>
+                        onClick={() => window.open(getExplorerAccountUrl(deployResult.contractAddress, network), '_blank')}>
                         <ExternalLink className="h-3.5 w-3.5" />
                       </Button>
                     </div>
@@ -237,7 +351,7 @@ export function DeployDialog({
                           : <Copy className="h-3.5 w-3.5" />}
                       </Button>
                       <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0"
-                        onClick={() => window.open(deployResult.explorerUrl || getExplorerTxUrl(deployResult.txId), '_blank')}>
+                        onClick={() => window.open(deployResult.explorerUrl || getExplorerTxUrl(deployResult.txId, network), '_blank')}>
                         <ExternalLink className="h-3.5 w-3.5" />
                       </Button>
                     </div>
@@ -22,8 +22,10 @@ interface FileTabsProps {
 function getFileIcon(name: string) {
   const ext = name.split('.').pop()?.toLowerCase();
   switch (ext) {
-    case 'rs':
-      return <FileCode className="h-3.5 w-3.5 text-orange-500" />;
+    case 'clar':
+      return <FileCode className="h-3.5 w-3.5 text-primary" />;
+    case 'ts':
+      return <FileCode className="h-3.5 w-3.5 text-blue-500" />;
     case 'toml':
       return <Settings className="h-3.5 w-3.5 text-gray-500" />;
     case 'md':
@@ -67,6 +67,9 @@ interface FileExplorerProps {
   className?: string;
   selectedFile?: string | null;
   onOpenPackageManager?: () => void;
+  // Let open editor tabs follow renames and deletions made here
+  onPathRenamed?: (oldPath: string, newPath: string) => void;
+  onPathDeleted?: (path: string) => void;
 }
 
 export interface FileExplorerRef {
@@ -95,7 +98,8 @@ function getFileIcon(name: string, path: string, isDirectory: boolean, isExpande
 
   // Use specific icons based on file type
   switch (ext) {
-    case 'rs':
+    case 'clar':
+    case 'ts':
       return <FileCode className={`h-4 w-4 ${fileInfo.color}`} />;
     case 'toml':
       return <Settings className={`h-4 w-4 ${fileInfo.color}`} />;
@@ -113,9 +117,9 @@ function getFileIcon(name: string, path: string, isDirectory: boolean, isExpande
 }
 
 export const FileExplorer = forwardRef<FileExplorerRef, FileExplorerProps>(
-  ({ userId, projectId, projectName, onFileSelect, className, selectedFile, onOpenPackageManager }, ref) => {
+  ({ userId, projectId, projectName, onFileSelect, className, selectedFile, onOpenPackageManager, onPathRenamed, onPathDeleted }, ref) => {
     const [tree, setTree] = useState<FileNode | null>(null);
-    const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['', 'src']));
+    const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(['', 'contracts']));
     const [selectedPath, setSelectedPath] = useState<string | null>(selectedFile || null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -161,16 +165,16 @@ export const FileExplorer = forwardRef<FileExplorerRef, FileExplorerProps>(
         }
         setTree(treeData);
 
-        // Auto-expand root and src
+        // Auto-expand root and contracts
         setExpandedPaths(prev => {
           const newPaths = new Set(prev);
           newPaths.add('');
           if (treeData.children) {
-            const srcFolder = treeData.children.find(
-              child => child.name === 'src' && child.is_directory
+            const contractsFolder = treeData.children.find(
+              child => child.name === 'contracts' && child.is_directory
             );
-            if (srcFolder) {
-              newPaths.add(srcFolder.path);
+            if (contractsFolder) {
+              newPaths.add(contractsFolder.path);
             }
           }
           return newPaths;
@@ -268,6 +272,7 @@ export const FileExplorer = forwardRef<FileExplorerRef, FileExplorerProps>(
         if (dialogMode === 'rename') {
           const newPath = dialogPath.replace(/[^/]+$/, dialogValue);
           await renameFile(userId, projectId, dialogPath, newPath);
+          onPathRenamed?.(dialogPath, newPath);
           toast({ title: 'Renamed successfully' });
         } else if (dialogMode === 'file') {
           const newPath = dialogPath ? `${dialogPath}/${dialogValue}` : dialogValue;
@@ -296,6 +301,7 @@ export const FileExplorer = forwardRef<FileExplorerRef, FileExplorerProps>(
 
       try {
         await deleteFile(userId, projectId, deleteTarget.path);
+        onPathDeleted?.(deleteTarget.path);
         toast({ title: 'Deleted successfully' });
         setDeleteDialogOpen(false);
         setDeleteTarget(null);
@@ -702,7 +708,7 @@ export const FileExplorer = forwardRef<FileExplorerRef, FileExplorerProps>(
             <Input
               value={dialogValue}
               onChange={e => setDialogValue(e.target.value)}
-              placeholder={dialogMode === 'file' ? 'filename.rs' : 'folder-name'}
+              placeholder={dialogMode === 'file' ? 'contract.clar' : 'folder-name'}
               onKeyDown={e => e.key === 'Enter' && handleDialogSubmit()}
               autoFocus
             />
@@ -12,6 +12,9 @@ import {
   Wallet,
   Zap,
   Clock,
+  Loader2,
+  XCircle,
+  CircleSlash,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -22,7 +25,8 @@ import {
   TooltipProvider,
 } from '@/components/ui/tooltip';
 import { useToast } from '@/hooks/use-toast';
-import { DeploymentWithProject } from '@/lib/types';
+import { DeploymentStatus, DeploymentWithProject } from '@/lib/types';
+import { getExplorerAccountUrl, networkOfDeployment } from '@/lib/config';
 import { cn } from '@/lib/utils';
 
 interface DeploymentListProps {
@@ -33,6 +37,29 @@ interface DeploymentListProps {
 
 const ITEMS_PER_PAGE = 9;
 
+const STATUS_BADGES: Record<DeploymentStatus, { label: string; icon: typeof Clock; className: string }> = {
+  pending: {
+    label: 'Pending',
+    icon: Loader2,
+    className: 'bg-yellow-100 text-yellow-700 border-yellow-200 dark:bg-yellow-900/30 dark:text-yellow-300 dark:border-yellow-800',
+  },
+  confirmed: {
+    label: 'Confirmed',
+    icon: CheckCircle,
+    className: 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800',
+  },
+  failed: {
+    label: 'Failed',
+    icon: XCircle,
+    className: 'bg-red-100 text-red-700 border-red-200 dark:bg-red-900/30 dark:text-red-300 dark:border-red-800',
+  },
+  dropped: {
+    label: 'Dropped',
+    icon: CircleSlash,
+    className: 'bg-gray-100 text-gray-700 border-gray-200 dark:bg-gray-800 dark:text-gray-300 dark:border-gray-700',
+  },
+};
+
 export function DeploymentList({
   deployments,
   searchQuery,
@@ -84,7 +111,7 @@ export function DeploymentList({
   };
 
   const getExplorerUrl = (deployment: DeploymentWithProject) => {
-    return `https://explorer.hiro.so/address/${deployment.contract_address}?chain=testnet`;
+    return getExplorerAccountUrl(deployment.contract_address, networkOfDeployment(deployment));
   };
 
   const getWalletDisplay = (deployment: DeploymentWithProject) => {
@@ -146,19 +173,22 @@ export function DeploymentList({
         <table className="w-full border-collapse">
           <thead>
             <tr className="border-b bg-muted/50">
-              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[30%]">
+              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[28%]">
                 Contract
               </th>
-              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[18%]">
+              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[16%]">
                 Wallet
               </th>
-              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[14%]">
+              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[12%]">
                 Network
               </th>
-              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[18%]">
+              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[12%]">
+                Status
+              </th>
+              <th className="h-12 px-6 text-left text-xs font-medium text-muted-foreground w-[14%]">
                 Deployed
               </th>
-              <th className="h-12 px-6 text-right text-xs font-medium text-muted-foreground w-[20%]">
+              <th className="h-12 px-6 text-right text-xs font-medium text-muted-foreground w-[18%]">
                 Actions
               </th>
             </tr>
@@ -166,7 +196,8 @@ export function DeploymentList({
           <tbody className="divide-y">
             {paginatedDeployments.map((deployment) => {
               const wallet = getWalletDisplay(deployment);
-              const network = deployment.metadata?.network || 'testnet';
+              const network = networkOfDeployment(deployment);
+              const status = STATUS_BADGES[deployment.status ?? 'pending'];
 
               return (
                 <tr
@@ -245,13 +276,21 @@ export function DeploymentList({
                       variant="secondary"
                       className={cn(
                         'text-xs px-2 py-0.5 w-fit',
-                        network === 'mainnet'
+                        network.isMainnet
                           ? 'bg-green-100 text-green-700 border-green-200 dark:bg-green-900/30 dark:text-green-300 dark:border-green-800'
                           : 'bg-blue-100 text-blue-700 border-blue-200 dark:bg-blue-900/30 dark:text-blue-300 dark:border-blue-800'
                       )}
                     >
                       <Globe className="h-3 w-3 mr-1" />
-                      {network === 'mainnet' ? 'Mainnet' : 'Testnet'}
+                      <span className="capitalize">{network.network}</span>
+                    </Badge>
+                  </td>
+
+                  {/* Status */}
+                  <td className="py-4 px-6">
+                    <Badge variant="secondary" className={cn('text-xs px-2 py-0.5 w-fit', status.className)}>
+                      <status.icon className={cn('h-3 w-3 mr-1', deployment.status === 'pending' && 'animate-spin')} />
+                      {status.label}
                     </Badge>
                   </td>
 
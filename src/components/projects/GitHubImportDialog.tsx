@@ -12,6 +12,8 @@ import {
   Code2,
   FileCode,
   ArrowRight,
+  FlaskConical,
+  Rocket,
 } from 'lucide-react';
 import {
   Dialog,
@@ -23,6 +25,8 @@ import {
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
   Form,
   FormControl,
@@ -33,18 +37,41 @@ import {
   FormDescription,
 } from '@/components/ui/form';
 import { useToast } from '@/hooks/use-toast';
-import {
-  validateGitHubUrl,
-  parseGitHubUrl,
-  checkGitHubRepository,
-  validateNearProject,
-  suggestProjectName,
-  importGitHubRepository,
-  type RepoInfo,
-} from '@/lib/github';
+import { validateGitHubUrl } from '@/lib/github';
+import { importGitHubProject, inspectGitHubProject } from '@/lib/api';
+import type { GitHubContract, GitHubProject } from '@/lib/types';
 
 type ImportState = 'initial' | 'validating' | 'validated' | 'importing' | 'success' | 'error';
 
+// `names` and every contract they depend on, directly or not
+function withDependencies(contracts: GitHubContract[], names: Iterable<string>): Set<string> {
+  const byName = new Map(contracts.map(contract => [contract.name, contract]));
+  const result = new Set<string>();
+  const visit = (name: string) => {
+    if (result.has(name)) return;
+    result.add(name);
+    byName.get(name)?.dependencies.forEach(visit);
+  };
+  [...names].forEach(visit);
+  return result;
+}
+
+// `names` and every contract that depends on them, directly or not
+function withDependents(contracts: GitHubContract[], names: Iterable<string>): Set<string> {
+  const result = new Set(names);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    for (const contract of contracts) {
+      if (!result.has(contract.name) && contract.dependencies.some(dep => result.has(dep))) {
+        result.add(contract.name);
+        grew = true;
+      }
+    }
+  }
+  return result;
+}
+
 const urlFormSchema = z.object({
   url: z.string().min(1, 'GitHub URL is required').refine(validateGitHubUrl, {
     message: 'Please enter a valid GitHub repository URL',
@@ -52,11 +79,7 @@ const urlFormSchema = z.object({
 });
 
 const projectFormSchema = z.object({
-  name: z
-    .string()
-    .min(1, 'Project name is required')
-    .max(50)
-    .regex(/^[a-z0-9-]+$/, 'Only lowercase letters, numbers, and hyphens are allowed'),
+  name: z.string().trim().min(1, 'Project name is required').max(100),
   description: z.string().max(200).optional(),
 });
 
@@ -70,10 +93,11 @@ interface GitHubImportDialogProps {
 
 export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUrl }: GitHubImportDialogProps) {
   const [importState, setImportState] = useState<ImportState>('initial');
-  const [repoInfo, setRepoInfo] = useState<RepoInfo | null>(null);
-  const [parsedUrl, setParsedUrl] = useState<{ owner: string; repo: string; url: string } | null>(null);
+  const [repoInfo, setRepoInfo] = useState<GitHubProject | null>(null);
+  const [repoUrl, setRepoUrl] = useState('');
+  const [selectedContracts, setSelectedContracts] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
-  const [filesCount, setFilesCount] = useState<number>(0);
+  const [importedName, setImportedName] = useState('');
   const { toast } = useToast();
 
   const urlForm = useForm<z.infer<typeof urlFormSchema>>({
@@ -91,9 +115,10 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
     if (!open) {
       setImportState('initial');
       setRepoInfo(null);
-      setParsedUrl(null);
+      setRepoUrl('');
+      setSelectedContracts(new Set());
       setError(null);
-      setFilesCount(0);
+      setImportedName('');
       urlForm.reset();
       projectForm.reset();
     } else if (initialUrl) {
@@ -106,41 +131,24 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
     }
   }, [open, urlForm, projectForm, initialUrl]);
 
-  // Auto-fill project form when repo is validated
+  // Auto-fill project form from Clarinet.toml when the repo is inspected
   useEffect(() => {
-    if (repoInfo && parsedUrl) {
-      projectForm.setValue('name', suggestProjectName(parsedUrl.repo, parsedUrl.path));
+    if (repoInfo) {
+      projectForm.setValue('name', repoInfo.name);
       projectForm.setValue('description', repoInfo.description || '');
     }
-  }, [repoInfo, parsedUrl, projectForm]);
+  }, [repoInfo, projectForm]);
 
   const handleValidateUrl = async (data: z.infer<typeof urlFormSchema>) => {
     setError(null);
     setImportState('validating');
 
     try {
-      const parsed = parseGitHubUrl(data.url);
-      if (!parsed) {
-        throw new Error('Invalid GitHub URL format');
-      }
-      setParsedUrl(parsed);
-
-      // Check if repo exists
-      const info = await checkGitHubRepository(parsed.owner, parsed.repo);
-      if (!info.exists) {
-        throw new Error('Repository not found. Make sure the URL is correct and the repository is public.');
-      }
-      if (!info.isPublic) {
-        throw new Error('Repository is private. Only public repositories can be imported.');
-      }
-
-      // Validate it's a NEAR project (check subdirectory if path is specified)
-      const validation = await validateNearProject(parsed.owner, parsed.repo, parsed.branch, parsed.path);
-      if (!validation.isValid) {
-        throw new Error(validation.reason || 'Not a valid NEAR project');
-      }
-
-      setRepoInfo(info);
+      const project = await inspectGitHubProject(data.url.trim());
+      setRepoUrl(data.url.trim());
+      // Everything is imported unless the user unticks some contracts
+      setSelectedContracts(new Set(project.contracts.map(contract => contract.name)));
+      setRepoInfo(project);
       setImportState('validated');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to validate repository');
@@ -148,37 +156,43 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
     }
   };
 
+  const handleToggleContract = (name: string, checked: boolean) => {
+    if (!repoInfo) return;
+    const next = new Set(selectedContracts);
+    if (checked) {
+      // A contract can't be deployed without the contracts it calls
+      withDependencies(repoInfo.contracts, [name]).forEach(dep => next.add(dep));
+    } else {
+      withDependents(repoInfo.contracts, [name]).forEach(dependent => next.delete(dependent));
+    }
+    setSelectedContracts(next);
+  };
+
   const handleImport = async (data: z.infer<typeof projectFormSchema>) => {
-    if (!parsedUrl) return;
+    if (!repoInfo) return;
 
     setError(null);
     setImportState('importing');
 
     try {
-      const result = await importGitHubRepository(
-        parsedUrl.url,
-        data.name,
-        data.description || '',
-        userId,
-        parsedUrl.branch,
-        parsedUrl.path
-      );
-
-      if (!result.success || !result.projectId) {
-        throw new Error(result.error || 'Failed to import repository');
-      }
+      const allSelected = selectedContracts.size === repoInfo.contracts.length;
+      const result = await importGitHubProject(userId, repoUrl, {
+        contracts: allSelected ? undefined : [...selectedContracts],
+        name: data.name,
+        description: data.description || undefined,
+      });
 
-      setFilesCount(result.filesCount || 0);
+      setImportedName(result.name);
       setImportState('success');
 
       toast({
         title: 'Import Successful',
-        description: `Imported ${result.filesCount || 0} files from GitHub`,
+        description: `Imported ${result.name} from GitHub`,
       });
 
       // Navigate to the new project after a short delay
       setTimeout(() => {
-        onSuccess(result.projectId!);
+        onSuccess(result.projectId);
       }, 1500);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to import repository');
@@ -189,14 +203,14 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
   const handleBack = () => {
     setImportState('initial');
     setRepoInfo(null);
-    setParsedUrl(null);
+    setSelectedContracts(new Set());
     setError(null);
     projectForm.reset();
   };
 
   return (
     <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
-      <DialogContent className="sm:max-w-[550px]">
+      <DialogContent className="sm:max-w-[550px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <div className="flex items-center gap-4 mb-4">
             <div className="p-3 rounded-lg bg-primary/10">
@@ -205,7 +219,7 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
             <div>
               <DialogTitle className="text-2xl">Import from GitHub</DialogTitle>
               <DialogDescription className="mt-1.5">
-                Clone a NEAR smart contract repository
+                Open a Clarinet project from a public repository
               </DialogDescription>
             </div>
           </div>
@@ -223,7 +237,7 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
                   <div>
                     <div className="font-medium">GitHub Repository</div>
                     <div className="text-sm text-muted-foreground">
-                      Enter the URL of a public NEAR smart contract repository
+                      Enter the URL of a public Clarinet project, or a folder of one
                     </div>
                   </div>
                 </div>
@@ -246,7 +260,7 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
                         />
                       </FormControl>
                       <FormDescription>
-                        Supports HTTPS and SSH URL formats
+                        Supports HTTPS and SSH URL formats, and /tree/&lt;branch&gt;/&lt;folder&gt; links
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -273,7 +287,7 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
                   </li>
                   <li className="flex items-center gap-2">
                     <ArrowRight className="h-3.5 w-3.5" />
-                    Must contain Cargo.toml with NEAR SDK dependency
+                    Must contain a Clarinet.toml at the root, or in the folder the URL points to
                   </li>
                 </ul>
               </div>
@@ -308,26 +322,79 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
               <div className="p-4 border rounded-lg bg-green-500/5 border-green-500/20">
                 <div className="flex items-center gap-2 text-sm text-green-600 mb-2">
                   <CheckCircle className="h-4 w-4" />
-                  <span className="font-medium">Valid NEAR Project</span>
+                  <span className="font-medium">Clarinet Project Found</span>
                 </div>
                 <div className="flex items-center gap-2">
                   <Github className="h-4 w-4 text-muted-foreground" />
                   <a
-                    href={parsedUrl?.url}
+                    href={repoInfo.url}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-sm text-primary hover:underline font-mono"
                   >
-                    {parsedUrl?.owner}/{parsedUrl?.repo}
+                    {repoInfo.owner}/{repoInfo.repo}
                   </a>
+                  <span className="text-xs bg-muted px-1.5 py-0.5 rounded">
+                    {repoInfo.ref}
+                  </span>
                 </div>
-                {parsedUrl?.path && (
+                {repoInfo.path && (
                   <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground">
                     <FileCode className="h-4 w-4" />
-                    <span className="font-mono">/{parsedUrl.path}</span>
-                    {parsedUrl.branch && (
-                      <span className="text-xs bg-muted px-1.5 py-0.5 rounded">
-                        {parsedUrl.branch}
+                    <span className="font-mono">/{repoInfo.path}</span>
+                  </div>
+                )}
+              </div>
+
+              {/* Contracts from Clarinet.toml */}
+              <div className="p-6 border rounded-lg bg-muted/5">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="font-medium">Contracts</div>
+                  <div className="text-sm text-muted-foreground">
+                    {selectedContracts.size} of {repoInfo.contracts.length} selected
+                  </div>
+                </div>
+                {repoInfo.contracts.length === 0 ? (
+                  <div className="text-sm text-muted-foreground">Clarinet.toml declares no contracts</div>
+                ) : (
+                  <div className="space-y-2 max-h-48 overflow-y-auto pr-1">
+                    {repoInfo.contracts.map(contract => (
+                      <label key={contract.name} className="flex items-start gap-3 cursor-pointer">
+                        <Checkbox
+                          className="mt-0.5"
+                          checked={selectedContracts.has(contract.name)}
+                          onCheckedChange={(checked) => handleToggleContract(contract.name, checked === true)}
+                          disabled={importState === 'importing'}
+                        />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono text-sm truncate">{contract.name}</span>
+                            <Badge variant="secondary" className="text-xs">Clarity {contract.clarityVersion}</Badge>
+                          </div>
+                          {contract.dependencies.length > 0 && (
+                            <div className="text-xs text-muted-foreground truncate">
+                              Uses {contract.dependencies.join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {(repoInfo.hasTests || repoInfo.hasDeployments) && (
+                  <div className="flex items-center gap-4 mt-4 text-xs text-muted-foreground">
+                    {repoInfo.hasTests && (
+                      <span className="flex items-center gap-1">
+                        <FlaskConical className="h-3.5 w-3.5" />
+                        tests/ included
+                      </span>
+                    )}
+                    {repoInfo.hasDeployments && (
+                      <span className="flex items-center gap-1">
+                        <Rocket className="h-3.5 w-3.5" />
+                        {selectedContracts.size === repoInfo.contracts.length
+                          ? 'deployments/ included'
+                          : 'Simnet plan regenerated for the selection'}
                       </span>
                     )}
                   </div>
@@ -365,9 +432,6 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
                             className="font-mono"
                           />
                         </FormControl>
-                        <FormDescription>
-                          Only lowercase letters, numbers, and hyphens
-                        </FormDescription>
                         <FormMessage />
                       </FormItem>
                     )}
@@ -412,7 +476,11 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
                   <Button type="button" variant="outline" onClick={onClose} disabled={importState === 'importing'}>
                     Cancel
                   </Button>
-                  <Button type="submit" disabled={importState === 'importing'} className="gap-2">
+                  <Button
+                    type="submit"
+                    disabled={importState === 'importing' || (repoInfo.contracts.length > 0 && selectedContracts.size === 0)}
+                    className="gap-2"
+                  >
                     {importState === 'importing' ? (
                       <>
                         <Loader2 className="h-4 w-4 animate-spin" />
@@ -442,7 +510,7 @@ export function GitHubImportDialog({ open, onClose, onSuccess, userId, initialUr
             </div>
             <h3 className="text-xl font-semibold mb-2">Import Successful!</h3>
             <p className="text-muted-foreground mb-4">
-              Imported {filesCount} files from GitHub
+              Imported {importedName} from GitHub
             </p>
             <p className="text-sm text-muted-foreground">
               Redirecting to your project...
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import { FileSearch } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { principalError } from '@/lib/clarityArgs';
+
+interface OpenContractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called with the contract id the user entered, e.g. SP....name
+  onOpenContract: (contractId: string) => void;
+}
+
+export function OpenContractDialog({ open, onOpenChange, onOpenContract }: OpenContractDialogProps) {
+  const [contractId, setContractId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setContractId('');
+    setError(null);
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = contractId.trim().replace(/^'/, '');
+    const problem = principalError(id) ?? (id.includes('.') ? undefined : 'Add the contract name after the address, e.g. SP....my-contract');
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onOpenContract(id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <FileSearch className="h-4 w-4" />
+              Open Contract
+            </DialogTitle>
+            <DialogDescription>
+              Read a deployed contract's source and call its functions. SP and SM contracts are read from mainnet, ST
+              and SN ones from testnet unless a devnet or custom network is selected. You can fork it into a project
+              from there.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Input
+              value={contractId}
+              onChange={(e) => { setContractId(e.target.value); setError(null); }}
+              placeholder="SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.nft-trait"
+              className="font-mono text-xs"
+              autoFocus
+            />
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!contractId.trim()}>
+              Open
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
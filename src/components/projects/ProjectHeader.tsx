@@ -1,12 +1,34 @@
-import { ArrowUpRight, Blocks } from 'lucide-react';
+import { useRef } from 'react';
+import { ArrowUpRight, Blocks, FileSearch, Github, Loader2, Upload } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 
 interface ProjectHeaderProps {
   onNewProject: () => void;
+  // Called with a Clarinet project zip the user picked
+  onImportProject: (file: File) => void;
+  onImportFromGitHub: () => void;
+  // Opens a deployed contract by its principal
+  onOpenContract: () => void;
+  isImporting?: boolean;
 }
 
-export function ProjectHeader({ onNewProject }: ProjectHeaderProps) {
+export function ProjectHeader({
+  onNewProject,
+  onImportProject,
+  onImportFromGitHub,
+  onOpenContract,
+  isImporting = false,
+}: ProjectHeaderProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same zip again still fires a change
+    e.target.value = '';
+    if (file) onImportProject(file);
+  };
+
   return (
     <div className="flex items-center justify-between">
       <div className="space-y-4">
@@ -26,6 +48,31 @@ export function ProjectHeader({ onNewProject }: ProjectHeaderProps) {
         </div>
       </div>
       <div className="flex items-center gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+          className="gap-2"
+          title="Create a project from a Clarinet project zip"
+        >
+          {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Import ZIP
+        </Button>
+        <Button variant="outline" onClick={onImportFromGitHub} className="gap-2">
+          <Github className="h-4 w-4" />
+          Import from GitHub
+        </Button>
+        <Button variant="outline" onClick={onOpenContract} className="gap-2" title="Open a deployed contract read-only">
+          <FileSearch className="h-4 w-4" />
+          Open Contract
+        </Button>
         <Button onClick={onNewProject} className="gap-2">
           <ArrowUpRight className="h-4 w-4" />
           New Project
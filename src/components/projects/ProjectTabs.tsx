@@ -46,7 +46,7 @@ const DEPLOYMENT_SORT_OPTIONS: SortOption[] = [
   { label: 'Network (Z-A)', value: 'network_desc' },
 ];
 
-export type NetworkFilter = 'all' | 'testnet' | 'mainnet';
+export type NetworkFilter = 'all' | 'testnet' | 'mainnet' | 'devnet' | 'custom';
 export type WalletFilter = 'all' | 'playground' | 'external';
 
 interface ProjectTabsProps {
@@ -147,6 +147,8 @@ export function ProjectTabs({
                   <SelectItem value="all">All Networks</SelectItem>
                   <SelectItem value="testnet">Testnet</SelectItem>
                   <SelectItem value="mainnet">Mainnet</SelectItem>
+                  <SelectItem value="devnet">Devnet</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
                 </SelectContent>
               </Select>
 
@@ -0,0 +1,391 @@
+import { useEffect, useState } from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import {
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  GitBranch,
+  Github,
+  Loader2,
+  LogOut,
+  Upload,
+} from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import {
+  ApiError,
+  disconnectGitHub,
+  getGitHubConnection,
+  previewGitHubPublish,
+  publishToGitHub,
+  saveGitHubConnection,
+} from '@/lib/api';
+import { connectGitHubForPublishing, takeGitHubProviderToken } from '@/lib/auth';
+import { getLanguageFromPath, Project, PublishChange, PublishPreview, PublishResult } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+interface PublishToGitHubDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  project: Project;
+  // Called after a push, with the repository ('owner/name') and branch it went to
+  onPublished?: (repo: string, branch: string) => void;
+}
+
+const STATUS_STYLES: Record<PublishChange['status'], { label: string; className: string }> = {
+  added: { label: 'A', className: 'text-green-600' },
+  modified: { label: 'M', className: 'text-yellow-600' },
+  deleted: { label: 'D', className: 'text-red-500' },
+};
+
+function repoSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '') || 'clarity-project';
+}
+
+// The editor URL to come back to from GitHub, reopening this dialog
+function returnUrl(): string {
+  const url = new URL(window.location.href);
+  url.searchParams.set('publish', 'github');
+  return url.toString();
+}
+
+export function PublishToGitHubDialog({ open, onOpenChange, userId, project, onPublished }: PublishToGitHubDialogProps) {
+  // undefined while loading, null when no account is connected
+  const [login, setLogin] = useState<string | null | undefined>(undefined);
+  const [repo, setRepo] = useState('');
+  const [branch, setBranch] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [message, setMessage] = useState('');
+  const [preview, setPreview] = useState<PublishPreview | null>(null);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [isLoadingPreview, setIsLoadingPreview] = useState(false);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [result, setResult] = useState<PublishResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { theme, systemTheme } = useTheme();
+  const { toast } = useToast();
+
+  const effectiveTheme = theme === 'system' ? systemTheme : theme;
+
+  // Pick up the token from a GitHub redirect, then load the connected account
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+
+    setLogin(undefined);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    (async () => {
+      try {
+        const token = await takeGitHubProviderToken();
+        if (token) await saveGitHubConnection(userId, token);
+        const connection = await getGitHubConnection(userId);
+        if (cancelled) return;
+        setLogin(connection.login);
+        if (connection.login) {
+          setRepo(project.github_repo ?? `${connection.login}/${repoSlug(project.name)}`);
+          setBranch(project.github_branch ?? 'main');
+          setMessage(project.github_repo ? 'Update from Clarity Studio' : 'Publish from Clarity Studio');
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setLogin(null);
+        setError(err instanceof Error ? err.message : 'Failed to load your GitHub account');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, userId]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleConnect = async () => {
+    try {
+      await connectGitHubForPublishing(returnUrl());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to connect GitHub');
+    }
+  };
+
+  const handleDisconnect = async () => {
+    try {
+      await disconnectGitHub(userId);
+      setLogin(null);
+      setPreview(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to disconnect GitHub');
+    }
+  };
+
+  const handlePreview = async () => {
+    setError(null);
+    setResult(null);
+    setIsLoadingPreview(true);
+    try {
+      const next = await previewGitHubPublish(userId, project.id, { repo, branch });
+      setPreview(next);
+      setSelectedPath(next.changes[0]?.path ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare with GitHub');
+    } finally {
+      setIsLoadingPreview(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    if (!preview) return;
+    setError(null);
+    setIsPublishing(true);
+    try {
+      const published = await publishToGitHub(userId, project.id, {
+        repo,
+        branch,
+        message,
+        isPrivate,
+        head: preview.head,
+        digest: preview.digest,
+      });
+      setResult(published);
+      onPublished?.(`${preview.owner}/${preview.repo}`, published.branch);
+      toast({
+        title: 'Published to GitHub',
+        description: published.changed > 0
+          ? `Pushed ${published.changed} file${published.changed === 1 ? '' : 's'} to ${preview.owner}/${preview.repo}`
+          : `${preview.owner}/${preview.repo} is already up to date`,
+      });
+    } catch (err) {
+      // The branch or the project changed since the preview: show what would change now
+      if (err instanceof ApiError && err.status === 409) {
+        setPreview(null);
+      }
+      setError(err instanceof Error ? err.message : 'Failed to publish');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const selectedChange = preview?.changes.find(change => change.path === selectedPath);
+  const isBusy = isLoadingPreview || isPublishing;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[960px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center gap-4">
+            <div className="p-3 rounded-lg bg-primary/10">
+              <Github className="h-5 w-5 text-primary" />
+            </div>
+            <div>
+              <DialogTitle className="text-2xl">Publish to GitHub</DialogTitle>
+              <DialogDescription className="mt-1.5">
+                Push the contracts, Clarinet.toml, tests and a README to a repository
+              </DialogDescription>
+            </div>
+          </div>
+        </DialogHeader>
+
+        {login === undefined && (
+          <div className="flex items-center justify-center gap-2 py-10 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading your GitHub account...
+          </div>
+        )}
+
+        {/* Not connected */}
+        {login === null && (
+          <div className="p-6 border rounded-lg bg-muted/5 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Publishing commits with your own GitHub account. Connect it and grant access to your repositories;
+              you'll come back here afterwards.
+            </p>
+            <Button onClick={handleConnect} className="gap-2">
+              <Github className="h-4 w-4" />
+              Connect GitHub
+            </Button>
+          </div>
+        )}
+
+        {login && (
+          <div className="space-y-4">
+            {/* Target */}
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">
+                Committing as <span className="font-mono text-foreground">{login}</span>
+              </span>
+              <Button variant="ghost" size="sm" className="h-7 gap-1.5" onClick={handleDisconnect} disabled={isBusy}>
+                <LogOut className="h-3.5 w-3.5" />
+                Disconnect
+              </Button>
+            </div>
+            <div className="grid grid-cols-[1fr_200px] gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="publish-repo">Repository</Label>
+                <Input
+                  id="publish-repo"
+                  value={repo}
+                  onChange={(e) => { setRepo(e.target.value); setPreview(null); }}
+                  placeholder="owner/name"
+                  className="font-mono"
+                  disabled={isBusy}
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label htmlFor="publish-branch">Branch</Label>
+                <Input
+                  id="publish-branch"
+                  value={branch}
+                  onChange={(e) => { setBranch(e.target.value); setPreview(null); }}
+                  className="font-mono"
+                  disabled={isBusy}
+                />
+              </div>
+            </div>
+            {!preview && (
+              <div className="flex justify-end">
+                <Button onClick={handlePreview} disabled={isBusy || !repo.trim() || !branch.trim()} className="gap-2">
+                  {isLoadingPreview ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitBranch className="h-4 w-4" />}
+                  Review Changes
+                </Button>
+              </div>
+            )}
+
+            {/* Diff */}
+            {preview && (
+              <div className="space-y-4">
+                <div className="text-sm text-muted-foreground">
+                  {!preview.repoExists
+                    ? `${preview.owner}/${preview.repo} will be created.`
+                    : !preview.branchExists
+                      ? `Branch ${preview.branch} will be created from the default branch.`
+                      : `Compared with ${preview.owner}/${preview.repo}@${preview.branch}.`}
+                  {' '}
+                  {preview.changes.length === 0
+                    ? 'Nothing has changed.'
+                    : `${preview.changes.length} file${preview.changes.length === 1 ? '' : 's'} will be committed.`}
+                </div>
+
+                {preview.changes.length > 0 && (
+                  <div className="grid grid-cols-[240px_1fr] gap-3 h-[360px]">
+                    <ScrollArea className="border rounded-md">
+                      <div className="p-1">
+                        {preview.changes.map(change => (
+                          <button
+                            key={change.path}
+                            type="button"
+                            onClick={() => setSelectedPath(change.path)}
+                            className={cn(
+                              'w-full flex items-center gap-2 px-2 py-1 rounded text-left text-xs font-mono',
+                              change.path === selectedPath ? 'bg-muted' : 'hover:bg-muted/60'
+                            )}
+                          >
+                            <span className={cn('w-3 font-semibold', STATUS_STYLES[change.status].className)}>
+                              {STATUS_STYLES[change.status].label}
+                            </span>
+                            <span className="truncate">{change.path}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                    <div className="border rounded-md overflow-hidden">
+                      {selectedChange && (
+                        <DiffEditor
+                          original={selectedChange.before ?? ''}
+                          modified={selectedChange.after ?? ''}
+                          language={getLanguageFromPath(selectedChange.path)}
+                          theme={effectiveTheme === 'dark' ? 'clarity-dark' : 'clarity-light'}
+                          options={{
+                            readOnly: true,
+                            renderSideBySide: false,
+                            minimap: { enabled: false },
+                            scrollBeyondLastLine: false,
+                            fontSize: 12,
+                          }}
+                        />
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {!preview.repoExists && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="publish-private"
+                      checked={isPrivate}
+                      onCheckedChange={(checked) => setIsPrivate(checked === true)}
+                      disabled={isBusy}
+                    />
+                    <Label htmlFor="publish-private" className="text-sm font-normal">Create as a private repository</Label>
+                  </div>
+                )}
+
+                {preview.changes.length > 0 && !result && (
+                  <div className="space-y-1.5">
+                    <Label htmlFor="publish-message">Commit message</Label>
+                    <Input
+                      id="publish-message"
+                      value={message}
+                      onChange={(e) => setMessage(e.target.value)}
+                      disabled={isBusy}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <Alert>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <AlertDescription className="flex items-center gap-2">
+              {result.changed > 0 ? `Pushed ${result.changed} file${result.changed === 1 ? '' : 's'} to ${result.branch}.` : 'Already up to date.'}
+              <a
+                href={result.commitUrl ?? result.repoUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-primary hover:underline"
+              >
+                {result.commitUrl ? 'View commit' : 'View repository'}
+                <ExternalLink className="h-3.5 w-3.5" />
+              </a>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isPublishing}>
+            {result ? 'Close' : 'Cancel'}
+          </Button>
+          {preview && !result && (preview.changes.length > 0 || !preview.repoExists) && (
+            <Button onClick={handlePublish} disabled={isBusy || !message.trim()} className="gap-2">
+              {isPublishing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+              {preview.repoExists ? `Push ${preview.changes.length} File${preview.changes.length === 1 ? '' : 's'}` : 'Create and Push'}
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,264 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Boxes, Loader2, Plus, Search, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { addRequirement, lookupRequirement, removeRequirement } from '@/lib/api';
+import { ProjectRequirement, RequirementFunction, RequirementLookup } from '@/lib/types';
+
+interface RequirementsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+  projectId: string;
+  requirements: ProjectRequirement[];
+  // Called with the project's requirements after one is added or removed
+  onRequirementsChange: (requirements: ProjectRequirement[]) => void;
+}
+
+function FunctionList({ functions }: { functions: RequirementFunction[] }) {
+  if (functions.length === 0) {
+    return <p className="text-xs text-muted-foreground">No public or read-only functions</p>;
+  }
+  return (
+    <ul className="space-y-1">
+      {functions.map(fn => (
+        <li key={fn.name} className="font-mono text-xs break-all">
+          <span className="text-muted-foreground">{fn.access === 'public' ? 'public' : 'read-only'} </span>
+          <span className="font-medium">{fn.name}</span>
+          {fn.args.map(arg => ` (${arg.name} ${arg.type})`).join('')}
+          <span className="text-muted-foreground"> → {fn.returns}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function RequirementsDialog({
+  open,
+  onOpenChange,
+  userId,
+  projectId,
+  requirements,
+  onRequirementsChange,
+}: RequirementsDialogProps) {
+  const [contractId, setContractId] = useState('');
+  const [lookup, setLookup] = useState<RequirementLookup | null>(null);
+  const [isLookingUp, setIsLookingUp] = useState(false);
+  const [isAdding, setIsAdding] = useState(false);
+  const [removing, setRemoving] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { stacksNetwork } = useWallet();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setContractId('');
+    setLookup(null);
+    setExpanded(null);
+    setError(null);
+  }, [open]);
+
+  const handleLookup = async (id = contractId.trim()) => {
+    if (!id) return;
+    setContractId(id);
+    setIsLookingUp(true);
+    setLookup(null);
+    setError(null);
+    try {
+      setLookup(await lookupRequirement(userId, projectId, id, stacksNetwork));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up the contract');
+    } finally {
+      setIsLookingUp(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!lookup) return;
+    setIsAdding(true);
+    setError(null);
+    try {
+      onRequirementsChange(await addRequirement(userId, projectId, lookup.contractId, stacksNetwork));
+      toast({ title: 'Requirement added', description: lookup.contractId });
+      setContractId('');
+      setLookup(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add the requirement');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setRemoving(id);
+    setError(null);
+    try {
+      onRequirementsChange(await removeRequirement(userId, projectId, id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove the requirement');
+    } finally {
+      setRemoving(null);
+    }
+  };
+
+  const alreadyAdded = lookup !== null && requirements.some(r => r.contractId === lookup.contractId && r.required && r.cached);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[85vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Boxes className="h-4 w-4" />
+            Requirements
+          </DialogTitle>
+          <DialogDescription>
+            Deployed contracts your contracts call. Their sources are cached in the project, so they are checked,
+            simulated and completed like your own, and deploys point at their testnet or devnet copies.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => { e.preventDefault(); handleLookup(); }}
+        >
+          <Input
+            value={contractId}
+            onChange={(e) => setContractId(e.target.value)}
+            placeholder="SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard"
+            className="font-mono text-xs"
+            disabled={isLookingUp || isAdding}
+          />
+          <Button type="submit" variant="outline" className="gap-2" disabled={!contractId.trim() || isLookingUp || isAdding}>
+            {isLookingUp ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            Look Up
+          </Button>
+        </form>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <ScrollArea className="flex-1 max-h-[calc(85vh-220px)]">
+          <div className="space-y-4 pr-1">
+            {lookup && (
+              <div className="rounded-md border p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="font-mono text-sm break-all">{lookup.contractId}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {lookup.network} · block {lookup.publishHeight} · Clarity {lookup.clarityVersion}
+                    </div>
+                  </div>
+                  <Button size="sm" className="gap-2 flex-none" onClick={handleAdd} disabled={isAdding || alreadyAdded}>
+                    {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+                    {alreadyAdded ? 'Added' : 'Add'}
+                  </Button>
+                </div>
+                {lookup.dependencies.length > 0 && (
+                  <div className="text-xs text-muted-foreground break-all">
+                    Also fetches: {lookup.dependencies.join(', ')}
+                  </div>
+                )}
+                <FunctionList functions={lookup.functions} />
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="text-sm font-medium">In this project</div>
+              {requirements.length === 0 ? (
+                <p className="text-xs text-muted-foreground">No requirements yet. Look up a contract by its principal to add one.</p>
+              ) : (
+                requirements.map(requirement => (
+                  <div key={requirement.contractId} className="rounded-md border p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <button
+                        type="button"
+                        className="min-w-0 text-left"
+                        onClick={() => setExpanded(expanded === requirement.contractId ? null : requirement.contractId)}
+                      >
+                        <div className="font-mono text-sm break-all">{requirement.contractId}</div>
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          <Badge variant="outline" className="text-[10px]">
+                            {requirement.required ? 'Required' : requirement.builtin ? 'Built-in' : 'Dependency'}
+                          </Badge>
+                          {requirement.cached || requirement.builtin ? (
+                            requirement.clarityVersion && (
+                              <Badge variant="outline" className="text-[10px]">Clarity {requirement.clarityVersion}</Badge>
+                            )
+                          ) : (
+                            <Badge variant="outline" className="text-[10px] text-yellow-600 border-yellow-600/30">
+                              Not fetched
+                            </Badge>
+                          )}
+                          <span className="text-[10px] text-muted-foreground">
+                            {requirement.functions.length} function{requirement.functions.length === 1 ? '' : 's'}
+                          </span>
+                        </div>
+                      </button>
+                      <div className="flex gap-1 flex-none">
+                        {!requirement.cached && !requirement.builtin && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleLookup(requirement.contractId)}
+                            disabled={isLookingUp || isAdding}
+                          >
+                            Fetch
+                          </Button>
+                        )}
+                        {requirement.required && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            title="Remove requirement"
+                            onClick={() => handleRemove(requirement.contractId)}
+                            disabled={removing !== null}
+                          >
+                            {removing === requirement.contractId
+                              ? <Loader2 className="h-4 w-4 animate-spin" />
+                              : <Trash2 className="h-4 w-4" />}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    {expanded === requirement.contractId && (
+                      <div className="space-y-2">
+                        <div className="text-xs text-muted-foreground font-mono break-all">
+                          <div>simnet: {requirement.simnetId}</div>
+                          <div>testnet: {requirement.testnetId}</div>
+                        </div>
+                        {requirement.dependencies.length > 0 && (
+                          <div className="text-xs text-muted-foreground break-all">
+                            Refers to: {requirement.dependencies.join(', ')}
+                          </div>
+                        )}
+                        <FunctionList functions={requirement.functions} />
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+}
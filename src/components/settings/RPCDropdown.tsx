@@ -24,9 +24,15 @@ export function RPCDropdown({ onOpenSettings }: RPCDropdownProps) {
     setProvider,
   } = useRPC();
 
-  const { network } = useWallet();
+  // Devnets and custom networks talk to their own API, so there is nothing to pick
+  const { stacksNetwork } = useWallet();
+  if (stacksNetwork.network !== 'testnet' && stacksNetwork.network !== 'mainnet') {
+    return null;
+  }
+  const network = stacksNetwork.network;
 
   const currentProviderId = network === 'testnet' ? selectedTestnetProvider : selectedMainnetProvider;
+  const availableProviders = providers.filter(p => (network === 'testnet' ? p.testnetUrl : p.mainnetUrl));
   const currentProvider = providers.find(p => p.id === currentProviderId);
   const statusKey = `${currentProviderId}-${network}`;
   const status = connectionStatus[statusKey];
@@ -47,7 +53,7 @@ export function RPCDropdown({ onOpenSettings }: RPCDropdownProps) {
         >
           <Server className="h-4 w-4" />
           <span className="hidden sm:inline text-xs">
-            {currentProvider?.name || 'RPC'}
+            {currentProvider?.name || 'Stacks API'}
           </span>
           <div className={cn("h-2 w-2 rounded-full", getStatusColor())} />
           <ChevronDown className="h-3 w-3" />
@@ -57,12 +63,12 @@ export function RPCDropdown({ onOpenSettings }: RPCDropdownProps) {
       <DropdownMenuContent align="end" className="w-56">
         <div className="px-2 py-1.5">
           <p className="text-xs text-muted-foreground">
-            RPC Provider ({network})
+            Stacks API ({network})
           </p>
         </div>
         <DropdownMenuSeparator />
 
-        {providers.map((provider) => {
+        {availableProviders.map((provider) => {
           const isSelected = provider.id === currentProviderId;
           const providerStatusKey = `${provider.id}-${network}`;
           const providerStatus = connectionStatus[providerStatusKey];
@@ -107,7 +113,7 @@ export function RPCDropdown({ onOpenSettings }: RPCDropdownProps) {
             <DropdownMenuSeparator />
             <DropdownMenuItem onClick={onOpenSettings} className="gap-2">
               <Settings className="h-4 w-4" />
-              <span>RPC Settings</span>
+              <span>API Settings</span>
             </DropdownMenuItem>
           </>
         )}
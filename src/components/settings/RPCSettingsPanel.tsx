@@ -12,8 +12,8 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Loader2, Check, X, Trash2, Plus, Server } from 'lucide-react';
-import { useRPC, RPCProvider, ConnectionStatus } from '@/contexts/RPCContext';
-import { useWallet, Network } from '@/contexts/WalletContext';
+import { useRPC, RPCProvider, RPCNetwork, ConnectionStatus } from '@/contexts/RPCContext';
+import { useWallet } from '@/contexts/WalletContext';
 import { cn } from '@/lib/utils';
 
 interface RPCSettingsPanelProps {
@@ -46,12 +46,15 @@ function ConnectionStatusIndicator({
       <div className="flex items-center gap-1.5">
         <div className="h-2 w-2 rounded-full bg-green-500" />
         <span className="text-xs text-green-600">{status.latency}ms</span>
+        {status.blockHeight != null && (
+          <span className="text-xs text-muted-foreground">#{status.blockHeight}</span>
+        )}
       </div>
     );
   }
 
   return (
-    <div className="flex items-center gap-1.5">
+    <div className="flex items-center gap-1.5" title={status.error}>
       <div className="h-2 w-2 rounded-full bg-red-500" />
       <span className="text-xs text-red-500">Failed</span>
     </div>
@@ -70,11 +73,14 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
     removeCustomProvider,
     testConnection,
     testAllConnections,
+    testUrl,
   } = useRPC();
 
-  const { network } = useWallet();
+  // Providers serve mainnet and testnet; devnets and custom APIs don't go through them
+  const { stacksNetwork } = useWallet();
+  const network: RPCNetwork = stacksNetwork.isMainnet ? 'mainnet' : 'testnet';
 
-  const [activeNetwork, setActiveNetwork] = useState<Network>(network);
+  const [activeNetwork, setActiveNetwork] = useState<RPCNetwork>(network);
   const [testingProvider, setTestingProvider] = useState<string | null>(null);
   const [testingAll, setTestingAll] = useState(false);
 
@@ -86,8 +92,8 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
   const [addingCustom, setAddingCustom] = useState(false);
   const [testingCustom, setTestingCustom] = useState(false);
   const [customTestResult, setCustomTestResult] = useState<{
-    testnet?: boolean;
-    mainnet?: boolean;
+    testnet?: ConnectionStatus;
+    mainnet?: ConnectionStatus;
   } | null>(null);
 
   // Sync active network with wallet network
@@ -117,44 +123,16 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
     setTestingCustom(true);
     setCustomTestResult(null);
 
-    const results: { testnet?: boolean; mainnet?: boolean } = {};
+    const results: { testnet?: ConnectionStatus; mainnet?: ConnectionStatus } = {};
 
     // Test testnet URL
     if (customTestnetUrl) {
-      try {
-        const response = await fetch(customTestnetUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            id: 'test',
-            method: 'status',
-            params: [],
-          }),
-        });
-        results.testnet = response.ok;
-      } catch {
-        results.testnet = false;
-      }
+      results.testnet = await testUrl(customTestnetUrl, 'testnet');
     }
 
     // Test mainnet URL
     if (customMainnetUrl) {
-      try {
-        const response = await fetch(customMainnetUrl, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            jsonrpc: '2.0',
-            id: 'test',
-            method: 'status',
-            params: [],
-          }),
-        });
-        results.mainnet = response.ok;
-      } catch {
-        results.mainnet = false;
-      }
+      results.mainnet = await testUrl(customMainnetUrl, 'mainnet');
     }
 
     setCustomTestResult(results);
@@ -166,10 +144,11 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
 
     setAddingCustom(true);
 
+    // A provider may serve only one of the networks
     addCustomProvider({
       name: customName,
-      testnetUrl: customTestnetUrl || 'https://rpc.testnet.near.org',
-      mainnetUrl: customMainnetUrl || 'https://rpc.mainnet.near.org',
+      testnetUrl: customTestnetUrl,
+      mainnetUrl: customMainnetUrl,
     });
 
     // Reset form
@@ -191,10 +170,12 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Server className="h-5 w-5" />
-            RPC Configuration
+            Stacks API Configuration
           </DialogTitle>
           <DialogDescription>
-            Configure RPC providers for optimal performance and reliability
+            Pick the Stacks API used for contract interfaces, read-only calls and balances. Calls go through the
+            backend, which only uses the APIs its operator allows. When the API fails or isn't allowed, the other
+            providers are tried in turn.
           </DialogDescription>
         </DialogHeader>
 
@@ -203,7 +184,7 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
           <div className="flex items-center justify-between">
             <Tabs
               value={activeNetwork}
-              onValueChange={(v) => setActiveNetwork(v as Network)}
+              onValueChange={(v) => setActiveNetwork(v as RPCNetwork)}
             >
               <TabsList className="grid w-full grid-cols-2 max-w-[200px]">
                 <TabsTrigger value="testnet">Testnet</TabsTrigger>
@@ -229,7 +210,7 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
           {/* Provider List */}
           <RadioGroup value={currentProvider} onValueChange={handleProviderChange}>
             <div className="space-y-2">
-              {providers.map((provider) => {
+              {providers.filter(provider => getProviderUrl(provider)).map((provider) => {
                 const statusKey = `${provider.id}-${activeNetwork}`;
                 const status = connectionStatus[statusKey];
                 const isTesting = testingProvider === provider.id;
@@ -260,6 +241,9 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
                       <p className="text-xs text-muted-foreground truncate">
                         {getProviderUrl(provider)}
                       </p>
+                      {status?.error && (
+                        <p className="text-xs text-red-500">{status.error}</p>
+                      )}
                     </div>
                     <ConnectionStatusIndicator
                       status={status}
@@ -333,7 +317,7 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
                   </Label>
                   <Input
                     id="customName"
-                    placeholder="My RPC Provider"
+                    placeholder="My Stacks API"
                     value={customName}
                     onChange={(e) => setCustomName(e.target.value)}
                   />
@@ -342,7 +326,7 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
                   <Label htmlFor="customTestnet" className="text-xs flex items-center gap-2">
                     Testnet URL
                     {customTestResult?.testnet !== undefined && (
-                      customTestResult.testnet ? (
+                      customTestResult.testnet.connected ? (
                         <Check className="h-3 w-3 text-green-500" />
                       ) : (
                         <X className="h-3 w-3 text-red-500" />
@@ -351,16 +335,19 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
                   </Label>
                   <Input
                     id="customTestnet"
-                    placeholder="https://..."
+                    placeholder="https://stacks-api.example.com"
                     value={customTestnetUrl}
                     onChange={(e) => setCustomTestnetUrl(e.target.value)}
                   />
+                  {customTestResult?.testnet?.error && (
+                    <p className="text-xs text-red-500 mt-1">{customTestResult.testnet.error}</p>
+                  )}
                 </div>
                 <div>
                   <Label htmlFor="customMainnet" className="text-xs flex items-center gap-2">
                     Mainnet URL
                     {customTestResult?.mainnet !== undefined && (
-                      customTestResult.mainnet ? (
+                      customTestResult.mainnet.connected ? (
                         <Check className="h-3 w-3 text-green-500" />
                       ) : (
                         <X className="h-3 w-3 text-red-500" />
@@ -369,10 +356,13 @@ export function RPCSettingsPanel({ open, onOpenChange }: RPCSettingsPanelProps)
                   </Label>
                   <Input
                     id="customMainnet"
-                    placeholder="https://..."
+                    placeholder="https://stacks-api.example.com"
                     value={customMainnetUrl}
                     onChange={(e) => setCustomMainnetUrl(e.target.value)}
                   />
+                  {customTestResult?.mainnet?.error && (
+                    <p className="text-xs text-red-500 mt-1">{customTestResult.mainnet.error}</p>
+                  )}
                 </div>
               </div>
 
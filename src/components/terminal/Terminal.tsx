@@ -60,7 +60,7 @@ export function Terminal({
   const { theme, systemTheme } = useTheme();
   const { toast } = useToast();
   const { getCurrentRpcUrl } = useRPC();
-  const { network } = useWallet();
+  const { stacksNetwork } = useWallet();
   const rpcUrlRef = useRef<string>('');
 
   const effectiveTheme = theme === 'system' ? systemTheme : theme;
@@ -148,8 +148,8 @@ export function Terminal({
 
   // Keep RPC URL ref in sync
   useEffect(() => {
-    rpcUrlRef.current = getCurrentRpcUrl(network);
-  }, [getCurrentRpcUrl, network]);
+    rpcUrlRef.current = getCurrentRpcUrl(stacksNetwork.isMainnet ? 'mainnet' : 'testnet');
+  }, [getCurrentRpcUrl, stacksNetwork]);
 
   // Initialize xterm
   useEffect(() => {
@@ -18,7 +18,6 @@ import {
   Loader2,
   AlertCircle,
   FlaskConical,
-  TestTube,
   Terminal,
   Square,
   Copy,
@@ -26,35 +25,40 @@ import {
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Badge } from '@/components/ui/badge';
-import {
-  Collapsible,
-  CollapsibleContent,
-  CollapsibleTrigger,
-} from '@/components/ui/collapsible';
 import { cn } from '@/lib/utils';
-import {
-  TestFunction,
-  TestFile,
-  parseTestsFromFile,
-  getFullTestName,
-} from '@/lib/testParser';
 import {
   TestSuiteResult,
-  TestResult,
   TestStatus,
   createTestSuiteResult,
-  parseTestOutputLine,
+  applyTestEvent,
+  groupTestsByFile,
   formatTestDuration,
-} from '@/lib/testOutputParser';
-import { readFile, getFileTree } from '@/lib/api';
-import { FileNode } from '@/lib/types';
+} from '@/lib/testResults';
+import { readFile, getFileTree, discoverProjectTests, runProjectTests } from '@/lib/api';
+import { FileNode, ProjectSourceFile, TestCase, TestSetupError } from '@/lib/types';
+import { ClarityVersion } from '@/lib/clarityVersions';
 
 interface TestsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userId: string;
   projectId: string;
+  clarityVersion?: ClarityVersion;
+}
+
+// Contracts, test contracts and cached requirements; everything else in the project is irrelevant to the runner
+function collectPaths(node: FileNode): string[] {
+  if (!node.is_directory) return node.path.endsWith('.clar') ? [node.path] : [];
+  return (node.children ?? []).flatMap(collectPaths);
+}
+
+// TypeScript and JavaScript specs under tests/, as Clarinet's SDK runs them. The runner doesn't: it would mean
+// running the project's own code on the server, so they are only listed as not run.
+function collectSpecPaths(node: FileNode): string[] {
+  if (!node.is_directory) {
+    return /(^|\/)tests\/.*\.(test|spec)\.[cm]?[jt]sx?$/.test(node.path) ? [node.path] : [];
+  }
+  return (node.children ?? []).flatMap(collectSpecPaths);
 }
 
 export function TestsModal({
@@ -62,19 +66,17 @@ export function TestsModal({
   onOpenChange,
   userId,
   projectId,
+  clarityVersion,
 }: TestsModalProps) {
-  const [testFiles, setTestFiles] = useState<TestFile[]>([]);
-  const [expandedFiles, setExpandedFiles] = useState<Set<string>>(new Set());
+  const [tests, setTests] = useState<TestCase[]>([]);
+  const [discoveryErrors, setDiscoveryErrors] = useState<TestSetupError[]>([]);
+  const [specPaths, setSpecPaths] = useState<string[]>([]);
+  const [collapsedFiles, setCollapsedFiles] = useState<Set<string>>(new Set());
   const [isDiscovering, setIsDiscovering] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
   const [suiteResult, setSuiteResult] = useState<TestSuiteResult>(createTestSuiteResult());
   const [selectedTest, setSelectedTest] = useState<string | null>(null);
-  const [output, setOutput] = useState<string>('');
-  const [perTestOutput, setPerTestOutput] = useState<Map<string, string>>(new Map());
-  const wsRef = useRef<WebSocket | null>(null);
-  const outputRef = useRef<HTMLPreElement>(null);
-  const currentTestRef = useRef<string | null>(null);
-  const currentTestOutputRef = useRef<string>('');
+  const abortRef = useRef<AbortController | null>(null);
   const [copiedId, setCopiedId] = useState<string | null>(null);
 
   // Copy text to clipboard
@@ -88,28 +90,15 @@ export function TestsModal({
     }
   };
 
-  // Auto-scroll output
-  useEffect(() => {
-    if (outputRef.current) {
-      outputRef.current.scrollTop = outputRef.current.scrollHeight;
-    }
-  }, [output]);
-
-  // Get unit tests only
-  const getUnitTests = useCallback((): { files: TestFile[]; count: number } => {
-    const files: TestFile[] = [];
-    let count = 0;
-
-    testFiles.forEach(file => {
-      const unitFileTests = file.tests.filter(t => !t.isIntegration);
-      if (unitFileTests.length > 0) {
-        files.push({ path: file.path, tests: unitFileTests });
-        count += unitFileTests.length;
-      }
-    });
-
-    return { files, count };
-  }, [testFiles]);
+  // Read the project's contracts and test sources, so runs always use the saved files
+  const collectFiles = useCallback(async (): Promise<ProjectSourceFile[]> => {
+    const tree = await getFileTree(userId, projectId);
+    setSpecPaths(collectSpecPaths(tree));
+    return Promise.all(collectPaths(tree).map(async (path) => {
+      const file = await readFile(userId, projectId, path);
+      return { path, content: file.content };
+    }));
+  }, [userId, projectId]);
 
   // Discover tests in the project
   const discoverTests = useCallback(async () => {
@@ -117,155 +106,62 @@ export function TestsModal({
 
     setIsDiscovering(true);
     try {
-      const tree = await getFileTree(userId, projectId);
-      const testPaths = ['src/lib.rs', 'src/main.rs'];
-      const uniquePaths = [...new Set(testPaths)];
-
-      const files: TestFile[] = [];
-
-      for (const path of uniquePaths) {
-        try {
-          const file = await readFile(userId, projectId, path);
-          const tests = parseTestsFromFile(path, file.content);
-          if (tests.length > 0) {
-            files.push({ path, tests });
-          }
-        } catch {
-          // File doesn't exist, skip
-        }
-      }
-
-      setTestFiles(files);
-      setExpandedFiles(new Set(files.map((f) => f.path)));
+      const result = await discoverProjectTests(userId, projectId, await collectFiles());
+      setTests(result.tests);
+      setDiscoveryErrors(result.errors);
     } catch (error) {
       console.error('Failed to discover tests:', error);
+      setDiscoveryErrors([{ file: '', message: error instanceof Error ? error.message : String(error) }]);
     } finally {
       setIsDiscovering(false);
     }
-  }, [userId, projectId]);
+  }, [userId, projectId, collectFiles]);
 
   // Stop running tests
   const stopTests = useCallback(() => {
-    if (wsRef.current) {
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+    abortRef.current?.abort();
+    abortRef.current = null;
     setIsRunning(false);
   }, []);
 
-  // Strip ANSI escape codes
-  const stripAnsi = (str: string): string => {
-    // eslint-disable-next-line no-control-regex
-    return str.replace(/\x1B\[[0-9;]*[A-Za-z]/g, '');
-  };
-
   // Run all tests or a specific test
-  const runTests = useCallback(async (testName?: string) => {
+  const runTests = useCallback(async (testId?: string) => {
     if (!userId || !projectId) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsRunning(true);
-    setSuiteResult(createTestSuiteResult());
-    setOutput('');
-    // If running a specific test, select it; otherwise clear selection to show all output
-    setSelectedTest(testName || null);
-    setPerTestOutput(new Map());
-    currentTestRef.current = null;
-    currentTestOutputRef.current = '';
+    setSuiteResult({ ...createTestSuiteResult(), status: 'running' });
+    // If running a specific test, select it; otherwise clear selection to show the summary
+    setSelectedTest(testId || null);
 
-    const cmd = testName
-      ? `cargo test ${testName} -- --nocapture`
-      : 'cargo test -- --nocapture';
-
-    const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:8080';
-    const wsUrl = apiUrl.replace(/^http/, 'ws');
-    const url = `${wsUrl}/ws/terminal?user_id=${encodeURIComponent(userId)}&project_id=${encodeURIComponent(projectId)}`;
-
-    const ws = new WebSocket(url);
-    wsRef.current = ws;
-
-    ws.onmessage = (event) => {
-      try {
-        const msg = JSON.parse(event.data);
-
-        if (msg.type === 'ready') {
-          ws.send(JSON.stringify({
-            type: 'command',
-            command: cmd,
-            session_id: `${userId}-${projectId}`,
-          }));
-        } else if (msg.type === 'output') {
-          setOutput((prev) => prev + msg.data);
-          const lines = msg.data.split('\n');
-          for (const line of lines) {
-            if (line.trim()) {
-              const cleanLine = stripAnsi(line);
-
-              // Check if a test is starting
-              const testStartMatch = cleanLine.match(/^test\s+([\w:]+)\s+\.\.\./);
-              if (testStartMatch) {
-                // Save previous test output if any
-                if (currentTestRef.current && currentTestOutputRef.current) {
-                  setPerTestOutput(prev => {
-                    const next = new Map(prev);
-                    next.set(currentTestRef.current!, currentTestOutputRef.current);
-                    return next;
-                  });
-                }
-                // Start tracking new test
-                currentTestRef.current = testStartMatch[1];
-                currentTestOutputRef.current = line + '\n';
-              } else if (currentTestRef.current) {
-                // Add to current test output
-                currentTestOutputRef.current += line + '\n';
-
-                // Check if test completed
-                const testResultMatch = cleanLine.match(/^test\s+([\w:]+)\s+\.{3}\s*(ok|FAILED|ignored)/i);
-                if (testResultMatch) {
-                  // Save this test's output
-                  setPerTestOutput(prev => {
-                    const next = new Map(prev);
-                    next.set(currentTestRef.current!, currentTestOutputRef.current);
-                    return next;
-                  });
-                  currentTestRef.current = null;
-                  currentTestOutputRef.current = '';
-                }
-              }
-
-              setSuiteResult((prev) => parseTestOutputLine(line, prev));
-            }
-          }
-        } else if (msg.type === 'exit') {
-          // Save any remaining test output
-          if (currentTestRef.current && currentTestOutputRef.current) {
-            setPerTestOutput(prev => {
-              const next = new Map(prev);
-              next.set(currentTestRef.current!, currentTestOutputRef.current);
-              return next;
-            });
-          }
-          setSuiteResult((prev) => ({ ...prev, status: 'completed' }));
-          setIsRunning(false);
-          ws.close();
-        } else if (msg.type === 'error') {
-          console.error('Test error:', msg.message);
-          setIsRunning(false);
-          ws.close();
+    try {
+      const files = await collectFiles();
+      await runProjectTests(userId, projectId, files, {
+        clarityVersion,
+        only: testId ? [testId] : undefined,
+        signal: controller.signal,
+      }, (event) => {
+        // A full run re-discovers from the current files and reports its own setup errors
+        if (event.type === 'start' && !testId) {
+          setTests(event.tests);
+          setDiscoveryErrors([]);
         }
-      } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+        setSuiteResult((prev) => applyTestEvent(prev, event));
+      });
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        setSuiteResult((prev) => ({
+          ...prev,
+          status: 'completed',
+          error: error instanceof Error ? error.message : String(error),
+        }));
       }
-    };
-
-    ws.onerror = () => {
-      setIsRunning(false);
-    };
-
-    ws.onclose = () => {
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsRunning(false);
-      wsRef.current = null;
-    };
-  }, [userId, projectId]);
+    }
+  }, [userId, projectId, clarityVersion, collectFiles]);
 
   // Discover tests when modal opens
   useEffect(() => {
@@ -274,82 +170,19 @@ export function TestsModal({
     }
   }, [open, discoverTests]);
 
-  // Auto-stop running when tests complete (detected from output)
-  useEffect(() => {
-    if (suiteResult.status === 'completed' && isRunning) {
-      // Give a small delay to allow final output to be captured
-      const timer = setTimeout(() => {
-        setIsRunning(false);
-      }, 500);
-      return () => clearTimeout(timer);
-    }
-  }, [suiteResult.status, isRunning]);
-
-  // Cleanup WebSocket on unmount
+  // Stop a running test run on unmount
   useEffect(() => {
     return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
+      abortRef.current?.abort();
     };
   }, []);
 
-  // Get test status - improved matching logic
-  const getTestStatus = (test: TestFunction): TestStatus => {
-    const fullName = getFullTestName(test);
-    const shortName = test.name;
-
-    // Try exact match with full name first
-    if (suiteResult.tests.has(fullName)) {
-      return suiteResult.tests.get(fullName)!.status;
-    }
-
-    // Try matching by short name (last part after ::)
-    for (const [key, value] of suiteResult.tests.entries()) {
-      const keyShort = key.split('::').pop() || key;
-      if (keyShort === shortName) {
-        return value.status;
-      }
-    }
-
-    // Try partial match
-    for (const [key, value] of suiteResult.tests.entries()) {
-      if (key.includes(shortName) || shortName.includes(key.split('::').pop() || '')) {
-        return value.status;
-      }
-    }
-
-    return 'pending';
-  };
-
-  // Get test result - improved matching logic
-  const getTestResult = (test: TestFunction): TestResult | undefined => {
-    const fullName = getFullTestName(test);
-    const shortName = test.name;
-
-    if (suiteResult.tests.has(fullName)) {
-      return suiteResult.tests.get(fullName);
-    }
-
-    for (const [key, value] of suiteResult.tests.entries()) {
-      const keyShort = key.split('::').pop() || key;
-      if (keyShort === shortName) {
-        return value;
-      }
-    }
-
-    for (const [key, value] of suiteResult.tests.entries()) {
-      if (key.includes(shortName) || shortName.includes(key.split('::').pop() || '')) {
-        return value;
-      }
-    }
-
-    return undefined;
-  };
+  const getTestResult = (id: string) => suiteResult.tests.get(id);
+  const getTestStatus = (id: string): TestStatus => getTestResult(id)?.status ?? 'pending';
 
   // Toggle file expansion
   const toggleFile = (path: string) => {
-    setExpandedFiles((prev) => {
+    setCollapsedFiles((prev) => {
       const next = new Set(prev);
       if (next.has(path)) {
         next.delete(path);
@@ -360,34 +193,6 @@ export function TestsModal({
     });
   };
 
-  // Get output for a specific test
-  const getTestOutput = (test: TestFunction): string => {
-    const fullName = getFullTestName(test);
-    const shortName = test.name;
-
-    // Try exact match first
-    if (perTestOutput.has(fullName)) {
-      return perTestOutput.get(fullName)!;
-    }
-
-    // Try short name match
-    for (const [key, value] of perTestOutput.entries()) {
-      const keyShort = key.split('::').pop() || key;
-      if (keyShort === shortName) {
-        return value;
-      }
-    }
-
-    // Try partial match
-    for (const [key, value] of perTestOutput.entries()) {
-      if (key.includes(shortName) || shortName.includes(key.split('::').pop() || '')) {
-        return value;
-      }
-    }
-
-    return '';
-  };
-
   // Get status icon component
   const StatusIcon = ({ status, className }: { status: TestStatus; className?: string }) => {
     switch (status) {
@@ -397,7 +202,7 @@ export function TestsModal({
         return <XCircle className={cn("h-4 w-4 text-red-500", className)} />;
       case 'running':
         return <Loader2 className={cn("h-4 w-4 text-blue-500 animate-spin", className)} />;
-      case 'ignored':
+      case 'skipped':
         return <Circle className={cn("h-4 w-4 text-yellow-500", className)} />;
       default:
         return <Circle className={cn("h-4 w-4 text-muted-foreground/50", className)} />;
@@ -410,12 +215,34 @@ export function TestsModal({
       case 'passed': return 'Passed';
       case 'failed': return 'Failed';
       case 'running': return 'Running';
-      case 'ignored': return 'Ignored';
+      case 'skipped': return 'Skipped';
       default: return 'Pending';
     }
   };
 
-  const { files: unitTests, count: totalTests } = getUnitTests();
+  const testFiles = groupTestsByFile(tests);
+  const totalTests = tests.length;
+  const setupErrors = [...discoveryErrors, ...suiteResult.setupErrors];
+  const selected = tests.find((t) => t.id === selectedTest);
+  const selectedResult = selected ? getTestResult(selected.id) : undefined;
+
+  // Plain-text report of the run, for copying
+  const report = [
+    ...setupErrors.map((e) => `${e.file}: ${e.message}`),
+    ...specPaths.map((path) => `NOT RUN ${path}`),
+    ...tests.flatMap((test) => {
+      const result = getTestResult(test.id);
+      if (!result || result.status === 'pending' || result.status === 'running') return [];
+      return [
+        `${result.status.toUpperCase()} ${test.file} ${test.name}${result.message ? `\n  ${result.message}` : ''}`,
+      ];
+    }),
+    suiteResult.error ?? '',
+  ].filter(Boolean).join('\n');
+
+  const selectedText = selected && selectedResult
+    ? [selectedResult.message, selectedResult.output].filter(Boolean).join('\n\n')
+    : '';
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -429,7 +256,7 @@ export function TestsModal({
                 Tests
               </DialogTitle>
               <p className="text-sm text-muted-foreground mt-1">
-                {totalTests} test{totalTests !== 1 ? 's' : ''} found in src/lib.rs
+                {totalTests} test{totalTests !== 1 ? 's' : ''} found in {testFiles.length} file{testFiles.length !== 1 ? 's' : ''}
               </p>
             </div>
 
@@ -480,24 +307,28 @@ export function TestsModal({
           </span>
           <span className="flex items-center gap-1.5">
             <Circle className="h-4 w-4 text-muted-foreground" />
-            <span className="font-medium">{suiteResult.ignored}</span> ignored
+            <span className="font-medium">{suiteResult.skipped}</span> skipped
           </span>
-          {suiteResult.duration && (
+          {suiteResult.duration !== undefined && (
             <span className="flex items-center gap-1.5 text-muted-foreground ml-auto">
               <Clock className="h-4 w-4" />
               {formatTestDuration(suiteResult.duration)}
             </span>
           )}
-          {isRunning && suiteResult.status !== 'completed' && (
+          {isRunning && (
             <span className="flex items-center gap-1.5 text-blue-600 ml-auto">
               <Loader2 className="h-4 w-4 animate-spin" />
               Running...
             </span>
           )}
           {suiteResult.status === 'completed' && !isRunning && (
-            <span className="flex items-center gap-1.5 text-green-600 ml-auto">
-              <CheckCircle2 className="h-4 w-4" />
-              Complete
+            <span className={cn(
+              'flex items-center gap-1.5',
+              suiteResult.error ? 'text-red-600' : 'text-green-600',
+              suiteResult.duration === undefined && 'ml-auto'
+            )}>
+              {suiteResult.error ? <XCircle className="h-4 w-4" /> : <CheckCircle2 className="h-4 w-4" />}
+              {suiteResult.error ? 'Run failed' : 'Complete'}
             </span>
           )}
         </div>
@@ -513,60 +344,92 @@ export function TestsModal({
                     <Loader2 className="h-6 w-6 animate-spin mr-3" />
                     Discovering tests...
                   </div>
-                ) : totalTests === 0 ? (
-                  <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
-                    <AlertCircle className="h-10 w-10 mb-3 opacity-50" />
-                    <p className="text-sm font-medium">No tests found</p>
-                    <p className="text-xs mt-1">Add #[test] functions to your code</p>
-                  </div>
                 ) : (
-                  <div className="space-y-1">
-                    {unitTests.map((file) => (
-                      <div key={file.path} className="space-y-1">
-                        {file.tests.map((test) => {
-                          const status = getTestStatus(test);
-                          const result = getTestResult(test);
-                          const isSelected = selectedTest === test.name;
-
+                  <>
+                    {specPaths.length > 0 && (
+                      <div className="mb-3 p-2 rounded border border-yellow-500/20 bg-yellow-500/5 space-y-1">
+                        <p className="text-xs font-medium text-yellow-600 dark:text-yellow-500">
+                          {specPaths.length} TypeScript spec{specPaths.length !== 1 ? 's' : ''} not run
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Only Clarity <code className="font-mono">test-*</code> functions run here. Run specs with{' '}
+                          <code className="font-mono">npm test</code> in the exported project.
+                        </p>
+                        {specPaths.map((path) => (
+                          <p key={path} className="text-xs font-mono text-muted-foreground truncate">{path}</p>
+                        ))}
+                      </div>
+                    )}
+                    {totalTests === 0 ? (
+                      <div className="flex flex-col items-center justify-center py-12 text-muted-foreground text-center">
+                        <AlertCircle className="h-10 w-10 mb-3 opacity-50" />
+                        <p className="text-sm font-medium">No tests found</p>
+                        <p className="text-xs mt-1">
+                          Add public <code className="font-mono">test-*</code> functions to a contract in tests/
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {testFiles.map((file) => {
+                          const collapsed = collapsedFiles.has(file.path);
                           return (
-                            <div
-                              key={test.name}
-                              className={cn(
-                                'flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer transition-colors',
-                                'hover:bg-accent',
-                                isSelected && 'bg-accent ring-1 ring-primary',
-                                status === 'failed' && 'bg-red-500/5 hover:bg-red-500/10',
-                                status === 'passed' && 'bg-green-500/5 hover:bg-green-500/10'
-                              )}
-                              onClick={() => setSelectedTest(test.name)}
-                            >
-                              <StatusIcon status={status} />
-                              <div className="flex-1 min-w-0">
-                                <p className="font-mono text-sm truncate">{test.name}</p>
-                              </div>
-                              {result?.duration && (
-                                <span className="text-xs text-muted-foreground shrink-0">
-                                  {formatTestDuration(result.duration)}
-                                </span>
-                              )}
-                              <Button
-                                variant="ghost"
-                                size="sm"
-                                className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 hover:opacity-100 shrink-0"
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  runTests(test.name);
-                                }}
-                                disabled={isRunning}
+                            <div key={file.path} className="space-y-1">
+                              <button
+                                className="flex items-center gap-1.5 w-full text-left text-xs text-muted-foreground hover:text-foreground"
+                                onClick={() => toggleFile(file.path)}
                               >
-                                <Play className="h-3.5 w-3.5" />
-                              </Button>
+                                {collapsed ? <ChevronRight className="h-3.5 w-3.5" /> : <ChevronDown className="h-3.5 w-3.5" />}
+                                <FileCode className="h-3.5 w-3.5" />
+                                <span className="font-mono truncate">{file.path}</span>
+                              </button>
+
+                              {!collapsed && file.tests.map((test) => {
+                                const status = getTestStatus(test.id);
+                                const result = getTestResult(test.id);
+                                const isSelected = selectedTest === test.id;
+
+                                return (
+                                  <div
+                                    key={test.id}
+                                    className={cn(
+                                      'group flex items-center gap-3 px-3 py-2 rounded-md cursor-pointer transition-colors',
+                                      'hover:bg-accent',
+                                      isSelected && 'bg-accent ring-1 ring-primary',
+                                      status === 'failed' && 'bg-red-500/5 hover:bg-red-500/10',
+                                      status === 'passed' && 'bg-green-500/5 hover:bg-green-500/10'
+                                    )}
+                                    onClick={() => setSelectedTest(test.id)}
+                                  >
+                                    <StatusIcon status={status} />
+                                    <div className="flex-1 min-w-0">
+                                      <p className="font-mono text-sm truncate">{test.name}</p>
+                                    </div>
+                                    {result?.duration !== undefined && (
+                                      <span className="text-xs text-muted-foreground shrink-0">
+                                        {formatTestDuration(result.duration)}
+                                      </span>
+                                    )}
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 hover:opacity-100 shrink-0"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        runTests(test.id);
+                                      }}
+                                      disabled={isRunning}
+                                    >
+                                      <Play className="h-3.5 w-3.5" />
+                                    </Button>
+                                  </div>
+                                );
+                              })}
                             </div>
                           );
                         })}
                       </div>
-                    ))}
-                  </div>
+                    )}
+                  </>
                 )}
               </div>
             </ScrollArea>
@@ -579,21 +442,21 @@ export function TestsModal({
               <div className="flex items-center gap-2 min-w-0">
                 <Terminal className="h-4 w-4 shrink-0" />
                 <span className="text-sm font-medium truncate">
-                  {selectedTest ? (
-                    <span className="font-mono">{selectedTest}</span>
+                  {selected ? (
+                    <span className="font-mono">{selected.name}</span>
                   ) : (
                     'Output'
                   )}
                 </span>
               </div>
-              {output && (
+              {(selected ? selectedText : report) && (
                 <Button
                   variant="ghost"
                   size="sm"
                   className="h-7 px-2 text-xs shrink-0"
-                  onClick={() => copyToClipboard(output, 'all-output')}
+                  onClick={() => copyToClipboard(selected ? selectedText : report, 'output')}
                 >
-                  {copiedId === 'all-output' ? (
+                  {copiedId === 'output' ? (
                     <>
                       <Check className="h-3 w-3 mr-1 text-green-500" />
                       Copied
@@ -601,7 +464,7 @@ export function TestsModal({
                   ) : (
                     <>
                       <Copy className="h-3 w-3 mr-1" />
-                      Copy All
+                      {selected ? 'Copy' : 'Copy All'}
                     </>
                   )}
                 </Button>
@@ -611,50 +474,61 @@ export function TestsModal({
             {/* Output Content */}
             <ScrollArea className="flex-1">
               <div className="p-4">
-                {selectedTest ? (
+                {selected ? (
                   <div>
                     {/* Selected test info */}
-                    {unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest) && (
-                      <div className="mb-4 p-3 rounded-lg bg-background border">
-                        <div className="flex items-center gap-2">
-                          <StatusIcon
-                            status={getTestStatus(unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest)!)}
-                          />
-                          <span className="font-medium text-sm">
-                            {getStatusText(getTestStatus(unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest)!))}
+                    <div className="mb-4 p-3 rounded-lg bg-background border space-y-1">
+                      <div className="flex items-center gap-2">
+                        <StatusIcon status={getTestStatus(selected.id)} />
+                        <span className="font-medium text-sm">
+                          {getStatusText(getTestStatus(selected.id))}
+                        </span>
+                        {selectedResult?.duration !== undefined && (
+                          <span className="text-xs text-muted-foreground ml-auto">
+                            {formatTestDuration(selectedResult.duration)}
                           </span>
-                          {getTestResult(unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest)!)?.duration && (
-                            <span className="text-xs text-muted-foreground ml-auto">
-                              {formatTestDuration(getTestResult(unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest)!)?.duration)}
-                            </span>
-                          )}
-                        </div>
+                        )}
                       </div>
+                      <p className="text-xs text-muted-foreground font-mono truncate">
+                        {selected.file}{selected.line ? `:${selected.line}` : ''}
+                      </p>
+                    </div>
+                    {selectedResult?.message && (
+                      <pre className="mb-4 p-3 rounded-lg text-xs font-mono whitespace-pre-wrap text-red-500 bg-red-500/5 border border-red-500/20">
+                        {selectedResult.message}
+                      </pre>
                     )}
                     {/* Test output */}
                     <pre className="text-xs font-mono whitespace-pre-wrap text-muted-foreground leading-relaxed">
-                      {(() => {
-                        const test = unitTests.flatMap(f => f.tests).find(t => t.name === selectedTest);
-                        if (test) {
-                          const testOutput = getTestOutput(test);
-                          if (testOutput) return testOutput;
-                        }
-                        return output || 'Run tests to see output';
-                      })()}
+                      {selectedResult?.output || (selectedResult && selectedResult.status !== 'pending'
+                        ? 'No output'
+                        : 'Run tests to see output')}
                     </pre>
                   </div>
-                ) : output ? (
-                  <pre
-                    ref={outputRef}
-                    className="text-xs font-mono whitespace-pre-wrap text-muted-foreground leading-relaxed"
-                  >
-                    {output}
-                  </pre>
+                ) : setupErrors.length > 0 || suiteResult.error ? (
+                  <div className="space-y-3">
+                    {suiteResult.error && (
+                      <p className="text-xs text-red-500 p-2 bg-red-500/5 rounded border border-red-500/20 whitespace-pre-wrap">
+                        {suiteResult.error}
+                      </p>
+                    )}
+                    {setupErrors.map((error, index) => (
+                      <div key={index} className="p-2 bg-red-500/5 rounded border border-red-500/20 space-y-1">
+                        <p className="text-xs font-mono font-medium">{error.file || 'Project'}</p>
+                        <p className="text-xs text-red-500 whitespace-pre-wrap">{error.message}</p>
+                        {error.errors?.map((e, i) => (
+                          <p key={i} className="text-xs font-mono text-muted-foreground">
+                            {e.line ? `${e.line}:${e.column ?? 1} ` : ''}{e.message}
+                          </p>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
                 ) : (
                   <div className="flex flex-col items-center justify-center py-12 text-muted-foreground">
                     <Terminal className="h-10 w-10 mb-3 opacity-30" />
                     <p className="text-sm">Select a test to view details</p>
-                    <p className="text-xs mt-1">or run tests to see output</p>
+                    <p className="text-xs mt-1">or run tests to see results</p>
                   </div>
                 )}
               </div>
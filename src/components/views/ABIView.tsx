@@ -1,17 +1,29 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Button } from '@/components/ui/button';
-import { ABIMethod, Deployment } from '@/lib/types';
+import { ABICall, ABIMethod, Deployment, SimulationSession } from '@/lib/types';
 import { ABIMethodCard } from '@/components/abi/ABIMethodCard';
 import { ABIEmptyState } from '@/components/abi/ABIEmptyState';
 import { ABIContractSelector } from '@/components/abi/ABIContractSelector';
-import { ABIExecuteDialog } from '@/components/abi/ABIExecuteDialog';
+import { ABIExecuteDialog, ExecutionResult } from '@/components/abi/ABIExecuteDialog';
 import { ABIExecutionHistory } from '@/components/abi/ABIExecutionHistory';
+import { SimnetInfoBar } from '@/components/abi/SimnetInfoBar';
+import { LiveContractInfoBar } from '@/components/abi/LiveContractInfoBar';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/lib/supabase';
-import { History, PlayCircle, Loader2, Clock } from 'lucide-react';
-
-const HIRO_API = 'https://api.testnet.hiro.so';
+import {
+  ApiError,
+  createSimulationSession,
+  deploySimulatedContract,
+  getContractInterface,
+  getSimulatedContractInterface,
+  getSimulationSession,
+} from '@/lib/api';
+import { useRPC } from '@/contexts/RPCContext';
+import { ClarityVersion } from '@/lib/clarityVersions';
+import { formatAbiType } from '@/lib/clarityArgs';
+import { StacksNetworkConfig, networkOfDeployment } from '@/lib/config';
+import { History, PlayCircle, Loader2, Clock, Globe, Cpu } from 'lucide-react';
 
 interface ABIViewProps {
   projectId: string;
@@ -20,21 +32,16 @@ interface ABIViewProps {
   onDeploy?: () => void;
   onRequestDeploy?: () => void;
   refreshTrigger?: number;
+  // Editor buffer for Local mode, which runs it on the in-memory simulator without deploying
+  code?: string;
+  contractName?: string;
+  clarityVersion?: ClarityVersion;
+  // A deployed contract to call instead of the project's deployments; its calls are kept for the session, as in
+  // Local mode. Remount (e.g. with a key) to switch to another contract or network.
+  liveContract?: { contractId: string; network: StacksNetworkConfig };
 }
 
-function formatClarityType(type: any): string {
-  if (typeof type === 'string') return type;
-  if (typeof type !== 'object' || type === null) return String(type);
-  if ('optional' in type) return `(optional ${formatClarityType(type.optional)})`;
-  if ('response' in type) return `(response ${formatClarityType(type.response.ok)} ${formatClarityType(type.response.error)})`;
-  if ('buffer' in type) return `(buff ${type.buffer.length})`;
-  if ('string-ascii' in type) return `(string-ascii ${type['string-ascii'].length})`;
-  if ('string-utf8' in type) return `(string-utf8 ${type['string-utf8'].length})`;
-  if ('list' in type) return `(list ${type.list.length} ${formatClarityType(type.list.type)})`;
-  if ('tuple' in type) return `(tuple)`;
-  if ('trait_reference' in type) return 'trait';
-  return JSON.stringify(type);
-}
+type InterfaceMode = 'chain' | 'local';
 
 function stacksFunctionToABIMethod(fn: any): ABIMethod {
   return {
@@ -43,16 +50,28 @@ function stacksFunctionToABIMethod(fn: any): ABIMethod {
     stateMutability: fn.access === 'read_only' ? 'view' : 'nonpayable',
     inputs: (fn.args || []).map((arg: any) => ({
       name: arg.name,
-      type: formatClarityType(arg.type),
-      internalType: formatClarityType(arg.type),
+      type: formatAbiType(arg.type),
+      internalType: formatAbiType(arg.type),
+      abiType: arg.type,
     })),
     outputs: fn.outputs
-      ? [{ name: 'output', type: formatClarityType(fn.outputs.type), internalType: formatClarityType(fn.outputs.type) }]
+      ? [{ name: 'output', type: formatAbiType(fn.outputs.type), internalType: formatAbiType(fn.outputs.type) }]
       : [],
   };
 }
 
-export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onRequestDeploy, refreshTrigger }: ABIViewProps) {
+export function ABIView({
+  projectId,
+  userId,
+  isSharedView = false,
+  onDeploy,
+  onRequestDeploy,
+  refreshTrigger,
+  code,
+  contractName,
+  clarityVersion,
+  liveContract,
+}: ABIViewProps) {
   const [deployments, setDeployments] = useState<Deployment[]>([]);
   const [selectedDeployment, setSelectedDeployment] = useState<Deployment | null>(null);
   const [contractMethods, setContractMethods] = useState<ABIMethod[]>([]);
@@ -63,7 +82,30 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
   const [selectedMethod, setSelectedMethod] = useState<ABIMethod | null>(null);
   const [activeView, setActiveView] = useState<'interface' | 'history'>('interface');
   const [isLoading, setIsLoading] = useState(true);
+  const [mode, setMode] = useState<InterfaceMode>('chain');
+  const [simSession, setSimSession] = useState<SimulationSession | null>(null);
+  const [simContractId, setSimContractId] = useState<string | null>(null);
+  const [simDeployedCode, setSimDeployedCode] = useState<string | null>(null);
+  const [simMethods, setSimMethods] = useState<ABIMethod[]>([]);
+  const [simSender, setSimSender] = useState('deployer');
+  const [simError, setSimError] = useState<string | null>(null);
+  const [isSimDeploying, setIsSimDeploying] = useState(false);
+  const [localCalls, setLocalCalls] = useState<ABICall[]>([]);
+  const [liveCalls, setLiveCalls] = useState<ABICall[]>([]);
   const { toast } = useToast();
+  const { withFailover } = useRPC();
+
+  // Each deployment is read from the network it was deployed to
+  const deploymentNetwork = useMemo(
+    () => selectedDeployment ? networkOfDeployment(selectedDeployment) : null,
+    [selectedDeployment]
+  );
+  // The on-chain contract the interface calls
+  const chainAddress = liveContract?.contractId ?? selectedDeployment?.contract_address;
+  const chainNetwork = liveContract?.network ?? deploymentNetwork;
+
+  const canSimulate = !isSharedView && code !== undefined;
+  const isLocal = mode === 'local' && canSimulate;
 
   const stopInterfacePolling = () => {
     if (interfacePollRef.current) {
@@ -72,7 +114,7 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
     }
   };
 
-  const fetchContractInterface = async (contractAddress: string, pollUntilReady = false) => {
+  const fetchContractInterface = async (contractAddress: string, network: StacksNetworkConfig, pollUntilReady = false) => {
     if (!contractAddress) { setContractMethods([]); return; }
     const dotIndex = contractAddress.indexOf('.');
     if (dotIndex === -1) { setContractMethods([]); return; }
@@ -86,18 +128,16 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
 
     const tryFetch = async (): Promise<boolean> => {
       try {
-        const res = await fetch(`${HIRO_API}/v2/contracts/interface/${address}/${contractName}`);
-        if (res.status === 404) return false; // not indexed yet
-        if (!res.ok) throw new Error(`Failed to fetch contract interface (${res.status})`);
-        const data = await res.json();
+        const data = await withFailover(network, endpoint => getContractInterface(address, contractName, endpoint));
         const publicFunctions = (data.functions || [])
-          .filter((fn: any) => fn.access !== 'private')
+          .filter(fn => fn.access !== 'private')
           .map(stacksFunctionToABIMethod);
         setContractMethods(publicFunctions);
         setIsFetchingInterface(false);
         setIsWaitingForChain(false);
         return true;
       } catch (err) {
+        if (err instanceof ApiError && err.status === 404) return false; // not indexed yet
         const msg = err instanceof Error ? err.message : 'Failed to fetch contract interface';
         setError(msg);
         setContractMethods([]);
@@ -133,6 +173,12 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
   };
 
   const fetchDeployments = async () => {
+    // A live contract has no deployments to pick from
+    if (liveContract) {
+      setIsLoading(false);
+      await fetchContractInterface(liveContract.contractId, liveContract.network);
+      return;
+    }
     try {
       setIsLoading(true);
       const { data, error } = await supabase
@@ -149,7 +195,7 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
         const mostRecent = data[0];
         setSelectedDeployment(mostRecent);
         // poll if triggered by a fresh deploy (refreshTrigger > 0)
-        await fetchContractInterface(mostRecent.contract_address, (refreshTrigger ?? 0) > 0);
+        await fetchContractInterface(mostRecent.contract_address, networkOfDeployment(mostRecent), (refreshTrigger ?? 0) > 0);
       } else {
         setSelectedDeployment(null);
         setContractMethods([]);
@@ -178,7 +224,98 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
       return;
     }
     setSelectedDeployment(deployment);
-    await fetchContractInterface(deployment.contract_address);
+    await fetchContractInterface(deployment.contract_address, networkOfDeployment(deployment));
+  };
+
+  // Each reload starts a fresh simnet so the contract can be deployed again under the same name
+  const deployToSimnet = async () => {
+    if (code === undefined) return;
+    setIsSimDeploying(true);
+    setSimError(null);
+    try {
+      // The project's requirements are deployed first, so calls to them work
+      const session = await createSimulationSession(userId && !isSharedView ? { userId, projectId } : undefined);
+      const name = contractName?.trim() || 'contract';
+      const result = await deploySimulatedContract(session.sessionId, { code, contractName: name, clarityVersion });
+      setSimDeployedCode(code);
+      setLocalCalls([]);
+
+      if (!result.success || !result.contractId) {
+        const firstError = result.errors?.[0];
+        const message = firstError
+          ? `${firstError.line ? `Line ${firstError.line}: ` : ''}${firstError.message}`
+          : result.error || 'Contract failed to deploy';
+        setSimError(session.requirementErrors
+          ? `${message}. Requirements that failed to deploy: ${session.requirementErrors.join('; ')}`
+          : message);
+        setSimSession(session);
+        setSimContractId(null);
+        setSimMethods([]);
+        return;
+      }
+
+      const contractInterface = await getSimulatedContractInterface(session.sessionId, result.contractId);
+      setSimSession(await getSimulationSession(session.sessionId));
+      setSimContractId(result.contractId);
+      setSimMethods(contractInterface.functions.filter(fn => fn.access !== 'private').map(stacksFunctionToABIMethod));
+    } catch (err) {
+      setSimError(err instanceof Error ? err.message : 'Failed to start the local simulator');
+      setSimMethods([]);
+    } finally {
+      setIsSimDeploying(false);
+    }
+  };
+
+  const handleModeChange = (next: InterfaceMode) => {
+    setMode(next);
+    if (next === 'local' && !simSession && !isSimDeploying) {
+      deployToSimnet();
+    }
+  };
+
+  const handleSimulatedExecute = async (method: ABIMethod, result: ExecutionResult) => {
+    if (!simSession || !simContractId) return;
+    const call: ABICall = {
+      id: crypto.randomUUID(),
+      project_id: projectId,
+      contract_address: simContractId,
+      method_name: method.name,
+      method_type: method.stateMutability === 'view' ? 'read-only' : 'public',
+      inputs: result.inputs ?? {},
+      // Not under `result`, so the history dialog shows events and state changes too
+      outputs: {
+        return_value: result.result,
+        sender: simSender,
+        block_height: result.blockHeight,
+        events: result.events,
+        state_changes: result.stateChanges,
+      },
+      status: result.status,
+      error: result.error,
+      created_at: new Date().toISOString(),
+    };
+    setLocalCalls(prev => [...prev, call]);
+    try {
+      setSimSession(await getSimulationSession(simSession.sessionId));
+    } catch {
+      // the block height shown is only informational
+    }
+  };
+
+  const handleLiveExecute = (method: ABIMethod, result: ExecutionResult) => {
+    if (!liveContract) return;
+    setLiveCalls(prev => [...prev, {
+      id: crypto.randomUUID(),
+      project_id: projectId,
+      contract_address: liveContract.contractId,
+      method_name: method.name,
+      method_type: method.stateMutability === 'view' ? 'read-only' : 'public',
+      inputs: result.inputs ?? {},
+      outputs: { return_value: result.result, transaction_hash: result.txId },
+      status: result.status,
+      error: result.error,
+      created_at: new Date().toISOString(),
+    }]);
   };
 
   const handleExecute = (method: ABIMethod) => {
@@ -202,11 +339,37 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
             <p className="text-xs text-muted-foreground">
               {isSharedView
                 ? 'View deployed contract methods'
-                : 'Interact with your deployed contract on Stacks testnet'}
+                : isLocal
+                  ? 'Call the editor contract on a local simnet, no deploy needed'
+                  : liveContract
+                    ? `Interact with the deployed contract on ${liveContract.network.name}`
+                    : `Interact with your deployed contract on ${deploymentNetwork?.name ?? 'Stacks'}`}
             </p>
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {canSimulate && (
+            <div className="flex items-center rounded-md border p-0.5 mr-1">
+              <Button
+                variant={mode === 'chain' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 gap-1.5"
+                onClick={() => handleModeChange('chain')}
+              >
+                <Globe className="h-3.5 w-3.5" />
+                On-chain
+              </Button>
+              <Button
+                variant={mode === 'local' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="h-7 gap-1.5"
+                onClick={() => handleModeChange('local')}
+              >
+                <Cpu className="h-3.5 w-3.5" />
+                Local
+              </Button>
+            </div>
+          )}
           <Button
             variant={activeView === 'interface' ? 'secondary' : 'ghost'}
             size="sm"
@@ -229,6 +392,26 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
       </div>
 
       {/* Contract selector */}
+      {isLocal ? (
+        <SimnetInfoBar
+          session={simSession}
+          contractId={simContractId}
+          sender={simSender}
+          onSenderChange={setSimSender}
+          onReload={deployToSimnet}
+          isDeploying={isSimDeploying}
+          isOutOfDate={simDeployedCode !== null && simDeployedCode !== code}
+          error={simError}
+        />
+      ) : liveContract ? (
+        <LiveContractInfoBar
+          contractId={liveContract.contractId}
+          network={liveContract.network}
+          onRefresh={() => fetchContractInterface(liveContract.contractId, liveContract.network)}
+          isLoading={isFetchingInterface}
+          error={error}
+        />
+      ) : (
       <ABIContractSelector
         contractAddress={selectedDeployment?.contract_address || ''}
         onAddressChange={handleAddressChange}
@@ -239,10 +422,50 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
         projectId={projectId}
         isSharedView={isSharedView}
       />
+      )}
 
       {activeView === 'interface' ? (
+        isLocal ? (
+          <div className="flex-1 flex flex-col min-h-0">
+            {isSimDeploying ? (
+              <div className="flex-1 flex items-center justify-center">
+                <div className="flex flex-col items-center gap-3 text-muted-foreground">
+                  <Loader2 className="h-5 w-5 animate-spin" />
+                  <span className="text-sm">Deploying to the local simnet…</span>
+                </div>
+              </div>
+            ) : (
+              <ScrollArea className="flex-1">
+                <div className="p-4 space-y-2">
+                  {simMethods.length > 0 ? (
+                    <>
+                      <div className="text-xs text-muted-foreground mb-3">
+                        {simMethods.length} {simMethods.length === 1 ? 'function' : 'functions'} available
+                      </div>
+                      {simMethods.map((method, index) => (
+                        <ABIMethodCard
+                          key={index}
+                          method={method}
+                          onExecute={handleExecute}
+                          isContractVerified={simContractId !== null}
+                        />
+                      ))}
+                    </>
+                  ) : (
+                    <div className="flex flex-col items-center justify-center py-12 text-center">
+                      <p className="text-sm text-muted-foreground">No public functions found</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {simError ? 'Fix the contract and reload it from the editor.' : 'Add a public or read-only function to call it here.'}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </ScrollArea>
+            )}
+          </div>
+        ) : (
         <>
-          {selectedDeployment ? (
+          {chainAddress && chainNetwork ? (
             <div className="flex-1 flex flex-col min-h-0">
               {(isFetchingInterface || isWaitingForChain) ? (
                 <div className="flex-1 flex items-center justify-center">
@@ -288,7 +511,7 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
                           variant="outline"
                           size="sm"
                           className="mt-4"
-                          onClick={() => fetchContractInterface(selectedDeployment.contract_address)}
+                          onClick={() => fetchContractInterface(chainAddress, chainNetwork)}
                         >
                           Refresh
                         </Button>
@@ -304,6 +527,19 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
             </div>
           )}
         </>
+        )
+      ) : isLocal ? (
+        <ABIExecutionHistory
+          projectId={projectId}
+          contractAddress={simContractId || ''}
+          localCalls={localCalls}
+        />
+      ) : liveContract ? (
+        <ABIExecutionHistory
+          projectId={projectId}
+          contractAddress={liveContract.contractId}
+          localCalls={liveCalls}
+        />
       ) : (
         <ABIExecutionHistory
           projectId={projectId}
@@ -311,14 +547,28 @@ export function ABIView({ projectId, userId, isSharedView = false, onDeploy, onR
         />
       )}
 
-      {selectedMethod && selectedDeployment && !isSharedView && (
+      {selectedMethod && isLocal && simSession && simContractId && (
+        <ABIExecuteDialog
+          open={true}
+          onOpenChange={(open) => !open && setSelectedMethod(null)}
+          method={selectedMethod}
+          contractAddress={simContractId}
+          projectId={projectId}
+          simulation={{ sessionId: simSession.sessionId, sender: simSender }}
+          onExecute={(result) => handleSimulatedExecute(selectedMethod, result)}
+        />
+      )}
+
+      {selectedMethod && !isLocal && chainAddress && chainNetwork && !isSharedView && (
         <ABIExecuteDialog
           open={true}
           onOpenChange={(open) => !open && setSelectedMethod(null)}
           method={selectedMethod}
-          contractAddress={selectedDeployment.contract_address}
+          contractAddress={chainAddress}
+          network={chainNetwork}
           projectId={projectId}
-          onExecute={() => {
+          onExecute={(result) => {
+            handleLiveExecute(selectedMethod, result);
             toast({ title: 'Success', description: 'Method executed successfully' });
           }}
         />
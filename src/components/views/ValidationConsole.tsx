@@ -1,4 +1,4 @@
-import { ValidationResult } from '@/lib/types';
+import { ClarityError, ValidationResult } from '@/lib/types';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Terminal, Loader2, AlertCircle, AlertTriangle, CheckCircle, Blocks, Copy } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -9,9 +9,64 @@ import { useToast } from '@/hooks/use-toast';
 interface ValidationConsoleProps {
   result?: ValidationResult | null;
   isChecking?: boolean;
+  onSelectProblem?: (problem: ClarityError) => void;
 }
 
-export function ValidationConsole({ result, isChecking }: ValidationConsoleProps) {
+function formatLocation(problem: { line?: number; column?: number }): string {
+  if (!problem.line) return '';
+  return `Ln ${problem.line}${problem.column ? `, Col ${problem.column}` : ''}`;
+}
+
+function formatProblem(label: string, problem: ClarityError): string {
+  const location = formatLocation(problem);
+  const notes = (problem.notes ?? []).map(n => `\n  note${n.line ? ` (${formatLocation(n)})` : ''}: ${n.message}`);
+  return `${label}${location ? ` (${location})` : ''}: ${problem.message}${notes.join('')}`;
+}
+
+interface ProblemRowProps {
+  problem: ClarityError;
+  severity: 'error' | 'warning';
+  onSelect?: (problem: ClarityError) => void;
+}
+
+function ProblemRow({ problem, severity, onSelect }: ProblemRowProps) {
+  const isError = severity === 'error';
+  const Icon = isError ? AlertCircle : AlertTriangle;
+  const clickable = Boolean(onSelect && problem.line);
+
+  return (
+    <button
+      type="button"
+      disabled={!clickable}
+      onClick={() => onSelect?.(problem)}
+      className={cn(
+        "w-full flex items-start gap-2 py-0.5 px-1 rounded text-left",
+        isError ? "bg-red-500/5" : "bg-yellow-500/5",
+        clickable && (isError ? "hover:bg-red-500/10 cursor-pointer" : "hover:bg-yellow-500/10 cursor-pointer"),
+        !clickable && "cursor-default"
+      )}
+    >
+      <Icon className={cn("h-3.5 w-3.5 mt-0.5 flex-none", isError ? "text-red-500" : "text-yellow-500")} />
+      <div className="min-w-0 flex-1">
+        <pre className={cn("whitespace-pre-wrap break-all", isError ? "text-red-500/90" : "text-yellow-500/90")}>
+          {problem.message}
+        </pre>
+        {problem.notes?.map((note, i) => (
+          <pre key={i} className="text-muted-foreground whitespace-pre-wrap break-all">
+            note{note.line ? ` (${formatLocation(note)})` : ''}: {note.message}
+          </pre>
+        ))}
+      </div>
+      {problem.line && (
+        <span className="flex-none text-muted-foreground">
+          {problem.file ? `${problem.file} ` : ''}{formatLocation(problem)}
+        </span>
+      )}
+    </button>
+  );
+}
+
+export function ValidationConsole({ result, isChecking, onSelectProblem }: ValidationConsoleProps) {
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
@@ -19,8 +74,8 @@ export function ValidationConsole({ result, isChecking }: ValidationConsoleProps
     if (!result) return;
     const lines = [
       result.success ? '✓ Validation passed' : '✗ Validation failed',
-      ...result.errors.map(e => `ERROR${e.line ? ` (line ${e.line})` : ''}: ${e.message}`),
-      ...result.warnings.map(w => `WARNING: ${w}`),
+      ...result.errors.map(e => formatProblem('ERROR', e)),
+      ...result.warnings.map(w => formatProblem('WARNING', w)),
     ].join('\n');
     try {
       await navigator.clipboard.writeText(lines);
@@ -62,7 +117,7 @@ export function ValidationConsole({ result, isChecking }: ValidationConsoleProps
               <span className={cn("text-xs font-medium", result.success ? "text-green-500" : "text-red-500")}>
                 {result.success ? "Validation passed" : "Validation failed"}
               </span>
-              {!result.success && (
+              {(!result.success || result.warnings.length > 0) && (
                 <span className="text-xs text-muted-foreground">
                   — {result.errors.length} error{result.errors.length !== 1 ? 's' : ''}
                   {result.warnings.length > 0 ? `, ${result.warnings.length} warning${result.warnings.length !== 1 ? 's' : ''}` : ''}
@@ -84,7 +139,7 @@ export function ValidationConsole({ result, isChecking }: ValidationConsoleProps
         <div className="p-1.5 rounded-md bg-primary/10">
           <Terminal className="h-4 w-4 text-primary" />
         </div>
-        <h3 className="text-sm font-medium">Console Output</h3>
+        <h3 className="text-sm font-medium">Problems</h3>
       </div>
 
       {/* Output content */}
@@ -105,19 +160,11 @@ export function ValidationConsole({ result, isChecking }: ValidationConsoleProps
               )}
 
               {result.errors.map((error, i) => (
-                <div key={i} className="flex items-start gap-2 py-0.5 px-1 rounded bg-red-500/5">
-                  <AlertCircle className="h-3.5 w-3.5 text-red-500 mt-0.5 flex-none" />
-                  <pre className="text-red-500/90 whitespace-pre-wrap break-all">
-                    {error.line ? `Line ${error.line}${error.column ? `:${error.column}` : ''} — ` : ''}{error.message}
-                  </pre>
-                </div>
+                <ProblemRow key={`e${i}`} problem={error} severity="error" onSelect={onSelectProblem} />
               ))}
 
               {result.warnings.map((warning, i) => (
-                <div key={i} className="flex items-start gap-2 py-0.5 px-1 rounded bg-yellow-500/5">
-                  <AlertTriangle className="h-3.5 w-3.5 text-yellow-500 mt-0.5 flex-none" />
-                  <pre className="text-yellow-500/90 whitespace-pre-wrap break-all">{warning}</pre>
-                </div>
+                <ProblemRow key={`w${i}`} problem={warning} severity="warning" onSelect={onSelectProblem} />
               ))}
             </>
           ) : null}
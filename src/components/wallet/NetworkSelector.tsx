@@ -14,35 +14,72 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { ChevronDown, AlertTriangle, Check } from 'lucide-react';
 import { useWallet, Network } from '@/contexts/WalletContext';
+import { STACKS_CONFIG } from '@/lib/config';
 import { cn } from '@/lib/utils';
 
+const NETWORK_OPTIONS: Array<{ network: Network; label: string; description: string }> = [
+  { network: 'testnet', label: 'Testnet', description: 'Free test tokens' },
+  { network: 'mainnet', label: 'Mainnet', description: 'Real STX, your wallet only' },
+  { network: 'devnet', label: 'Devnet', description: STACKS_CONFIG.devnet.apiUrl },
+  { network: 'custom', label: 'Custom', description: 'Your own Stacks API' },
+];
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
 export function NetworkSelector() {
-  const { network, setNetwork, deploymentMode } = useWallet();
+  const { network, customApiUrl, setNetwork, stacksNetwork, setDeploymentMode } = useWallet();
   const [showMainnetWarning, setShowMainnetWarning] = useState(false);
+  const [showCustomDialog, setShowCustomDialog] = useState(false);
+  const [apiUrlInput, setApiUrlInput] = useState(customApiUrl);
   const [isOpen, setIsOpen] = useState(false);
 
-  // Don't show network selector in playground mode
-  if (deploymentMode === 'playground') {
-    return null;
-  }
-
   const handleNetworkChange = (newNetwork: Network) => {
-    if (newNetwork === 'mainnet' && network === 'testnet') {
+    if (newNetwork === 'mainnet' && network !== 'mainnet') {
       setShowMainnetWarning(true);
+    } else if (newNetwork === 'custom') {
+      setApiUrlInput(customApiUrl);
+      setShowCustomDialog(true);
     } else {
       setNetwork(newNetwork);
     }
     setIsOpen(false);
   };
 
+  // The playground deployer never signs on mainnet, so mainnet always means the user's own wallet
   const confirmMainnetSwitch = () => {
     setNetwork('mainnet');
+    setDeploymentMode('wallet');
     setShowMainnetWarning(false);
   };
 
-  const isMainnet = network === 'mainnet';
+  // Nor does it sign through an API the user chose
+  const confirmCustomNetwork = () => {
+    setNetwork('custom', apiUrlInput.trim());
+    setDeploymentMode('wallet');
+    setShowCustomDialog(false);
+  };
+
+  const isMainnet = stacksNetwork.isMainnet;
 
   return (
     <>
@@ -53,6 +90,7 @@ export function NetworkSelector() {
               'flex items-center gap-2 px-2.5 py-1.5 rounded-lg transition-colors',
               'border border-border bg-muted/50 hover:bg-muted'
             )}
+            title={stacksNetwork.apiUrl}
           >
             <div
               className={cn(
@@ -61,7 +99,7 @@ export function NetworkSelector() {
               )}
             />
             <span className="text-xs font-medium capitalize">
-              {network}
+              {stacksNetwork.network}
             </span>
             <ChevronDown
               className={cn(
@@ -72,55 +110,80 @@ export function NetworkSelector() {
           </button>
         </DropdownMenuTrigger>
 
-        <DropdownMenuContent align="end" className="w-48 p-1.5">
-          {/* Testnet Option */}
-          <button
-            onClick={() => handleNetworkChange('testnet')}
-            className={cn(
-              'w-full flex items-center gap-3 p-2.5 rounded-md transition-colors',
-              'hover:bg-muted',
-              network === 'testnet' && 'bg-muted'
-            )}
-          >
-            <div className="flex items-center justify-center h-6 w-6 rounded-full bg-muted border border-border">
-              <div className="h-2 w-2 rounded-full bg-muted-foreground" />
-            </div>
-            <div className="flex-1 text-left">
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-medium">Testnet</span>
-                {network === 'testnet' && (
-                  <Check className="h-3.5 w-3.5 text-primary" />
-                )}
+        <DropdownMenuContent align="end" className="w-56 p-1.5">
+          {NETWORK_OPTIONS.map((option, index) => (
+            <button
+              key={option.network}
+              onClick={() => handleNetworkChange(option.network)}
+              className={cn(
+                'w-full flex items-center gap-3 p-2.5 rounded-md transition-colors',
+                'hover:bg-muted',
+                index > 0 && 'mt-1',
+                stacksNetwork.network === option.network && 'bg-muted'
+              )}
+            >
+              <div className="flex items-center justify-center h-6 w-6 rounded-full bg-muted border border-border">
+                <div className={cn(
+                  'h-2 w-2 rounded-full',
+                  option.network === 'mainnet' ? 'bg-primary' : 'bg-muted-foreground'
+                )} />
               </div>
-              <span className="text-[10px] text-muted-foreground">Free test tokens</span>
-            </div>
-          </button>
-
-          {/* Mainnet Option */}
-          <button
-            onClick={() => handleNetworkChange('mainnet')}
-            className={cn(
-              'w-full flex items-center gap-3 p-2.5 rounded-md transition-colors mt-1',
-              'hover:bg-muted',
-              network === 'mainnet' && 'bg-muted'
-            )}
-          >
-            <div className="flex items-center justify-center h-6 w-6 rounded-full bg-muted border border-border">
-              <div className="h-2 w-2 rounded-full bg-primary" />
-            </div>
-            <div className="flex-1 text-left">
-              <div className="flex items-center gap-2">
-                <span className="text-sm font-medium">Mainnet</span>
-                {network === 'mainnet' && (
-                  <Check className="h-3.5 w-3.5 text-primary" />
-                )}
+              <div className="flex-1 min-w-0 text-left">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{option.label}</span>
+                  {stacksNetwork.network === option.network && (
+                    <Check className="h-3.5 w-3.5 text-primary" />
+                  )}
+                </div>
+                <span className="block text-[10px] text-muted-foreground truncate">
+                  {option.network === 'custom' && stacksNetwork.network === 'custom'
+                    ? stacksNetwork.apiUrl
+                    : option.description}
+                </span>
               </div>
-              <span className="text-[10px] text-muted-foreground">Real NEAR tokens</span>
-            </div>
-          </button>
+            </button>
+          ))}
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {/* Custom API Dialog */}
+      <Dialog open={showCustomDialog} onOpenChange={setShowCustomDialog}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Custom Network</DialogTitle>
+            <DialogDescription>
+              A Stacks Blockchain API that uses testnet addresses, such as a self-hosted node. You deploy and call
+              from your own wallet there, and the backend must allow the API.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="custom-api-url">API URL</Label>
+            <Input
+              id="custom-api-url"
+              placeholder="https://stacks-api.example.com"
+              value={apiUrlInput}
+              onChange={(e) => setApiUrlInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && isHttpUrl(apiUrlInput.trim())) confirmCustomNetwork();
+              }}
+            />
+            {apiUrlInput.trim() && !isHttpUrl(apiUrlInput.trim()) && (
+              <p className="text-xs text-destructive">Enter an http or https URL</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCustomDialog(false)}>
+              Cancel
+            </Button>
+            <Button onClick={confirmCustomNetwork} disabled={!isHttpUrl(apiUrlInput.trim())}>
+              Use Network
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Mainnet Warning Dialog */}
       <AlertDialog open={showMainnetWarning} onOpenChange={setShowMainnetWarning}>
         <AlertDialogContent className="sm:max-w-[420px]">
@@ -139,7 +202,7 @@ export function NetworkSelector() {
           <AlertDialogDescription asChild>
             <div className="space-y-3 mt-2">
               <p className="text-sm">
-                You're about to switch to <span className="font-medium text-foreground">NEAR Mainnet</span>.
+                You're about to switch to <span className="font-medium text-foreground">Stacks Mainnet</span>.
                 Please understand:
               </p>
 
@@ -147,11 +210,19 @@ export function NetworkSelector() {
                 <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 border border-border">
                   <div className="h-1.5 w-1.5 rounded-full bg-muted-foreground mt-1.5" />
                   <div>
-                    <p className="text-sm font-medium text-foreground">Real NEAR Tokens</p>
+                    <p className="text-sm font-medium text-foreground">Real STX</p>
                     <p className="text-xs text-muted-foreground">All transactions use actual cryptocurrency</p>
                   </div>
                 </div>
 
+                <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 border border-border">
+                  <div className="h-1.5 w-1.5 rounded-full bg-muted-foreground mt-1.5" />
+                  <div>
+                    <p className="text-sm font-medium text-foreground">Your Own Wallet</p>
+                    <p className="text-xs text-muted-foreground">The playground wallet only signs on test networks</p>
+                  </div>
+                </div>
+
                 <div className="flex items-start gap-3 p-3 rounded-lg bg-muted/50 border border-border">
                   <div className="h-1.5 w-1.5 rounded-full bg-muted-foreground mt-1.5" />
                   <div>
@@ -164,7 +235,7 @@ export function NetworkSelector() {
           </AlertDialogDescription>
 
           <AlertDialogFooter className="mt-4">
-            <AlertDialogCancel>Stay on Testnet</AlertDialogCancel>
+            <AlertDialogCancel>Stay on {stacksNetwork.name}</AlertDialogCancel>
             <AlertDialogAction onClick={confirmMainnetSwitch}>
               Switch to Mainnet
             </AlertDialogAction>
@@ -20,17 +20,18 @@ import {
   Check,
   Globe,
 } from 'lucide-react';
-import { useWallet, formatNearAmount, Network } from '@/contexts/WalletContext';
+import { useWallet } from '@/contexts/WalletContext';
 import { useToast } from '@/hooks/use-toast';
+import { StacksNetworkConfig, getExplorerAccountUrl, isPlaygroundNetwork } from '@/lib/config';
 import { cn } from '@/lib/utils';
 
 // Network indicator dot
-function NetworkDot({ network, className }: { network: Network; className?: string }) {
+function NetworkDot({ network, className }: { network: StacksNetworkConfig; className?: string }) {
   return (
     <div
       className={cn(
         'h-2 w-2 rounded-full',
-        network === 'mainnet' ? 'bg-green-500' : 'bg-muted-foreground',
+        network.isMainnet ? 'bg-green-500' : 'bg-muted-foreground',
         className
       )}
     />
@@ -47,12 +48,12 @@ export function WalletButton() {
   const {
     deploymentMode,
     setDeploymentMode,
-    network,
+    stacksNetwork,
     setNetwork,
     isConnected,
-    accountId,
-    accountBalance,
-    isInitializing,
+    address,
+    balance,
+    isConnecting,
     isLoadingBalance,
     connectWallet,
     disconnectWallet,
@@ -60,14 +61,13 @@ export function WalletButton() {
   } = useWallet();
 
   const { toast } = useToast();
-  const [isDisconnecting, setIsDisconnecting] = useState(false);
   const [copied, setCopied] = useState(false);
   const [isOpen, setIsOpen] = useState(false);
 
   // Handlers
   const handleCopyAddress = () => {
-    if (accountId) {
-      navigator.clipboard.writeText(accountId);
+    if (address) {
+      navigator.clipboard.writeText(address);
       setCopied(true);
       setTimeout(() => setCopied(false), 2000);
       toast({
@@ -78,70 +78,67 @@ export function WalletButton() {
   };
 
   const handleViewOnExplorer = () => {
-    if (accountId) {
-      const explorerUrl = network === 'mainnet'
-        ? `https://nearblocks.io/address/${accountId}`
-        : `https://testnet.nearblocks.io/address/${accountId}`;
-      window.open(explorerUrl, '_blank');
+    if (address) {
+      window.open(getExplorerAccountUrl(address, stacksNetwork), '_blank');
     }
   };
 
-  const handleDisconnect = async () => {
-    setIsDisconnecting(true);
-    try {
-      await disconnectWallet();
-      toast({
-        title: 'Disconnected',
-        description: 'Wallet disconnected',
-      });
-    } catch (error) {
-      console.error('Failed to disconnect:', error);
-    } finally {
-      setIsDisconnecting(false);
-      setIsOpen(false);
-    }
+  const handleDisconnect = () => {
+    disconnectWallet();
+    toast({
+      title: 'Disconnected',
+      description: 'Wallet disconnected',
+    });
+    setIsOpen(false);
   };
 
+  // The playground deployer doesn't sign on mainnet or custom networks
   const handleSwitchToPlayground = () => {
+    if (!isPlaygroundNetwork(stacksNetwork)) setNetwork('testnet');
     setDeploymentMode('playground');
     setIsOpen(false);
   };
 
   const handleSwitchToWallet = () => {
     setDeploymentMode('wallet');
-    setNetwork('mainnet'); // External wallets are mainnet-only
     setIsOpen(false);
   };
 
-  const handleConnectWallet = () => {
+  const handleConnectWallet = async () => {
     setIsOpen(false);
-    connectWallet();
+    try {
+      await connectWallet();
+    } catch (error) {
+      toast({
+        title: 'Wallet not connected',
+        description: error instanceof Error ? error.message : 'The wallet request was cancelled',
+        variant: 'destructive',
+      });
+    }
   };
 
-  // Loading state
-  if (isInitializing) {
+  // Waiting for the wallet
+  if (isConnecting) {
     return (
       <Button variant="outline" size="sm" className="h-9 gap-2" disabled>
         <Loader2 className="h-4 w-4 animate-spin" />
-        <span className="text-sm">Loading...</span>
+        <span className="text-sm">Connecting...</span>
       </Button>
     );
   }
 
   // Compute button content
   const isPlayground = deploymentMode === 'playground';
-  const isWalletConnected = !isPlayground && isConnected && accountId;
+  const isWalletConnected = !isPlayground && isConnected && address;
   const isWalletDisconnected = !isPlayground && !isConnected;
 
   const buttonLabel = isPlayground
     ? 'Playground'
     : isWalletConnected
-      ? truncateAddress(accountId!)
+      ? truncateAddress(address!)
       : 'Connect';
 
   const ButtonIcon = isPlayground ? Zap : Wallet;
-  const currentNetwork: Network = isPlayground ? 'testnet' : 'mainnet'; // Wallet mode is always mainnet
-  const formattedBalance = accountBalance ? formatNearAmount(accountBalance.available) : null;
 
   return (
     <>
@@ -156,13 +153,13 @@ export function WalletButton() {
               <div className="flex flex-col items-start">
                 <span className="text-xs font-mono leading-tight">{buttonLabel}</span>
                 <span className="text-[10px] text-muted-foreground leading-tight">
-                  {isLoadingBalance ? 'Loading...' : formattedBalance ? `${formattedBalance} NEAR` : '0 NEAR'}
+                  {isLoadingBalance ? 'Loading...' : `${balance ?? '0'} STX`}
                 </span>
               </div>
             ) : (
               <span className="text-sm font-medium">{buttonLabel}</span>
             )}
-            <NetworkDot network={currentNetwork} />
+            <NetworkDot network={stacksNetwork} />
             <ChevronDown className={cn(
               'h-3 w-3 text-muted-foreground transition-transform',
               isOpen && 'rotate-180'
@@ -191,7 +188,7 @@ export function WalletButton() {
                   <Wallet className="h-4 w-4" />
                   <div>
                     <p className="font-medium">Use External Wallet</p>
-                    <p className="text-xs text-muted-foreground">Connect Meteor or HOT wallet</p>
+                    <p className="text-xs text-muted-foreground">Connect Leather or Xverse</p>
                   </div>
                 </DropdownMenuItem>
               </div>
@@ -209,10 +206,10 @@ export function WalletButton() {
                   </div>
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2">
-                      <p className="text-xs text-muted-foreground">Mainnet</p>
-                      <NetworkDot network="mainnet" />
+                      <p className="text-xs text-muted-foreground">{stacksNetwork.name}</p>
+                      <NetworkDot network={stacksNetwork} />
                     </div>
-                    <p className="text-sm font-mono truncate">{accountId}</p>
+                    <p className="text-sm font-mono truncate">{address}</p>
                   </div>
                 </div>
 
@@ -239,7 +236,7 @@ export function WalletButton() {
                       <span className="text-muted-foreground text-sm">Loading...</span>
                     ) : (
                       <>
-                        {formattedBalance || '0'} <span className="text-sm font-normal text-muted-foreground">NEAR</span>
+                        {balance ?? '0'} <span className="text-sm font-normal text-muted-foreground">STX</span>
                       </>
                     )}
                   </p>
@@ -270,14 +267,9 @@ export function WalletButton() {
                 </DropdownMenuItem>
                 <DropdownMenuItem
                   onClick={handleDisconnect}
-                  disabled={isDisconnecting}
                   className="gap-2 cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10"
                 >
-                  {isDisconnecting ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <LogOut className="h-4 w-4" />
-                  )}
+                  <LogOut className="h-4 w-4" />
                   Disconnect
                 </DropdownMenuItem>
               </div>
@@ -294,10 +286,10 @@ export function WalletButton() {
                   </div>
                   <div>
                     <div className="flex items-center gap-2">
-                      <p className="font-medium">Mainnet Only</p>
-                      <NetworkDot network="mainnet" />
+                      <p className="font-medium">Your Wallet</p>
+                      <NetworkDot network={stacksNetwork} />
                     </div>
-                    <p className="text-xs text-muted-foreground">Connect your wallet</p>
+                    <p className="text-xs text-muted-foreground">Sign deploys and calls yourself</p>
                   </div>
                 </div>
               </div>
@@ -308,7 +300,7 @@ export function WalletButton() {
                   <Globe className="h-4 w-4" />
                   <div>
                     <p className="font-medium">Connect Wallet</p>
-                    <p className="text-xs text-muted-foreground">Meteor, HOT and more</p>
+                    <p className="text-xs text-muted-foreground">Leather, Xverse and more</p>
                   </div>
                 </DropdownMenuItem>
               </div>
@@ -318,7 +310,7 @@ export function WalletButton() {
                 <DropdownMenuItem onClick={handleSwitchToPlayground} className="gap-3 p-3 cursor-pointer">
                   <Zap className="h-4 w-4" />
                   <div>
-                    <p className="font-medium">Need Testnet?</p>
+                    <p className="font-medium">No Wallet?</p>
                     <p className="text-xs text-muted-foreground">Use Playground - free & unlimited</p>
                   </div>
                 </DropdownMenuItem>
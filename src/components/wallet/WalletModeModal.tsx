@@ -7,6 +7,8 @@ import {
 } from '@/components/ui/dialog';
 import { Zap, Wallet, Check, Rocket, Shield, Globe } from 'lucide-react';
 import { useWallet, DeploymentMode } from '@/contexts/WalletContext';
+import { useToast } from '@/hooks/use-toast';
+import { isPlaygroundNetwork } from '@/lib/config';
 import { cn } from '@/lib/utils';
 
 interface WalletModeModalProps {
@@ -18,14 +20,25 @@ export function WalletModeModal({ open, onOpenChange }: WalletModeModalProps) {
   const {
     deploymentMode,
     setDeploymentMode,
+    stacksNetwork,
+    setNetwork,
     connectWallet,
-    accountId,
+    address,
   } = useWallet();
+  const { toast } = useToast();
 
   const handleSelectMode = (mode: DeploymentMode) => {
+    // The playground deployer doesn't sign on mainnet or custom networks
+    if (mode === 'playground' && !isPlaygroundNetwork(stacksNetwork)) setNetwork('testnet');
     setDeploymentMode(mode);
-    if (mode === 'wallet' && !accountId) {
-      connectWallet();
+    if (mode === 'wallet' && !address) {
+      connectWallet().catch((error) => {
+        toast({
+          title: 'Wallet not connected',
+          description: error instanceof Error ? error.message : 'The wallet request was cancelled',
+          variant: 'destructive',
+        });
+      });
     }
     onOpenChange(false);
   };
@@ -36,7 +49,7 @@ export function WalletModeModal({ open, onOpenChange }: WalletModeModalProps) {
         <DialogHeader className="px-6 pt-6 pb-4 border-b border-border">
           <DialogTitle>Choose Deployment Mode</DialogTitle>
           <DialogDescription>
-            Select how you want to deploy smart contracts to NEAR Protocol
+            Select who signs your contract deploys and calls on Stacks
           </DialogDescription>
         </DialogHeader>
 
@@ -115,13 +128,10 @@ export function WalletModeModal({ open, onOpenChange }: WalletModeModalProps) {
             {/* Content */}
             <div className="flex-1 min-w-0">
               <div className="flex items-center gap-2 mb-1">
-                <h3 className="font-medium">External Wallet</h3>
+                <h3 className="font-medium">Leather or Xverse</h3>
                 <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted border border-border text-muted-foreground">
                   Testnet
                 </span>
-                <span className="px-1.5 py-0.5 text-[10px] font-medium rounded bg-muted border border-border text-muted-foreground">
-                  Mainnet
-                </span>
                 {deploymentMode === 'wallet' && (
                   <div className="ml-auto flex items-center gap-1 text-xs font-medium text-primary">
                     <Check className="h-3.5 w-3.5" />
@@ -131,13 +141,13 @@ export function WalletModeModal({ open, onOpenChange }: WalletModeModalProps) {
               </div>
 
               <p className="text-sm text-muted-foreground mb-3">
-                Connect your wallet for full control. Deploy anywhere.
+                Sign every deploy and call in your own wallet. Contracts are deployed from your address.
               </p>
 
               <div className="grid grid-cols-2 gap-2">
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <Globe className="h-3.5 w-3.5" />
-                  <span>Multi-network</span>
+                  <span>Stacks Connect</span>
                 </div>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                   <Shield className="h-3.5 w-3.5" />
@@ -145,12 +155,12 @@ export function WalletModeModal({ open, onOpenChange }: WalletModeModalProps) {
                 </div>
               </div>
 
-              {accountId && deploymentMode !== 'wallet' && (
+              {address && deploymentMode !== 'wallet' && (
                 <div className="mt-3 pt-3 border-t border-border">
                   <div className="flex items-center gap-2 text-xs">
                     <div className="h-2 w-2 rounded-full bg-primary" />
                     <span className="text-muted-foreground">Already connected:</span>
-                    <span className="font-mono">{accountId.length > 20 ? `${accountId.slice(0, 10)}...${accountId.slice(-8)}` : accountId}</span>
+                    <span className="font-mono">{`${address.slice(0, 10)}...${address.slice(-8)}`}</span>
                   </div>
                 </div>
               )}
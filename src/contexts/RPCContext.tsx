@@ -1,8 +1,12 @@
 import { createContext, useContext, useState, useEffect, useCallback, useRef, useMemo, ReactNode } from 'react';
+import { getNetworkInfo, isEndpointFailure, isRejectedApiUrl } from '@/lib/api';
+import { STACKS_CONFIG, StacksNetworkConfig } from '@/lib/config';
 
+// Stacks API endpoints: Hiro's, a self-hosted stacks-blockchain-api or a local devnet
 export interface RPCProvider {
   id: string;
   name: string;
+  // Empty when the provider doesn't serve that network
   testnetUrl: string;
   mainnetUrl: string;
   isCustom?: boolean;
@@ -12,8 +16,15 @@ export interface ConnectionStatus {
   connected: boolean;
   latency: number | null;
   lastChecked: number | null;
+  // Chain tip reported by /v2/info
+  blockHeight?: number | null;
+  // Why the check failed, e.g. the backend not allowing the API
+  error?: string;
 }
 
+// Providers serve the two public chains; devnets and custom networks carry their own API URL
+export type RPCNetwork = 'testnet' | 'mainnet';
+
 interface RPCContextState {
   // Provider lists
   providers: RPCProvider[];
@@ -23,41 +34,62 @@ interface RPCContextState {
   selectedTestnetProvider: string;
   selectedMainnetProvider: string;
 
-  // Connection status per provider
+  // Connection status per provider, keyed `${providerId}-${network}`
   connectionStatus: Record<string, ConnectionStatus>;
 
   // Actions
-  setProvider: (network: 'testnet' | 'mainnet', providerId: string) => void;
+  setProvider: (network: RPCNetwork, providerId: string) => void;
   addCustomProvider: (provider: Omit<RPCProvider, 'id' | 'isCustom'>) => void;
   removeCustomProvider: (providerId: string) => void;
-  testConnection: (providerId: string, network: 'testnet' | 'mainnet') => Promise<ConnectionStatus>;
-  testAllConnections: (network: 'testnet' | 'mainnet') => Promise<void>;
-  getCurrentRpcUrl: (network: 'testnet' | 'mainnet') => string;
+  testConnection: (providerId: string, network: RPCNetwork) => Promise<ConnectionStatus>;
+  testAllConnections: (network: RPCNetwork) => Promise<void>;
+  // Check a URL that isn't a provider yet
+  testUrl: (url: string, network: RPCNetwork) => Promise<ConnectionStatus>;
+  getCurrentRpcUrl: (network: RPCNetwork) => string;
   getProviderById: (providerId: string) => RPCProvider | undefined;
+  // The network with its API URL swapped for the selected provider's
+  resolveNetwork: (network: StacksNetworkConfig) => StacksNetworkConfig;
+  // Run a call against the selected provider, moving on to the others when the endpoint fails
+  withFailover: <T>(network: StacksNetworkConfig, call: (network: StacksNetworkConfig) => Promise<T>) => Promise<T>;
 }
 
-// Default providers
+const DEFAULT_PROVIDER_ID = 'hiro';
+
+// Default providers. A local devnet is its own chain, not a testnet mirror, so it is never one of them:
+// failover would read testnet contracts and balances from it.
 export const DEFAULT_PROVIDERS: RPCProvider[] = [
   {
-    id: 'near-official',
-    name: 'NEAR Official',
-    testnetUrl: 'https://rpc.testnet.near.org',
-    mainnetUrl: 'https://rpc.mainnet.near.org',
-  },
-  {
-    id: 'fastnear',
-    name: 'FastNEAR',
-    testnetUrl: 'https://test.rpc.fastnear.com',
-    mainnetUrl: 'https://free.rpc.fastnear.com',
-  },
-  {
-    id: 'lava',
-    name: 'Lava Network',
-    testnetUrl: 'https://neart.lava.build:443',
-    mainnetUrl: 'https://near.lava.build:443',
+    id: DEFAULT_PROVIDER_ID,
+    name: 'Hiro',
+    testnetUrl: STACKS_CONFIG.testnet.apiUrl,
+    mainnetUrl: STACKS_CONFIG.mainnet.apiUrl,
   },
 ];
 
+function providerUrl(provider: RPCProvider, network: RPCNetwork): string {
+  return network === 'testnet' ? provider.testnetUrl : provider.mainnetUrl;
+}
+
+function rpcNetworkOf(network: StacksNetworkConfig): RPCNetwork | null {
+  return network.network === 'testnet' || network.network === 'mainnet' ? network.network : null;
+}
+
+function failedStatus(error: unknown): ConnectionStatus {
+  const message = error instanceof Error ? error.message : String(error);
+  return { connected: false, latency: null, lastChecked: Date.now(), blockHeight: null, error: message };
+}
+
+// Health check for a Stacks API. Calls go through the backend, which only uses the APIs on its allowlist, so the
+// check does too: an API the browser reaches but the backend refuses is no use.
+async function checkEndpoint(url: string, network: RPCNetwork): Promise<ConnectionStatus> {
+  try {
+    const info = await getNetworkInfo({ ...STACKS_CONFIG[network], apiUrl: url.replace(/\/+$/, '') });
+    return { connected: true, latency: info.latency, lastChecked: Date.now(), blockHeight: info.blockHeight };
+  } catch (error) {
+    return failedStatus(error);
+  }
+}
+
 const RPCContext = createContext<RPCContextState | null>(null);
 
 export function useRPC() {
@@ -73,169 +105,98 @@ interface RPCProviderProps {
 }
 
 export function RPCProvider({ children }: RPCProviderProps) {
-  // Load saved preferences from localStorage
-  const [selectedTestnetProvider, setSelectedTestnetProvider] = useState(() =>
-    typeof window !== 'undefined'
-      ? localStorage.getItem('rpc_testnet_provider') || 'near-official'
-      : 'near-official'
-  );
-
-  const [selectedMainnetProvider, setSelectedMainnetProvider] = useState(() =>
-    typeof window !== 'undefined'
-      ? localStorage.getItem('rpc_mainnet_provider') || 'fastnear'
-      : 'fastnear'
-  );
-
   const [customProviders, setCustomProviders] = useState<RPCProvider[]>(() => {
     if (typeof window === 'undefined') return [];
-    const saved = localStorage.getItem('rpc_custom_providers');
+    const saved = localStorage.getItem('api_custom_providers');
     return saved ? JSON.parse(saved) : [];
   });
 
-  const [connectionStatus, setConnectionStatus] = useState<Record<string, ConnectionStatus>>({});
-
   // All providers combined - memoized to prevent unnecessary re-renders
   const providers = useMemo(() => [...DEFAULT_PROVIDERS, ...customProviders], [customProviders]);
 
+  // Load saved preferences from localStorage, dropping providers that no longer exist
+  const savedProvider = (key: string): string => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem(key) : null;
+    return saved && providers.some(p => p.id === saved) ? saved : DEFAULT_PROVIDER_ID;
+  };
+
+  const [selectedTestnetProvider, setSelectedTestnetProvider] = useState(() => savedProvider('api_testnet_provider'));
+
+  const [selectedMainnetProvider, setSelectedMainnetProvider] = useState(() => savedProvider('api_mainnet_provider'));
+
+  const [connectionStatus, setConnectionStatus] = useState<Record<string, ConnectionStatus>>({});
+
   // Persist to localStorage
   useEffect(() => {
-    localStorage.setItem('rpc_testnet_provider', selectedTestnetProvider);
+    localStorage.setItem('api_testnet_provider', selectedTestnetProvider);
   }, [selectedTestnetProvider]);
 
   useEffect(() => {
-    localStorage.setItem('rpc_mainnet_provider', selectedMainnetProvider);
+    localStorage.setItem('api_mainnet_provider', selectedMainnetProvider);
   }, [selectedMainnetProvider]);
 
   useEffect(() => {
-    localStorage.setItem('rpc_custom_providers', JSON.stringify(customProviders));
+    localStorage.setItem('api_custom_providers', JSON.stringify(customProviders));
   }, [customProviders]);
 
-  // Test RPC connection
+  const recordStatus = useCallback((providerId: string, network: RPCNetwork, status: ConnectionStatus) => {
+    setConnectionStatus(prev => ({
+      ...prev,
+      [`${providerId}-${network}`]: status,
+    }));
+  }, []);
+
+  // Test a provider's endpoint for a network
   const testConnection = useCallback(async (
     providerId: string,
-    network: 'testnet' | 'mainnet'
+    network: RPCNetwork
   ): Promise<ConnectionStatus> => {
     const provider = providers.find(p => p.id === providerId);
-    if (!provider) {
-      return { connected: false, latency: null, lastChecked: Date.now() };
+    const url = provider ? providerUrl(provider, network) : '';
+    if (!url) {
+      return { connected: false, latency: null, lastChecked: Date.now(), blockHeight: null };
     }
 
-    const url = network === 'testnet' ? provider.testnetUrl : provider.mainnetUrl;
-    const start = Date.now();
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 'test',
-          method: 'status',
-          params: [],
-        }),
-      });
-
-      const latency = Date.now() - start;
-      const status: ConnectionStatus = {
-        connected: response.ok,
-        latency: response.ok ? latency : null,
-        lastChecked: Date.now(),
-      };
-
-      setConnectionStatus(prev => ({
-        ...prev,
-        [`${providerId}-${network}`]: status,
-      }));
-
-      return status;
-    } catch {
-      const status: ConnectionStatus = {
-        connected: false,
-        latency: null,
-        lastChecked: Date.now(),
-      };
-
-      setConnectionStatus(prev => ({
-        ...prev,
-        [`${providerId}-${network}`]: status,
-      }));
-
-      return status;
-    }
-  }, [providers]);
+    const status = await checkEndpoint(url, network);
+    recordStatus(providerId, network, status);
+    return status;
+  }, [providers, recordStatus]);
 
   // Test all provider connections
-  const testAllConnections = useCallback(async (network: 'testnet' | 'mainnet') => {
-    const promises = providers.map(provider => testConnection(provider.id, network));
+  const testAllConnections = useCallback(async (network: RPCNetwork) => {
+    const promises = providers
+      .filter(provider => providerUrl(provider, network))
+      .map(provider => testConnection(provider.id, network));
     await Promise.all(promises);
   }, [providers, testConnection]);
 
-  // Refs to avoid infinite loops in the interval effect
+  // Refs to avoid infinite loops in the interval effect and failover
   const selectedTestnetRef = useRef(selectedTestnetProvider);
   const selectedMainnetRef = useRef(selectedMainnetProvider);
   const providersRef = useRef(providers);
+  const connectionStatusRef = useRef(connectionStatus);
 
   // Keep refs in sync
   useEffect(() => {
     selectedTestnetRef.current = selectedTestnetProvider;
     selectedMainnetRef.current = selectedMainnetProvider;
     providersRef.current = providers;
-  }, [selectedTestnetProvider, selectedMainnetProvider, providers]);
+    connectionStatusRef.current = connectionStatus;
+  }, [selectedTestnetProvider, selectedMainnetProvider, providers, connectionStatus]);
 
   // Auto-test current provider every minute
   useEffect(() => {
     // Test function that uses refs
     const testCurrentProviders = async () => {
-      const testnetProvider = providersRef.current.find(p => p.id === selectedTestnetRef.current);
-      const mainnetProvider = providersRef.current.find(p => p.id === selectedMainnetRef.current);
-
-      if (testnetProvider) {
-        const startTime = Date.now();
-        try {
-          const response = await fetch(testnetProvider.testnetUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jsonrpc: '2.0', id: 'test', method: 'status', params: [] }),
-          });
-          const latency = Date.now() - startTime;
-          setConnectionStatus(prev => ({
-            ...prev,
-            [`${testnetProvider.id}-testnet`]: {
-              connected: response.ok,
-              latency: response.ok ? latency : null,
-              lastChecked: Date.now(),
-            },
-          }));
-        } catch {
-          setConnectionStatus(prev => ({
-            ...prev,
-            [`${testnetProvider.id}-testnet`]: { connected: false, latency: null, lastChecked: Date.now() },
-          }));
-        }
-      }
-
-      if (mainnetProvider) {
-        const startTime = Date.now();
-        try {
-          const response = await fetch(mainnetProvider.mainnetUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ jsonrpc: '2.0', id: 'test', method: 'status', params: [] }),
-          });
-          const latency = Date.now() - startTime;
-          setConnectionStatus(prev => ({
-            ...prev,
-            [`${mainnetProvider.id}-mainnet`]: {
-              connected: response.ok,
-              latency: response.ok ? latency : null,
-              lastChecked: Date.now(),
-            },
-          }));
-        } catch {
-          setConnectionStatus(prev => ({
-            ...prev,
-            [`${mainnetProvider.id}-mainnet`]: { connected: false, latency: null, lastChecked: Date.now() },
-          }));
+      const selections: Array<[RPCNetwork, string]> = [
+        ['testnet', selectedTestnetRef.current],
+        ['mainnet', selectedMainnetRef.current],
+      ];
+      for (const [network, providerId] of selections) {
+        const provider = providersRef.current.find(p => p.id === providerId);
+        const url = provider ? providerUrl(provider, network) : '';
+        if (url) {
+          recordStatus(providerId, network, await checkEndpoint(url, network));
         }
       }
     };
@@ -250,7 +211,7 @@ export function RPCProvider({ children }: RPCProviderProps) {
       clearTimeout(initialTimeout);
       clearInterval(interval);
     };
-  }, []); // Empty deps - uses refs
+  }, [recordStatus]);
 
   // Ref for testConnection to avoid dependency issues
   const testConnectionRef = useRef(testConnection);
@@ -259,7 +220,7 @@ export function RPCProvider({ children }: RPCProviderProps) {
   }, [testConnection]);
 
   // Set provider for a network and test it immediately
-  const setProvider = useCallback((network: 'testnet' | 'mainnet', providerId: string) => {
+  const setProvider = useCallback((network: RPCNetwork, providerId: string) => {
     if (network === 'testnet') {
       setSelectedTestnetProvider(providerId);
     } else {
@@ -274,7 +235,9 @@ export function RPCProvider({ children }: RPCProviderProps) {
   // Add custom provider
   const addCustomProvider = useCallback((provider: Omit<RPCProvider, 'id' | 'isCustom'>) => {
     const newProvider: RPCProvider = {
-      ...provider,
+      name: provider.name,
+      testnetUrl: provider.testnetUrl.replace(/\/+$/, ''),
+      mainnetUrl: provider.mainnetUrl.replace(/\/+$/, ''),
       id: `custom-${Date.now()}`,
       isCustom: true,
     };
@@ -287,26 +250,18 @@ export function RPCProvider({ children }: RPCProviderProps) {
 
     // Reset selection if removed provider was selected
     if (selectedTestnetProvider === providerId) {
-      setSelectedTestnetProvider('near-official');
+      setSelectedTestnetProvider(DEFAULT_PROVIDER_ID);
     }
     if (selectedMainnetProvider === providerId) {
-      setSelectedMainnetProvider('fastnear');
+      setSelectedMainnetProvider(DEFAULT_PROVIDER_ID);
     }
   }, [selectedTestnetProvider, selectedMainnetProvider]);
 
-  // Get current RPC URL for a network
-  const getCurrentRpcUrl = useCallback((network: 'testnet' | 'mainnet'): string => {
+  // Get current API URL for a network, Hiro's if the selection no longer serves it
+  const getCurrentRpcUrl = useCallback((network: RPCNetwork): string => {
     const providerId = network === 'testnet' ? selectedTestnetProvider : selectedMainnetProvider;
     const provider = providers.find(p => p.id === providerId);
-
-    if (provider) {
-      return network === 'testnet' ? provider.testnetUrl : provider.mainnetUrl;
-    }
-
-    // Fallback to fastnear for mainnet (near-official is deprecated), official for testnet
-    return network === 'testnet'
-      ? DEFAULT_PROVIDERS[0].testnetUrl
-      : DEFAULT_PROVIDERS[1].mainnetUrl; // fastnear
+    return (provider && providerUrl(provider, network)) || STACKS_CONFIG[network].apiUrl;
   }, [providers, selectedTestnetProvider, selectedMainnetProvider]);
 
   // Get provider by ID
@@ -314,6 +269,46 @@ export function RPCProvider({ children }: RPCProviderProps) {
     return providers.find(p => p.id === providerId);
   }, [providers]);
 
+  const resolveNetwork = useCallback((network: StacksNetworkConfig): StacksNetworkConfig => {
+    const rpcNetwork = rpcNetworkOf(network);
+    return rpcNetwork ? { ...network, apiUrl: getCurrentRpcUrl(rpcNetwork) } : network;
+  }, [getCurrentRpcUrl]);
+
+  const withFailover = useCallback(async <T,>(
+    network: StacksNetworkConfig,
+    call: (network: StacksNetworkConfig) => Promise<T>
+  ): Promise<T> => {
+    const rpcNetwork = rpcNetworkOf(network);
+    if (!rpcNetwork) return call(network);
+
+    // The selected provider first unless it is known to be down, then reachable ones by latency. A provider the
+    // backend refuses counts as down, which leaves the default one, always allowed, to fall back to.
+    // Read through refs so callers holding this function don't re-run on every health check.
+    const selectedId = rpcNetwork === 'testnet' ? selectedTestnetRef.current : selectedMainnetRef.current;
+    const rank = (provider: RPCProvider) => {
+      const status = connectionStatusRef.current[`${provider.id}-${rpcNetwork}`];
+      if (provider.id === selectedId && status?.connected !== false) return -1;
+      if (!status?.lastChecked) return Number.MAX_SAFE_INTEGER - 1;
+      return status.connected ? status.latency ?? 0 : Number.MAX_SAFE_INTEGER;
+    };
+    const candidates = providersRef.current
+      .filter(provider => providerUrl(provider, rpcNetwork))
+      .sort((a, b) => rank(a) - rank(b));
+
+    let lastError: unknown;
+    for (const provider of candidates) {
+      try {
+        return await call({ ...network, apiUrl: providerUrl(provider, rpcNetwork) });
+      } catch (error) {
+        if (!isEndpointFailure(error) && !(isRejectedApiUrl(error) && provider.id !== DEFAULT_PROVIDER_ID)) throw error;
+        console.warn(`Stacks API ${provider.name} failed, trying the next provider:`, error);
+        recordStatus(provider.id, rpcNetwork, failedStatus(error));
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }, [recordStatus]);
+
   // Memoize context value to prevent unnecessary re-renders
   const contextValue = useMemo(() => ({
     providers,
@@ -326,8 +321,11 @@ export function RPCProvider({ children }: RPCProviderProps) {
     removeCustomProvider,
     testConnection,
     testAllConnections,
+    testUrl: checkEndpoint,
     getCurrentRpcUrl,
     getProviderById,
+    resolveNetwork,
+    withFailover,
   }), [
     providers,
     customProviders,
@@ -341,6 +339,8 @@ export function RPCProvider({ children }: RPCProviderProps) {
     testAllConnections,
     getCurrentRpcUrl,
     getProviderById,
+    resolveNetwork,
+    withFailover,
   ]);
 
   return (
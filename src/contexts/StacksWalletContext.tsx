@@ -1,9 +1,10 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-
-interface DeployerWallet {
-  address: string;
-  balance?: string;
-}
+import { useAuth } from '@/App';
+import { useWallet } from '@/contexts/WalletContext';
+import { useRPC } from '@/contexts/RPCContext';
+import { getAccountInfo, getDeployerWallet, requestFaucet as apiRequestFaucet } from '@/lib/api';
+import { DEFAULT_STACKS_NETWORK } from '@/lib/config';
+import { DeployerWallet } from '@/lib/types';
 
 interface StacksWalletContextType {
   wallet: DeployerWallet | null;
@@ -16,9 +17,12 @@ interface StacksWalletContextType {
 
 const StacksWalletContext = createContext<StacksWalletContextType | undefined>(undefined);
 
-const API_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001';
-
 export function StacksWalletProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  // The deployer wallet never signs on mainnet; there it shows its testnet balance
+  const { stacksNetwork } = useWallet();
+  const network = stacksNetwork.isMainnet ? DEFAULT_STACKS_NETWORK : stacksNetwork;
+  const { withFailover } = useRPC();
   const [wallet, setWallet] = useState<DeployerWallet | null>(null);
   const [balance, setBalance] = useState<string>('0');
   const [isLoadingBalance, setIsLoadingBalance] = useState(false);
@@ -28,8 +32,8 @@ export function StacksWalletProvider({ children }: { children: React.ReactNode }
     if (!wallet?.address) return;
     setIsLoadingBalance(true);
     try {
-      const res = await fetch(`${API_URL}/account/${wallet.address}`);
-      const data = await res.json();
+      const address = wallet.address;
+      const data = await withFailover(network, endpoint => getAccountInfo(address, endpoint));
       if (data.balance !== undefined) {
         setBalance(data.balance);
       }
@@ -38,32 +42,26 @@ export function StacksWalletProvider({ children }: { children: React.ReactNode }
     } finally {
       setIsLoadingBalance(false);
     }
-  }, [wallet?.address]);
+  }, [wallet?.address, network, withFailover]);
 
   const requestFaucet = useCallback(async () => {
-    try {
-      const res = await fetch(`${API_URL}/wallet/faucet`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
-      });
-      const data = await res.json();
-      if (data.success) {
-        setTimeout(() => refreshBalance(), 5000);
-      }
-      return data;
-    } catch (err: any) {
-      return { success: false, error: err.message };
+    // Funds the caller's own deployer wallet
+    const data = await apiRequestFaucet(network);
+    if (data.success) {
+      setTimeout(() => refreshBalance(), 5000);
     }
-  }, [refreshBalance]);
+    return data;
+  }, [refreshBalance, network]);
 
+  // Each user has their own deployer wallet, so reload it when the user changes
   useEffect(() => {
     const initWallet = async () => {
       setIsLoadingWallet(true);
+      setWallet(null);
+      setBalance('0');
       try {
-        const res = await fetch(`${API_URL}/wallet/info`);
-        const data = await res.json() as { address: string; balance: string };
-        setWallet({ address: data.address });
+        const data = await getDeployerWallet(network);
+        setWallet({ address: data.address, accountIndex: data.accountIndex });
         if (data.balance) setBalance(data.balance);
       } catch (err) {
         console.error('Failed to load deployer wallet info:', err);
@@ -73,7 +71,7 @@ export function StacksWalletProvider({ children }: { children: React.ReactNode }
     };
 
     initWallet();
-  }, []);
+  }, [user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Auto-refresh balance every 30s
   useEffect(() => {
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import { FeeEstimateRequest, FeeEstimates } from '@/lib/types';
+import { estimateFees } from '@/lib/api';
+import { StacksNetworkConfig } from '@/lib/config';
+import { useDebounce } from './useDebounce';
+
+interface UseFeeEstimatesReturn {
+  estimates: FeeEstimates | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Fee estimates for a deploy or call on `network` (testnet if omitted), refreshed as the request changes
+ * (debounced, since argument edits change the transaction size). Pass null to skip estimating.
+ */
+export function useFeeEstimates(request: FeeEstimateRequest | null, network?: StacksNetworkConfig): UseFeeEstimatesReturn {
+  const [estimates, setEstimates] = useState<FeeEstimates | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestKey = useDebounce(request ? JSON.stringify(request) : null, 500);
+
+  useEffect(() => {
+    if (!requestKey) {
+      setEstimates(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    estimateFees(JSON.parse(requestKey) as FeeEstimateRequest, network)
+      .then((result) => {
+        if (!cancelled) setEstimates(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setEstimates(null);
+        setError(err instanceof Error ? err.message : 'Could not estimate fees');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestKey, network]);
+
+  return { estimates, isLoading, error };
+}
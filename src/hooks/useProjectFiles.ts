@@ -44,6 +44,9 @@ interface UseProjectFilesReturn {
   createDirectory: (path: string) => Promise<void>;
   deleteFile: (path: string) => Promise<void>;
   renameFile: (oldPath: string, newPath: string) => Promise<void>;
+  // Keep open files in step with renames and deletions made elsewhere, e.g. in the file explorer
+  handlePathRenamed: (oldPath: string, newPath: string) => void;
+  handlePathDeleted: (path: string) => void;
 
   // Helpers
   getOpenFile: (path: string) => OpenFile | undefined;
@@ -198,10 +201,10 @@ export function useProjectFiles({
     try {
       await writeFile(userId, projectId, path, file.content);
 
-      // Update original content to match saved content
+      // Update original content to match saved content; edits made while saving stay dirty
       setOpenFiles(prev =>
         prev.map(f =>
-          f.path === path ? { ...f, originalContent: f.content } : f
+          f.path === path ? { ...f, originalContent: file.content } : f
         )
       );
     } catch (err) {
@@ -259,6 +262,39 @@ export function useProjectFiles({
     }
   }, [userId, projectId, loadFileTree]);
 
+  // Move open files at or under a renamed path
+  const handlePathRenamed = useCallback((oldPath: string, newPath: string) => {
+    const moved = (path: string) =>
+      path === oldPath || path.startsWith(`${oldPath}/`) ? newPath + path.slice(oldPath.length) : path;
+
+    setOpenFiles(prev =>
+      prev.map(f => {
+        const path = moved(f.path);
+        if (path === f.path) return f;
+        return {
+          ...f,
+          path,
+          name: path.split('/').pop() || path,
+          language: getLanguageFromPath(path),
+        };
+      })
+    );
+    setActiveFilePath(prev => prev && moved(prev));
+  }, []);
+
+  // Close open files at or under a deleted path
+  const handlePathDeleted = useCallback((path: string) => {
+    const isDeleted = (filePath: string) => filePath === path || filePath.startsWith(`${path}/`);
+
+    setOpenFiles(prev => {
+      const remaining = prev.filter(f => !isDeleted(f.path));
+      setActiveFilePath(active =>
+        active && !isDeleted(active) ? active : remaining[remaining.length - 1]?.path ?? null
+      );
+      return remaining;
+    });
+  }, []);
+
   // Delete a file or directory
   const deleteFile = useCallback(async (path: string) => {
     setIsLoading(true);
@@ -267,8 +303,8 @@ export function useProjectFiles({
     try {
       await apiDeleteFile(userId, projectId, path);
 
-      // Close the file if it's open
-      closeFile(path);
+      // Close the file, or the files in the directory, if open
+      handlePathDeleted(path);
 
       await loadFileTree();
     } catch (err) {
@@ -278,7 +314,7 @@ export function useProjectFiles({
     } finally {
       setIsLoading(false);
     }
-  }, [userId, projectId, loadFileTree, closeFile]);
+  }, [userId, projectId, loadFileTree, handlePathDeleted]);
 
   // Rename a file or directory
   const renameFile = useCallback(async (oldPath: string, newPath: string) => {
@@ -288,25 +324,8 @@ export function useProjectFiles({
     try {
       await apiRenameFile(userId, projectId, oldPath, newPath);
 
-      // Update open file path if renamed
-      setOpenFiles(prev =>
-        prev.map(f => {
-          if (f.path === oldPath) {
-            return {
-              ...f,
-              path: newPath,
-              name: newPath.split('/').pop() || newPath,
-              language: getLanguageFromPath(newPath),
-            };
-          }
-          return f;
-        })
-      );
-
-      // Update active file path if renamed
-      if (activeFilePath === oldPath) {
-        setActiveFilePath(newPath);
-      }
+      // Update open file paths, including files in a renamed directory
+      handlePathRenamed(oldPath, newPath);
 
       await loadFileTree();
     } catch (err) {
@@ -316,7 +335,7 @@ export function useProjectFiles({
     } finally {
       setIsLoading(false);
     }
-  }, [userId, projectId, loadFileTree, activeFilePath]);
+  }, [userId, projectId, loadFileTree, handlePathRenamed]);
 
   // Helper: get open file by path
   const getOpenFile = useCallback((path: string) => {
@@ -356,6 +375,8 @@ export function useProjectFiles({
     createDirectory,
     deleteFile,
     renameFile,
+    handlePathRenamed,
+    handlePathDeleted,
 
     // Helpers
     getOpenFile,
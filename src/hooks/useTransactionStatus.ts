@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react';
+import { TxPhase, TxSettlement } from '@/lib/types';
+import { watchTransaction } from '@/lib/api';
+import { StacksNetworkConfig } from '@/lib/config';
+
+interface UseTransactionStatusReturn {
+  phase: TxPhase | null;
+  settlement: TxSettlement | null;
+  error: string | null;
+}
+
+/**
+ * Follow a transaction on `network` (testnet if omitted) through the backend tracker until it settles.
+ * Pass null to stop watching; changing the txid starts over.
+ */
+export function useTransactionStatus(txId: string | null, network?: StacksNetworkConfig): UseTransactionStatusReturn {
+  const [phase, setPhase] = useState<TxPhase | null>(null);
+  const [settlement, setSettlement] = useState<TxSettlement | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPhase(null);
+    setSettlement(null);
+    setError(null);
+    if (!txId) return;
+
+    const controller = new AbortController();
+    watchTransaction(txId, (event) => {
+      if (event.type === 'status') {
+        setPhase(event.status);
+      } else {
+        setSettlement(event);
+      }
+    }, controller.signal, network).catch((err) => {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Lost track of the transaction');
+    });
+
+    return () => controller.abort();
+  }, [txId, network]);
+
+  return { phase, settlement, error };
+}
@@ -1,46 +1,129 @@
-import { ValidationResult, StacksDeployResult, ContractInterface, MethodCallResult, AccountInfo } from './types';
-import { API_URL } from './config';
+import {
+  ValidationResult,
+  StacksDeployResult,
+  BroadcastInfo,
+  ContractInterface,
+  MethodCallResult,
+  AccountInfo,
+  DeployerWallet,
+  SimulationSession,
+  SimulationResult,
+  SimulationDeployResult,
+  ClarityArgument,
+  PostConditionSpec,
+  PostConditionMode,
+  ProjectSourceFile,
+  TestCase,
+  TestSetupError,
+  TestRunEvent,
+  TxTrackEvent,
+  FeeEstimateRequest,
+  FeeEstimates,
+  FileNode,
+  FileSearchResult,
+  GitHubProject,
+  PublishPreview,
+  PublishResult,
+  ProjectRequirement,
+  RequirementLookup,
+} from './types';
+import { API_URL, DEFAULT_STACKS_NETWORK, STACKS_CONFIG, StacksNetworkConfig } from './config';
+import { supabase } from './supabase';
+import { ClarityVersion } from './clarityVersions';
+
+/** A backend response with an error status */
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/**
+ * Whether the Stacks API behind the backend failed (5xx, rate limited), rather than the request being rejected;
+ * such calls can be retried against another API endpoint
+ */
+export function isEndpointFailure(error: unknown): boolean {
+  return error instanceof ApiError && (error.status >= 500 || error.status === 429);
+}
+
+/**
+ * Whether the backend refused to use the API URL a call named because it isn't on its allowlist; calls through
+ * the default API still work
+ */
+export function isRejectedApiUrl(error: unknown): boolean {
+  return error instanceof ApiError && error.status === 403;
+}
+
+// The backend signs transactions with the signed-in user's own deployer account
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session ? { Authorization: `Bearer ${session.access_token}` } : {};
+}
 
 async function fetchAPI<T>(path: string, options?: RequestInit): Promise<T> {
   const res = await fetch(`${API_URL}${path}`, {
-    headers: { 'Content-Type': 'application/json' },
+    headers: {
+      'Content-Type': 'application/json',
+      ...await authHeaders(),
+    },
     ...options,
   });
 
   const data = await res.json();
 
   if (!res.ok) {
-    throw new Error(data.error || data.message || `Request failed: ${res.status}`);
+    throw new ApiError(data.error || data.message || `Request failed: ${res.status}`, res.status);
   }
 
   return data as T;
 }
 
+// The backend's `network` and `apiUrl` fields; it has its own URLs for the built-in networks, so apiUrl is
+// only sent for custom networks and API endpoints picked in the provider settings
+function networkFields(network: StacksNetworkConfig = DEFAULT_STACKS_NETWORK): { network: string; apiUrl?: string } {
+  if (network.network === 'custom' || network.apiUrl !== STACKS_CONFIG[network.network].apiUrl) {
+    return { network: network.network, apiUrl: network.apiUrl };
+  }
+  return { network: network.network };
+}
+
+function networkQuery(network?: StacksNetworkConfig): string {
+  return `?${new URLSearchParams(networkFields(network))}`;
+}
+
 // ============================================
 // Contract Validation & Deployment
 // ============================================
 
 /**
- * Validate a Clarity smart contract
+ * Validate a Clarity smart contract against the given Clarity version (latest if omitted). With the project it is
+ * in, its contract-call?s to the project's requirements are checked too.
  */
 export async function validateContract(
   code: string,
-  contractName: string
+  contractName: string,
+  clarityVersion?: ClarityVersion,
+  project?: { userId: string; projectId: string }
 ): Promise<ValidationResult> {
   return fetchAPI<ValidationResult>('/validate', {
     method: 'POST',
-    body: JSON.stringify({ code, contractName }),
+    body: JSON.stringify({ code, contractName, clarityVersion, ...project }),
   });
 }
 
 /**
- * Deploy a Clarity smart contract to Stacks testnet.
- * The backend uses its pre-funded deployer wallet — no private key needed from client.
+ * Deploy a Clarity smart contract (to testnet unless another network is given; never mainnet).
+ * The backend signs with the user's deployer wallet — no private key needed from client.
  */
 export async function deployContract(params: {
   code: string;
   contractName: string;
   fee?: number;
+  clarityVersion?: ClarityVersion;
+  postConditions?: PostConditionSpec[];
+  postConditionMode?: PostConditionMode;
+  network?: StacksNetworkConfig;
 }): Promise<StacksDeployResult> {
   return fetchAPI<StacksDeployResult>('/deploy', {
     method: 'POST',
@@ -48,6 +131,10 @@ export async function deployContract(params: {
       code: params.code,
       contractName: params.contractName,
       fee: params.fee,
+      clarityVersion: params.clarityVersion,
+      postConditions: params.postConditions,
+      postConditionMode: params.postConditionMode,
+      ...networkFields(params.network),
     }),
   });
 }
@@ -61,20 +148,35 @@ export async function deployContract(params: {
  */
 export async function getContractInterface(
   address: string,
-  name: string
+  name: string,
+  network?: StacksNetworkConfig
 ): Promise<ContractInterface> {
-  return fetchAPI<ContractInterface>(`/interface/${address}/${name}`);
+  return fetchAPI<ContractInterface>(`/interface/${address}/${name}${networkQuery(network)}`);
+}
+
+/**
+ * Get the source of a deployed Clarity contract, with the Clarity version it checks in and the deployed contracts
+ * it refers to. Mainnet addresses are read from mainnet and testnet ones from testnet when `network` is the other.
+ */
+export async function getContractSource(
+  address: string,
+  name: string,
+  network?: StacksNetworkConfig
+): Promise<RequirementLookup> {
+  return fetchAPI<RequirementLookup>(`/interface/${address}/${name}/source${networkQuery(network)}`);
 }
 
 /**
- * Call a read-only function on a deployed Clarity contract
+ * Call a read-only function on a deployed Clarity contract. Errors come back in the result, except
+ * endpoint failures (see isEndpointFailure), which are thrown so the call can be retried elsewhere.
  */
 export async function callReadOnly(params: {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  args: any[];
+  args: ClarityArgument[];
   senderAddress: string;
+  network?: StacksNetworkConfig;
 }): Promise<MethodCallResult> {
   try {
     return await fetchAPI<MethodCallResult>('/call-read', {
@@ -85,9 +187,11 @@ export async function callReadOnly(params: {
         functionName: params.functionName,
         args: params.args,
         senderAddress: params.senderAddress,
+        ...networkFields(params.network),
       }),
     });
   } catch (error) {
+    if (isEndpointFailure(error)) throw error;
     return {
       success: false,
       error: error instanceof Error ? error.message : 'Failed to call read-only function',
@@ -96,14 +200,19 @@ export async function callReadOnly(params: {
 }
 
 /**
- * Call a public function on a deployed Clarity contract (submits a transaction)
+ * Call a public function on a deployed Clarity contract (submits a transaction).
+ * With post-conditions the mode defaults to deny, so assets they don't cover cannot move.
  */
 export async function callPublicFunction(params: {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  args: Array<{ value: string; type: string }>;
-}): Promise<{ txId: string; explorerUrl: string }> {
+  args: ClarityArgument[];
+  fee?: number;
+  postConditions?: PostConditionSpec[];
+  postConditionMode?: PostConditionMode;
+  network?: StacksNetworkConfig;
+}): Promise<{ txId: string; explorerUrl: string } & BroadcastInfo> {
   return fetchAPI('/call', {
     method: 'POST',
     body: JSON.stringify({
@@ -111,22 +220,483 @@ export async function callPublicFunction(params: {
       contractName: params.contractName,
       functionName: params.functionName,
       args: params.args,
+      fee: params.fee,
+      postConditions: params.postConditions,
+      postConditionMode: params.postConditionMode,
+      ...networkFields(params.network),
+    }),
+  });
+}
+
+/**
+ * Low, medium and high fees in µSTX for a deploy or call, from the node's fee rate and the
+ * transaction's serialized size
+ */
+export async function estimateFees(request: FeeEstimateRequest, network?: StacksNetworkConfig): Promise<FeeEstimates> {
+  return fetchAPI<FeeEstimates>('/fees/estimate', {
+    method: 'POST',
+    body: JSON.stringify({ ...request, ...networkFields(network) }),
+  });
+}
+
+// ============================================
+// Local Simulator
+// ============================================
+
+/**
+ * Start an in-memory simnet session with funded accounts (deployer, wallet_1..wallet_8, faucet). With a project,
+ * its requirements are deployed first, at their simnet principals.
+ */
+export async function createSimulationSession(project?: { userId: string; projectId: string }): Promise<SimulationSession> {
+  return fetchAPI<SimulationSession>('/simulate/sessions', {
+    method: 'POST',
+    body: JSON.stringify(project ?? {}),
+  });
+}
+
+/**
+ * Get a session's block height, account balances and deployed contracts
+ */
+export async function getSimulationSession(sessionId: string): Promise<SimulationSession> {
+  return fetchAPI<SimulationSession>(`/simulate/sessions/${sessionId}`);
+}
+
+/**
+ * Deploy a contract to a simnet session. Check errors come back in `errors`, not as an exception.
+ */
+export async function deploySimulatedContract(sessionId: string, params: {
+  code: string;
+  contractName: string;
+  sender?: string;
+  clarityVersion?: ClarityVersion;
+}): Promise<SimulationDeployResult> {
+  return fetchAPI<SimulationDeployResult>(`/simulate/sessions/${sessionId}/deploy`, {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+}
+
+/**
+ * Call a function on a simulated contract. Arguments are values as typed for each parameter, such as `1` or `ST1...`,
+ * or Clarity literals; the simulator encodes them by the parameter's type.
+ * Public calls mine a block and change state; read-only calls never do.
+ */
+export async function callSimulatedFunction(sessionId: string, params: {
+  contract: string;
+  functionName: string;
+  args: string[];
+  sender?: string;
+  readOnly: boolean;
+}): Promise<SimulationResult> {
+  return fetchAPI<SimulationResult>(`/simulate/sessions/${sessionId}/${params.readOnly ? 'call-read' : 'call'}`, {
+    method: 'POST',
+    body: JSON.stringify({
+      contract: params.contract,
+      functionName: params.functionName,
+      args: params.args,
+      sender: params.sender,
     }),
   });
 }
 
+/**
+ * Get the interface of a simulated contract, in the same shape as getContractInterface
+ */
+export async function getSimulatedContractInterface(sessionId: string, contractId: string): Promise<ContractInterface> {
+  return fetchAPI<ContractInterface>(`/simulate/sessions/${sessionId}/contracts/${contractId}/interface`);
+}
+
+// Calls onEvent with each `data: ` line of a server-sent event stream until it ends
+async function readEventStream<T>(body: ReadableStream<Uint8Array>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (!line.startsWith('data: ')) continue;
+      try {
+        onEvent(JSON.parse(line.slice(6)) as T);
+      } catch {
+        // skip malformed events
+      }
+    }
+  }
+}
+
+// ============================================
+// Project Files
+// ============================================
+
+// A project's Clarinet layout (Clarinet.toml, contracts/, tests/, settings/); only its owner can use these
+function filesPath(userId: string, projectId: string, route: string): string {
+  return `/files/${encodeURIComponent(userId)}/${encodeURIComponent(projectId)}/${route}`;
+}
+
+/**
+ * Give a project without files its Clarinet layout. Projects saved as a single contract are moved into
+ * contracts/<name>.clar; `initialCode` replaces that contract.
+ */
+export async function initializeProject(userId: string, projectId: string, initialCode?: string): Promise<{ initialized: boolean }> {
+  return fetchAPI(filesPath(userId, projectId, 'init'), {
+    method: 'POST',
+    body: JSON.stringify({ code: initialCode }),
+  });
+}
+
+/**
+ * The project's files and directories, directories first
+ */
+export async function getFileTree(userId: string, projectId: string): Promise<FileNode> {
+  return fetchAPI<FileNode>(filesPath(userId, projectId, 'tree'));
+}
+
+/**
+ * A file's content; fails with a 404 ApiError when there is no file at `path`
+ */
+export async function readFile(userId: string, projectId: string, path: string): Promise<{ path: string; content: string }> {
+  return fetchAPI(filesPath(userId, projectId, `file?${new URLSearchParams({ path })}`));
+}
+
+/**
+ * Save a file, creating it if it doesn't exist yet
+ */
+export async function writeFile(userId: string, projectId: string, path: string, content: string): Promise<void> {
+  await fetchAPI(filesPath(userId, projectId, 'file'), {
+    method: 'PUT',
+    body: JSON.stringify({ path, content }),
+  });
+}
+
+/**
+ * Create a file; one directly under contracts/ is also added to Clarinet.toml
+ */
+export async function createFile(userId: string, projectId: string, path: string, content = ''): Promise<void> {
+  await fetchAPI(filesPath(userId, projectId, 'file'), {
+    method: 'POST',
+    body: JSON.stringify({ path, content }),
+  });
+}
+
+/**
+ * Create an empty directory, along with any missing directories above it
+ */
+export async function createDirectory(userId: string, projectId: string, path: string): Promise<void> {
+  await fetchAPI(filesPath(userId, projectId, 'directory'), {
+    method: 'POST',
+    body: JSON.stringify({ path }),
+  });
+}
+
+/**
+ * Delete a file, or a directory and everything in it
+ */
+export async function deleteFile(userId: string, projectId: string, path: string): Promise<void> {
+  await fetchAPI(filesPath(userId, projectId, `file?${new URLSearchParams({ path })}`), { method: 'DELETE' });
+}
+
+/**
+ * Rename or move a file or directory; contracts keep their Clarinet.toml entries under the new name
+ */
+export async function renameFile(userId: string, projectId: string, oldPath: string, newPath: string): Promise<void> {
+  await fetchAPI(filesPath(userId, projectId, 'rename'), {
+    method: 'POST',
+    body: JSON.stringify({ from: oldPath, to: newPath }),
+  });
+}
+
+/**
+ * Files whose path contains `query`, or with `inContent`, every line that contains it
+ */
+export async function searchFiles(userId: string, projectId: string, query: string, inContent = false): Promise<FileSearchResult[]> {
+  const params = new URLSearchParams({ q: query, content: String(inContent) });
+  return fetchAPI<FileSearchResult[]>(filesPath(userId, projectId, `search?${params}`));
+}
+
+/**
+ * The project as a Clarinet project zip: Clarinet.toml, contracts/, tests/, settings/ and the default simnet
+ * deployment plan, in a folder named after the project
+ */
+export async function exportProject(userId: string, projectId: string): Promise<{ blob: Blob; fileName: string }> {
+  const res = await fetch(`${API_URL}${filesPath(userId, projectId, 'export')}`, { headers: await authHeaders() });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new ApiError(data.error || `Export failed: ${res.status}`, res.status);
+  }
+  const fileName = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'project.zip';
+  return { blob: await res.blob(), fileName };
+}
+
+/**
+ * Create a project from a Clarinet project zip, such as one made by exportProject
+ */
+export async function importProject(userId: string, file: File): Promise<{ projectId: string; name: string }> {
+  const res = await fetch(`${API_URL}/files/${encodeURIComponent(userId)}/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/zip', ...await authHeaders() },
+    body: file,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new ApiError(data.error || `Import failed: ${res.status}`, res.status);
+  }
+  return data;
+}
+
+// ============================================
+// GitHub Import
+// ============================================
+
+/**
+ * Find the Clarinet project in a public GitHub repository and list the contracts its Clarinet.toml declares.
+ * `url` may point at a branch and folder, e.g. https://github.com/owner/repo/tree/main/examples/nft
+ */
+export async function inspectGitHubProject(url: string): Promise<GitHubProject> {
+  return fetchAPI<GitHubProject>(`/github/project?${new URLSearchParams({ url })}`);
+}
+
+/**
+ * Create a project from the Clarinet project in a public GitHub repository, with the picked `contracts` and the
+ * contracts they depend on (all of them if omitted), its tests and its deployment plans
+ */
+export async function importGitHubProject(
+  userId: string,
+  url: string,
+  options: { contracts?: string[]; name?: string; description?: string } = {}
+): Promise<{ projectId: string; name: string }> {
+  return fetchAPI(`/files/${encodeURIComponent(userId)}/import/github`, {
+    method: 'POST',
+    body: JSON.stringify({ url, ...options }),
+  });
+}
+
+// ============================================
+// Requirements
+// ============================================
+
+function requirementsPath(userId: string, projectId: string): string {
+  return `/files/${encodeURIComponent(userId)}/${encodeURIComponent(projectId)}/requirements`;
+}
+
+/**
+ * The deployed contracts a project requires, followed by the contracts those refer to
+ */
+export async function getRequirements(userId: string, projectId: string): Promise<ProjectRequirement[]> {
+  return fetchAPI(requirementsPath(userId, projectId));
+}
+
+/**
+ * Fetch a deployed contract's source and functions without adding it. It is looked up on the network its
+ * address belongs to, or on `network` when that is a devnet or custom API for the same kind of address.
+ */
+export async function lookupRequirement(
+  userId: string,
+  projectId: string,
+  contractId: string,
+  network?: StacksNetworkConfig
+): Promise<RequirementLookup> {
+  const params = new URLSearchParams({ contractId, ...(network ? networkFields(network) : {}) });
+  return fetchAPI(`${requirementsPath(userId, projectId)}/lookup?${params}`);
+}
+
+/**
+ * Add a deployed contract to the project's requirements, caching its source and that of the contracts it refers to
+ */
+export async function addRequirement(
+  userId: string,
+  projectId: string,
+  contractId: string,
+  network?: StacksNetworkConfig
+): Promise<ProjectRequirement[]> {
+  return fetchAPI(requirementsPath(userId, projectId), {
+    method: 'POST',
+    body: JSON.stringify({ contractId, ...(network ? networkFields(network) : {}) }),
+  });
+}
+
+/**
+ * Remove a requirement, and the cached contracts no other requirement refers to
+ */
+export async function removeRequirement(userId: string, projectId: string, contractId: string): Promise<ProjectRequirement[]> {
+  return fetchAPI(`${requirementsPath(userId, projectId)}?${new URLSearchParams({ contractId })}`, { method: 'DELETE' });
+}
+
+/**
+ * Create a project from a deployed contract, with the deployed contracts it refers to as its requirements
+ */
+export async function forkContract(
+  userId: string,
+  contractId: string,
+  network?: StacksNetworkConfig,
+  options: { name?: string } = {}
+): Promise<{ projectId: string; name: string }> {
+  return fetchAPI(`/files/${encodeURIComponent(userId)}/fork`, {
+    method: 'POST',
+    body: JSON.stringify({ contractId, ...options, ...(network ? networkFields(network) : {}) }),
+  });
+}
+
+// ============================================
+// GitHub Publishing
+// ============================================
+
+/**
+ * The GitHub account the user publishes with, or null if none is connected
+ */
+export async function getGitHubConnection(userId: string): Promise<{ login: string | null }> {
+  return fetchAPI(`/github/connection/${encodeURIComponent(userId)}`);
+}
+
+/**
+ * Connect the GitHub account of an OAuth token, from linking the GitHub identity with the repo scope
+ */
+export async function saveGitHubConnection(userId: string, token: string): Promise<{ login: string }> {
+  return fetchAPI(`/github/connection/${encodeURIComponent(userId)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ token }),
+  });
+}
+
+/**
+ * Forget the connected GitHub account
+ */
+export async function disconnectGitHub(userId: string): Promise<void> {
+  await fetchAPI(`/github/connection/${encodeURIComponent(userId)}`, { method: 'DELETE' });
+}
+
+/**
+ * The files pushing the project to `repo` ('name' or 'owner/name') and `branch` would add, change and delete
+ */
+export async function previewGitHubPublish(
+  userId: string,
+  projectId: string,
+  target: { repo: string; branch: string }
+): Promise<PublishPreview> {
+  return fetchAPI(`/github/publish/${encodeURIComponent(userId)}/${encodeURIComponent(projectId)}/preview`, {
+    method: 'POST',
+    body: JSON.stringify(target),
+  });
+}
+
+/**
+ * Commit the changed files to GitHub, creating the repository or branch if needed. Pass the preview's `head` and
+ * `digest`; if the branch has moved or the project changed since, this fails with a 409 ApiError.
+ */
+export async function publishToGitHub(
+  userId: string,
+  projectId: string,
+  options: { repo: string; branch: string; message: string; isPrivate: boolean; head: string | null; digest: string }
+): Promise<PublishResult> {
+  return fetchAPI(`/github/publish/${encodeURIComponent(userId)}/${encodeURIComponent(projectId)}`, {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+}
+
+// ============================================
+// Test Runner
+// ============================================
+
+/**
+ * Find the tests in a project: the `test-*` functions of its contracts under tests/.
+ * Files that fail to load are reported in `errors`.
+ */
+export async function discoverProjectTests(
+  userId: string,
+  projectId: string,
+  files: ProjectSourceFile[]
+): Promise<{ tests: TestCase[]; errors: TestSetupError[] }> {
+  return fetchAPI('/test/discover', {
+    method: 'POST',
+    body: JSON.stringify({ userId, projectId, files }),
+  });
+}
+
+/**
+ * Run a project's tests on a fresh simnet, calling `onEvent` as each test starts and finishes.
+ * Pass test ids in `only` to run a subset; abort `signal` to stop the run.
+ */
+export async function runProjectTests(
+  userId: string,
+  projectId: string,
+  files: ProjectSourceFile[],
+  options: { clarityVersion?: ClarityVersion; only?: string[]; signal?: AbortSignal },
+  onEvent: (event: TestRunEvent) => void
+): Promise<void> {
+  const res = await fetch(`${API_URL}/test/run`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+    body: JSON.stringify({ userId, projectId, files, clarityVersion: options.clarityVersion, only: options.only }),
+    signal: options.signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: ${res.status}`);
+  }
+
+  await readEventStream(res.body, onEvent);
+}
+
+// ============================================
+// Transaction Tracking
+// ============================================
+
+/**
+ * Follow a transaction through pending, microblock and anchored until it settles,
+ * with its result, events and fee. Resolves when the stream ends.
+ */
+export async function watchTransaction(
+  txId: string,
+  onEvent: (event: TxTrackEvent) => void,
+  signal?: AbortSignal,
+  network?: StacksNetworkConfig
+): Promise<void> {
+  const res = await fetch(`${API_URL}/tx/${txId}/events${networkQuery(network)}`, { signal });
+
+  if (!res.ok || !res.body) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Request failed: ${res.status}`);
+  }
+
+  await readEventStream(res.body, onEvent);
+}
+
+/**
+ * Have the backend record the final status of a deploy signed in the user's own wallet,
+ * once its deployments row exists. The backend follows it on the network stored on the row.
+ */
+export async function recordDeploymentStatus(txId: string): Promise<void> {
+  await fetchAPI<{ watching: boolean }>(`/tx/${txId}/deployment`, { method: 'POST' });
+}
+
 // ============================================
 // Wallet / Account API
 // ============================================
 
 /**
- * Request testnet STX from the faucet for the deployer wallet
+ * The signed-in user's deployer wallet, or the shared one when the backend has no per-user wallets,
+ * with its balance on the given network
  */
-export async function requestFaucet(): Promise<{ success: boolean; txId?: string; error?: string }> {
+export async function getDeployerWallet(network?: StacksNetworkConfig): Promise<DeployerWallet> {
+  return fetchAPI<DeployerWallet>(`/wallet/info${networkQuery(network)}`);
+}
+
+/**
+ * Request STX from the network's faucet (testnet unless another network is given) for the deployer wallet
+ */
+export async function requestFaucet(network?: StacksNetworkConfig): Promise<{ success: boolean; txId?: string; error?: string }> {
   try {
     return await fetchAPI<{ success: boolean; txId: string }>('/wallet/faucet', {
       method: 'POST',
-      body: JSON.stringify({}),
+      body: JSON.stringify(networkFields(network)),
     });
   } catch (error) {
     return {
@@ -136,9 +706,17 @@ export async function requestFaucet(): Promise<{ success: boolean; txId?: string
   }
 }
 
+/**
+ * The chain tip and latency of a network's Stacks API, as the backend reaches it. Fails with a 403 ApiError when
+ * the backend doesn't allow the API (see isRejectedApiUrl).
+ */
+export async function getNetworkInfo(network: StacksNetworkConfig): Promise<{ latency: number; blockHeight: number | null }> {
+  return fetchAPI(`/network/info${networkQuery(network)}`);
+}
+
 /**
  * Get account info (balance, nonce) for a Stacks address
  */
-export async function getAccountInfo(address: string): Promise<AccountInfo> {
-  return fetchAPI<AccountInfo>(`/account/${address}`);
+export async function getAccountInfo(address: string, network?: StacksNetworkConfig): Promise<AccountInfo> {
+  return fetchAPI<AccountInfo>(`/account/${address}${networkQuery(network)}`);
 }
@@ -199,6 +199,36 @@ export async function linkGitHubIdentity() {
   return data;
 }
 
+// Set while the user is away on GitHub granting repository access, so the token is only picked up for that
+const GITHUB_CONNECT_KEY = 'github-connect-pending';
+
+/**
+ * Send the user to GitHub to grant repository access for publishing, returning to `redirectTo`. Links the GitHub
+ * identity if it isn't linked yet; otherwise signs in with it again to get a token with the repo scope.
+ */
+export async function connectGitHubForPublishing(redirectTo = window.location.href) {
+  const identities = await getUserIdentities();
+  const options = { redirectTo, scopes: 'repo' };
+  sessionStorage.setItem(GITHUB_CONNECT_KEY, '1');
+  const { error } = identities.some(identity => identity.provider === 'github')
+    ? await supabase.auth.signInWithOAuth({ provider: 'github', options })
+    : await supabase.auth.linkIdentity({ provider: 'github', options });
+  if (error) {
+    sessionStorage.removeItem(GITHUB_CONNECT_KEY);
+    throw error;
+  }
+}
+
+/**
+ * The GitHub token of the session, once, after returning from connectGitHubForPublishing
+ */
+export async function takeGitHubProviderToken(): Promise<string | undefined> {
+  if (!sessionStorage.getItem(GITHUB_CONNECT_KEY)) return undefined;
+  sessionStorage.removeItem(GITHUB_CONNECT_KEY);
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.provider_token ?? undefined;
+}
+
 export async function linkGoogleIdentity() {
   const { data, error } = await supabase.auth.linkIdentity({
     provider: 'google',
@@ -0,0 +1,126 @@
+// c32check encoding of Stacks addresses (SIP-005): a version byte and a 20-byte hash160,
+// written in Crockford base32 with a 4-byte double-SHA256 checksum, e.g. "SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7".
+
+const C32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Address versions: single-sig and multi-sig, mainnet and testnet
+export const ADDRESS_VERSION = {
+  mainnetSingleSig: 22, // SP
+  mainnetMultiSig: 20, // SM
+  testnetSingleSig: 26, // ST
+  testnetMultiSig: 21, // SN
+} as const;
+
+const SHA256_K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// Synchronous SHA-256; crypto.subtle only offers an async digest
+function sha256(data: Uint8Array): Uint8Array {
+  const length = data.length;
+  const padded = new Uint8Array(Math.ceil((length + 9) / 64) * 64);
+  padded.set(data);
+  padded[length] = 0x80;
+  const view = new DataView(padded.buffer);
+  view.setUint32(padded.length - 8, Math.floor(length / 0x20000000));
+  view.setUint32(padded.length - 4, length * 8);
+
+  const h = new Uint32Array([0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19]);
+  const w = new Uint32Array(64);
+  const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+  for (let chunk = 0; chunk < padded.length; chunk += 64) {
+    for (let i = 0; i < 16; i++) w[i] = view.getUint32(chunk + i * 4);
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+    let [a, b, c, d, e, f, g, hh] = h;
+    for (let i = 0; i < 64; i++) {
+      const t1 = hh + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + SHA256_K[i] + w[i];
+      const t2 = (rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c));
+      hh = g; g = f; f = e; e = (d + t1) >>> 0;
+      d = c; c = b; b = a; a = (t1 + t2) >>> 0;
+    }
+    h[0] += a; h[1] += b; h[2] += c; h[3] += d; h[4] += e; h[5] += f; h[6] += g; h[7] += hh;
+  }
+
+  const out = new Uint8Array(32);
+  const outView = new DataView(out.buffer);
+  h.forEach((word, i) => outView.setUint32(i * 4, word));
+  return out;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) throw new Error(`Invalid hex: ${hex}`);
+  return Uint8Array.from(hex.match(/.{2}/g) ?? [], byte => parseInt(byte, 16));
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function checksum(bytes: Uint8Array): Uint8Array {
+  return sha256(sha256(bytes)).slice(0, 4);
+}
+
+// Base32 of the bytes as one big number, keeping one '0' per leading zero byte
+function c32encode(bytes: Uint8Array): string {
+  let value = BigInt(`0x${bytesToHex(bytes) || '0'}`);
+  let encoded = '';
+  while (value > 0n) {
+    encoded = C32_ALPHABET[Number(value % 32n)] + encoded;
+    value /= 32n;
+  }
+  const leadingZeros = bytes.findIndex(byte => byte !== 0);
+  return '0'.repeat(leadingZeros === -1 ? bytes.length : leadingZeros) + encoded;
+}
+
+function c32decode(text: string): Uint8Array {
+  let value = 0n;
+  for (const ch of text) {
+    const digit = C32_ALPHABET.indexOf(ch);
+    if (digit === -1) throw new Error(`'${ch}' is not a c32 character`);
+    value = value * 32n + BigInt(digit);
+  }
+  let hex = value === 0n ? '' : value.toString(16);
+  if (hex.length % 2 !== 0) hex = `0${hex}`;
+  const leadingZeros = text.length - text.replace(/^0+/, '').length;
+  return hexToBytes('00'.repeat(leadingZeros) + hex);
+}
+
+/**
+ * Encode a version byte and a 20-byte hash160 (hex) as a Stacks address
+ */
+export function c32address(version: number, hash160: string): string {
+  const hash = hexToBytes(hash160);
+  if (hash.length !== 20) throw new Error('A hash160 is 20 bytes');
+  if (version < 0 || version >= 32) throw new Error(`Invalid address version ${version}`);
+  const check = checksum(Uint8Array.from([version, ...hash]));
+  return `S${C32_ALPHABET[version]}${c32encode(Uint8Array.from([...hash, ...check]))}`;
+}
+
+/**
+ * Split a Stacks address into its version and hash160, verifying the checksum
+ */
+export function c32addressDecode(address: string): { version: number; hash160: string } {
+  if (address.length < 5 || address[0] !== 'S') throw new Error('Stacks addresses start with S');
+  const version = C32_ALPHABET.indexOf(address[1]);
+  if (version === -1) throw new Error(`'${address[1]}' is not an address version`);
+  const data = c32decode(address.slice(2));
+  // Decoding can yield extra leading zero bytes; the hash and checksum are the last 24
+  const payload = data.slice(-24);
+  if (payload.length !== 24) throw new Error('Address is too short');
+  const hash = payload.slice(0, 20);
+  const expected = checksum(Uint8Array.from([version, ...hash]));
+  if (bytesToHex(payload.slice(20)) !== bytesToHex(expected)) throw new Error('Address checksum does not match');
+  return { version, hash160: bytesToHex(hash) };
+}
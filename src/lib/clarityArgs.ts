@@ -0,0 +1,188 @@
+// Form state for function arguments, built from the contract interface's type tree.
+// Each editor holds an ArgValue; argValueToClarity turns it into the Clarity literal sent to the backend,
+// which encodes it by the same type (stacks-backend/src/lib/clarity/encode.ts).
+
+import { ClarityAbiType } from './types';
+import { c32addressDecode } from './c32';
+
+export type BufferEncoding = 'hex' | 'utf8';
+
+export type ArgValue =
+  | { kind: 'text'; text: string }
+  | { kind: 'buffer'; text: string; encoding: BufferEncoding }
+  | { kind: 'optional'; some: boolean; value: ArgValue }
+  | { kind: 'response'; ok: boolean; value: ArgValue }
+  | { kind: 'list'; items: ArgValue[] }
+  | { kind: 'tuple'; fields: Record<string, ArgValue> };
+
+// Inline errors keyed by the path of the value they belong to, e.g. "recipients.0.amount"
+export type ArgErrors = Record<string, string>;
+
+const C32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const CONTRACT_NAME = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+const MAX_CONTRACT_NAME_LENGTH = 128;
+const UINT_MAX = (1n << 128n) - 1n;
+const INT_MIN = -(1n << 127n);
+const INT_MAX = (1n << 127n) - 1n;
+
+export function formatAbiType(type: ClarityAbiType): string {
+  if (typeof type === 'string') {
+    if (type === 'trait_reference') return 'trait';
+    return type;
+  }
+  if ('optional' in type) return `(optional ${formatAbiType(type.optional)})`;
+  if ('response' in type) return `(response ${formatAbiType(type.response.ok)} ${formatAbiType(type.response.error)})`;
+  if ('buffer' in type) return `(buff ${type.buffer.length})`;
+  if ('string-ascii' in type) return `(string-ascii ${type['string-ascii'].length})`;
+  if ('string-utf8' in type) return `(string-utf8 ${type['string-utf8'].length})`;
+  if ('list' in type) return `(list ${type.list.length} ${formatAbiType(type.list.type)})`;
+  if ('tuple' in type) return `{ ${type.tuple.map(field => `${field.name}: ${formatAbiType(field.type)}`).join(', ')} }`;
+  return JSON.stringify(type);
+}
+
+export function emptyArgValue(type: ClarityAbiType): ArgValue {
+  if (typeof type === 'string') return { kind: 'text', text: type === 'bool' ? 'false' : '' };
+  if ('buffer' in type) return { kind: 'buffer', text: '', encoding: 'hex' };
+  if ('optional' in type) return { kind: 'optional', some: false, value: emptyArgValue(type.optional) };
+  if ('response' in type) return { kind: 'response', ok: true, value: emptyArgValue(type.response.ok) };
+  if ('list' in type) return { kind: 'list', items: [] };
+  if ('tuple' in type) {
+    return { kind: 'tuple', fields: Object.fromEntries(type.tuple.map(field => [field.name, emptyArgValue(field.type)])) };
+  }
+  return { kind: 'text', text: '' };
+}
+
+/**
+ * Why text is not a principal, or undefined if it is: a Stacks address with a valid checksum,
+ * optionally followed by "." and a contract name
+ */
+export function principalError(text: string): string | undefined {
+  const [address, contractName, ...rest] = text.trim().replace(/^'/, '').split('.');
+  if (!address) return 'Enter a Stacks address';
+  if (rest.length > 0) return 'A principal has at most one "." between address and contract name';
+  if (!/^S[PMTN]/.test(address)) return 'Stacks addresses start with SP or ST (SM or SN for multisig)';
+  const invalid = Array.from(address.slice(2)).find(ch => !C32_ALPHABET.includes(ch));
+  if (invalid) return `'${invalid}' is not a c32 character (addresses use 0-9 and A-Z without I, L, O and U)`;
+  try {
+    c32addressDecode(address);
+  } catch {
+    return 'Not a valid Stacks address (checksum does not match)';
+  }
+  if (contractName !== undefined) {
+    if (!CONTRACT_NAME.test(contractName)) {
+      return 'Contract names start with a letter and contain only letters, digits, "-" and "_"';
+    }
+    if (contractName.length > MAX_CONTRACT_NAME_LENGTH) return `Contract names are at most ${MAX_CONTRACT_NAME_LENGTH} characters`;
+  }
+  return undefined;
+}
+
+function scalarError(text: string, type: string): string | undefined {
+  const trimmed = text.trim();
+  switch (type) {
+    case 'uint128': {
+      if (!/^u?\d+$/.test(trimmed)) return 'Expected an unsigned integer, e.g. 100';
+      return BigInt(trimmed.replace(/^u/, '')) > UINT_MAX ? 'Too large for a uint (max 2^128 - 1)' : undefined;
+    }
+    case 'int128': {
+      if (!/^-?\d+$/.test(trimmed)) return 'Expected an integer, e.g. -5';
+      const value = BigInt(trimmed);
+      return value < INT_MIN || value > INT_MAX ? 'Out of range for an int (-2^127 to 2^127 - 1)' : undefined;
+    }
+    case 'bool':
+      return trimmed === 'true' || trimmed === 'false' ? undefined : 'Expected true or false';
+    case 'principal':
+      return principalError(trimmed);
+    case 'trait_reference':
+      return principalError(trimmed) ?? (trimmed.includes('.') ? undefined : 'Expected a contract principal, e.g. ST1....my-token');
+    default:
+      return undefined;
+  }
+}
+
+function byteLength(value: ArgValue & { kind: 'buffer' }): number | undefined {
+  if (value.encoding === 'utf8') return new TextEncoder().encode(value.text).length;
+  const hex = value.text.trim().replace(/^0x/, '');
+  if (hex.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(hex)) return undefined;
+  return hex.length / 2;
+}
+
+/**
+ * Collect every reason the value does not fit its type. An empty result means the argument can be sent.
+ */
+export function validateArgValue(value: ArgValue, type: ClarityAbiType, path: string, errors: ArgErrors = {}): ArgErrors {
+  if (typeof type === 'string') {
+    const error = value.kind === 'text' ? scalarError(value.text, type) : undefined;
+    if (error) errors[path] = error;
+    return errors;
+  }
+
+  if ('string-ascii' in type && value.kind === 'text') {
+    const length = type['string-ascii'].length;
+    const invalid = Array.from(value.text).find(ch => !/[\x20-\x7e\n\t]/.test(ch));
+    if (invalid) errors[path] = `'${invalid}' is not allowed in string-ascii`;
+    else if (value.text.length > length) errors[path] = `At most ${length} characters (${value.text.length} entered)`;
+  } else if ('string-utf8' in type && value.kind === 'text') {
+    const length = type['string-utf8'].length;
+    const chars = Array.from(value.text).length;
+    if (chars > length) errors[path] = `At most ${length} characters (${chars} entered)`;
+  } else if ('buffer' in type && value.kind === 'buffer') {
+    const length = byteLength(value);
+    if (length === undefined) errors[path] = 'Expected hex bytes, e.g. 0x00ff';
+    else if (length > type.buffer.length) errors[path] = `At most ${type.buffer.length} bytes (${length} entered)`;
+  } else if ('optional' in type && value.kind === 'optional') {
+    if (value.some) validateArgValue(value.value, type.optional, path, errors);
+  } else if ('response' in type && value.kind === 'response') {
+    validateArgValue(value.value, value.ok ? type.response.ok : type.response.error, path, errors);
+  } else if ('list' in type && value.kind === 'list') {
+    if (value.items.length > type.list.length) errors[path] = `At most ${type.list.length} items`;
+    value.items.forEach((item, i) => validateArgValue(item, type.list.type, `${path}.${i}`, errors));
+  } else if ('tuple' in type && value.kind === 'tuple') {
+    for (const field of type.tuple) {
+      validateArgValue(value.fields[field.name], field.type, `${path}.${field.name}`, errors);
+    }
+  }
+  return errors;
+}
+
+function quote(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\t/g, '\\t').replace(/\r/g, '\\r')}"`;
+}
+
+function bufferLiteral(value: ArgValue & { kind: 'buffer' }): string {
+  if (value.encoding === 'hex') return `0x${value.text.trim().replace(/^0x/, '')}`;
+  return `0x${Array.from(new TextEncoder().encode(value.text), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * The Clarity literal for a value, e.g. `(some { id: u1, owner: 'ST1... })`
+ */
+export function argValueToClarity(value: ArgValue, type: ClarityAbiType): string {
+  if (typeof type === 'string') {
+    const text = value.kind === 'text' ? value.text.trim() : '';
+    switch (type) {
+      case 'uint128': return text.startsWith('u') ? text : `u${text}`;
+      case 'principal':
+      case 'trait_reference': return text.startsWith("'") ? text : `'${text}`;
+      default: return text;
+    }
+  }
+  if ('string-ascii' in type && value.kind === 'text') return quote(value.text);
+  if ('string-utf8' in type && value.kind === 'text') return `u${quote(value.text)}`;
+  if ('buffer' in type && value.kind === 'buffer') return bufferLiteral(value);
+  if ('optional' in type && value.kind === 'optional') {
+    return value.some ? `(some ${argValueToClarity(value.value, type.optional)})` : 'none';
+  }
+  if ('response' in type && value.kind === 'response') {
+    return value.ok
+      ? `(ok ${argValueToClarity(value.value, type.response.ok)})`
+      : `(err ${argValueToClarity(value.value, type.response.error)})`;
+  }
+  if ('list' in type && value.kind === 'list') {
+    return `(list ${value.items.map(item => argValueToClarity(item, type.list.type)).join(' ')})`;
+  }
+  if ('tuple' in type && value.kind === 'tuple') {
+    return `{ ${type.tuple.map(field => `${field.name}: ${argValueToClarity(value.fields[field.name], field.type)}`).join(', ')} }`;
+  }
+  return value.kind === 'text' ? value.text : '';
+}
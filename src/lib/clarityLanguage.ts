@@ -1,58 +1,85 @@
 import type * as Monaco from 'monaco-editor';
+import { ClarityVersion, DEFAULT_CLARITY_VERSION, isBuiltinAvailable } from './clarityVersions';
+import type { ProjectRequirement } from './types';
 
-export function registerClarityLanguage(monaco: typeof Monaco) {
-  // Register language
-  monaco.languages.register({ id: 'clarity', extensions: ['.clar'], aliases: ['Clarity', 'clarity'] });
+const KEYWORDS = [
+  'define-public', 'define-read-only', 'define-private',
+  'define-data-var', 'define-map', 'define-constant',
+  'define-fungible-token', 'define-non-fungible-token',
+  'define-trait', 'impl-trait', 'use-trait',
+];
 
-  // Set language configuration
-  monaco.languages.setLanguageConfiguration('clarity', {
-    comments: {
-      lineComment: ';;',
-    },
-    brackets: [['(', ')']],
-    autoClosingPairs: [
-      { open: '(', close: ')' },
-      { open: '"', close: '"' },
-    ],
-    surroundingPairs: [
-      { open: '(', close: ')' },
-      { open: '"', close: '"' },
-    ],
-  });
+const CONTROL_FLOW = ['if', 'begin', 'let', 'match', 'and', 'or', 'not'];
+
+// Every built-in across Clarity versions; filtered by the active version before use
+const BUILTINS = [
+  'ok', 'err', 'some', 'none', 'is-ok', 'is-err', 'is-some', 'is-none',
+  'default-to', 'unwrap!', 'unwrap-err!', 'unwrap-panic', 'unwrap-err-panic', 'try!', 'asserts!',
+  'var-get', 'var-set',
+  'map-get?', 'map-set', 'map-insert', 'map-delete',
+  'get', 'merge', 'tuple',
+  'list', 'filter', 'map', 'fold', 'append', 'len', 'concat', 'as-max-len?',
+  'element-at', 'element-at?', 'index-of', 'index-of?', 'slice?', 'replace-at?',
+  'ft-mint?', 'ft-transfer?', 'ft-burn?', 'ft-get-balance', 'ft-get-supply',
+  'nft-mint?', 'nft-transfer?', 'nft-get-owner?', 'nft-burn?',
+  'stx-transfer?', 'stx-transfer-memo?', 'stx-burn?', 'stx-get-balance', 'stx-account',
+  'contract-call?', 'as-contract', 'contract-of', 'at-block',
+  'print', 'log2', 'sqrti', 'pow', 'mod',
+  'to-int', 'to-uint', 'int-to-ascii', 'int-to-utf8', 'string-to-int?', 'string-to-uint?',
+  'buff-to-int-le', 'buff-to-uint-le', 'buff-to-int-be', 'buff-to-uint-be',
+  'to-consensus-buff?', 'from-consensus-buff?',
+  'bit-and', 'bit-or', 'bit-xor', 'bit-not', 'bit-shift-left', 'bit-shift-right',
+  'hash160', 'sha256', 'sha512', 'sha512/256', 'keccak256', 'secp256k1-recover?', 'secp256k1-verify',
+  'get-block-info?', 'get-burn-block-info?', 'get-stacks-block-info?', 'get-tenure-info?',
+  'principal-of?', 'principal-construct?', 'principal-destruct?',
+  'is-standard', 'is-in-mainnet', 'is-in-regtest',
+  'tx-sender', 'tx-sponsor?', 'contract-caller', 'block-height', 'burn-block-height',
+  'stacks-block-height', 'tenure-height', 'stx-liquid-supply', 'chain-id',
+];
+
+const TYPE_KEYWORDS = [
+  'uint', 'int', 'bool', 'principal', 'buff', 'string-ascii', 'string-utf8',
+  'list', 'optional', 'response', 'tuple',
+  'true', 'false',
+];
+
+let activeVersion: ClarityVersion = DEFAULT_CLARITY_VERSION;
+let activeRequirements: ProjectRequirement[] = [];
+
+// Match whole Clarity names only: they may contain -, ! and ?, so \b isn't enough
+function wordsPattern(words: string[]): RegExp {
+  const escaped = [...words]
+    .sort((a, b) => b.length - a.length)
+    .map(word => word.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&'));
+  return new RegExp(`(${escaped.join('|')})(?![\\w\\-!?])`);
+}
+
+export function getClarityLanguageVersion(): ClarityVersion {
+  return activeVersion;
+}
+
+/** The deployed contracts the open project requires, offered as `contract-call?` completions */
+export function getClarityRequirements(): ProjectRequirement[] {
+  return activeRequirements;
+}
+
+export function setClarityRequirements(requirements: ProjectRequirement[]) {
+  activeRequirements = requirements;
+}
+
+/**
+ * Re-tokenize Clarity for the given language version, so built-ins it doesn't
+ * have are highlighted as plain identifiers.
+ */
+export function setClarityLanguageVersion(monaco: typeof Monaco, version: ClarityVersion) {
+  activeVersion = version;
+  const builtins = BUILTINS.filter(name => isBuiltinAvailable(name, version));
 
-  // Set tokenizer (syntax highlighting)
   monaco.languages.setMonarchTokensProvider('clarity', {
-    keywords: [
-      'define-public', 'define-read-only', 'define-private',
-      'define-data-var', 'define-map', 'define-constant',
-      'define-fungible-token', 'define-non-fungible-token',
-      'define-trait', 'impl-trait', 'use-trait',
-    ],
-    controlFlow: [
-      'if', 'begin', 'let', 'match', 'and', 'or', 'not',
-    ],
-    builtins: [
-      'ok', 'err', 'some', 'none', 'is-ok', 'is-err', 'is-some', 'is-none',
-      'default-to', 'unwrap!', 'unwrap-err!', 'try!', 'asserts!',
-      'var-get', 'var-set',
-      'map-get?', 'map-set', 'map-insert', 'map-delete',
-      'get', 'merge', 'tuple',
-      'list', 'filter', 'map', 'fold', 'append', 'len', 'concat', 'as-max-len?',
-      'ft-mint?', 'ft-transfer?', 'ft-get-balance', 'ft-get-supply',
-      'nft-mint?', 'nft-transfer?', 'nft-get-owner?', 'nft-burn?',
-      'stx-transfer?', 'stx-burn?', 'stx-get-balance',
-      'contract-call?', 'as-contract', 'contract-of',
-      'print', 'log2', 'sqrti', 'pow', 'mod',
-      'to-int', 'to-uint',
-      'is-standard', 'is-in-mainnet', 'is-in-regtest',
-      'tx-sender', 'contract-caller', 'block-height', 'burn-block-height',
-      'stx-liquid-supply',
-    ],
-    typeKeywords: [
-      'uint', 'int', 'bool', 'principal', 'buff', 'string-ascii', 'string-utf8',
-      'list', 'optional', 'response', 'tuple',
-      'true', 'false',
-    ],
+    keywords: KEYWORDS,
+    controlFlow: CONTROL_FLOW,
+    builtins,
+    typeKeywords: TYPE_KEYWORDS,
     tokenizer: {
       root: [
         // Comments
@@ -66,13 +93,13 @@ export function registerClarityLanguage(monaco: typeof Monaco) {
         // Positive integers
         [/\b\d+\b/, 'number'],
         // Keywords (define-*, impl-trait, etc.)
-        [/\b(define-public|define-read-only|define-private|define-data-var|define-map|define-constant|define-fungible-token|define-non-fungible-token|define-trait|impl-trait|use-trait)\b/, 'keyword'],
+        [wordsPattern(KEYWORDS), 'keyword'],
         // Control flow
-        [/\b(if|begin|let|match|and|or|not)\b/, 'keyword.control'],
+        [wordsPattern(CONTROL_FLOW), 'keyword.control'],
         // Built-in functions
-        [/\b(ok|err|some|none|is-ok|is-err|is-some|is-none|default-to|unwrap!|unwrap-err!|try!|asserts!|var-get|var-set|map-get\?|map-set|map-insert|map-delete|get|merge|list|filter|map|fold|append|len|concat|as-max-len\?|ft-mint\?|ft-transfer\?|ft-get-balance|nft-mint\?|nft-transfer\?|nft-get-owner\?|stx-transfer\?|stx-get-balance|contract-call\?|as-contract|tx-sender|contract-caller|block-height|print|to-int|to-uint)\b/, 'support.function'],
+        [wordsPattern(builtins), 'support.function'],
         // Type keywords
-        [/\b(uint|int|bool|principal|buff|string-ascii|string-utf8|optional|response|tuple|true|false)\b/, 'type'],
+        [wordsPattern(TYPE_KEYWORDS), 'type'],
         // Brackets
         [/[()]/, 'delimiter'],
         // Identifiers
@@ -80,6 +107,30 @@ export function registerClarityLanguage(monaco: typeof Monaco) {
       ],
     },
   });
+}
+
+export function registerClarityLanguage(monaco: typeof Monaco) {
+  // Register language
+  monaco.languages.register({ id: 'clarity', extensions: ['.clar'], aliases: ['Clarity', 'clarity'] });
+
+  // Set language configuration
+  monaco.languages.setLanguageConfiguration('clarity', {
+    comments: {
+      lineComment: ';;',
+    },
+    brackets: [['(', ')']],
+    autoClosingPairs: [
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+    ],
+    surroundingPairs: [
+      { open: '(', close: ')' },
+      { open: '"', close: '"' },
+    ],
+  });
+
+  // Set tokenizer (syntax highlighting)
+  setClarityLanguageVersion(monaco, activeVersion);
 
   // Define theme colors for clarity tokens
   monaco.editor.defineTheme('clarity-dark', {
@@ -0,0 +1,170 @@
+// Clarity values decoded from their consensus serialization (the hex returned by read-only calls),
+// with the same text form as the backend: u1, 'ST1....token, { amount: u5, memo: none }
+
+import { c32address } from './c32';
+
+export type ClarityValue =
+  | { type: 'int'; value: bigint }
+  | { type: 'uint'; value: bigint }
+  | { type: 'bool'; value: boolean }
+  | { type: 'buffer'; value: string } // hex, without 0x
+  | { type: 'principal'; address: string; contractName?: string }
+  | { type: 'ok' | 'err' | 'some'; value: ClarityValue }
+  | { type: 'none' }
+  | { type: 'list'; items: ClarityValue[] }
+  | { type: 'tuple'; fields: Array<{ name: string; value: ClarityValue }> }
+  | { type: 'string-ascii' | 'string-utf8'; value: string };
+
+// JSON form used for copying, with integers as strings so they survive JSON.parse
+export type ClarityValueJSON =
+  | { type: string; value: string | boolean | ClarityValueJSON | ClarityValueJSON[] | Record<string, ClarityValueJSON> }
+  | { type: 'none' };
+
+class Reader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  take(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) throw new Error('Unexpected end of Clarity value');
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  byte(): number {
+    return this.take(1)[0];
+  }
+
+  uint32(): number {
+    return new DataView(this.take(4).buffer).getUint32(0);
+  }
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function readPrincipal(reader: Reader): string {
+  const version = reader.byte();
+  return c32address(version, toHex(reader.take(20)));
+}
+
+function readName(reader: Reader): string {
+  return new TextDecoder().decode(reader.take(reader.byte()));
+}
+
+function readValue(reader: Reader): ClarityValue {
+  const typeId = reader.byte();
+  switch (typeId) {
+    case 0x00: {
+      const raw = BigInt(`0x${toHex(reader.take(16))}`);
+      // Two's complement: if the high bit is set, subtract 2^128
+      return { type: 'int', value: raw >> 127n ? raw - (1n << 128n) : raw };
+    }
+    case 0x01: return { type: 'uint', value: BigInt(`0x${toHex(reader.take(16))}`) };
+    case 0x02: return { type: 'buffer', value: toHex(reader.take(reader.uint32())) };
+    case 0x03: return { type: 'bool', value: true };
+    case 0x04: return { type: 'bool', value: false };
+    case 0x05: return { type: 'principal', address: readPrincipal(reader) };
+    case 0x06: {
+      const address = readPrincipal(reader);
+      return { type: 'principal', address, contractName: readName(reader) };
+    }
+    case 0x07: return { type: 'ok', value: readValue(reader) };
+    case 0x08: return { type: 'err', value: readValue(reader) };
+    case 0x09: return { type: 'none' };
+    case 0x0a: return { type: 'some', value: readValue(reader) };
+    case 0x0b: {
+      const length = reader.uint32();
+      return { type: 'list', items: Array.from({ length }, () => readValue(reader)) };
+    }
+    case 0x0c: {
+      const length = reader.uint32();
+      return {
+        type: 'tuple',
+        fields: Array.from({ length }, () => {
+          const name = readName(reader);
+          return { name, value: readValue(reader) };
+        }),
+      };
+    }
+    case 0x0d: return { type: 'string-ascii', value: String.fromCharCode(...reader.take(reader.uint32())) };
+    case 0x0e: return { type: 'string-utf8', value: new TextDecoder().decode(reader.take(reader.uint32())) };
+    default:
+      throw new Error(`Unknown Clarity type id 0x${typeId.toString(16).padStart(2, '0')}`);
+  }
+}
+
+/**
+ * Decode a serialized Clarity value, e.g. "0x0701000000000000000000000000000000" → (ok u0).
+ * Throws on malformed input or trailing bytes.
+ */
+export function decodeClarityValue(hex: string): ClarityValue {
+  const digits = hex.startsWith('0x') ? hex.slice(2) : hex;
+  if (digits.length % 2 !== 0 || !/^[0-9a-fA-F]+$/.test(digits)) throw new Error('Expected hex bytes');
+  const reader = new Reader(Uint8Array.from(digits.match(/.{2}/g)!, byte => parseInt(byte, 16)));
+  const value = readValue(reader);
+  if (!reader.done) throw new Error('Unexpected bytes after Clarity value');
+  return value;
+}
+
+function escapeString(text: string, utf8: boolean): string {
+  let escaped = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!;
+    if (ch === '"' || ch === '\\') escaped += `\\${ch}`;
+    else if (ch === '\n') escaped += '\\n';
+    else if (ch === '\t') escaped += '\\t';
+    else if (ch === '\r') escaped += '\\r';
+    else if (ch === '\0') escaped += '\\0';
+    else if (utf8 && code > 0x7e) escaped += `\\u{${code.toString(16)}}`;
+    else escaped += ch;
+  }
+  return escaped;
+}
+
+export function principalToString(value: ClarityValue & { type: 'principal' }): string {
+  return value.contractName ? `${value.address}.${value.contractName}` : value.address;
+}
+
+export function clarityValueToString(value: ClarityValue): string {
+  switch (value.type) {
+    case 'int': return value.value.toString();
+    case 'uint': return `u${value.value}`;
+    case 'bool': return String(value.value);
+    case 'buffer': return `0x${value.value}`;
+    case 'principal': return `'${principalToString(value)}`;
+    case 'ok':
+    case 'err':
+    case 'some': return `(${value.type} ${clarityValueToString(value.value)})`;
+    case 'none': return 'none';
+    case 'list': return value.items.length === 0 ? '(list)' : `(list ${value.items.map(clarityValueToString).join(' ')})`;
+    case 'tuple': return `{ ${value.fields.map(field => `${field.name}: ${clarityValueToString(field.value)}`).join(', ')} }`;
+    case 'string-ascii': return `"${escapeString(value.value, false)}"`;
+    case 'string-utf8': return `u"${escapeString(value.value, true)}"`;
+  }
+}
+
+export function clarityValueToJSON(value: ClarityValue): ClarityValueJSON {
+  switch (value.type) {
+    case 'int':
+    case 'uint': return { type: value.type, value: value.value.toString() };
+    case 'bool': return { type: 'bool', value: value.value };
+    case 'buffer': return { type: 'buffer', value: `0x${value.value}` };
+    case 'principal': return { type: 'principal', value: principalToString(value) };
+    case 'ok':
+    case 'err':
+    case 'some': return { type: value.type, value: clarityValueToJSON(value.value) };
+    case 'none': return { type: 'none' };
+    case 'list': return { type: 'list', value: value.items.map(clarityValueToJSON) };
+    case 'tuple':
+      return { type: 'tuple', value: Object.fromEntries(value.fields.map(field => [field.name, clarityValueToJSON(field.value)])) };
+    case 'string-ascii':
+    case 'string-utf8': return { type: value.type, value: value.value };
+  }
+}
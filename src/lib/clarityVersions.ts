@@ -0,0 +1,42 @@
+// Clarity language versions and the built-ins each one adds or removes.
+// Mirrors stacks-backend/src/lib/clarity/builtins.ts so the editor agrees with /validate.
+
+export type ClarityVersion = 1 | 2 | 3;
+
+export const DEFAULT_CLARITY_VERSION: ClarityVersion = 3;
+
+export const CLARITY_VERSIONS: { version: ClarityVersion; label: string; epoch: string }[] = [
+  { version: 1, label: 'Clarity 1', epoch: '2.05' },
+  { version: 2, label: 'Clarity 2', epoch: '2.1' },
+  { version: 3, label: 'Clarity 3', epoch: '3.0' },
+];
+
+// Built-ins that are not part of Clarity 1, by the version that introduced them
+const ADDED_IN: Record<string, ClarityVersion> = {
+  'bit-and': 2, 'bit-or': 2, 'bit-xor': 2, 'bit-not': 2, 'bit-shift-left': 2, 'bit-shift-right': 2,
+  'element-at?': 2, 'index-of?': 2, 'slice?': 2, 'replace-at?': 2,
+  'int-to-ascii': 2, 'int-to-utf8': 2, 'string-to-int?': 2, 'string-to-uint?': 2,
+  'buff-to-int-le': 2, 'buff-to-uint-le': 2, 'buff-to-int-be': 2, 'buff-to-uint-be': 2,
+  'to-consensus-buff?': 2, 'from-consensus-buff?': 2,
+  'stx-transfer-memo?': 2, 'stx-account': 2, 'get-burn-block-info?': 2,
+  'principal-construct?': 2, 'principal-destruct?': 2, 'is-standard': 2,
+  'tx-sponsor?': 2, 'chain-id': 2, 'is-in-mainnet': 2,
+  'stacks-block-height': 3, 'tenure-height': 3, 'get-stacks-block-info?': 3, 'get-tenure-info?': 3,
+};
+
+// Built-ins dropped by a later version
+const REMOVED_IN: Record<string, ClarityVersion> = {
+  'block-height': 3,
+  'get-block-info?': 3,
+};
+
+// Normalize the version stored on a project (missing or unknown values use the default)
+export function toClarityVersion(value: number | null | undefined): ClarityVersion {
+  return value === 1 || value === 2 || value === 3 ? value : DEFAULT_CLARITY_VERSION;
+}
+
+export function isBuiltinAvailable(name: string, version: ClarityVersion): boolean {
+  const added = ADDED_IN[name];
+  const removed = REMOVED_IN[name];
+  return (!added || version >= added) && (!removed || version < removed);
+}
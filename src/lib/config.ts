@@ -2,18 +2,85 @@
 export const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:3001';
 
 // Stacks Network Configuration
-export const STACKS_CONFIG = {
+export type StacksNetworkName = 'testnet' | 'mainnet' | 'devnet' | 'custom';
+
+export interface StacksNetworkConfig {
+  network: StacksNetworkName;
+  name: string;
+  // Stacks Blockchain API base URL
+  apiUrl: string;
+  // Mainnet (SP) addresses; devnets and custom APIs use testnet (ST) ones
+  isMainnet: boolean;
+}
+
+export const STACKS_CONFIG: Record<Exclude<StacksNetworkName, 'custom'>, StacksNetworkConfig> = {
   testnet: {
-    network: 'testnet' as const,
-    apiUrl: 'https://api.testnet.hiro.so',
-    explorerUrl: 'https://explorer.hiro.so/?chain=testnet',
+    network: 'testnet',
     name: 'Stacks Testnet',
+    apiUrl: 'https://api.testnet.hiro.so',
+    isMainnet: false,
   },
-} as const;
+  mainnet: {
+    network: 'mainnet',
+    name: 'Stacks Mainnet',
+    apiUrl: 'https://api.hiro.so',
+    isMainnet: true,
+  },
+  devnet: {
+    network: 'devnet',
+    name: 'Local Devnet',
+    // Clarinet's devnet serves the API on port 3999
+    apiUrl: import.meta.env.VITE_STACKS_DEVNET_API || 'http://localhost:3999',
+    isMainnet: false,
+  },
+};
+
+export const DEFAULT_STACKS_NETWORK = STACKS_CONFIG.testnet;
+
+// A self-hosted stacks-blockchain-api or other node outside the built-in networks
+export function customStacksNetwork(apiUrl: string): StacksNetworkConfig {
+  return { network: 'custom', name: 'Custom Network', apiUrl: apiUrl.replace(/\/+$/, ''), isMainnet: false };
+}
 
-export const STACKS_TESTNET_API = STACKS_CONFIG.testnet.apiUrl;
-export const STACKS_EXPLORER_URL = STACKS_CONFIG.testnet.explorerUrl;
-export const STACKS_NETWORK = STACKS_CONFIG.testnet.network;
+export function getStacksNetwork(network: StacksNetworkName, customApiUrl?: string): StacksNetworkConfig {
+  if (network === 'custom') {
+    return customApiUrl ? customStacksNetwork(customApiUrl) : DEFAULT_STACKS_NETWORK;
+  }
+  return STACKS_CONFIG[network] ?? DEFAULT_STACKS_NETWORK;
+}
+
+// The playground deployer signs through the backend's own testnet and devnet APIs only: not on mainnet,
+// and not through an API the user chose
+export function isPlaygroundNetwork(network: StacksNetworkConfig): boolean {
+  return !network.isMainnet && network.network !== 'custom';
+}
+
+// Value of the deployments.network column, e.g. 'stacks-testnet'
+export function toDeploymentNetwork(network: StacksNetworkConfig): string {
+  return `stacks-${network.network}`;
+}
+
+// The network a deployment was made on; custom networks keep their API URL in metadata.api_url
+export function networkOfDeployment(deployment: { network?: string; metadata?: { api_url?: string } | null }): StacksNetworkConfig {
+  const name = (deployment.network ?? 'stacks-testnet').replace(/^stacks-/, '') as StacksNetworkName;
+  return getStacksNetwork(name, deployment.metadata?.api_url);
+}
+
+// The network to read a deployed contract from: `network` if its addresses are the kind the contract's deployer
+// has (SP or SM on mainnet, ST or SN elsewhere), otherwise mainnet or testnet
+export function networkOfContract(contractId: string, network: StacksNetworkConfig = DEFAULT_STACKS_NETWORK): StacksNetworkConfig {
+  const isMainnet = /^S[PM]/.test(contractId);
+  if (network.isMainnet === isMainnet) return network;
+  return isMainnet ? STACKS_CONFIG.mainnet : STACKS_CONFIG.testnet;
+}
+
+// explorer.hiro.so only knows mainnet and testnet; other networks are opened through their API
+function explorerQuery(network: StacksNetworkConfig): string {
+  const chain = `chain=${network.isMainnet ? 'mainnet' : 'testnet'}`;
+  return network.network === 'devnet' || network.network === 'custom'
+    ? `${chain}&api=${encodeURIComponent(network.apiUrl)}`
+    : chain;
+}
 
 // Analytics Configuration
 export const GA_TRACKING_ID = import.meta.env.VITE_GA_TRACKING_ID;
@@ -41,18 +108,18 @@ export const SUPABASE_CONFIG = {
 } as const;
 
 // Helper function to get explorer URL for transaction
-export function getExplorerTxUrl(txId: string): string {
-  return `https://explorer.hiro.so/txid/${txId}?chain=testnet`;
+export function getExplorerTxUrl(txId: string, network = DEFAULT_STACKS_NETWORK): string {
+  return `https://explorer.hiro.so/txid/${txId}?${explorerQuery(network)}`;
 }
 
 // Helper function to get explorer URL for address
-export function getExplorerAccountUrl(address: string): string {
-  return `https://explorer.hiro.so/address/${address}?chain=testnet`;
+export function getExplorerAccountUrl(address: string, network = DEFAULT_STACKS_NETWORK): string {
+  return `https://explorer.hiro.so/address/${address}?${explorerQuery(network)}`;
 }
 
 // Helper function to get explorer URL for contract
-export function getExplorerContractUrl(address: string, contractName: string): string {
-  return `https://explorer.hiro.so/txid/${address}.${contractName}?chain=testnet`;
+export function getExplorerContractUrl(address: string, contractName: string, network = DEFAULT_STACKS_NETWORK): string {
+  return `https://explorer.hiro.so/txid/${address}.${contractName}?${explorerQuery(network)}`;
 }
 
 // Helper function to get avatar URL
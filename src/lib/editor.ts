@@ -1,5 +1,6 @@
 import * as monaco from 'monaco-editor';
-import { registerClarityLanguage } from './clarityLanguage';
+import { getClarityLanguageVersion, getClarityRequirements, registerClarityLanguage } from './clarityLanguage';
+import { isBuiltinAvailable } from './clarityVersions';
 
 // TOML language definition for Monaco
 const tomlLanguageDefinition: monaco.languages.IMonarchLanguage = {
@@ -253,14 +254,21 @@ export function initializeMonaco(monaco: typeof import('monaco-editor')) {
       const CLARITY_BUILTINS = [
         { label: 'tx-sender', detail: 'principal', documentation: 'The principal that initiated the current transaction' },
         { label: 'contract-caller', detail: 'principal', documentation: 'The principal that called this contract' },
-        { label: 'block-height', detail: 'uint', documentation: 'The current Stacks block height' },
+        { label: 'tx-sponsor?', detail: '(optional principal)', documentation: 'The sponsor of the current transaction, if any' },
+        { label: 'block-height', detail: 'uint', documentation: 'The current Stacks block height (Clarity 1 and 2)' },
+        { label: 'stacks-block-height', detail: 'uint', documentation: 'The current Stacks block height' },
+        { label: 'tenure-height', detail: 'uint', documentation: 'The number of tenures that have passed' },
+        { label: 'burn-block-height', detail: 'uint', documentation: 'The current Bitcoin block height' },
+        { label: 'chain-id', detail: 'uint', documentation: 'The chain ID of the current network' },
         { label: 'stx-liquid-supply', detail: 'uint', documentation: 'Total liquid STX supply' },
         { label: 'var-get', detail: 'Read data var', documentation: 'Get the value of a data variable' },
         { label: 'var-set', detail: 'Write data var', documentation: 'Set the value of a data variable' },
         { label: 'map-get?', detail: 'Read map', documentation: 'Get a value from a map (returns optional)' },
         { label: 'map-set', detail: 'Write map', documentation: 'Set a key-value pair in a map' },
         { label: 'stx-transfer?', detail: 'STX transfer', documentation: 'Transfer STX tokens between principals' },
+        { label: 'stx-transfer-memo?', detail: 'STX transfer', documentation: 'Transfer STX tokens with an attached memo' },
         { label: 'stx-get-balance', detail: 'STX balance', documentation: 'Get the STX balance of a principal' },
+        { label: 'stx-account', detail: 'STX account', documentation: 'Get the locked, unlocked and unlock height of a principal' },
         { label: 'ft-mint?', detail: 'Mint FT', documentation: 'Mint fungible tokens' },
         { label: 'ft-transfer?', detail: 'Transfer FT', documentation: 'Transfer fungible tokens' },
         { label: 'nft-mint?', detail: 'Mint NFT', documentation: 'Mint a non-fungible token' },
@@ -270,6 +278,13 @@ export function initializeMonaco(monaco: typeof import('monaco-editor')) {
         { label: 'unwrap!', detail: 'Error handling', documentation: 'Unwrap an optional/response or return error' },
         { label: 'try!', detail: 'Error handling', documentation: 'Short-circuit on err/none response' },
         { label: 'asserts!', detail: 'Assertion', documentation: 'Assert a condition or return error' },
+        { label: 'get-block-info?', detail: 'Block info', documentation: 'Get a property of a past Stacks block (Clarity 1 and 2)' },
+        { label: 'get-stacks-block-info?', detail: 'Block info', documentation: 'Get a property of a past Stacks block' },
+        { label: 'get-tenure-info?', detail: 'Tenure info', documentation: 'Get a property of a past tenure' },
+        { label: 'get-burn-block-info?', detail: 'Burn block info', documentation: 'Get a property of a past Bitcoin block' },
+        { label: 'to-consensus-buff?', detail: 'Serialize', documentation: 'Serialize a value to its consensus buffer' },
+        { label: 'from-consensus-buff?', detail: 'Deserialize', documentation: 'Deserialize a consensus buffer to a value of the given type' },
+        { label: 'secp256k1-recover?', detail: 'Crypto', documentation: 'Recover the public key from a message hash and signature' },
       ].map(item => ({
         ...item,
         kind: monaco.languages.CompletionItemKind.Function,
@@ -279,6 +294,9 @@ export function initializeMonaco(monaco: typeof import('monaco-editor')) {
       // Register completion provider
       monaco.languages.registerCompletionItemProvider('clarity', {
         provideCompletionItems: (model, position) => {
+          const requirementSuggestions = contractCallCompletions(model, position);
+          if (requirementSuggestions) return { suggestions: requirementSuggestions };
+
           const word = model.getWordUntilPosition(position);
           const range = {
             startLineNumber: position.lineNumber,
@@ -287,7 +305,12 @@ export function initializeMonaco(monaco: typeof import('monaco-editor')) {
             endColumn: word.endColumn,
           };
 
-          const suggestions = [...CLARITY_SNIPPETS, ...CLARITY_BUILTINS];
+          // Only offer built-ins that exist in the project's Clarity version
+          const version = getClarityLanguageVersion();
+          const suggestions = [
+            ...CLARITY_SNIPPETS,
+            ...CLARITY_BUILTINS.filter(item => isBuiltinAvailable(item.label, version)),
+          ];
 
           return {
             suggestions: suggestions.map(item => ({
@@ -326,6 +349,58 @@ export function initializeMonaco(monaco: typeof import('monaco-editor')) {
   }
 }
 
+// After `(contract-call? `, suggest the project's requirements, and after `(contract-call? 'SP....name `, their
+// public and read-only functions. Contract ids and Clarity names contain characters Monaco doesn't count as part
+// of a word, so the replaced range is worked out here.
+function contractCallCompletions(
+  model: monaco.editor.ITextModel,
+  position: monaco.Position
+): monaco.languages.CompletionItem[] | undefined {
+  const requirements = getClarityRequirements();
+  if (requirements.length === 0) return undefined;
+  const before = model.getValueInRange({
+    startLineNumber: position.lineNumber,
+    startColumn: 1,
+    endLineNumber: position.lineNumber,
+    endColumn: position.column,
+  });
+  const rangeOf = (typed: string) => ({
+    startLineNumber: position.lineNumber,
+    endLineNumber: position.lineNumber,
+    startColumn: position.column - typed.length,
+    endColumn: position.column,
+  });
+
+  const functionMatch = before.match(/\(contract-call\?\s+'([\w.-]+)\s+([\w!?-]*)$/);
+  if (functionMatch) {
+    const requirement = requirements.find(r => r.contractId === functionMatch[1]);
+    if (!requirement) return undefined;
+    return requirement.functions.map(fn => ({
+      label: fn.name,
+      kind: monaco.languages.CompletionItemKind.Method,
+      detail: `${fn.access} (${fn.args.map(arg => `${arg.name} ${arg.type}`).join(') (')}) -> ${fn.returns}`,
+      documentation: `${fn.access === 'public' ? 'Public' : 'Read-only'} function of ${requirement.contractId}`,
+      insertText: fn.name,
+      range: rangeOf(functionMatch[2]),
+    }));
+  }
+
+  const contractMatch = before.match(/\(contract-call\?\s+('[\w.-]*)?$/);
+  if (contractMatch) {
+    const typed = contractMatch[1] ?? '';
+    // Trait contracts have nothing to call
+    return requirements.filter(requirement => requirement.functions.length > 0).map(requirement => ({
+      label: `'${requirement.contractId}`,
+      kind: monaco.languages.CompletionItemKind.Module,
+      detail: requirement.required ? 'Requirement' : 'Requirement dependency',
+      documentation: `Deployed contract with ${requirement.functions.length} public and read-only functions`,
+      insertText: `'${requirement.contractId}`,
+      range: rangeOf(typed),
+    }));
+  }
+  return undefined;
+}
+
 // Define editor theme based on dark/light mode
 export function defineEditorTheme(monaco: typeof import('monaco-editor'), isDark: boolean) {
   // Ensure themes are configured
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { fetchMainContractSource } from './projectSources';
 import type {
   Embed,
   EmbedClick,
@@ -134,7 +135,7 @@ export async function createEmbed(input: CreateEmbedInput): Promise<Embed> {
     // Fetch project data to create a snapshot
     const { data: project, error: projectError } = await supabase
       .from('projects')
-      .select('code, name, description')
+      .select('id, code, name, description')
       .eq('id', input.project_id)
       .single();
 
@@ -144,7 +145,8 @@ export async function createEmbed(input: CreateEmbedInput): Promise<Embed> {
     }
 
     if (project) {
-      snapshotCode = project.code;
+      // The contract as last saved in the editor, which writes the project's files rather than projects.code
+      snapshotCode = await fetchMainContractSource(project);
       snapshotName = project.name;
       snapshotDescription = project.description;
     }
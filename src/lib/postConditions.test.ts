@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { explainPostConditionAbort } from './postConditions';
+import { PostConditionSpec } from './types';
+
+const SENDER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+const VAULT = 'ST2CY5V39NHDPWSXMW9QDT3HC3GD6Q6XX4CFRK9AG.vault';
+
+const sendsStx: PostConditionSpec = { type: 'stx', condition: 'lte', amount: '1500000' };
+const vaultSendsToken: PostConditionSpec = {
+  type: 'ft',
+  principal: VAULT,
+  condition: 'eq',
+  amount: '5',
+  asset: `${VAULT}::token`,
+};
+
+describe('explainPostConditionAbort', () => {
+  it('names the condition the node reports', () => {
+    const vmError = `Post-condition check failure on fungible asset ${VAULT}::token owned by ${VAULT}`;
+    expect(explainPostConditionAbort([sendsStx, vaultSendsToken], 'deny', SENDER, vmError))
+      .toBe(`Post-condition 2 was violated: ${VAULT} sends = 5 token (${vmError})`);
+  });
+
+  it('blames an uncovered transfer in Deny mode when the node reports an unlisted asset', () => {
+    const vmError = `Post-condition check failure on STX owned by ${VAULT}`;
+    expect(explainPostConditionAbort([sendsStx], 'deny', SENDER, vmError))
+      .toBe(`An asset moved that no post-condition covers, which Deny mode does not allow (${vmError})`);
+  });
+
+  describe('without the node\'s message', () => {
+    it('calls a single condition in Allow mode the likely cause, not the certain one', () => {
+      expect(explainPostConditionAbort([sendsStx], 'allow', SENDER))
+        .toBe('Post-condition 1 was most likely violated: sender sends ≤ 1.5 STX');
+      expect(explainPostConditionAbort([sendsStx], 'allow', SENDER, null))
+        .toBe('Post-condition 1 was most likely violated: sender sends ≤ 1.5 STX');
+    });
+
+    it('allows for an uncovered transfer with a single condition in Deny mode', () => {
+      expect(explainPostConditionAbort([sendsStx], 'deny', SENDER))
+        .toBe('One of the post-conditions was violated, or an asset moved that none of them cover: 1. sender sends ≤ 1.5 STX');
+    });
+
+    it('blames Deny mode when there are no conditions', () => {
+      expect(explainPostConditionAbort([], 'deny', SENDER))
+        .toBe('Deny mode blocked an asset transfer: add a post-condition for every asset the call moves');
+    });
+
+    it('lists every condition when there are several', () => {
+      expect(explainPostConditionAbort([sendsStx, vaultSendsToken], 'allow', SENDER))
+        .toBe(`One of the post-conditions was violated: 1. sender sends ≤ 1.5 STX; 2. ${VAULT} sends = 5 token`);
+    });
+  });
+});
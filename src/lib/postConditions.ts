@@ -0,0 +1,134 @@
+// Post-conditions as edited in the execute dialog, and how to explain an abort_by_post_condition.
+
+import { FungibleCondition, PostConditionMode, PostConditionSpec } from './types';
+import { principalError } from './clarityArgs';
+
+export interface PostConditionDraft {
+  id: number;
+  type: PostConditionSpec['type'];
+  principal: string; // empty for the transaction sender
+  condition: FungibleCondition | 'sends' | 'does-not-send';
+  amount: string; // STX for stx, base units for ft
+  asset: string;
+  tokenId: string;
+  tokenIdType: string;
+}
+
+const CONDITION_SYMBOLS: Record<FungibleCondition, string> = { eq: '=', gt: '>', gte: '≥', lt: '<', lte: '≤' };
+
+export function emptyPostConditionDraft(id: number, type: PostConditionSpec['type'], asset = ''): PostConditionDraft {
+  return {
+    id,
+    type,
+    principal: '',
+    condition: type === 'nft' ? 'sends' : 'lte',
+    amount: '',
+    asset,
+    tokenId: '',
+    tokenIdType: 'uint128',
+  };
+}
+
+function stxToMicroStx(stx: string): string | undefined {
+  const match = /^(\d+)(?:\.(\d{1,6}))?$/.exec(stx.trim());
+  if (!match) return undefined;
+  return (BigInt(match[1]) * 1_000_000n + BigInt((match[2] || '').padEnd(6, '0'))).toString();
+}
+
+function microStxToStx(amount: string): string {
+  const micro = BigInt(amount);
+  const fraction = (micro % 1_000_000n).toString().padStart(6, '0').replace(/0+$/, '');
+  return fraction ? `${micro / 1_000_000n}.${fraction}` : `${micro / 1_000_000n}`;
+}
+
+/**
+ * Why a draft cannot be sent, or undefined if it can
+ */
+export function postConditionDraftError(draft: PostConditionDraft): string | undefined {
+  if (draft.principal.trim()) {
+    const error = principalError(draft.principal);
+    if (error) return error;
+  }
+  if (draft.type === 'stx' && stxToMicroStx(draft.amount) === undefined) {
+    return 'Enter an STX amount with at most 6 decimals';
+  }
+  if (draft.type === 'ft' && !/^\d+$/.test(draft.amount.trim())) {
+    return 'Enter a whole number of base units';
+  }
+  if (draft.type !== 'stx') {
+    const [contractId, tokenName] = draft.asset.trim().split('::');
+    if (!tokenName || !contractId.includes('.') || principalError(contractId)) {
+      return 'Asset must look like ST1….contract::token-name';
+    }
+  }
+  if (draft.type === 'nft' && !draft.tokenId.trim()) return 'Enter the token id';
+  return undefined;
+}
+
+export function draftToPostCondition(draft: PostConditionDraft): PostConditionSpec {
+  const principal = draft.principal.trim().replace(/^'/, '') || undefined;
+  switch (draft.type) {
+    case 'stx':
+      return { type: 'stx', principal, condition: draft.condition as FungibleCondition, amount: stxToMicroStx(draft.amount)! };
+    case 'ft':
+      return { type: 'ft', principal, condition: draft.condition as FungibleCondition, amount: draft.amount.trim(), asset: draft.asset.trim() };
+    case 'nft':
+      return {
+        type: 'nft',
+        principal,
+        condition: draft.condition === 'does-not-send' ? 'does-not-send' : 'sends',
+        asset: draft.asset.trim(),
+        tokenId: { value: draft.tokenId, type: draft.tokenIdType },
+      };
+  }
+}
+
+// e.g. "sender sends ≤ 1.5 STX", "ST1….vault sends = 5 token", "sender does not send NFT item u1"
+export function describePostCondition(spec: PostConditionSpec): string {
+  const who = spec.principal || 'sender';
+  const token = (asset: string) => asset.split('::')[1] ?? asset;
+  switch (spec.type) {
+    case 'stx':
+      return `${who} sends ${CONDITION_SYMBOLS[spec.condition]} ${microStxToStx(spec.amount)} STX`;
+    case 'ft':
+      return `${who} sends ${CONDITION_SYMBOLS[spec.condition]} ${spec.amount} ${token(spec.asset)}`;
+    case 'nft':
+      return `${who} ${spec.condition === 'sends' ? 'sends' : 'does not send'} NFT ${token(spec.asset)} ${spec.tokenId.value}`;
+  }
+}
+
+/**
+ * Say which post-condition stopped a transaction. `vmError` is the node's message when the API
+ * reports one; it names the principal and asset that failed the check, which we match against.
+ */
+export function explainPostConditionAbort(
+  postConditions: PostConditionSpec[],
+  mode: PostConditionMode,
+  sender: string,
+  vmError?: string | null
+): string {
+  const matches = (spec: PostConditionSpec) => {
+    if (!vmError) return false;
+    const principal = spec.principal || sender;
+    const asset = spec.type === 'stx' ? 'STX' : spec.asset.split('::')[1];
+    return vmError.includes(principal) && vmError.includes(asset);
+  };
+  const detail = vmError ? ` (${vmError})` : '';
+
+  const failed = postConditions.findIndex(matches);
+  if (failed !== -1) {
+    return `Post-condition ${failed + 1} was violated: ${describePostCondition(postConditions[failed])}${detail}`;
+  }
+  if (vmError && mode === 'deny') {
+    return `An asset moved that no post-condition covers, which Deny mode does not allow${detail}`;
+  }
+  // In Allow mode only a listed condition can abort, but without the node's message we cannot be sure which
+  if (postConditions.length === 1 && mode === 'allow') {
+    return `Post-condition 1 was most likely violated: ${describePostCondition(postConditions[0])}${detail}`;
+  }
+  if (postConditions.length === 0) {
+    return 'Deny mode blocked an asset transfer: add a post-condition for every asset the call moves';
+  }
+  const list = postConditions.map((spec, i) => `${i + 1}. ${describePostCondition(spec)}`).join('; ');
+  return `One of the post-conditions was violated${mode === 'deny' ? ', or an asset moved that none of them cover' : ''}: ${list}${detail}`;
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Rows per table, as the anonymous client would read them
+const tables: Record<string, Array<Record<string, unknown>>> = {};
+const inserted: Array<{ table: string; row: Record<string, unknown> }> = [];
+
+// A PostgREST query over `tables`, supporting the filters these modules use
+function query(table: string) {
+  let rows = tables[table] ?? [];
+  let single = false;
+  const builder = {
+    select: () => builder,
+    eq: (column: string, value: unknown) => {
+      rows = rows.filter(row => row[column] === value);
+      return builder;
+    },
+    like: (column: string, pattern: string) => {
+      const prefix = pattern.replace(/%$/, '');
+      rows = rows.filter(row => String(row[column]).startsWith(prefix));
+      return builder;
+    },
+    insert: (row: Record<string, unknown>) => {
+      inserted.push({ table, row });
+      rows = [{ id: 'embed-1', ...row }];
+      return builder;
+    },
+    single: () => {
+      single = true;
+      return builder;
+    },
+    then: (resolve: (result: { data: unknown; error: null }) => void) =>
+      resolve({ data: single ? rows[0] ?? null : rows, error: null }),
+  };
+  return builder;
+}
+
+vi.mock('./supabase', () => ({
+  supabase: {
+    from: (table: string) => query(table),
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } } }) },
+  },
+}));
+
+const { createEmbed } = await import('./embeds-api');
+const { fetchContractSources, fetchMainContractSource } = await import('./projectSources');
+
+const PROJECT = { id: 'project-1', user_id: 'user-1', name: 'Counter', description: 'A counter', code: '(define-data-var stale uint u0)' };
+
+function file(path: string, content = '', isDirectory = false) {
+  return { project_id: PROJECT.id, path, content: isDirectory ? '' : content, is_directory: isDirectory };
+}
+
+beforeEach(() => {
+  tables.projects = [PROJECT];
+  tables.project_files = [];
+  inserted.length = 0;
+});
+
+describe('fetchContractSources', () => {
+  it('reads the contracts saved in the project files, in path order', async () => {
+    tables.project_files = [
+      file('Clarinet.toml', '[project]'),
+      file('contracts', '', true),
+      file('contracts/token.clar', '(define-fungible-token token)'),
+      file('contracts/counter.clar', '(define-data-var count uint u0)'),
+      file('tests/counter_test.clar', '(define-public (test-count) (ok true))'),
+    ];
+
+    expect(await fetchContractSources(PROJECT)).toEqual([
+      { path: 'contracts/counter.clar', content: '(define-data-var count uint u0)' },
+      { path: 'contracts/token.clar', content: '(define-fungible-token token)' },
+    ]);
+  });
+
+  it('falls back to projects.code for projects that were never opened in the editor', async () => {
+    expect(await fetchContractSources(PROJECT)).toEqual([
+      { path: 'contracts/counter.clar', content: PROJECT.code },
+    ]);
+  });
+});
+
+describe('shared and embedded projects', () => {
+  it('show the contract as last saved, not projects.code', async () => {
+    tables.project_files = [file('contracts/counter.clar', '(define-data-var saved uint u1)')];
+
+    expect(await fetchMainContractSource(PROJECT)).toBe('(define-data-var saved uint u1)');
+  });
+
+  it('snapshot the saved contract into a new project embed', async () => {
+    tables.project_files = [file('contracts/counter.clar', '(define-data-var saved uint u1)')];
+
+    await createEmbed({ source_type: 'project', project_id: PROJECT.id });
+
+    expect(inserted).toHaveLength(1);
+    expect(inserted[0].table).toBe('embeds');
+    expect(inserted[0].row).toMatchObject({
+      code: '(define-data-var saved uint u1)',
+      snapshot_name: 'Counter',
+      snapshot_description: 'A counter',
+    });
+  });
+});
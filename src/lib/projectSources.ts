@@ -0,0 +1,48 @@
+// A project's contracts as pages outside the editor show them: shared links and embeds.
+// The editor saves to project_files; projects.code only holds what a single-file project had before it was
+// first opened, so it stands in for projects that were never opened since.
+
+import { supabase } from './supabase';
+
+export interface ContractSource {
+  path: string;
+  content: string;
+}
+
+interface FileRow {
+  path: string;
+  content: string | null;
+  is_directory: boolean;
+}
+
+// The .clar files under contracts/, in path order
+export function contractSources(rows: FileRow[]): ContractSource[] {
+  return rows
+    .filter(row => !row.is_directory && row.path.startsWith('contracts/') && row.path.endsWith('.clar'))
+    .map(row => ({ path: row.path, content: row.content ?? '' }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * The project's contract sources, read from its saved files; public projects' files can be read by anyone.
+ * A project without saved contracts gives its single-file `code`.
+ */
+export async function fetchContractSources(project: { id: string; name: string; code: string | null }): Promise<ContractSource[]> {
+  const { data, error } = await supabase
+    .from('project_files')
+    .select('path, content, is_directory')
+    .eq('project_id', project.id)
+    .like('path', 'contracts/%');
+  if (error) throw error;
+
+  const sources = contractSources((data ?? []) as FileRow[]);
+  if (sources.length > 0) return sources;
+  const name = project.name.toLowerCase().replace(/[^a-z0-9-]/g, '-') || 'contract';
+  return [{ path: `contracts/${name}.clar`, content: project.code ?? '' }];
+}
+
+// The contract a project opens on, as in the editor: the first under contracts/
+export async function fetchMainContractSource(project: { id: string; name: string; code: string | null }): Promise<string> {
+  const [main] = await fetchContractSources(project);
+  return main.content;
+}
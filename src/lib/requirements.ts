@@ -0,0 +1,23 @@
+// How a project's requirements - deployed contracts it calls - are referred to on the network it deploys to.
+
+import { StacksNetworkConfig } from './config';
+import { ProjectRequirement } from './types';
+
+/**
+ * The principal a requirement is deployed at on `network`: mainnet requirements stay as they are on mainnet, use
+ * their testnet deployment on testnet, and on devnets and custom networks, which Clarinet seeds the way the
+ * simulator is, the testnet address of their deployer.
+ */
+export function requirementPrincipal(requirement: ProjectRequirement, network: StacksNetworkConfig): string {
+  if (network.network === 'mainnet') return requirement.contractId;
+  return network.network === 'testnet' ? requirement.testnetId : requirement.simnetId;
+}
+
+/** `code` with its quoted references to the project's requirements pointed at where they are on `network` */
+export function remapRequirements(code: string, requirements: ProjectRequirement[], network: StacksNetworkConfig): string {
+  const principals = new Map(requirements.map(requirement => [requirement.contractId, requirementPrincipal(requirement, network)]));
+  return code.replace(/'(S[0-9A-Z]{28,40}\.[a-zA-Z][\w-]*)/g, (literal, contractId: string) => {
+    const principal = principals.get(contractId);
+    return principal ? `'${principal}` : literal;
+  });
+}
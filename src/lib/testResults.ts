@@ -0,0 +1,133 @@
+/**
+ * Test Results - Folds the test runner's streamed events into per-test and suite state
+ */
+
+import { TestCase, TestRunEvent, TestSetupError } from './types';
+
+export type TestStatus = 'pending' | 'running' | 'passed' | 'failed' | 'skipped';
+
+export interface TestResult {
+  id: string;
+  status: TestStatus;
+  duration?: number; // in milliseconds
+  message?: string;
+  output?: string;
+}
+
+export interface TestSuiteResult {
+  status: 'idle' | 'running' | 'completed';
+  totalTests: number;
+  passed: number;
+  failed: number;
+  skipped: number;
+  duration?: number;
+  tests: Map<string, TestResult>;
+  setupErrors: TestSetupError[];
+  error?: string;
+}
+
+export interface TestFile {
+  path: string;
+  tests: TestCase[];
+}
+
+/**
+ * Create an empty test suite result
+ */
+export function createTestSuiteResult(): TestSuiteResult {
+  return {
+    status: 'idle',
+    totalTests: 0,
+    passed: 0,
+    failed: 0,
+    skipped: 0,
+    tests: new Map(),
+    setupErrors: [],
+  };
+}
+
+/**
+ * Apply one event from the runner to the suite state
+ */
+export function applyTestEvent(suite: TestSuiteResult, event: TestRunEvent): TestSuiteResult {
+  switch (event.type) {
+    case 'start':
+      return {
+        ...createTestSuiteResult(),
+        status: 'running',
+        totalTests: event.tests.length,
+        tests: new Map(event.tests.map(test => [test.id, { id: test.id, status: 'pending' as const }])),
+      };
+
+    case 'setup-error':
+      return {
+        ...suite,
+        setupErrors: [...suite.setupErrors, { file: event.file, message: event.message, errors: event.errors }],
+      };
+
+    case 'test-start': {
+      const tests = new Map(suite.tests);
+      tests.set(event.id, { id: event.id, status: 'running' });
+      return { ...suite, tests };
+    }
+
+    case 'test-result': {
+      const tests = new Map(suite.tests);
+      tests.set(event.id, {
+        id: event.id,
+        status: event.status,
+        duration: event.duration,
+        message: event.message,
+        output: event.output,
+      });
+      return {
+        ...suite,
+        tests,
+        passed: suite.passed + (event.status === 'passed' ? 1 : 0),
+        failed: suite.failed + (event.status === 'failed' ? 1 : 0),
+        skipped: suite.skipped + (event.status === 'skipped' ? 1 : 0),
+      };
+    }
+
+    case 'done':
+      return {
+        ...suite,
+        status: 'completed',
+        passed: event.passed,
+        failed: event.failed,
+        skipped: event.skipped,
+        duration: event.duration,
+      };
+
+    case 'error':
+      return { ...suite, status: 'completed', error: event.message };
+  }
+}
+
+/**
+ * Group tests by the file they are defined in, keeping discovery order
+ */
+export function groupTestsByFile(tests: TestCase[]): TestFile[] {
+  const fileMap = new Map<string, TestCase[]>();
+
+  for (const test of tests) {
+    const existing = fileMap.get(test.file) || [];
+    existing.push(test);
+    fileMap.set(test.file, existing);
+  }
+
+  return Array.from(fileMap.entries()).map(([path, tests]) => ({
+    path,
+    tests,
+  }));
+}
+
+/**
+ * Format test duration
+ */
+export function formatTestDuration(ms?: number): string {
+  if (ms === undefined) return '';
+  if (ms < 1) return '<1ms';
+  if (ms < 1000) return `${Math.round(ms)}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+}
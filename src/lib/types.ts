@@ -1,3 +1,5 @@
+import type { ClarityVersion } from './clarityVersions';
+
 export interface User {
   id: string;
   email: string;
@@ -24,6 +26,9 @@ export interface Project {
   view_count?: number;
   deployment_count?: number;
   clarity_version?: number;
+  // Where the project was last published: 'owner/name' and a branch
+  github_repo?: string | null;
+  github_branch?: string | null;
 }
 
 export interface CompilationResult {
@@ -53,8 +58,14 @@ export interface Deployment {
   metadata: Record<string, any>;
   created_at: string;
   tx_id?: string;
+  // e.g. 'stacks-testnet'; custom networks keep their API URL in metadata.api_url
+  network?: string;
+  // Set by stacks-backend once the deploy transaction settles
+  status?: DeploymentStatus;
 }
 
+export type DeploymentStatus = 'pending' | 'confirmed' | 'failed' | 'dropped';
+
 export interface DeploymentWithProject extends Deployment {
   project?: {
     id: string;
@@ -71,19 +82,41 @@ export interface StacksWallet {
   balance?: string;
 }
 
+export interface ClarityNote {
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+// Lines and columns are 1-based; endColumn is exclusive (Monaco's convention)
 export interface ClarityError {
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
+  file?: string;
+  severity?: 'error' | 'warning';
   message: string;
+  notes?: ClarityNote[];
 }
 
 export interface ValidationResult {
   success: boolean;
   errors: ClarityError[];
-  warnings: string[];
+  warnings: ClarityError[];
 }
 
-export interface StacksDeployResult {
+// How stacks-backend broadcast a transaction from the shared deployer wallet
+export interface BroadcastInfo {
+  nonce: number;
+  // µSTX, raised above the requested fee if the node rejected it as too low
+  fee: string;
+  // Transactions queued ahead of this one for the deployer wallet
+  queuePosition: number;
+}
+
+export interface StacksDeployResult extends BroadcastInfo {
   txId: string;
   contractAddress: string;
   explorerUrl: string;
@@ -101,6 +134,25 @@ export interface ClarityFunction {
   outputs: { type: string };
 }
 
+// A function argument as typed by the user, with its type signature, e.g. { value: '5', type: 'uint128' }.
+// The backend encodes it into a Clarity value, so nested values use Clarity syntax: `{ id: u1, memo: none }`.
+export interface ClarityArgument {
+  name?: string;
+  value: string;
+  type: string;
+}
+
+// Post-conditions for testnet transactions. `principal` defaults to the sender; amounts are in base units
+// (micro-STX or the token's smallest unit); `asset` is `<contract id>::<token name>`.
+export type FungibleCondition = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+export type PostConditionSpec =
+  | { type: 'stx'; principal?: string; condition: FungibleCondition; amount: string }
+  | { type: 'ft'; principal?: string; condition: FungibleCondition; amount: string; asset: string }
+  | { type: 'nft'; principal?: string; condition: 'sends' | 'does-not-send'; asset: string; tokenId: ClarityArgument };
+
+export type PostConditionMode = 'allow' | 'deny';
+
 export interface ContractInterface {
   functions: ClarityFunction[];
   variables: Array<{ name: string; type: string; access: string }>;
@@ -109,10 +161,24 @@ export interface ContractInterface {
   non_fungible_tokens: Array<{ name: string; type: string }>;
 }
 
+// A Clarity type as it appears in a contract interface from the Stacks node,
+// e.g. "uint128", { buffer: { length: 32 } } or { tuple: [{ name: 'id', type: 'uint128' }] }
+export type ClarityAbiType =
+  | string
+  | { buffer: { length: number } }
+  | { 'string-ascii': { length: number } }
+  | { 'string-utf8': { length: number } }
+  | { list: { type: ClarityAbiType; length: number } }
+  | { optional: ClarityAbiType }
+  | { response: { ok: ClarityAbiType; error: ClarityAbiType } }
+  | { tuple: Array<{ name: string; type: ClarityAbiType }> };
+
 export interface ABIMethodInput {
   name: string;
   type: string;
   internalType?: string;
+  // Structured type from the contract interface, used to build the argument editors
+  abiType?: ClarityAbiType;
 }
 
 export interface ABIMethod {
@@ -131,12 +197,151 @@ export interface MethodCallResult {
   error?: string;
 }
 
+export interface ABICall {
+  id: string;
+  project_id: string;
+  contract_address: string;
+  method_name: string;
+  method_type: string;
+  inputs: Record<string, unknown>;
+  outputs: { transaction_hash?: string; raw?: unknown; result?: unknown; [key: string]: unknown };
+  status: 'success' | 'error' | 'pending';
+  error?: string;
+  created_at: string;
+}
+
 export interface AccountInfo {
   address: string;
   balance: string;
   nonce: number;
 }
 
+export interface DeployerWallet {
+  address: string;
+  balance?: string;
+  // Set for per-user wallets, derived at m/44'/5757'/0'/0/<accountIndex>
+  accountIndex?: number;
+}
+
+// Local simulator (stacks-backend /simulate)
+
+export interface SimulationAccount {
+  name: string;
+  address: string;
+  balance: string;
+}
+
+export interface SimulationSession {
+  sessionId: string;
+  blockHeight: number;
+  accounts: SimulationAccount[];
+  contracts: string[];
+  // Requirements of the project that failed to deploy when the session started
+  requirementErrors?: string[];
+}
+
+// Amounts are strings (micro-units) and Clarity values are shown as source, e.g. "(some u1)"
+export type SimulationEvent = { type: string } & Record<string, string>;
+
+export type SimulationStateChange =
+  | { type: 'stx-balance'; principal: string; before: string; after: string }
+  | { type: 'data-var'; contract: string; name: string; before?: string; after: string }
+  | { type: 'map-entry'; contract: string; map: string; key: string; before?: string; after?: string }
+  | { type: 'ft-balance'; contract: string; token: string; principal: string; before: string; after: string }
+  | { type: 'nft-owner'; contract: string; token: string; id: string; before?: string; after?: string };
+
+export interface SimulationResult {
+  success: boolean;
+  result?: { repr: string; hex: string };
+  error?: string;
+  events: SimulationEvent[];
+  stateChanges: SimulationStateChange[];
+  blockHeight: number;
+}
+
+export interface SimulationDeployResult extends SimulationResult {
+  contractId?: string;
+  errors?: ClarityError[];
+}
+
+// Fee estimation (stacks-backend /fees/estimate)
+
+export type FeeLevel = 'low' | 'medium' | 'high';
+
+export interface FeeEstimate {
+  level: FeeLevel;
+  fee: string; // µSTX
+  feeRate: number; // µSTX per byte
+}
+
+export interface FeeEstimates {
+  estimates: FeeEstimate[];
+  byteLength: number;
+  // 'transfer-rate' when the node had no estimate for the payload
+  source: 'node' | 'transfer-rate';
+}
+
+export type FeeEstimateRequest =
+  | { type: 'deploy'; code: string; contractName: string; clarityVersion?: number; postConditions?: PostConditionSpec[] }
+  | {
+      type: 'call';
+      contractAddress: string;
+      contractName: string;
+      functionName: string;
+      args?: ClarityArgument[];
+      postConditions?: PostConditionSpec[];
+    };
+
+// Transaction tracking (stacks-backend /tx/:txid/events)
+
+export type TxPhase = 'pending' | 'microblock' | 'anchored';
+export type TxOutcome = 'success' | 'abort_by_response' | 'abort_by_post_condition' | 'dropped' | 'timeout';
+
+export interface TxSettlement {
+  status: TxOutcome;
+  apiStatus?: string;
+  result?: { repr: string; hex: string };
+  events: SimulationEvent[];
+  fee?: { rate: string; executionCost?: Record<string, number> };
+  blockHeight?: number;
+  senderAddress?: string;
+  vmError?: string;
+}
+
+export type TxTrackEvent =
+  | { type: 'status'; txId: string; status: TxPhase; blockHeight?: number }
+  | ({ type: 'settled'; txId: string } & TxSettlement);
+
+// Test runner (stacks-backend /test)
+
+export interface ProjectSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface TestCase {
+  // `<file>::<name>`
+  id: string;
+  file: string;
+  name: string;
+  line?: number;
+}
+
+export interface TestSetupError {
+  file: string;
+  message: string;
+  errors?: ClarityError[];
+}
+
+// Durations are in milliseconds
+export type TestRunEvent =
+  | { type: 'start'; tests: TestCase[] }
+  | ({ type: 'setup-error' } & TestSetupError)
+  | { type: 'test-start'; id: string }
+  | { type: 'test-result'; id: string; status: 'passed' | 'failed' | 'skipped'; duration: number; message?: string; output?: string }
+  | { type: 'done'; passed: number; failed: number; skipped: number; duration: number }
+  | { type: 'error'; message: string };
+
 // File system types (used by editor and file explorer)
 
 export interface FileNode {
@@ -147,6 +352,104 @@ export interface FileNode {
   size?: number;
 }
 
+export interface FileSearchResult {
+  path: string;
+  name: string;
+  // The matching line, for content searches
+  preview?: string;
+  line_number?: number;
+}
+
+// A contract a GitHub repository's Clarinet.toml declares
+export interface GitHubContract {
+  name: string;
+  path: string;
+  clarityVersion: number;
+  epoch?: string;
+  // The other declared contracts it refers to, which are imported along with it
+  dependencies: string[];
+}
+
+// The Clarinet project found in a public GitHub repository
+export interface GitHubProject {
+  owner: string;
+  repo: string;
+  ref: string;
+  // The folder Clarinet.toml is in; undefined for the repository root
+  path?: string;
+  url: string;
+  name: string;
+  description: string | null;
+  contracts: GitHubContract[];
+  hasTests: boolean;
+  hasDeployments: boolean;
+}
+
+// A public or read-only function of a deployed contract, with Clarity types such as "(response bool uint)"
+export interface RequirementFunction {
+  name: string;
+  access: 'public' | 'read-only';
+  args: Array<{ name: string; type: string }>;
+  returns: string;
+}
+
+// A deployed contract the project requires (listed in Clarinet.toml), or one those refer to
+export interface ProjectRequirement {
+  contractId: string;
+  required: boolean;
+  // One of the SIP-009, SIP-010 and SIP-013 traits, which every project has without adding them
+  builtin: boolean;
+  // Whether its source is cached in the project under .cache/requirements
+  cached: boolean;
+  clarityVersion?: ClarityVersion;
+  // Where calls to it go on the simulator and devnets, and on testnet
+  simnetId: string;
+  testnetId: string;
+  dependencies: string[];
+  functions: RequirementFunction[];
+}
+
+// A deployed contract looked up before adding it as a requirement
+export interface RequirementLookup {
+  contractId: string;
+  network: string;
+  publishHeight: number;
+  clarityVersion: ClarityVersion;
+  source: string;
+  dependencies: string[];
+  functions: RequirementFunction[];
+}
+
+// A file a push to GitHub would add, change or delete, with its content on GitHub and in the project
+export interface PublishChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  before?: string;
+  after?: string;
+}
+
+export interface PublishPreview {
+  owner: string;
+  repo: string;
+  branch: string;
+  repoExists: boolean;
+  branchExists: boolean;
+  // The commit the branch is at; publishing fails if it has moved since
+  head: string | null;
+  changes: PublishChange[];
+  // Identifies the changes; publishing fails if the project no longer gives the same ones
+  digest: string;
+}
+
+export interface PublishResult {
+  repoUrl: string;
+  branch: string;
+  // Undefined when there was nothing to commit
+  commitSha?: string;
+  commitUrl?: string;
+  changed: number;
+}
+
 export interface OpenFile {
   path: string;
   name: string;
@@ -182,6 +485,27 @@ export function getLanguageFromPath(path: string): string {
   }
 }
 
+// Icon color for a file in the explorer and tabs
+export function getFileTypeInfo(path: string): { language: string; color: string } {
+  const language = getLanguageFromPath(path);
+  switch (language) {
+    case 'clarity':
+      return { language, color: 'text-primary' };
+    case 'typescript':
+    case 'javascript':
+      return { language, color: 'text-blue-500' };
+    case 'toml':
+      return { language, color: 'text-muted-foreground' };
+    case 'markdown':
+      return { language, color: 'text-blue-400' };
+    case 'json':
+    case 'yaml':
+      return { language, color: 'text-yellow-600' };
+    default:
+      return { language, color: 'text-gray-400' };
+  }
+}
+
 export function isFileDirty(file: OpenFile): boolean {
   return file.content !== file.originalContent;
 }
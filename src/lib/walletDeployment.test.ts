@@ -0,0 +1,59 @@
+import { Cl } from '@stacks/transactions';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// What each wallet request was asked to sign
+const requests: Array<{ method: string; params: Record<string, unknown> }> = [];
+
+vi.mock('@stacks/connect', () => ({
+  connect: async () => ({ addresses: [] }),
+  disconnect: () => undefined,
+  getLocalStorage: () => null,
+  isConnected: () => false,
+  request: async (method: string, params: Record<string, unknown>) => {
+    requests.push({ method, params });
+    return { txid: 'abc' };
+  },
+}));
+
+const { STACKS_CONFIG } = await import('./config');
+const { callContractWithWallet } = await import('./walletDeployment');
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+async function argumentsSent(...values: string[]): Promise<unknown[]> {
+  await callContractWithWallet({
+    sender: DEPLOYER,
+    contractAddress: DEPLOYER,
+    contractName: 'market',
+    functionName: 'list',
+    args: values.map(value => ({ value, type: 'principal' })),
+    network: STACKS_CONFIG.testnet,
+  });
+  return requests[0].params.functionArgs as unknown[];
+}
+
+beforeEach(() => {
+  requests.length = 0;
+});
+
+describe('callContractWithWallet', () => {
+  it("resolves .contract principals against the called contract's address, as the backend does", async () => {
+    const args = await argumentsSent('.token', "'.token", '(list .a .b)', '{ token: .token, id: u1 }');
+
+    expect(args).toEqual([
+      Cl.serialize(Cl.contractPrincipal(DEPLOYER, 'token')),
+      Cl.serialize(Cl.contractPrincipal(DEPLOYER, 'token')),
+      Cl.serialize(Cl.list([Cl.contractPrincipal(DEPLOYER, 'a'), Cl.contractPrincipal(DEPLOYER, 'b')])),
+      Cl.serialize(Cl.tuple({ token: Cl.contractPrincipal(DEPLOYER, 'token'), id: Cl.uint(1) })),
+    ]);
+  });
+
+  it('leaves full principals and text that looks like shorthand as they are', async () => {
+    const args = await argumentsSent(`'${DEPLOYER}.token`, '"see .token"');
+
+    expect(args).toEqual([
+      Cl.serialize(Cl.contractPrincipal(DEPLOYER, 'token')),
+      Cl.serialize(Cl.stringAscii('see .token')),
+    ]);
+  });
+});
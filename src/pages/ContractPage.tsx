@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Boxes, FileCode2, GitFork, Layers, Loader2, Lock, PlayCircle, Wand2 } from 'lucide-react';
+import { Editor } from '@/components/Editor';
+import { ABIView } from '@/components/views/ABIView';
+import { ThemeToggle } from '@/components/ThemeToggle';
+import { UserNav } from '@/components/UserNav';
+import { NetworkSelector } from '@/components/wallet/NetworkSelector';
+import { WalletButton } from '@/components/wallet/WalletButton';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useWallet } from '@/contexts/WalletContext';
+import { useAuth } from '@/App';
+import { forkContract, getContractSource } from '@/lib/api';
+import { networkOfContract } from '@/lib/config';
+import { RequirementLookup } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { SEO } from '@/components/seo/SEO';
+
+const VIEWS = [
+  { id: 'editor', title: 'Source', icon: FileCode2 },
+  { id: 'abi', title: 'Contract Interface', icon: PlayCircle },
+] as const;
+
+type ViewId = typeof VIEWS[number]['id'];
+
+// A deployed contract opened by its principal: its source read-only and its interface on the network it is on
+export function ContractPage() {
+  const { contractId = '' } = useParams();
+  const [contract, setContract] = useState<RequirementLookup | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [activeViews, setActiveViews] = useState<ViewId[]>(['editor', 'abi']);
+  const [isForking, setIsForking] = useState(false);
+  const { stacksNetwork } = useWallet();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+
+  const network = useMemo(() => networkOfContract(contractId, stacksNetwork), [contractId, stacksNetwork]);
+  const liveContract = useMemo(() => ({ contractId, network }), [contractId, network]);
+
+  useEffect(() => {
+    const [address, name] = contractId.split('.');
+    setContract(null);
+    setError(null);
+    if (!address || !name) {
+      setError(`'${contractId}' is not a contract id`);
+      return;
+    }
+    let cancelled = false;
+    getContractSource(address, name, network)
+      .then(result => { if (!cancelled) setContract(result); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the contract'); });
+    return () => { cancelled = true; };
+  }, [contractId, network]);
+
+  const toggleView = (viewId: ViewId) => {
+    setActiveViews(prev => {
+      if (!prev.includes(viewId)) return [...prev, viewId];
+      const next = prev.filter(v => v !== viewId);
+      return next.length > 0 ? next : [viewId];
+    });
+  };
+
+  const handleFork = async () => {
+    if (!user) return;
+    setIsForking(true);
+    try {
+      const { projectId, name } = await forkContract(user.id, contractId, network);
+      toast({ title: 'Contract forked', description: `Created ${name}` });
+      navigate(`/projects/${projectId}`);
+    } catch (err) {
+      toast({
+        title: 'Fork failed',
+        description: err instanceof Error ? err.message : 'Failed to fork the contract',
+        variant: 'destructive',
+      });
+      setIsForking(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <div className="text-center space-y-4">
+          <div className="p-3 rounded-full bg-red-500/10 mx-auto w-fit">
+            <Lock className="h-6 w-6 text-red-500" />
+          </div>
+          <div className="space-y-2">
+            <h1 className="text-2xl font-semibold">Contract not found</h1>
+            <p className="text-muted-foreground">{error}</p>
+          </div>
+          <Button asChild>
+            <Link to="/projects">Back to Projects</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!contract) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-background">
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <div className="h-4 w-4 animate-spin rounded-full border-2 border-primary border-t-transparent" />
+          <span className="text-sm">Loading contract...</span>
+        </div>
+      </div>
+    );
+  }
+
+  const hasEditor = activeViews.includes('editor');
+  const hasABI = activeViews.includes('abi');
+  const panelWidth = `${100 / [hasEditor, hasABI].filter(Boolean).length}%`;
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <SEO
+        title={contractId}
+        description={`Source and interface of ${contractId} on ${contract.network}`}
+        type="app"
+      />
+
+      <header className="h-20 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="h-full flex flex-col justify-center px-4">
+          <div className="flex items-center">
+            {/* Left — Contract info */}
+            <div className="flex-1 flex items-center gap-4 min-w-0">
+              <Link to="/projects" className="flex items-center gap-2 hover:text-primary transition-colors">
+                <div className="p-2 bg-primary/10 rounded-lg">
+                  <Wand2 className="h-5 w-5 text-primary" />
+                </div>
+              </Link>
+              <div className="h-8 w-px bg-border" />
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 mb-1">
+                  <h1 className="text-xl font-semibold truncate">{contractId.split('.')[1]}</h1>
+                  <Badge variant="outline" className="bg-blue-500/10 text-blue-500">
+                    Read-only
+                  </Badge>
+                </div>
+                <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                  <span className="font-mono truncate">{contractId}</span>
+                  <div className="flex items-center gap-1.5">
+                    <Boxes className="h-3.5 w-3.5" />
+                    <span>{contract.network} · block {contract.publishHeight}</span>
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <Layers className="h-3.5 w-3.5" />
+                    <span>Clarity {contract.clarityVersion}</span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Center — View tabs */}
+            <div className="flex items-center gap-px bg-muted rounded-md border overflow-hidden">
+              {VIEWS.map(view => (
+                <Button
+                  key={view.id}
+                  variant="ghost"
+                  size="sm"
+                  className={cn(
+                    'h-8 px-3 gap-2 rounded-none transition-all relative',
+                    activeViews.includes(view.id)
+                      ? ['bg-background text-foreground font-medium',
+                         'before:absolute before:inset-x-0 before:bottom-0 before:h-0.5 before:bg-primary']
+                      : ['text-muted-foreground hover:text-foreground hover:bg-muted/80',
+                         'hover:before:absolute hover:before:inset-x-0 hover:before:bottom-0 hover:before:h-0.5 hover:before:bg-muted-foreground/30']
+                  )}
+                  onClick={() => toggleView(view.id)}
+                >
+                  <view.icon className={cn(
+                    'h-4 w-4 transition-colors',
+                    activeViews.includes(view.id) ? 'text-foreground' : 'text-muted-foreground'
+                  )} />
+                  <span className="text-xs">{view.title}</span>
+                </Button>
+              ))}
+            </div>
+
+            {/* Right — Actions */}
+            <div className="flex-1 flex items-center justify-end gap-2">
+              {user && (
+                <Button
+                  size="sm"
+                  className="h-8 gap-2"
+                  onClick={handleFork}
+                  disabled={isForking}
+                  title="Create a project from this contract, with the contracts it calls as requirements"
+                >
+                  {isForking ? <Loader2 className="h-4 w-4 animate-spin" /> : <GitFork className="h-4 w-4" />}
+                  <span className="text-xs">Fork</span>
+                </Button>
+              )}
+              <NetworkSelector />
+              <WalletButton />
+              <ThemeToggle />
+              <UserNav />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 flex overflow-hidden">
+        {hasEditor && (
+          <div style={{ width: panelWidth }} className="h-full overflow-hidden p-2">
+            <Editor
+              value={contract.source}
+              onChange={() => {}} // No-op since this is read-only
+              readOnly={true}
+              showHeader={false}
+              filePath={`${contractId}.clar`}
+              clarityVersion={contract.clarityVersion}
+            />
+          </div>
+        )}
+
+        {hasABI && (
+          <div style={{ width: panelWidth }} className="h-full overflow-hidden p-2">
+            {/* Calls on a live contract aren't saved to a project; they are kept per contract for the session */}
+            <ABIView
+              key={`${contractId}@${network.apiUrl}`}
+              projectId={contractId}
+              userId={user?.id}
+              liveContract={liveContract}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
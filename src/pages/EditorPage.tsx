@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef, useCallback } from "react";
-import { useParams, useNavigate, Link } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams, Link } from "react-router-dom";
 import {
   FileCode2,
   PlayCircle,
@@ -11,19 +11,41 @@ import {
   X,
   Bug,
   Bot,
+  Layers,
+  Github,
+  Boxes,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Editor } from "@/components/Editor";
+import { FileExplorer } from "@/components/explorer/FileExplorer";
+import { TestsModal } from "@/components/testing/TestsModal";
+import { PublishToGitHubDialog } from "@/components/projects/PublishToGitHubDialog";
+import { RequirementsDialog } from "@/components/requirements/RequirementsDialog";
 import { useToast } from "@/hooks/use-toast";
-import { Project, ValidationResult } from "@/lib/types";
+import { useProjectFiles } from "@/hooks/useProjectFiles";
+import { ClarityError, FileNode, Project, ProjectRequirement, ValidationResult } from "@/lib/types";
 import { supabase } from "@/lib/supabase";
-import { validateContract } from "@/lib/api";
+import { getRequirements, validateContract } from "@/lib/api";
+import { setClarityRequirements } from "@/lib/clarityLanguage";
+import { CLARITY_VERSIONS, ClarityVersion, toClarityVersion } from "@/lib/clarityVersions";
 import { useAuth } from "@/App";
 import { UserNav } from "@/components/UserNav";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { WalletButton } from "@/components/wallet/WalletButton";
+import { NetworkSelector } from "@/components/wallet/NetworkSelector";
+import { RPCDropdown } from "@/components/settings/RPCDropdown";
+import { RPCSettingsPanel } from "@/components/settings/RPCSettingsPanel";
 import { ABIView } from "@/components/views/ABIView";
+import { ValidationConsole } from "@/components/views/ValidationConsole";
 import { DeployDialog } from "@/components/editor/DeployDialog";
 import { AIChat } from "@/components/ai/AIChat";
 import { cn } from "@/lib/utils";
@@ -53,25 +75,66 @@ const CLARITY_DEFAULT_CODE = `;; Counter Contract
 (define-read-only (get-counter)
   (ok (var-get counter)))`;
 
+// The contract to open first: one under contracts/, else any
+function findFirstContract(node: FileNode): string | undefined {
+  const paths: string[] = [];
+  const collect = (n: FileNode) => {
+    if (!n.is_directory && n.path.endsWith(".clar")) paths.push(n.path);
+    n.children?.forEach(collect);
+  };
+  collect(node);
+  return paths.find((path) => path.startsWith("contracts/")) ?? paths[0];
+}
+
+function contractNameFromPath(path: string): string {
+  return path.split("/").pop()!.replace(/\.clar$/, "");
+}
+
 export function EditorPage() {
   const [project, setProject] = useState<Project | null>(null);
-  const [code, setCode] = useState("");
   const [isChecking, setIsChecking] = useState(false);
   const [lastValidation, setLastValidation] = useState<ValidationResult | null>(null);
+  // The file the last validation checked; its problems are only shown on that file
+  const [validatedPath, setValidatedPath] = useState<string | null>(null);
+  // The contract that checks, deploys and the contract interface use: the last Clarity file made active
+  const [contractPath, setContractPath] = useState<string | null>(null);
+  const [problemPosition, setProblemPosition] = useState<{ line: number; column?: number } | null>(null);
   const [activeViews, setActiveViews] = useState<ViewId[]>(["editor", "abi", "ai"]);
   const [isEditingName, setIsEditingName] = useState(false);
   const [editedName, setEditedName] = useState("");
   const [isSavingName, setIsSavingName] = useState(false);
   const [showDeployDialog, setShowDeployDialog] = useState(false);
+  const [showApiSettings, setShowApiSettings] = useState(false);
+  const [showTests, setShowTests] = useState(false);
+  const [showPublish, setShowPublish] = useState(false);
+  const [showRequirements, setShowRequirements] = useState(false);
+  const [requirements, setRequirements] = useState<ProjectRequirement[]>([]);
   const [refreshABITrigger, setRefreshABITrigger] = useState(0);
-  const [contractName, setContractName] = useState("");
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
   const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const openedFirstContract = useRef(false);
   const { id } = useParams();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
   const { user } = useAuth();
+  const clarityVersion = toClarityVersion(project?.clarity_version);
+
+  // Projects from before the file store are moved into contracts/ on first open; empty ones start as a counter
+  const files = useProjectFiles({
+    userId: user?.id ?? "",
+    projectId: project?.id ?? "",
+    initialCode: project && !project.code ? CLARITY_DEFAULT_CODE : undefined,
+  });
+  // Timers and editor shortcuts outlive the render they were created in
+  const filesRef = useRef(files);
+  filesRef.current = files;
+
+  const activeFile = files.getActiveFile();
+  const contractFile = contractPath ? files.getOpenFile(contractPath) : undefined;
+  const code = contractFile?.content ?? "";
+  const contractName = contractPath ? contractNameFromPath(contractPath) : "";
 
   // Fetch project on mount
   useEffect(() => {
@@ -88,9 +151,7 @@ export function EditorPage() {
         if (!project) throw new Error("Project not found");
 
         setProject(project);
-        setCode(project.code || CLARITY_DEFAULT_CODE);
         setEditedName(project.name);
-        setContractName(project.name.toLowerCase().replace(/[^a-z0-9-]/g, "-"));
       } catch (error) {
         console.error("Error fetching project:", error);
         toast({ title: "Error", description: "Failed to load project", variant: "destructive" });
@@ -112,28 +173,95 @@ export function EditorPage() {
     return () => { supabase.removeChannel(channel); };
   }, [id]);
 
-  // Auto-save code changes (debounced 2s)
+  // Load the project's files once it and the user are known
+  useEffect(() => {
+    if (project && user) files.loadFileTree();
+  }, [project?.id, user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Requirements are offered as contract-call? completions while the project is open
+  useEffect(() => {
+    if (!project || !user) return;
+    getRequirements(user.id, project.id)
+      .then(setRequirements)
+      .catch((error) => console.error("Failed to load requirements:", error));
+  }, [project?.id, user?.id]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    setClarityRequirements(requirements);
+  }, [requirements]);
+
+  useEffect(() => {
+    return () => setClarityRequirements([]);
+  }, []);
+
+  useEffect(() => {
+    if (!files.fileTree || openedFirstContract.current) return;
+    openedFirstContract.current = true;
+    const path = findFirstContract(files.fileTree);
+    if (path) files.openFile(path);
+  }, [files.fileTree]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    if (files.activeFilePath?.endsWith(".clar")) setContractPath(files.activeFilePath);
+  }, [files.activeFilePath]);
+
+  const saveAllFiles = useCallback(async () => {
+    await filesRef.current.saveAllFiles();
+    setLastSaved(new Date());
+  }, []);
+
+  // Auto-save file changes (debounced 2s)
   const handleCodeChange = useCallback(
     (value: string) => {
-      setCode(value);
+      if (!files.activeFilePath) return;
+      files.updateFileContent(files.activeFilePath, value);
       if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
-      saveTimerRef.current = setTimeout(async () => {
-        if (!id || !user) return;
-        try {
-          const { error } = await supabase
-            .from("projects")
-            .update({ code: value, updated_at: new Date().toISOString() })
-            .eq("id", id);
-          if (error) throw error;
-          setLastSaved(new Date());
-        } catch (error) {
-          console.error("Auto-save failed:", error);
-        }
+      saveTimerRef.current = setTimeout(() => {
+        saveAllFiles().catch((error) => console.error("Auto-save failed:", error));
       }, 2000);
     },
-    [id, user]
+    [files, saveAllFiles]
   );
 
+  const handleCloseFile = async (path: string) => {
+    try {
+      await files.saveFile(path);
+      files.closeFile(path);
+    } catch {
+      toast({ title: "Save failed", description: `${path} has unsaved changes`, variant: "destructive" });
+    }
+  };
+
+  const handleOpenTests = async () => {
+    // Tests run on the saved files
+    try {
+      await saveAllFiles();
+    } catch (error) {
+      console.error("Save before tests failed:", error);
+    }
+    setShowTests(true);
+  };
+
+  const handleOpenPublish = async () => {
+    // Publishing pushes the saved files
+    try {
+      await saveAllFiles();
+    } catch (error) {
+      console.error("Save before publishing failed:", error);
+    }
+    setShowPublish(true);
+  };
+
+  // Back from granting GitHub access: reopen the publish dialog
+  useEffect(() => {
+    if (!project || searchParams.get("publish") !== "github") return;
+    setShowPublish(true);
+    setSearchParams((params) => {
+      params.delete("publish");
+      return params;
+    }, { replace: true });
+  }, [project, searchParams, setSearchParams]);
+
   useEffect(() => {
     return () => { if (saveTimerRef.current) clearTimeout(saveTimerRef.current); };
   }, []);
@@ -174,7 +302,6 @@ export function EditorPage() {
         .eq("id", project.id);
       if (error) throw error;
       setProject((prev) => prev ? { ...prev, name: editedName.trim() } : null);
-      setContractName(editedName.trim().toLowerCase().replace(/[^a-z0-9-]/g, "-"));
       toast({ title: "Success", description: "Project name updated successfully" });
     } catch (error) {
       toast({ title: "Error", description: "Failed to update project name", variant: "destructive" });
@@ -194,12 +321,29 @@ export function EditorPage() {
     else if (e.key === "Escape") handleCancelEditing();
   };
 
+  const handleChangeClarityVersion = async (version: ClarityVersion) => {
+    if (!project || version === clarityVersion) return;
+    try {
+      const { error } = await supabase
+        .from("projects")
+        .update({ clarity_version: version, updated_at: new Date().toISOString() })
+        .eq("id", project.id);
+      if (error) throw error;
+      setProject((prev) => prev ? { ...prev, clarity_version: version } : null);
+      // Results from the previous version no longer apply
+      setLastValidation(null);
+    } catch {
+      toast({ title: "Error", description: "Failed to update Clarity version", variant: "destructive" });
+    }
+  };
+
   const handleCheck = async () => {
-    if (!project || isChecking || !user) return;
+    if (!project || isChecking || !user || !contractPath) return;
     setIsChecking(true);
     try {
-      const result = await validateContract(code, contractName);
+      const result = await validateContract(code, contractName, clarityVersion, { userId: user.id, projectId: project.id });
       setLastValidation(result);
+      setValidatedPath(contractPath);
       toast({
         title: result.success ? "Validation Passed" : "Validation Failed",
         description: result.success ? "Your Clarity code is valid" : `Found ${result.errors.length} error(s)`,
@@ -216,6 +360,18 @@ export function EditorPage() {
     }
   };
 
+  const handleSelectProblem = async (problem: ClarityError) => {
+    if (!problem.line) return;
+    if (!activeViews.includes("editor")) toggleView("editor");
+    if (validatedPath) await files.openFile(validatedPath);
+    setProblemPosition({ line: problem.line, column: problem.column });
+  };
+
+  const handleSelectFile = async (path: string, lineNumber?: number) => {
+    await files.openFile(path);
+    if (lineNumber) setProblemPosition({ line: lineNumber });
+  };
+
   const handleRequestDeploy = () => {
     setShowDeployDialog(true);
   };
@@ -320,6 +476,22 @@ export function EditorPage() {
                       {lastSaved ? `Saved ${formatDate(lastSaved.toISOString())}` : `Updated ${formatDate(project.updated_at)}`}
                     </span>
                   </div>
+                  <Select
+                    value={String(clarityVersion)}
+                    onValueChange={(value) => handleChangeClarityVersion(toClarityVersion(Number(value)))}
+                  >
+                    <SelectTrigger className="h-6 w-auto gap-1.5 px-2 text-xs">
+                      <Layers className="h-3.5 w-3.5" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CLARITY_VERSIONS.map((v) => (
+                        <SelectItem key={v.version} value={String(v.version)} className="text-xs">
+                          {v.label} <span className="text-muted-foreground">(epoch {v.epoch})</span>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
               </div>
             </div>
@@ -354,6 +526,38 @@ export function EditorPage() {
 
             {/* Right — Actions */}
             <div className="flex-1 flex items-center justify-end gap-2">
+              {user && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-2"
+                  onClick={() => setShowRequirements(true)}
+                  title="Deployed contracts this project calls"
+                >
+                  <Boxes className="h-4 w-4" />
+                  <span className="text-xs">Requirements</span>
+                  {requirements.some((r) => r.required) && (
+                    <Badge variant="secondary" className="h-4 px-1 text-[10px]">
+                      {requirements.filter((r) => r.required).length}
+                    </Badge>
+                  )}
+                </Button>
+              )}
+              {user && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-8 gap-2"
+                  onClick={handleOpenPublish}
+                  title={project.github_repo ? `Published to ${project.github_repo}` : "Publish to GitHub"}
+                >
+                  <Github className="h-4 w-4" />
+                  <span className="text-xs">Publish</span>
+                </Button>
+              )}
+              <NetworkSelector />
+              <RPCDropdown onOpenSettings={() => setShowApiSettings(true)} />
+              <WalletButton />
               <ThemeToggle />
               <UserNav />
             </div>
@@ -366,21 +570,58 @@ export function EditorPage() {
         {/* Panels — Editor + ABI side by side */}
         <div className="flex h-full">
           {hasEditor && (
-            <div style={{ width: getMainPanelWidth() }} className="h-full overflow-hidden p-2">
-              <Editor
-                value={code}
-                onChange={handleCodeChange}
-                onCompile={handleCheck}
-                isCompiling={isChecking}
-                projectId={project.id}
-                onSave={() => {}}
-                onRequestDeploy={handleRequestDeploy}
-                onOpenTests={() => {}}
-                language="clarity"
-                filePath="contract.clar"
-                showHeader={true}
-                lastCompilation={lastValidation as any}
-              />
+            <div style={{ width: getMainPanelWidth() }} className="h-full overflow-hidden p-2 flex flex-col gap-2">
+              <div className="flex-1 min-h-0 flex gap-2">
+                <div className="w-56 flex-none">
+                  {user && (files.fileTree || files.error) && (
+                    <FileExplorer
+                      userId={user.id}
+                      projectId={project.id}
+                      projectName={project.name}
+                      selectedFile={files.activeFilePath}
+                      onFileSelect={handleSelectFile}
+                      onPathRenamed={files.handlePathRenamed}
+                      onPathDeleted={files.handlePathDeleted}
+                    />
+                  )}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <Editor
+                    value={activeFile?.content ?? ""}
+                    onChange={handleCodeChange}
+                    onCompile={handleCheck}
+                    isCompiling={isChecking}
+                    readOnly={!activeFile}
+                    projectId={project.id}
+                    onSave={() => setLastSaved(new Date())}
+                    onSaveFile={async () => { if (files.activeFilePath) await filesRef.current.saveFile(files.activeFilePath); }}
+                    onRequestDeploy={handleRequestDeploy}
+                    onOpenTests={handleOpenTests}
+                    language={activeFile?.language ?? "clarity"}
+                    filePath={activeFile?.path}
+                    showHeader={true}
+                    openFiles={files.openFiles}
+                    activeFilePath={files.activeFilePath}
+                    onSelectFile={files.setActiveFile}
+                    onCloseFile={handleCloseFile}
+                    lastCompilation={lastValidation as any}
+                    diagnostics={lastValidation && files.activeFilePath === validatedPath
+                      ? [...lastValidation.errors, ...lastValidation.warnings]
+                      : undefined}
+                    goToPosition={problemPosition}
+                    clarityVersion={clarityVersion}
+                  />
+                </div>
+              </div>
+              {(lastValidation || isChecking) && (
+                <div className="h-44 flex-none">
+                  <ValidationConsole
+                    result={lastValidation}
+                    isChecking={isChecking}
+                    onSelectProblem={handleSelectProblem}
+                  />
+                </div>
+              )}
             </div>
           )}
 
@@ -391,6 +632,9 @@ export function EditorPage() {
                 userId={user?.id}
                 refreshTrigger={refreshABITrigger}
                 onRequestDeploy={handleRequestDeploy}
+                code={code}
+                contractName={contractName}
+                clarityVersion={clarityVersion}
               />
             </div>
           )}
@@ -410,8 +654,49 @@ export function EditorPage() {
         projectId={project.id}
         code={code}
         initialContractName={contractName}
+        clarityVersion={clarityVersion}
+        requirements={requirements}
         onDeploySuccess={() => setRefreshABITrigger((prev) => prev + 1)}
       />
+
+      {user && (
+        <TestsModal
+          open={showTests}
+          onOpenChange={setShowTests}
+          userId={user.id}
+          projectId={project.id}
+          clarityVersion={clarityVersion}
+        />
+      )}
+
+      {user && (
+        <PublishToGitHubDialog
+          open={showPublish}
+          onOpenChange={setShowPublish}
+          userId={user.id}
+          project={project}
+          onPublished={(repo, branch) =>
+            setProject((prev) => prev ? { ...prev, github_repo: repo, github_branch: branch } : null)}
+        />
+      )}
+
+      {user && (
+        <RequirementsDialog
+          open={showRequirements}
+          onOpenChange={setShowRequirements}
+          userId={user.id}
+          projectId={project.id}
+          requirements={requirements}
+          onRequirementsChange={(next) => {
+            setRequirements(next);
+            // Checks against the previous requirements may no longer hold
+            setLastValidation(null);
+          }}
+        />
+      )}
+
+      {/* Stacks API Settings */}
+      <RPCSettingsPanel open={showApiSettings} onOpenChange={setShowApiSettings} />
     </div>
   );
 }
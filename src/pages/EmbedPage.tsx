@@ -21,6 +21,7 @@ import {
 } from '@/lib/embeds-api';
 import { useTemplate } from '@/lib/templates-api';
 import { supabase } from '@/lib/supabase';
+import { fetchMainContractSource } from '@/lib/projectSources';
 import type { Embed } from '@/lib/types';
 import {
   Code2,
@@ -165,7 +166,8 @@ export function EmbedPage() {
         // Create project from snapshot data
         const projectName = embed.snapshot_name || embed.project?.name || 'Unnamed Project';
         const projectDescription = embed.snapshot_description || embed.project?.description;
-        const projectCode = embed.code || embed.project?.code || '';
+        // Embeds from before snapshots were taken read the project's saved contract
+        const projectCode = embed.code || (embed.project ? await fetchMainContractSource(embed.project) : '');
 
         const { error: dbError } = await supabase.from('projects').insert({
           id: newProjectId,
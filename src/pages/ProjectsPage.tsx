@@ -1,10 +1,11 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Code2Icon, Rocket, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Project, DeploymentWithProject } from '@/lib/types';
 import { supabase } from '@/lib/supabase';
+import { exportProject, importProject } from '@/lib/api';
 import { useAuth } from '@/App';
 import { UserNav } from '@/components/UserNav';
 import { ProjectList } from '@/components/projects/ProjectList';
@@ -14,6 +15,8 @@ import { ProjectTabs, SortOption, NetworkFilter, WalletFilter } from '@/componen
 import { ProjectEditDialog } from '@/components/projects/ProjectEditDialog';
 import { ProjectDeleteDialog } from '@/components/projects/ProjectDeleteDialog';
 import { NewProjectDialog, CombinedTemplate } from '@/components/projects/NewProjectDialog';
+import { GitHubImportDialog } from '@/components/projects/GitHubImportDialog';
+import { OpenContractDialog } from '@/components/projects/OpenContractDialog';
 import { SEO } from '@/components/seo/SEO';
 import { ThemeToggle } from '@/components/ThemeToggle';
 
@@ -75,6 +78,12 @@ export function ProjectsPage() {
   const [showNewProjectDialog, setShowNewProjectDialog] = useState(false);
   const [networkFilter, setNetworkFilter] = useState<NetworkFilter>('all');
   const [walletFilter, setWalletFilter] = useState<WalletFilter>('all');
+  const [isImporting, setIsImporting] = useState(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // /projects?github=<repository URL> opens the repository straight in the GitHub import dialog
+  const [githubImportUrl, setGithubImportUrl] = useState<string | undefined>(() => searchParams.get('github') ?? undefined);
+  const [showGitHubImport, setShowGitHubImport] = useState(() => searchParams.has('github'));
+  const [showOpenContract, setShowOpenContract] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
@@ -218,6 +227,11 @@ export function ProjectsPage() {
         .in('project_id', projectIds)
         .order('created_at', { ascending: false });
 
+      // Network filter, on the deployments.network column (e.g. 'stacks-testnet')
+      if (networkFilter !== 'all') {
+        query = query.eq('network', `stacks-${networkFilter}`);
+      }
+
       const { data, error } = await query;
 
       if (error) throw error;
@@ -225,14 +239,6 @@ export function ProjectsPage() {
       // Apply filters
       let filtered = data || [];
 
-      // Network filter
-      if (networkFilter !== 'all') {
-        filtered = filtered.filter(d => {
-          const network = d.metadata?.network || 'testnet';
-          return network === networkFilter;
-        });
-      }
-
       // Wallet filter
       if (walletFilter !== 'all') {
         filtered = filtered.filter(d => {
@@ -261,9 +267,9 @@ export function ProjectsPage() {
           case 'name_desc':
             return (b.project?.name || '').localeCompare(a.project?.name || '');
           case 'network_asc':
-            return (a.metadata?.network || 'testnet').localeCompare(b.metadata?.network || 'testnet');
+            return (a.network || 'stacks-testnet').localeCompare(b.network || 'stacks-testnet');
           case 'network_desc':
-            return (b.metadata?.network || 'testnet').localeCompare(a.metadata?.network || 'testnet');
+            return (b.network || 'stacks-testnet').localeCompare(a.network || 'stacks-testnet');
           default:
             return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
         }
@@ -335,6 +341,57 @@ export function ProjectsPage() {
     }
   };
 
+  const handleExportProject = async (project: Project) => {
+    if (!user) return;
+
+    try {
+      const { blob, fileName } = await exportProject(user.id, project.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting project:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export project",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    if (!user) {
+      toast({
+        title: "Error",
+        description: "You must be logged in to import projects",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsImporting(true);
+      const { projectId, name } = await importProject(user.id, file);
+      toast({
+        title: "Success",
+        description: `Imported ${name}`,
+      });
+      navigate(`/projects/${projectId}`);
+    } catch (error) {
+      console.error('Error importing project:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import project",
+        variant: "destructive",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleDeleteProject = async (project: Project) => {
     try {
       const { error } = await supabase
@@ -425,7 +482,7 @@ export function ProjectsPage() {
               setEditDescription(project.description || '');
             }}
             onDelete={setProjectToDelete}
-            onExport={() => {}}
+            onExport={handleExportProject}
             isLoading={isLoading}
           />
         );
@@ -481,6 +538,10 @@ export function ProjectsPage() {
           <div className="flex-none mb-8">
             <ProjectHeader
               onNewProject={() => setShowNewProjectDialog(true)}
+              onImportProject={handleImportProject}
+              onImportFromGitHub={() => setShowGitHubImport(true)}
+              onOpenContract={() => setShowOpenContract(true)}
+              isImporting={isImporting}
             />
           </div>
 
@@ -515,6 +576,26 @@ export function ProjectsPage() {
         onCreateProject={handleCreateProject}
       />
 
+      {user && (
+        <GitHubImportDialog
+          open={showGitHubImport}
+          onClose={() => {
+            setShowGitHubImport(false);
+            setGithubImportUrl(undefined);
+            if (searchParams.has('github')) setSearchParams({}, { replace: true });
+          }}
+          onSuccess={(projectId) => navigate(`/projects/${projectId}`)}
+          userId={user.id}
+          initialUrl={githubImportUrl}
+        />
+      )}
+
+      <OpenContractDialog
+        open={showOpenContract}
+        onOpenChange={setShowOpenContract}
+        onOpenContract={(contractId) => navigate(`/contracts/${contractId}`)}
+      />
+
       <ProjectDeleteDialog
         project={projectToDelete}
         onClose={() => setProjectToDelete(null)}
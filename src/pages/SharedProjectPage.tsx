@@ -20,6 +20,7 @@ import { supabase } from '@/lib/supabase';
 import { cn } from '@/lib/utils';
 import { SEO } from '@/components/seo/SEO';
 import { getProjectByShareToken, recordShareView } from '@/lib/shareLinks';
+import { ContractSource, fetchContractSources } from '@/lib/projectSources';
 
 const VIEWS = [
   { id: 'editor', title: 'Editor', icon: FileCode2 },
@@ -37,6 +38,8 @@ export function SharedProjectPage() {
   const [error, setError] = useState<string | null>(null);
   const [lastCompilation, setLastCompilation] = useState<CompilationResult | null>(null);
   const [shareToken, setShareToken] = useState<string | null>(null);
+  const [contracts, setContracts] = useState<ContractSource[]>([]);
+  const [activeContract, setActiveContract] = useState<string | null>(null);
   const { id, token } = useParams();
 
   useEffect(() => {
@@ -75,6 +78,11 @@ export function SharedProjectPage() {
           projectData = project;
         }
 
+        // The saved files, which the editor keeps current; projects.code is only the pre-files contract
+        const sources = await fetchContractSources(projectData);
+        setContracts(sources);
+        setActiveContract(sources[0].path);
+
         setProject(projectData);
         setOwner(projectData.user);
 
@@ -168,6 +176,7 @@ export function SharedProjectPage() {
     );
   }
 
+  const activeSource = contracts.find(contract => contract.path === activeContract) ?? contracts[0];
   const hasConsole = activeViews.includes('console');
   const hasEditor = activeViews.includes('editor');
   const hasABI = activeViews.includes('abi');
@@ -270,15 +279,33 @@ export function SharedProjectPage() {
       <div className="flex-1 flex flex-col overflow-hidden">
         <div className={cn("flex", mainHeight)}>
           {hasEditor && (
-            <div style={{ width: getMainPanelWidth() }} className="h-full overflow-hidden p-2">
-              <Editor
-                value={project.code}
-                onChange={() => {}} // No-op since this is read-only
-                readOnly={true}
-                projectId={project.id}
-                lastCompilation={lastCompilation}
-                isSharedView={true}
-              />
+            <div style={{ width: getMainPanelWidth() }} className="h-full overflow-hidden p-2 flex flex-col">
+              {contracts.length > 1 && (
+                <div className="flex items-center gap-1 pb-2 overflow-x-auto">
+                  {contracts.map(contract => (
+                    <Button
+                      key={contract.path}
+                      variant={contract.path === activeSource?.path ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-7 px-2 text-xs font-mono"
+                      onClick={() => setActiveContract(contract.path)}
+                    >
+                      {contract.path.replace(/^contracts\//, '')}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              <div className="flex-1 min-h-0">
+                <Editor
+                  value={activeSource?.content ?? ''}
+                  onChange={() => {}} // No-op since this is read-only
+                  readOnly={true}
+                  projectId={project.id}
+                  lastCompilation={lastCompilation}
+                  isSharedView={true}
+                  filePath={activeSource?.path}
+                />
+              </div>
             </div>
           )}
 
@@ -9,10 +9,20 @@ import { callPublicRouter } from './routes/callPublic';
 import { walletRouter } from './routes/wallet';
 import { accountRouter } from './routes/account';
 import { aiRouter } from './routes/ai';
+import { simulateRouter } from './routes/simulate';
+import { testRouter } from './routes/test';
+import { txRouter } from './routes/tx';
+import { feesRouter } from './routes/fees';
+import { filesRouter } from './routes/files';
+import { githubRouter } from './routes/github';
+import { networkRouter } from './routes/network';
+import { resumePendingDeployments } from './lib/deployments';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Behind a reverse proxy, TRUST_PROXY (the number of proxies in front) makes req.ip the client's address
+if (process.env.TRUST_PROXY) app.set('trust proxy', Number(process.env.TRUST_PROXY));
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
 
@@ -26,7 +36,15 @@ app.use('/call', callPublicRouter);
 app.use('/wallet', walletRouter);
 app.use('/account', accountRouter);
 app.use('/ai', aiRouter);
+app.use('/simulate', simulateRouter);
+app.use('/test', testRouter);
+app.use('/tx', txRouter);
+app.use('/fees', feesRouter);
+app.use('/files', filesRouter);
+app.use('/github', githubRouter);
+app.use('/network', networkRouter);
 
 app.listen(PORT, () => {
   console.log(`Stacks backend running on port ${PORT}`);
+  resumePendingDeployments();
 });
@@ -0,0 +1,109 @@
+// AST produced by the Clarity reader (see parser.ts).
+// Every node carries a span so validation errors can point at exact positions.
+
+export interface SourcePosition {
+  /** 1-based line number */
+  line: number;
+  /** 1-based column number */
+  column: number;
+  /** 0-based character offset into the source */
+  offset: number;
+}
+
+export interface SourceSpan {
+  start: SourcePosition;
+  /** Position just past the last character of the node */
+  end: SourcePosition;
+}
+
+interface BaseNode {
+  span: SourceSpan;
+}
+
+/** `( ... )` */
+export interface ListNode extends BaseNode {
+  kind: 'list';
+  items: ClarityNode[];
+}
+
+export interface TupleEntry {
+  key: string;
+  keySpan: SourceSpan;
+  value: ClarityNode;
+}
+
+/** `{ key: value, ... }` */
+export interface TupleNode extends BaseNode {
+  kind: 'tuple';
+  entries: TupleEntry[];
+}
+
+/** Identifiers and keywords: `tx-sender`, `map-get?`, `true`, `+` */
+export interface AtomNode extends BaseNode {
+  kind: 'atom';
+  name: string;
+}
+
+/** `<trait-alias>` as used in function signatures */
+export interface TraitReferenceNode extends BaseNode {
+  kind: 'trait-ref';
+  name: string;
+}
+
+export interface IntNode extends BaseNode {
+  kind: 'int';
+  value: bigint;
+}
+
+export interface UIntNode extends BaseNode {
+  kind: 'uint';
+  value: bigint;
+}
+
+export interface StringNode extends BaseNode {
+  kind: 'string';
+  encoding: 'ascii' | 'utf8';
+  value: string;
+}
+
+export interface BufferNode extends BaseNode {
+  kind: 'buffer';
+  /** Lowercase hex without the 0x prefix */
+  hex: string;
+}
+
+/**
+ * `'SP000...`, `'SP000....contract`, `.contract` and the trait forms
+ * `'SP000....contract.trait` / `.contract.trait`.
+ * `address` is undefined for the `.contract` shorthand (contract deployed by the same principal).
+ */
+export interface PrincipalNode extends BaseNode {
+  kind: 'principal';
+  address?: string;
+  contractName?: string;
+  traitName?: string;
+}
+
+export type LiteralNode = IntNode | UIntNode | StringNode | BufferNode | PrincipalNode;
+
+export type ClarityNode = ListNode | TupleNode | AtomNode | TraitReferenceNode | LiteralNode;
+
+export function isList(node: ClarityNode | undefined): node is ListNode {
+  return node?.kind === 'list';
+}
+
+export function isAtom(node: ClarityNode | undefined, name?: string): node is AtomNode {
+  return node?.kind === 'atom' && (name === undefined || node.name === name);
+}
+
+/** Name of the function/special form a list applies, e.g. `define-public` for `(define-public ...)` */
+export function listHead(node: ClarityNode | undefined): string | undefined {
+  if (!isList(node)) return undefined;
+  const head = node.items[0];
+  return head?.kind === 'atom' ? head.name : undefined;
+}
+
+/** Span covering `from` through `to` */
+export function joinSpans(from: SourceSpan, to: SourceSpan): SourceSpan {
+  return { start: from.start, end: to.end };
+}
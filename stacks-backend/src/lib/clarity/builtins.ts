@@ -0,0 +1,118 @@
+// Names reserved by the Clarity language, and the versions they are available in.
+
+/** Top-level definition forms */
+export const DEFINE_FORMS = new Set([
+  'define-public',
+  'define-read-only',
+  'define-private',
+  'define-data-var',
+  'define-map',
+  'define-constant',
+  'define-fungible-token',
+  'define-non-fungible-token',
+  'define-trait',
+  'impl-trait',
+  'use-trait',
+]);
+
+/** Built-in functions and special forms */
+export const BUILTIN_FUNCTIONS = new Set([
+  // arithmetic & logic
+  '+', '-', '*', '/', 'mod', 'pow', 'sqrti', 'log2', '<', '>', '<=', '>=',
+  'is-eq', 'xor', 'and', 'or', 'not', 'to-int', 'to-uint',
+  'bit-and', 'bit-or', 'bit-xor', 'bit-not', 'bit-shift-left', 'bit-shift-right',
+  // sequences
+  'list', 'map', 'filter', 'fold', 'append', 'concat', 'as-max-len?', 'len',
+  'element-at', 'element-at?', 'index-of', 'index-of?', 'slice?', 'replace-at?',
+  // conversions
+  'int-to-ascii', 'int-to-utf8', 'string-to-int?', 'string-to-uint?',
+  'buff-to-int-le', 'buff-to-uint-le', 'buff-to-int-be', 'buff-to-uint-be',
+  'to-consensus-buff?', 'from-consensus-buff?',
+  // hashing & crypto
+  'hash160', 'sha256', 'sha512', 'sha512/256', 'keccak256',
+  'secp256k1-recover?', 'secp256k1-verify',
+  // control flow & optionals/responses
+  'if', 'let', 'begin', 'match', 'asserts!', 'unwrap!', 'unwrap-err!',
+  'unwrap-panic', 'unwrap-err-panic', 'try!', 'ok', 'err', 'some', 'default-to',
+  'is-ok', 'is-err', 'is-some', 'is-none',
+  // data
+  'var-get', 'var-set', 'map-get?', 'map-set', 'map-insert', 'map-delete',
+  'get', 'merge', 'tuple',
+  // assets
+  'ft-mint?', 'ft-transfer?', 'ft-burn?', 'ft-get-balance', 'ft-get-supply',
+  'nft-mint?', 'nft-transfer?', 'nft-burn?', 'nft-get-owner?',
+  'stx-transfer?', 'stx-transfer-memo?', 'stx-burn?', 'stx-get-balance', 'stx-account',
+  // chain & contract context
+  'contract-call?', 'as-contract', 'contract-of', 'principal-of?', 'at-block',
+  'get-block-info?', 'get-burn-block-info?', 'get-stacks-block-info?', 'get-tenure-info?',
+  'print', 'principal-construct?', 'principal-destruct?', 'is-standard',
+]);
+
+/** Built-in constants that evaluate without being applied */
+export const BUILTIN_KEYWORDS = new Set([
+  'tx-sender', 'contract-caller', 'tx-sponsor?', 'block-height', 'burn-block-height',
+  'stacks-block-height', 'tenure-height', 'stx-liquid-supply', 'chain-id',
+  'is-in-mainnet', 'is-in-regtest', 'true', 'false', 'none',
+]);
+
+export type ClarityVersion = 1 | 2 | 3;
+
+export const LATEST_CLARITY_VERSION: ClarityVersion = 3;
+
+/** Stacks epoch each Clarity version was introduced in */
+export const CLARITY_VERSION_EPOCHS: Record<ClarityVersion, string> = {
+  1: '2.05',
+  2: '2.1',
+  3: '3.0',
+};
+
+/** Built-ins that are not part of Clarity 1, by the version that introduced them */
+const ADDED_IN: Record<string, ClarityVersion> = {
+  // Clarity 2 (epoch 2.1)
+  'bit-and': 2, 'bit-or': 2, 'bit-xor': 2, 'bit-not': 2, 'bit-shift-left': 2, 'bit-shift-right': 2,
+  'element-at?': 2, 'index-of?': 2, 'slice?': 2, 'replace-at?': 2,
+  'int-to-ascii': 2, 'int-to-utf8': 2, 'string-to-int?': 2, 'string-to-uint?': 2,
+  'buff-to-int-le': 2, 'buff-to-uint-le': 2, 'buff-to-int-be': 2, 'buff-to-uint-be': 2,
+  'to-consensus-buff?': 2, 'from-consensus-buff?': 2,
+  'stx-transfer-memo?': 2, 'stx-account': 2, 'get-burn-block-info?': 2,
+  'principal-construct?': 2, 'principal-destruct?': 2, 'is-standard': 2,
+  'tx-sponsor?': 2, 'chain-id': 2, 'is-in-mainnet': 2,
+  // Clarity 3 (epoch 3.0, Nakamoto)
+  'stacks-block-height': 3, 'tenure-height': 3, 'get-stacks-block-info?': 3, 'get-tenure-info?': 3,
+};
+
+/** Built-ins dropped by a later version, with what to use instead */
+const REMOVED_IN: Record<string, { version: ClarityVersion; replacement: string }> = {
+  'block-height': { version: 3, replacement: "'stacks-block-height' or 'tenure-height'" },
+  'get-block-info?': { version: 3, replacement: "'get-stacks-block-info?' or 'get-tenure-info?'" },
+};
+
+export function parseClarityVersion(value: unknown): ClarityVersion | undefined {
+  const version = Number(value);
+  return version === 1 || version === 2 || version === 3 ? version : undefined;
+}
+
+/**
+ * Why a built-in can't be used in the given Clarity version, or undefined if it can
+ * (names that aren't built-ins are always "available").
+ */
+export function unavailableBuiltinMessage(name: string, version: ClarityVersion): string | undefined {
+  const added = ADDED_IN[name];
+  if (added && version < added) {
+    return `'${name}' is not available in Clarity ${version} (introduced in Clarity ${added})`;
+  }
+  const removed = REMOVED_IN[name];
+  if (removed && version >= removed.version) {
+    return `'${name}' was removed in Clarity ${removed.version} — use ${removed.replacement} instead`;
+  }
+  return undefined;
+}
+
+export function isBuiltinAvailable(name: string, version: ClarityVersion): boolean {
+  return unavailableBuiltinMessage(name, version) === undefined;
+}
+
+export function isReservedName(name: string, version: ClarityVersion = LATEST_CLARITY_VERSION): boolean {
+  if (DEFINE_FORMS.has(name)) return true;
+  return (BUILTIN_FUNCTIONS.has(name) || BUILTIN_KEYWORDS.has(name)) && isBuiltinAvailable(name, version);
+}
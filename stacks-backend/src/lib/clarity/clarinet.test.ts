@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { parseClarinetOutput } from './clarinet';
+
+describe('parseClarinetOutput', () => {
+  it('names files by their path in the project when given its directory', () => {
+    const output = [
+      '/tmp/clarity-1/contracts/token.clar:3:4: error: use of unresolved function \'foo\'',
+      'error: use of unresolved contract \'.missing\'',
+      '--> contracts/defi/token.clar:7:2',
+    ].join('\n');
+
+    const { errors } = parseClarinetOutput(output, '/tmp/clarity-1');
+
+    expect(errors.map(error => [error.file, error.line])).toEqual([
+      ['contracts/token.clar', 3],
+      ['contracts/defi/token.clar', 7],
+    ]);
+  });
+
+  it('names files by their file name otherwise', () => {
+    const { errors } = parseClarinetOutput('contracts/token.clar:3:4: error: use of unresolved function \'foo\'');
+
+    expect(errors[0].file).toBe('token.clar');
+  });
+});
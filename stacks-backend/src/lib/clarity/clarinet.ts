@@ -0,0 +1,114 @@
+import * as path from 'path';
+import type { ClarityError, ClarityNote } from './diagnostics';
+
+export interface ClarinetDiagnostics {
+  errors: ClarityError[];
+  warnings: ClarityError[];
+}
+
+type Level = 'error' | 'warning' | 'note';
+
+interface RawDiagnostic {
+  level: Level;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+// eslint-disable-next-line no-control-regex
+const ANSI_RE = /\x1b\[[0-9;]*m/g;
+
+// clarity-repl style: "contract.clar:3:4: error: use of unresolved function 'foo'"
+const LOCATED_HEADER_RE = /^(.+?):(\d+):(\d+):\s*(error|warning|note):\s*(.*)$/;
+// rustc style: "error: use of unresolved function 'foo'" followed by "--> contract.clar:3:4"
+const HEADER_RE = /^(error|warning|note):\s*(.*)$/;
+const LOCATION_RE = /^\s*-->\s*(.+?):(\d+):(\d+)\s*$/;
+// Source excerpt pointer: "      ^~~~"
+const POINTER_RE = /^[\s|0-9]*?(\s*)\^(~*)\s*$/;
+// Summary lines such as "x 1 error detected" or "✔ 1 contract checked"
+const SUMMARY_RE = /^\s*\S?\s*\d+\s+(errors?|warnings?|contracts?)\s+(detected|checked)/i;
+
+/**
+ * Parse the diagnostics printed by `clarinet check`.
+ * Handles both the clarity-repl `file:line:col: level: message` layout and the
+ * rustc-like `level: message` / `--> file:line:col` layout; `note:` entries are
+ * attached to the diagnostic they follow. Files are named by their path relative to `root`, the project
+ * directory clarinet ran in, or else by their file name.
+ */
+export function parseClarinetOutput(output: string, root?: string): ClarinetDiagnostics {
+  const fileOf = (file: string) => root ? path.relative(root, path.resolve(root, file)).split(path.sep).join('/') : path.basename(file);
+  const raw: RawDiagnostic[] = [];
+  let current: RawDiagnostic | undefined;
+
+  for (const rawLine of output.replace(ANSI_RE, '').split('\n')) {
+    const line = rawLine.replace(/\r$/, '');
+    if (!line.trim() || SUMMARY_RE.test(line)) continue;
+
+    const located = LOCATED_HEADER_RE.exec(line.trim());
+    if (located) {
+      const [, file, lineNo, col, level, message] = located;
+      current = {
+        level: level as Level,
+        message: message.trim(),
+        file: fileOf(file),
+        line: Number(lineNo),
+        column: Number(col),
+      };
+      raw.push(current);
+      continue;
+    }
+
+    const header = HEADER_RE.exec(line.trim());
+    if (header) {
+      current = { level: header[1] as Level, message: header[2].trim() };
+      raw.push(current);
+      continue;
+    }
+
+    if (!current) continue;
+
+    const location = LOCATION_RE.exec(line);
+    if (location && current.line === undefined) {
+      current.file = fileOf(location[1]);
+      current.line = Number(location[2]);
+      current.column = Number(location[3]);
+      continue;
+    }
+
+    // The first pointer under the excerpt gives the range of a single-line span
+    const pointer = POINTER_RE.exec(line);
+    if (pointer && current.line !== undefined && current.column !== undefined && current.endColumn === undefined) {
+      current.endLine = current.line;
+      current.endColumn = current.column + 1 + pointer[2].length;
+    }
+  }
+
+  const errors: ClarityError[] = [];
+  const warnings: ClarityError[] = [];
+  let parent: ClarityError | undefined;
+
+  for (const d of raw) {
+    if (d.level === 'note') {
+      const note: ClarityNote = { message: d.message, file: d.file, line: d.line, column: d.column };
+      if (parent) {
+        parent.notes = [...(parent.notes ?? []), note];
+      }
+      continue;
+    }
+    parent = {
+      line: d.line,
+      column: d.column,
+      endLine: d.endLine,
+      endColumn: d.endColumn,
+      file: d.file,
+      severity: d.level,
+      message: d.message,
+    };
+    (d.level === 'error' ? errors : warnings).push(parent);
+  }
+
+  return { errors, warnings };
+}
@@ -0,0 +1,82 @@
+import { CLARITY_VERSION_EPOCHS, ClarityVersion } from './builtins';
+import { DEVNET_DEPLOYER } from './manifest';
+
+/** A contract to publish, as Clarinet.toml declares it */
+export interface PlanContract {
+  name: string;
+  path: string;
+  code: string;
+  clarityVersion: ClarityVersion;
+  // Defaults to the epoch the Clarity version was introduced in
+  epoch?: string;
+}
+
+// Where Clarinet looks for the plan `clarinet check`, `clarinet console` and `clarinet test` deploy with
+export const SIMNET_PLAN_PATH = 'deployments/default.simnet-plan.yaml';
+
+/** Names of the contracts a contract refers to as `.name`, so they can be deployed first */
+export function contractReferences(code: string): string[] {
+  const withoutComments = code.replace(/;;.*$/gm, '');
+  return [...withoutComments.matchAll(/(?:^|[\s('])\.([a-zA-Z][\w-]*)/g)].map(match => match[1]);
+}
+
+/**
+ * `contracts` in an order they can be deployed in: each after the contracts it refers to, otherwise
+ * in the order given
+ */
+export function dependencyOrder<T>(contracts: T[], nameOf: (contract: T) => string, codeOf: (contract: T) => string): T[] {
+  const byName = new Map(contracts.map(contract => [nameOf(contract), contract]));
+  const ordered: T[] = [];
+  const visited = new Set<string>();
+  const visit = (name: string) => {
+    const contract = byName.get(name);
+    // Cycles cannot be deployed in any order; the second contract simply fails at its call
+    if (contract === undefined || visited.has(name)) return;
+    visited.add(name);
+    contractReferences(codeOf(contract)).forEach(visit);
+    ordered.push(contract);
+  };
+  byName.forEach((_, name) => visit(name));
+  return ordered;
+}
+
+/**
+ * Clarinet's default simnet deployment plan for `contracts`, published by the devnet deployer in dependency
+ * order. Consecutive contracts of the same epoch share a batch.
+ */
+export function createSimnetPlan(contracts: PlanContract[]): string {
+  const batches: Array<{ epoch: string; contracts: PlanContract[] }> = [];
+  for (const contract of dependencyOrder(contracts, c => c.name, c => c.code)) {
+    const epoch = contract.epoch ?? CLARITY_VERSION_EPOCHS[contract.clarityVersion];
+    const last = batches[batches.length - 1];
+    if (last?.epoch === epoch) {
+      last.contracts.push(contract);
+    } else {
+      batches.push({ epoch, contracts: [contract] });
+    }
+  }
+
+  const lines = [
+    '---',
+    'id: 0',
+    'name: Simulated deployment, used as a default for `clarinet console`, `clarinet test` and `clarinet check`',
+    'network: simnet',
+    'plan:',
+    '  batches:',
+  ];
+  batches.forEach((batch, id) => {
+    lines.push(`    - id: ${id}`, '      transactions:');
+    for (const contract of batch.contracts) {
+      lines.push(
+        '        - emulated-contract-publish:',
+        `            contract-name: ${contract.name}`,
+        `            emulated-sender: ${DEVNET_DEPLOYER}`,
+        `            path: ${contract.path}`,
+        `            clarity-version: ${contract.clarityVersion}`,
+      );
+    }
+    lines.push(`      epoch: "${batch.epoch}"`);
+  });
+  if (batches.length === 0) lines[lines.length - 1] = '  batches: []';
+  return `${lines.join('\n')}\n`;
+}
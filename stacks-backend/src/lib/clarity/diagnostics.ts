@@ -0,0 +1,51 @@
+import type { SourceSpan } from './ast';
+
+export type Severity = 'error' | 'warning';
+
+/** Extra context attached to a diagnostic, e.g. clarinet's "note: source of untrusted input here" */
+export interface ClarityNote {
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+/** A positioned error or warning. Lines and columns are 1-based; `endColumn` is exclusive. */
+export interface ClarityError {
+  line?: number;
+  column?: number;
+  endLine?: number;
+  endColumn?: number;
+  file?: string;
+  severity?: Severity;
+  message: string;
+  notes?: ClarityNote[];
+}
+
+export interface ValidateResponse {
+  success: boolean;
+  errors: ClarityError[];
+  warnings: ClarityError[];
+}
+
+/** A problem found while reading or checking a contract, located by span */
+export interface Diagnostic {
+  message: string;
+  span?: SourceSpan;
+}
+
+export function diagnostic(message: string, span?: SourceSpan): Diagnostic {
+  return { message, span };
+}
+
+export function toClarityError(d: Diagnostic, severity: Severity = 'error'): ClarityError {
+  if (!d.span) return { severity, message: d.message };
+  return {
+    line: d.span.start.line,
+    column: d.span.start.column,
+    endLine: d.span.end.line,
+    endColumn: d.span.end.column,
+    severity,
+    message: d.message,
+  };
+}
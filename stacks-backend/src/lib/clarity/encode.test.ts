@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ArgumentError, AbiType, encodeArguments, parseAbiType } from './encode';
+
+const DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+describe('parseAbiType', () => {
+  it('reads ABI JSON and type signatures', () => {
+    expect(parseAbiType('uint128')).toEqual({ kind: 'uint' });
+    expect(parseAbiType({ buffer: { length: 32 } })).toEqual({ kind: 'buff', length: 32 });
+    expect(parseAbiType({ list: { type: 'int128', length: 5 } })).toEqual({ kind: 'list', maxLength: 5, element: { kind: 'int' } });
+    expect(parseAbiType({ response: { ok: 'bool', error: 'uint128' } }))
+      .toEqual({ kind: 'response', ok: { kind: 'bool' }, err: { kind: 'uint' } });
+    expect(parseAbiType({ tuple: [{ name: 'id', type: 'uint128' }] }))
+      .toEqual({ kind: 'tuple', fields: [{ name: 'id', type: { kind: 'uint' } }] });
+  });
+
+  it.each([
+    [{}],
+    [null],
+    [[]],
+    [{ buffer: {}, list: {} }],
+    [{ buffer: {} }],
+    [{ list: { length: 5 } }],
+    [{ optional: null }],
+    [{ response: { ok: 'bool' } }],
+    [{ tuple: { name: 'id', type: 'uint128' } }],
+    [{ tuple: [{ type: 'uint128' }] }],
+    [{ tuple: [null] }],
+    [{ unknown: 'uint128' }],
+  ])('rejects %j with an ArgumentError naming it', (type) => {
+    const parse = () => parseAbiType(type as AbiType);
+    expect(parse).toThrow(ArgumentError);
+    expect(parse).toThrow(`Invalid ABI type: ${JSON.stringify(type)}`);
+  });
+
+  it('names the nested type that is malformed', () => {
+    expect(() => parseAbiType({ list: { type: {}, length: 5 } })).toThrow('Invalid ABI type: {}');
+  });
+});
+
+describe('encodeArguments', () => {
+  it('rejects a malformed type as input, not a crash', () => {
+    expect(() => encodeArguments([{ value: 'u1', type: {} }], DEPLOYER)).toThrow(ArgumentError);
+    expect(() => encodeArguments([{ value: 'u1', type: null }], DEPLOYER)).toThrow(ArgumentError);
+    expect(() => encodeArguments([{ value: 'u1', type: { kind: 'list' } }], DEPLOYER)).toThrow(ArgumentError);
+  });
+});
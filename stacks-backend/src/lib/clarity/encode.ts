@@ -0,0 +1,278 @@
+import { ClarityValue as CV, deserializeCV, serializeCV } from '@stacks/transactions';
+import { ClarityValue, V, toStacksCV, utf8Length } from '../simnet/values';
+import type { AtomNode, ClarityNode, ListNode, PrincipalNode } from './ast';
+import type { Diagnostic } from './diagnostics';
+import { parseClarity } from './parser';
+import { ClarityType, parseTypeSignature, typeToString } from './types';
+
+/**
+ * A function argument type as it appears in contract interfaces: either the Stacks node's
+ * ABI JSON (`"uint128"`, `{ "buffer": { "length": 32 } }`, ...) or a Clarity type signature
+ * such as `(list 10 { id: uint, owner: principal })`.
+ */
+export type AbiType = string | { [key: string]: unknown };
+
+export interface TypedArgument {
+  value: string;
+  type: AbiType;
+}
+
+/** User input that cannot be encoded as the expected type */
+export class ArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArgumentError';
+  }
+}
+
+const ABI_NAMES: Record<string, ClarityType> = {
+  uint128: { kind: 'uint' },
+  int128: { kind: 'int' },
+  bool: { kind: 'bool' },
+  principal: { kind: 'principal' },
+  trait_reference: { kind: 'trait', name: 'trait' },
+  trait: { kind: 'trait', name: 'trait' },
+  none: { kind: 'no-type' },
+};
+
+function isAbiType(value: unknown): value is AbiType {
+  return typeof value === 'string' || (typeof value === 'object' && value !== null);
+}
+
+/** Read an ABI JSON type or a type signature into a ClarityType */
+export function parseAbiType(type: AbiType): ClarityType {
+  if (typeof type === 'string') {
+    const known = ABI_NAMES[type.trim()];
+    if (known) return known;
+    // Interfaces name integers by width, also inside signatures such as `(list 5 uint128)`
+    const parsed = parseClarity(type.replace(/\buint128\b/g, 'uint').replace(/\bint128\b/g, 'int'));
+    const errors: Diagnostic[] = [];
+    const signature = parsed.errors.length === 0 && parsed.nodes.length === 1
+      ? parseTypeSignature(parsed.nodes[0], errors)
+      : undefined;
+    if (!signature) throw new ArgumentError(`Invalid type signature: ${type}`);
+    return signature;
+  }
+
+  const invalid = () => new ArgumentError(`Invalid ABI type: ${JSON.stringify(type)}`);
+  if (!isAbiType(type) || Array.isArray(type)) throw invalid();
+  const entries = Object.entries(type);
+  if (entries.length !== 1) throw invalid();
+  const [[key, value]] = entries;
+  // A type nested in `container`; a missing one is reported against the whole type
+  const nested = (container: unknown, field: string): AbiType => {
+    const found = (container as Record<string, unknown> | null)?.[field];
+    if (!isAbiType(found)) throw invalid();
+    return found;
+  };
+  const length = (): number => {
+    const found = (value as { length?: unknown } | null)?.length;
+    if (typeof found !== 'number') throw invalid();
+    return found;
+  };
+
+  switch (key) {
+    case 'buffer': return { kind: 'buff', length: length() };
+    case 'string-ascii': return { kind: 'string-ascii', length: length() };
+    case 'string-utf8': return { kind: 'string-utf8', length: length() };
+    case 'list': return { kind: 'list', maxLength: length(), element: parseAbiType(nested(value, 'type')) };
+    case 'optional':
+      if (!isAbiType(value)) throw invalid();
+      return { kind: 'optional', inner: parseAbiType(value) };
+    case 'response': return { kind: 'response', ok: parseAbiType(nested(value, 'ok')), err: parseAbiType(nested(value, 'error')) };
+    case 'tuple':
+      if (!Array.isArray(value)) throw invalid();
+      return {
+        kind: 'tuple',
+        fields: value.map(field => {
+          if (typeof field?.name !== 'string') throw invalid();
+          return { name: field.name as string, type: parseAbiType(nested(field, 'type')) };
+        }),
+      };
+    case 'trait_reference': return { kind: 'trait', name: 'trait' };
+  }
+  throw invalid();
+}
+
+function sourceOf(node: ClarityNode, source: string): string {
+  return source.slice(node.span.start.offset, node.span.end.offset);
+}
+
+/**
+ * Build a value of `type` from a parsed literal. Integer literals adapt to the expected
+ * signedness, so `5` is accepted where a uint is expected, even inside lists and tuples.
+ */
+function fromNode(node: ClarityNode, type: ClarityType, source: string, defaultAddress: string): ClarityValue {
+  const mismatch = () => new ArgumentError(`Expected ${typeToString(type)}, got ${sourceOf(node, source)}`);
+  const head = node.kind === 'list' && node.items[0]?.kind === 'atom' ? node.items[0].name : undefined;
+  const args = node.kind === 'list' ? node.items.slice(1) : [];
+  const principal = (p: PrincipalNode) => {
+    const address = p.address ?? defaultAddress;
+    return V.principal(p.contractName ? `${address}.${p.contractName}` : address);
+  };
+
+  switch (type.kind) {
+    case 'uint':
+    case 'int': {
+      if (node.kind !== 'int' && node.kind !== 'uint') throw mismatch();
+      if (node.kind === 'uint' && type.kind === 'int') throw mismatch();
+      if (type.kind === 'uint' && node.value < 0n) throw new ArgumentError(`Expected uint, got negative ${node.value}`);
+      if (type.kind === 'int' && node.value >= 1n << 127n) throw new ArgumentError(`${node.value} does not fit in an int`);
+      return type.kind === 'uint' ? V.uint(node.value) : V.int(node.value);
+    }
+    case 'bool':
+      if (node.kind === 'atom' && (node.name === 'true' || node.name === 'false')) return V.bool(node.name === 'true');
+      throw mismatch();
+    case 'principal':
+      if (node.kind !== 'principal' || node.traitName) throw mismatch();
+      return principal(node);
+    case 'trait':
+      if (node.kind !== 'principal' || !node.contractName || node.traitName) {
+        throw new ArgumentError(`Expected a contract principal, got ${sourceOf(node, source)}`);
+      }
+      return principal(node);
+    case 'buff':
+      if (node.kind !== 'buffer') throw mismatch();
+      if (node.hex.length / 2 > type.length) {
+        throw new ArgumentError(`Buffer is ${node.hex.length / 2} bytes, longer than ${typeToString(type)}`);
+      }
+      return V.buff(Uint8Array.from(Buffer.from(node.hex, 'hex')));
+    case 'string-ascii':
+    case 'string-utf8': {
+      if (node.kind !== 'string' || (type.kind === 'string-ascii' && node.encoding !== 'ascii')) throw mismatch();
+      return stringValue(node.value, type);
+    }
+    case 'list': {
+      if (head !== 'list') throw mismatch();
+      if (args.length > type.maxLength) {
+        throw new ArgumentError(`List has ${args.length} items, more than ${typeToString(type)} allows`);
+      }
+      return V.list(args.map(arg => fromNode(arg, type.element, source, defaultAddress)));
+    }
+    case 'optional':
+      if (node.kind === 'atom' && node.name === 'none') return V.none;
+      if (head === 'some' && args.length === 1) return V.some(fromNode(args[0], type.inner, source, defaultAddress));
+      throw mismatch();
+    case 'response':
+      if ((head === 'ok' || head === 'err') && args.length === 1) {
+        const inner = fromNode(args[0], head === 'ok' ? type.ok : type.err, source, defaultAddress);
+        return head === 'ok' ? V.ok(inner) : V.err(inner);
+      }
+      throw mismatch();
+    case 'tuple': {
+      let entries: Array<[string, ClarityNode]>;
+      if (node.kind === 'tuple') {
+        entries = node.entries.map(entry => [entry.key, entry.value]);
+      } else if (head === 'tuple' && args.every(arg => arg.kind === 'list' && arg.items.length === 2 && arg.items[0].kind === 'atom')) {
+        entries = args.map(arg => {
+          const [key, value] = (arg as ListNode).items;
+          return [(key as AtomNode).name, value];
+        });
+      } else {
+        throw mismatch();
+      }
+      const given = new Map(entries);
+      const missing = type.fields.filter(field => !given.has(field.name)).map(field => field.name);
+      if (missing.length > 0) throw new ArgumentError(`Tuple is missing ${missing.join(', ')}`);
+      const extra = [...given.keys()].filter(name => !type.fields.some(field => field.name === name));
+      if (extra.length > 0) throw new ArgumentError(`Tuple has unexpected field ${extra.join(', ')}`);
+      return V.tuple(type.fields.map(field => {
+        try {
+          return [field.name, fromNode(given.get(field.name)!, field.type, source, defaultAddress)];
+        } catch (err) {
+          throw err instanceof ArgumentError ? new ArgumentError(`${field.name}: ${err.message}`) : err;
+        }
+      }));
+    }
+    case 'no-type':
+    case 'unknown':
+      throw new ArgumentError(`Cannot build a value of type ${typeToString(type)}`);
+  }
+}
+
+function stringValue(value: string, type: { kind: 'string-ascii' | 'string-utf8'; length: number }): ClarityValue {
+  if (type.kind === 'string-ascii') {
+    if (!/^[\x20-\x7e\t\n\r]*$/.test(value)) throw new ArgumentError('string-ascii values can only contain printable ASCII');
+    if (value.length > type.length) throw new ArgumentError(`String is ${value.length} characters, longer than ${typeToString(type)}`);
+    return V.ascii(value);
+  }
+  if (utf8Length(value) > type.length) {
+    throw new ArgumentError(`String is ${utf8Length(value)} characters, longer than ${typeToString(type)}`);
+  }
+  return V.utf8(value);
+}
+
+function parseLiteral(input: string, type: ClarityType, defaultAddress: string): ClarityValue {
+  const parsed = parseClarity(input);
+  if (parsed.errors.length > 0) throw new ArgumentError(parsed.errors[0].message);
+  if (parsed.nodes.length !== 1) throw new ArgumentError(`Expected a single ${typeToString(type)} value`);
+  return fromNode(parsed.nodes[0], type, input, defaultAddress);
+}
+
+/**
+ * Encode what a user typed for an argument of `type`. The top level is forgiving about
+ * quoting: `ST1...` for a principal, `hello` for a string, `5` for a uint, `ab01` for a
+ * buffer and an empty input for none. Nested values use Clarity syntax, e.g.
+ * `{ amount: u5, memo: (some 0x01) }`. `.contract` principals resolve against `defaultAddress`.
+ */
+export function encodeValue(input: string, type: AbiType | ClarityType, defaultAddress: string): ClarityValue {
+  const expected = typeof type === 'object' && type !== null && 'kind' in type ? type as ClarityType : parseAbiType(type as AbiType);
+  const trimmed = input.trim();
+
+  switch (expected.kind) {
+    case 'string-ascii':
+      return trimmed.startsWith('"') ? parseLiteral(trimmed, expected, defaultAddress) : stringValue(input, expected);
+    case 'string-utf8':
+      return /^u?"/.test(trimmed) ? parseLiteral(trimmed, expected, defaultAddress) : stringValue(input, expected);
+    case 'principal':
+    case 'trait':
+      return parseLiteral(/^['.]/.test(trimmed) ? trimmed : `'${trimmed}`, expected, defaultAddress);
+    case 'buff':
+      return parseLiteral(trimmed.startsWith('0x') ? trimmed : `0x${trimmed}`, expected, defaultAddress);
+    case 'optional':
+      if (trimmed === '' || trimmed === 'none') return V.none;
+      if (/^\(\s*some\b/.test(trimmed)) return parseLiteral(trimmed, expected, defaultAddress);
+      return V.some(encodeValue(input, expected.inner, defaultAddress));
+    default:
+      return parseLiteral(trimmed, expected, defaultAddress);
+  }
+}
+
+/** encodeValue for contract calls: a @stacks/transactions CV */
+export function encodeArgument(arg: TypedArgument, defaultAddress: string): CV {
+  // Always an ABI type from the request, never taken for an already-parsed ClarityType
+  return toStacksCV(encodeValue(arg.value, parseAbiType(arg.type), defaultAddress));
+}
+
+/**
+ * Encode a call's arguments, naming the argument in any error. Plain strings are taken to be
+ * already-serialized hex CVs, as the Stacks node's call-read endpoint expects.
+ */
+export function encodeArguments(args: unknown, defaultAddress: string): CV[] {
+  if (!Array.isArray(args)) throw new ArgumentError('args must be an array');
+  return args.map((arg, i) => {
+    if (typeof arg === 'string') {
+      try {
+        return deserializeCV(arg.startsWith('0x') ? arg.slice(2) : arg);
+      } catch {
+        throw new ArgumentError(`Argument ${i + 1} is not a hex-serialized Clarity value; send { value, type } instead`);
+      }
+    }
+    const typed = arg as TypedArgument;
+    if (typeof typed?.value !== 'string' || typed.type === undefined) {
+      throw new ArgumentError(`Argument ${i + 1} must be { value, type }`);
+    }
+    try {
+      return encodeArgument(typed, defaultAddress);
+    } catch (err) {
+      if (!(err instanceof ArgumentError)) throw err;
+      const name = (arg as { name?: string }).name;
+      throw new ArgumentError(`Argument ${name ? `'${name}'` : i + 1}: ${err.message}`);
+    }
+  });
+}
+
+/** Hex of a CV's consensus serialization, the form the Stacks node API takes */
+export function cvToHexArgument(cv: CV): string {
+  return `0x${Buffer.from(serializeCV(cv)).toString('hex')}`;
+}
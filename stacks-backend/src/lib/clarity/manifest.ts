@@ -0,0 +1,205 @@
+import { CLARITY_VERSION_EPOCHS, ClarityVersion, parseClarityVersion } from './builtins';
+
+/** A `[contracts.<name>]` entry of a Clarinet.toml */
+export interface ManifestContract {
+  name: string;
+  path: string;
+  clarityVersion: ClarityVersion;
+}
+
+/** What a Clarinet.toml says about the project and its contracts; keys it leaves out are undefined */
+export interface ParsedManifest {
+  name?: string;
+  description?: string;
+  contracts: Array<{ name: string; path?: string; clarityVersion?: ClarityVersion; epoch?: string }>;
+  // Contract ids of the deployed contracts the project requires
+  requirements: string[];
+}
+
+// clarinet needs a deployer account to plan the (simnet) deployments it checks. This is Clarinet's
+// well-known devnet mnemonic, which only ever holds devnet funds.
+export const DEVNET_SETTINGS = [
+  '[network]',
+  'name = "devnet"',
+  '',
+  '[accounts.deployer]',
+  'mnemonic = "twice kind fence tip hidden tilt action fragile skin nothing glory cousin green tomorrow spring wrist shed math olympic multiply hip blue scout claw"',
+  'balance = 100_000_000_000_000',
+  '',
+].join('\n');
+
+// The address of DEVNET_SETTINGS' deployer (m/44'/5757'/0'/0/0)
+export const DEVNET_DEPLOYER = 'ST1PQHQKV0RJXZFY1DGX8MNSNYVE3VGZJSRTPGZGM';
+
+function contractSection(contract: ManifestContract): string[] {
+  return [
+    `[contracts.${contract.name}]`,
+    `path = "${contract.path}"`,
+    `clarity_version = ${contract.clarityVersion}`,
+    `epoch = ${CLARITY_VERSION_EPOCHS[contract.clarityVersion]}`,
+  ];
+}
+
+/** A Clarinet.toml for a project named `projectName` */
+export function createManifest(projectName: string, contracts: ManifestContract[]): string {
+  return [
+    '[project]',
+    `name = ${JSON.stringify(projectName)}`,
+    'requirements = []',
+    '',
+    ...contracts.flatMap(contract => [...contractSection(contract), '']),
+  ].join('\n');
+}
+
+// The lines of a table, from its header up to the next table header
+function findSection(lines: string[], headers: string[]): { start: number; end: number } | undefined {
+  const start = lines.findIndex(line => headers.includes(line.trim()));
+  if (start === -1) return undefined;
+  let end = start + 1;
+  while (end < lines.length && !lines[end].trim().startsWith('[')) end++;
+  return { start, end };
+}
+
+/** Remove a contract's section from a Clarinet.toml, leaving the rest of the file as it was */
+export function removeManifestContract(manifest: string, name: string): string {
+  const lines = manifest.split('\n');
+  const section = findSection(lines, [`[contracts.${name}]`, `[contracts."${name}"]`]);
+  if (!section) return manifest;
+  lines.splice(section.start, section.end - section.start);
+  return lines.join('\n');
+}
+
+/** Add a contract's section to a Clarinet.toml, replacing the one it already has */
+export function setManifestContract(manifest: string, contract: ManifestContract): string {
+  const lines = removeManifestContract(manifest, contract.name).split('\n');
+  while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+  return [...lines, '', ...contractSection(contract), ''].join('\n');
+}
+
+/** Set a string key of a Clarinet.toml's [project] table, adding the table if it has none */
+export function setManifestProjectKey(manifest: string, key: 'name' | 'description', value: string): string {
+  const lines = manifest.split('\n');
+  const keyLine = `${key} = ${JSON.stringify(value)}`;
+  const section = findSection(lines, ['[project]']);
+  if (!section) return ['[project]', keyLine, '', manifest].join('\n');
+
+  const keyPattern = new RegExp(`^\\s*${key}\\s*=`);
+  const index = lines.slice(section.start + 1, section.end).findIndex(line => keyPattern.test(line));
+  if (index === -1) {
+    // After the table's last key
+    let at = section.end;
+    while (at > section.start + 1 && lines[at - 1].trim() === '') at--;
+    lines.splice(at, 0, keyLine);
+  } else {
+    lines[section.start + 1 + index] = keyLine;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Set the deployed contracts a Clarinet.toml requires, as an inline `requirements` array of its [project] table.
+ * Any `[[project.requirements]]` tables are folded into it.
+ */
+export function setManifestRequirements(manifest: string, contractIds: string[]): string {
+  let lines = manifest.split('\n');
+  for (let table = findSection(lines, ['[[project.requirements]]']); table; table = findSection(lines, ['[[project.requirements]]'])) {
+    lines.splice(table.start, table.end - table.start);
+  }
+  const value = `requirements = [${contractIds.map(id => `{ contract_id = ${JSON.stringify(id)} }`).join(', ')}]`;
+
+  const section = findSection(lines, ['[project]']);
+  if (!section) return ['[project]', value, '', ...lines].join('\n');
+  const index = lines.slice(section.start + 1, section.end).findIndex(line => /^\s*requirements\s*=/.test(line));
+  if (index === -1) {
+    let at = section.end;
+    while (at > section.start + 1 && lines[at - 1].trim() === '') at--;
+    lines.splice(at, 0, value);
+  } else {
+    // An inline array may span several lines
+    const start = section.start + 1 + index;
+    let end = start;
+    while (end < section.end - 1 && bracketDepth(lines.slice(start, end + 1).join('\n')) > 0) end++;
+    lines = [...lines.slice(0, start), value, ...lines.slice(end + 1)];
+  }
+  return lines.join('\n');
+}
+
+function bracketDepth(text: string): number {
+  return (text.match(/\[/g) ?? []).length - (text.match(/\]/g) ?? []).length;
+}
+
+/** A contract's path relative to the project root, as the project's files are keyed */
+export function manifestContractPath(contract: { path?: string }): string | undefined {
+  return contract.path?.replace(/^\.\//, '');
+}
+
+function contractIds(requirements: string): string[] {
+  return [...requirements.matchAll(/contract_id\s*=\s*("(?:[^"\\]|\\.)*"|'[^']*')/g)]
+    .map(match => tomlString(match[1]))
+    .filter((id): id is string => id !== undefined);
+}
+
+// A string value at the start of `value`: basic ("...") or literal ('...')
+function tomlString(value: string): string | undefined {
+  const basic = value.match(/^"((?:[^"\\]|\\.)*)"/);
+  if (basic) {
+    try {
+      return JSON.parse(`"${basic[1]}"`);
+    } catch {
+      return basic[1];
+    }
+  }
+  return value.match(/^'([^']*)'/)?.[1];
+}
+
+/**
+ * Read the [project] name, description and requirements and each [contracts.<name>] table of a Clarinet.toml.
+ * Only single-line keys are understood, which is all these tables use, besides inline requirement arrays.
+ */
+export function parseManifest(manifest: string): ParsedManifest {
+  const parsed: ParsedManifest = { contracts: [], requirements: [] };
+  let table: string | undefined;
+  let contract: ParsedManifest['contracts'][number] | undefined;
+  // The rest of an inline requirements array, until its closing bracket
+  let requirements: string | undefined;
+
+  for (const raw of manifest.split('\n')) {
+    const line = raw.trim();
+    if (requirements !== undefined) {
+      requirements += ` ${line}`;
+      if (bracketDepth(requirements) <= 0) {
+        parsed.requirements.push(...contractIds(requirements));
+        requirements = undefined;
+      }
+      continue;
+    }
+    if (!line || line.startsWith('#')) continue;
+
+    const header = line.match(/^\[([^\]]+)\]/);
+    if (header) {
+      table = header[1].trim().replace(/^\[|\]$/g, '');
+      const contractName = table.match(/^contracts\.(?:"([^"]+)"|([\w-]+))$/);
+      contract = contractName ? { name: contractName[1] ?? contractName[2] } : undefined;
+      if (contract) parsed.contracts.push(contract);
+      continue;
+    }
+
+    const entry = line.match(/^([\w-]+)\s*=\s*(.+)$/);
+    if (!entry) continue;
+    const [, key, value] = entry;
+    if (table === 'project' && key === 'name') parsed.name = tomlString(value);
+    if (table === 'project' && key === 'description') parsed.description = tomlString(value);
+    if (table === 'project' && key === 'requirements') {
+      if (bracketDepth(value) > 0) requirements = value;
+      else parsed.requirements.push(...contractIds(value));
+    }
+    if (table === 'project.requirements' && key === 'contract_id') {
+      const id = tomlString(value);
+      if (id) parsed.requirements.push(id);
+    }
+    if (contract && key === 'path') contract.path = tomlString(value);
+    if (contract && key === 'clarity_version') contract.clarityVersion = parseClarityVersion(value.match(/^\d+/)?.[0]);
+    if (contract && key === 'epoch') contract.epoch = tomlString(value) ?? value.match(/^[\d.]+/)?.[0];
+  }
+  return parsed;
+}
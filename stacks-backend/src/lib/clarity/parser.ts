@@ -0,0 +1,418 @@
+import { validateStacksAddress } from '@stacks/transactions';
+import type {
+  ClarityNode,
+  ListNode,
+  SourcePosition,
+  SourceSpan,
+  TupleEntry,
+  TupleNode,
+} from './ast';
+import { Diagnostic, diagnostic } from './diagnostics';
+
+export interface ParseResult {
+  nodes: ClarityNode[];
+  errors: Diagnostic[];
+}
+
+const MAX_INT = (1n << 127n) - 1n;
+const MIN_INT = -(1n << 127n);
+const MAX_UINT = (1n << 128n) - 1n;
+
+const IDENTIFIER_RE = /^[a-zA-Z]([a-zA-Z0-9]|[-_!?+<>=/*])*$|^[-+=/*]$|^[<>]=?$/;
+const CONTRACT_NAME_RE = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+const MAX_IDENTIFIER_LENGTH = 128;
+
+// Characters that end an atom or literal token
+const DELIMITERS = new Set([' ', '\t', '\r', '\n', '(', ')', '{', '}', ',', ';', ':', '"']);
+
+/**
+ * Read Clarity source into an AST.
+ * The reader never throws: problems are collected in `errors` and parsing
+ * resumes at the next token so a single run reports as much as possible.
+ */
+export function parseClarity(source: string): ParseResult {
+  const reader = new Reader(source);
+  return reader.readProgram();
+}
+
+export function isValidIdentifier(name: string): boolean {
+  return name.length <= MAX_IDENTIFIER_LENGTH && IDENTIFIER_RE.test(name);
+}
+
+export function isValidContractName(name: string): boolean {
+  return name.length <= MAX_IDENTIFIER_LENGTH && CONTRACT_NAME_RE.test(name);
+}
+
+class Reader {
+  private offset = 0;
+  private line = 1;
+  private column = 1;
+  private readonly errors: Diagnostic[] = [];
+
+  constructor(private readonly source: string) {}
+
+  readProgram(): ParseResult {
+    const nodes: ClarityNode[] = [];
+    for (;;) {
+      this.skipTrivia();
+      if (this.atEnd()) break;
+      const ch = this.peek();
+      if (ch === ')' || ch === '}') {
+        const start = this.position();
+        this.advance();
+        this.error(`Unexpected closing '${ch}'`, start);
+        continue;
+      }
+      if (ch === ',') {
+        const start = this.position();
+        this.advance();
+        this.error("Unexpected ',' outside of a tuple", start);
+        continue;
+      }
+      const node = this.readExpression();
+      if (node) nodes.push(node);
+    }
+    return { nodes, errors: this.errors };
+  }
+
+  // ---- expressions ----
+
+  private readExpression(): ClarityNode | undefined {
+    const ch = this.peek();
+    const next = this.peek(1);
+
+    if (ch === '(') return this.readList();
+    if (ch === '{') return this.readTuple();
+    if (ch === '"') return this.readString('ascii');
+    if (ch === 'u' && next === '"') return this.readString('utf8');
+    if (ch === "'") return this.readPrincipal();
+    if (ch === '.' && isLetter(next)) return this.readPrincipal();
+    if (ch === '<' && isLetter(next)) return this.readTraitReference();
+
+    const start = this.position();
+    const text = this.readToken();
+    if (!text) {
+      // A lone delimiter we cannot start an expression with (e.g. ':')
+      this.advance();
+      this.error(`Unexpected character '${ch}'`, start);
+      return undefined;
+    }
+    return this.classifyToken(text, this.spanFrom(start));
+  }
+
+  private readList(): ListNode {
+    const start = this.position();
+    this.advance(); // (
+    const items: ClarityNode[] = [];
+    for (;;) {
+      this.skipTrivia();
+      if (this.atEnd()) {
+        this.error("Unclosed '(' — missing closing parenthesis", start, this.position());
+        break;
+      }
+      const ch = this.peek();
+      if (ch === ')') {
+        this.advance();
+        break;
+      }
+      if (ch === '}') {
+        const at = this.position();
+        this.advance();
+        this.error("Unexpected '}' inside a list", at);
+        continue;
+      }
+      if (ch === ',') {
+        const at = this.position();
+        this.advance();
+        this.error("Unexpected ',' inside a list — commas are only allowed between tuple entries", at);
+        continue;
+      }
+      const item = this.readExpression();
+      if (item) items.push(item);
+    }
+    return { kind: 'list', items, span: this.spanFrom(start) };
+  }
+
+  private readTuple(): TupleNode {
+    const start = this.position();
+    this.advance(); // {
+    const entries: TupleEntry[] = [];
+    for (;;) {
+      this.skipTrivia(true);
+      if (this.atEnd()) {
+        this.error("Unclosed '{' — missing closing brace", start, this.position());
+        break;
+      }
+      if (this.peek() === '}') {
+        this.advance();
+        break;
+      }
+      if (this.peek() === ')') {
+        // Leave the ')' for the enclosing list so its structure survives
+        this.error("Unclosed '{' — expected '}' before ')'", start, this.position());
+        break;
+      }
+
+      const keyStart = this.position();
+      const key = this.readToken();
+      const keySpan = this.spanFrom(keyStart);
+      if (!key) {
+        const ch = this.peek();
+        this.advance();
+        this.error(`Unexpected '${ch}' in tuple — expected a field name`, keyStart);
+        continue;
+      }
+      if (!isValidIdentifier(key)) {
+        this.error(`Invalid tuple field name '${key}'`, keyStart, keySpan.end);
+      }
+
+      this.skipTrivia();
+      if (this.peek() !== ':') {
+        this.error(`Expected ':' after tuple field '${key}'`, this.position());
+      } else {
+        this.advance();
+      }
+
+      this.skipTrivia();
+      if (this.atEnd() || this.peek() === '}' || this.peek() === ',') {
+        this.error(`Missing value for tuple field '${key}'`, keyStart, keySpan.end);
+        continue;
+      }
+      const value = this.readExpression();
+      if (!value) continue;
+      if (entries.some(e => e.key === key)) {
+        this.error(`Duplicate tuple field '${key}'`, keyStart, keySpan.end);
+      }
+      entries.push({ key, keySpan, value });
+    }
+    return { kind: 'tuple', entries, span: this.spanFrom(start) };
+  }
+
+  private readString(encoding: 'ascii' | 'utf8'): ClarityNode {
+    const start = this.position();
+    if (encoding === 'utf8') this.advance(); // u
+    this.advance(); // opening quote
+
+    let value = '';
+    let terminated = false;
+    while (!this.atEnd()) {
+      const ch = this.peek()!;
+      if (ch === '"') {
+        this.advance();
+        terminated = true;
+        break;
+      }
+      if (ch === '\\') {
+        const escStart = this.position();
+        this.advance();
+        value += this.readEscape(encoding, escStart);
+        continue;
+      }
+      if (encoding === 'ascii' && !isAsciiPrintable(ch) && ch !== '\n' && ch !== '\t') {
+        this.error(
+          `Invalid character '${ch}' in string-ascii literal — use u"..." for UTF-8 strings`,
+          this.position()
+        );
+      }
+      value += ch;
+      this.advance();
+    }
+
+    if (!terminated) {
+      this.error('Unterminated string literal', start, this.position());
+    }
+    return { kind: 'string', encoding, value, span: this.spanFrom(start) };
+  }
+
+  private readEscape(encoding: 'ascii' | 'utf8', escStart: SourcePosition): string {
+    const ch = this.peek();
+    if (ch === undefined) return '';
+    switch (ch) {
+      case '"': this.advance(); return '"';
+      case '\\': this.advance(); return '\\';
+      case 'n': this.advance(); return '\n';
+      case 't': this.advance(); return '\t';
+      case 'r': this.advance(); return '\r';
+      case '0': this.advance(); return '\0';
+    }
+    if (ch === 'u' && encoding === 'utf8' && this.peek(1) === '{') {
+      this.advance();
+      this.advance();
+      let hex = '';
+      while (!this.atEnd() && this.peek() !== '}' && this.peek() !== '"') {
+        hex += this.peek();
+        this.advance();
+      }
+      if (this.peek() === '}') this.advance();
+      const code = /^[0-9a-fA-F]{1,6}$/.test(hex) ? parseInt(hex, 16) : NaN;
+      if (Number.isNaN(code) || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+        this.error(`Invalid unicode escape '\\u{${hex}}'`, escStart, this.position());
+        return '';
+      }
+      return String.fromCodePoint(code);
+    }
+    this.advance();
+    this.error(`Invalid escape sequence '\\${ch}'`, escStart, this.position());
+    return ch;
+  }
+
+  private readPrincipal(): ClarityNode {
+    const start = this.position();
+    const quoted = this.peek() === "'";
+    if (quoted) this.advance();
+    const text = this.readToken();
+    const span = this.spanFrom(start);
+    const parts = text.split('.');
+
+    let address: string | undefined;
+    if (quoted) {
+      address = parts.shift();
+      if (!address) {
+        this.error('Expected a principal after \'', start, span.end);
+      } else if (!validateStacksAddress(address)) {
+        this.error(`Invalid principal '${address}' — not a valid c32check Stacks address`, start, span.end);
+      }
+    } else {
+      parts.shift(); // leading '.' leaves an empty first segment
+    }
+
+    const [contractName, traitName, ...rest] = parts;
+    if (contractName !== undefined && !isValidContractName(contractName)) {
+      this.error(`Invalid contract name '${contractName}'`, start, span.end);
+    }
+    if (traitName !== undefined && !isValidIdentifier(traitName)) {
+      this.error(`Invalid trait name '${traitName}'`, start, span.end);
+    }
+    if (rest.length > 0) {
+      this.error(`Invalid principal literal '${text}'`, start, span.end);
+    }
+
+    return { kind: 'principal', address, contractName, traitName, span };
+  }
+
+  private readTraitReference(): ClarityNode {
+    const start = this.position();
+    this.advance(); // <
+    let name = '';
+    while (!this.atEnd() && this.peek() !== '>' && !DELIMITERS.has(this.peek()!)) {
+      name += this.peek();
+      this.advance();
+    }
+    if (this.peek() === '>') {
+      this.advance();
+    } else {
+      this.error(`Unterminated trait reference '<${name}' — expected '>'`, start, this.position());
+    }
+    if (name && !isValidIdentifier(name)) {
+      this.error(`Invalid trait name '${name}'`, start, this.position());
+    }
+    return { kind: 'trait-ref', name, span: this.spanFrom(start) };
+  }
+
+  /** Turn a bare token into a number, buffer or atom node, reporting malformed literals */
+  private classifyToken(text: string, span: SourceSpan): ClarityNode | undefined {
+    if (/^0x/i.test(text)) {
+      const hex = text.slice(2);
+      if (!/^[0-9a-fA-F]*$/.test(hex)) {
+        this.error(`Invalid buffer literal '${text}' — expected hexadecimal digits after 0x`, span.start, span.end);
+      } else if (hex.length % 2 !== 0) {
+        this.error(`Invalid buffer literal '${text}' — odd number of hex digits`, span.start, span.end);
+      }
+      return { kind: 'buffer', hex: hex.toLowerCase(), span };
+    }
+
+    if (/^u-?[0-9]/.test(text)) {
+      if (!/^u[0-9]+$/.test(text)) {
+        const reason = text[1] === '-' ? 'uint values cannot be negative' : 'unexpected characters';
+        this.error(`Invalid uint literal '${text}' — ${reason}`, span.start, span.end);
+        return { kind: 'uint', value: 0n, span };
+      }
+      const value = BigInt(text.slice(1));
+      if (value > MAX_UINT) {
+        this.error(`uint literal '${text}' is out of range (max u${MAX_UINT})`, span.start, span.end);
+      }
+      return { kind: 'uint', value, span };
+    }
+
+    if (/^-?[0-9]/.test(text)) {
+      if (!/^-?[0-9]+$/.test(text)) {
+        this.error(`Invalid integer literal '${text}'`, span.start, span.end);
+        return { kind: 'int', value: 0n, span };
+      }
+      const value = BigInt(text);
+      if (value > MAX_INT || value < MIN_INT) {
+        this.error(`int literal '${text}' is out of range for int128`, span.start, span.end);
+      }
+      return { kind: 'int', value, span };
+    }
+
+    if (!isValidIdentifier(text)) {
+      this.error(`Invalid identifier '${text}'`, span.start, span.end);
+    }
+    return { kind: 'atom', name: text, span };
+  }
+
+  // ---- low level ----
+
+  private readToken(): string {
+    let text = '';
+    while (!this.atEnd() && !DELIMITERS.has(this.peek()!)) {
+      text += this.peek();
+      this.advance();
+    }
+    return text;
+  }
+
+  private skipTrivia(allowCommas = false) {
+    while (!this.atEnd()) {
+      const ch = this.peek()!;
+      if (ch === ' ' || ch === '\t' || ch === '\r' || ch === '\n' || (allowCommas && ch === ',')) {
+        this.advance();
+      } else if (ch === ';') {
+        while (!this.atEnd() && this.peek() !== '\n') this.advance();
+      } else {
+        break;
+      }
+    }
+  }
+
+  private peek(ahead = 0): string | undefined {
+    return this.source[this.offset + ahead];
+  }
+
+  private atEnd(): boolean {
+    return this.offset >= this.source.length;
+  }
+
+  private advance() {
+    if (this.source[this.offset] === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    this.offset++;
+  }
+
+  private position(): SourcePosition {
+    return { line: this.line, column: this.column, offset: this.offset };
+  }
+
+  private spanFrom(start: SourcePosition): SourceSpan {
+    return { start, end: this.position() };
+  }
+
+  private error(message: string, start: SourcePosition, end?: SourcePosition) {
+    const to = end ?? { line: start.line, column: start.column + 1, offset: start.offset + 1 };
+    this.errors.push(diagnostic(message, { start, end: to }));
+  }
+}
+
+function isLetter(ch: string | undefined): boolean {
+  return ch !== undefined && /[a-zA-Z]/.test(ch);
+}
+
+function isAsciiPrintable(ch: string): boolean {
+  const code = ch.charCodeAt(0);
+  return code >= 0x20 && code <= 0x7e;
+}
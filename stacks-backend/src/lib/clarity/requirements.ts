@@ -0,0 +1,160 @@
+import { AddressVersion, addressFromVersionHash, addressToString, createAddress, validateStacksAddress } from '@stacks/transactions';
+import { ClarityVersion, LATEST_CLARITY_VERSION } from './builtins';
+import { contractReferences, dependencyOrder } from './deploymentPlan';
+import { isValidContractName, parseClarity } from './parser';
+import { ExternalContracts, contractInterface } from './typecheck';
+import { checkClaritySource } from './validator';
+
+/** A deployed contract the project calls, with the source it was published with */
+export interface RequirementSource {
+  // The contract id as written in the project's contracts: `SP....name`
+  contractId: string;
+  code: string;
+  clarityVersion: ClarityVersion;
+}
+
+// Where Clarinet caches its requirements' sources, keyed by contract id
+export const REQUIREMENTS_DIRECTORY = '.cache/requirements';
+
+const CLARITY_VERSIONS: ClarityVersion[] = [1, 2, 3];
+
+// Mainnet versions of the standard traits that are published at another address on testnet, where the
+// address of the same key has nothing
+const TESTNET_CONTRACTS: Record<string, string> = {
+  'SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.nft-trait': 'ST1NXBK3K5YYMD6FD41MVNP3JS1GABZ8TRVX023PT.nft-trait',
+  'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard': 'ST1NXBK3K5YYMD6FD41MVNP3JS1GABZ8TRVX023PT.sip-010-trait-ft-standard',
+};
+
+const MAINNET_TO_TESTNET: Partial<Record<number, AddressVersion>> = {
+  [AddressVersion.MainnetSingleSig]: AddressVersion.TestnetSingleSig,
+  [AddressVersion.MainnetMultiSig]: AddressVersion.TestnetMultiSig,
+};
+
+// Quoted principals, with the contract name if there is one
+const PRINCIPAL_LITERAL = /'(S[0-9A-Z]{28,40})(?:\.([a-zA-Z][\w-]*))?/g;
+
+/** Split a contract id (`SP....name`) into its address and name, or undefined if it isn't one */
+export function parseContractId(contractId: string): { address: string; name: string } | undefined {
+  const [address, name, ...rest] = contractId.trim().split('.');
+  if (rest.length > 0 || !address || !name) return undefined;
+  if (!validateStacksAddress(address) || !isValidContractName(name)) return undefined;
+  return { address, name };
+}
+
+export function isMainnetAddress(address: string): boolean {
+  return address.startsWith('SP') || address.startsWith('SM');
+}
+
+/** The testnet address of the same key as a mainnet address; other addresses are returned as they are */
+export function testnetAddress(address: string): string {
+  const { version, hash160 } = createAddress(address);
+  const testnet = MAINNET_TO_TESTNET[version];
+  return testnet === undefined ? address : addressToString(addressFromVersionHash(testnet, hash160));
+}
+
+/**
+ * Where a mainnet principal lives when deploying to the simulator, which like Clarinet's simnet publishes
+ * requirements at the testnet address of their deployer, or to testnet, where the standard traits have
+ * their own deployments
+ */
+export function remapPrincipal(principal: string, target: 'simnet' | 'testnet'): string {
+  if (target === 'testnet' && TESTNET_CONTRACTS[principal]) return TESTNET_CONTRACTS[principal];
+  const [address, ...rest] = principal.split('.');
+  return [testnetAddress(address), ...rest].join('.');
+}
+
+/** A contract with every quoted mainnet principal replaced as remapPrincipal would */
+export function remapPrincipals(code: string, target: 'simnet' | 'testnet'): string {
+  return code.replace(PRINCIPAL_LITERAL, (literal, address: string, name?: string) => {
+    if (!isMainnetAddress(address) || !validateStacksAddress(address)) return literal;
+    return `'${remapPrincipal(name ? `${address}.${name}` : address, target)}`;
+  });
+}
+
+/**
+ * The deployed contracts a contract refers to by their full id, e.g. in `contract-call?` or `impl-trait`. For a
+ * deployed contract, given its `contractId`, `.name` references are to contracts of the same deployer.
+ */
+export function requirementReferences(code: string, contractId?: string): string[] {
+  const withoutComments = code.replace(/;;.*$/gm, '');
+  const ids = [...withoutComments.matchAll(PRINCIPAL_LITERAL)]
+    .filter(match => match[2] !== undefined)
+    .map(match => `${match[1]}.${match[2]}`);
+  const deployer = contractId?.split('.')[0];
+  if (deployer) ids.push(...contractReferences(code).map(name => `${deployer}.${name}`));
+  return [...new Set(ids)].filter(id => id !== contractId);
+}
+
+/**
+ * A deployed contract's source with its `.name` references to other contracts of its deployer written out in full,
+ * so that it still refers to them when forked into a project of its own
+ */
+export function qualifyContractReferences(code: string, contractId: string): string {
+  const [deployer, self] = contractId.split('.');
+  const names = new Set(contractReferences(code).filter(name => name !== self));
+  return code.replace(/(^|[\s('])\.([a-zA-Z][\w-]*)/g, (match, before: string, name: string) =>
+    names.has(name) ? `${before.replace("'", '')}'${deployer}.${name}` : match);
+}
+
+export function requirementPath(contractId: string): string {
+  return `${REQUIREMENTS_DIRECTORY}/${contractId}.clar`;
+}
+
+/** The contract id of a cached requirement's path, or undefined for any other path */
+export function requirementIdOfPath(path: string): string | undefined {
+  const match = path.match(/^\.cache\/requirements\/([^/]+)\.clar$/);
+  return match && parseContractId(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * The oldest Clarity version a published contract checks in. Nodes don't report the version a contract was
+ * published with, and the oldest one that accepts it is the one that keeps names later versions reserved or
+ * removed (such as `block-height`) working.
+ */
+export function inferClarityVersion(code: string): ClarityVersion {
+  return CLARITY_VERSIONS.find(version => checkClaritySource(code, version).success) ?? LATEST_CLARITY_VERSION;
+}
+
+/** `requirements` in an order they can be deployed in: each after the requirements it refers to */
+export function requirementOrder<T extends { contractId: string; code: string }>(requirements: T[]): T[] {
+  const byId = new Map(requirements.map(requirement => [requirement.contractId, requirement]));
+  const ordered: T[] = [];
+  const visited = new Set<string>();
+  const visit = (id: string) => {
+    const requirement = byId.get(id);
+    if (!requirement || visited.has(id)) return;
+    visited.add(id);
+    requirementReferences(requirement.code, id).forEach(visit);
+    ordered.push(requirement);
+  };
+  byId.forEach((_, id) => visit(id));
+  return ordered;
+}
+
+/** The functions and traits of each requirement, for checking the `contract-call?`s and `impl-trait`s that use them */
+export function requirementInterfaces(requirements: RequirementSource[]): ExternalContracts {
+  const externals: ExternalContracts = new Map();
+  for (const requirement of requirementOrder(requirements)) {
+    const { nodes, errors } = parseClarity(requirement.code);
+    if (errors.length > 0) continue;
+    externals.set(requirement.contractId, contractInterface(nodes, requirement.clarityVersion, externals));
+  }
+  return externals;
+}
+
+/**
+ * `externals` and the functions and traits of a project's own `contracts`, under the `.name` the project's
+ * contracts call each other by
+ */
+export function withProjectInterfaces(
+  externals: ExternalContracts,
+  contracts: Array<{ name: string; code: string; clarityVersion: ClarityVersion }>
+): ExternalContracts {
+  const all: ExternalContracts = new Map(externals);
+  for (const contract of dependencyOrder(contracts, c => c.name, c => c.code)) {
+    const { nodes, errors } = parseClarity(contract.code);
+    if (errors.length > 0) continue;
+    all.set(`.${contract.name}`, contractInterface(nodes, contract.clarityVersion, all));
+  }
+  return all;
+}
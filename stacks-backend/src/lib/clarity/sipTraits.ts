@@ -0,0 +1,110 @@
+import { RequirementSource, requirementReferences } from './requirements';
+
+// The standard token traits as published on mainnet. Every contract can implement them without adding them as
+// requirements: validation checks impl-traits against them and hands them to clarinet like cached requirements.
+// The simulator doesn't resolve traits when deploying, so it goes without them.
+
+const SIP_009_NFT_TRAIT = `(define-trait nft-trait
+  (
+    ;; Last token ID, limited to uint range
+    (get-last-token-id () (response uint uint))
+
+    ;; URI for metadata associated with the token
+    (get-token-uri (uint) (response (optional (string-ascii 256)) uint))
+
+    ;; Owner of a given token identifier
+    (get-owner (uint) (response (optional principal) uint))
+
+    ;; Transfer from the sender to a new principal
+    (transfer (uint principal principal) (response bool uint))
+  )
+)
+`;
+
+const SIP_010_FT_TRAIT = `(define-trait sip-010-trait
+  (
+    ;; Transfer from the caller to a new principal
+    (transfer (uint principal principal (optional (buff 34))) (response bool uint))
+
+    ;; the human readable name of the token
+    (get-name () (response (string-ascii 32) uint))
+
+    ;; the ticker symbol, or empty if none
+    (get-symbol () (response (string-ascii 32) uint))
+
+    ;; the number of decimals used, e.g. 6 would mean 1_000_000 represents 1 token
+    (get-decimals () (response uint uint))
+
+    ;; the balance of the passed principal
+    (get-balance (principal) (response uint uint))
+
+    ;; the current total supply (which does not need to be a constant)
+    (get-total-supply () (response uint uint))
+
+    ;; an optional URI that represents metadata of this token
+    (get-token-uri () (response (optional (string-utf8 256)) uint))
+  )
+)
+`;
+
+const SIP_013_SFT_TRAIT = `(define-trait sip013-semi-fungible-token-trait
+  (
+    ;; Get a token type balance of the passed principal.
+    (get-balance (uint principal) (response uint uint))
+
+    ;; Get the total SFT balance of the passed principal.
+    (get-overall-balance (principal) (response uint uint))
+
+    ;; Get the current total supply of a token type.
+    (get-total-supply (uint) (response uint uint))
+
+    ;; Get the overall SFT supply.
+    (get-overall-supply () (response uint uint))
+
+    ;; Get the number of decimal places of a token type.
+    (get-decimals (uint) (response uint uint))
+
+    ;; Get an optional token URI that represents metadata for a specific token.
+    (get-token-uri (uint) (response (optional (string-ascii 256)) uint))
+
+    ;; Transfer from one principal to another.
+    (transfer (uint uint principal principal) (response bool uint))
+
+    ;; Transfer from one principal to another with a memo.
+    (transfer-memo (uint uint principal principal (buff 34)) (response bool uint))
+  )
+)
+`;
+
+const SIP_013_TRANSFER_MANY_TRAIT = `(define-trait sip013-transfer-many-trait
+  (
+    ;; Transfer many tokens at once.
+    (transfer-many ((list 200 {token-id: uint, amount: uint, sender: principal, recipient: principal})) (response bool uint))
+
+    ;; Transfer many tokens at once with memos.
+    (transfer-many-memo ((list 200 {token-id: uint, amount: uint, sender: principal, recipient: principal, memo: (buff 34)})) (response bool uint))
+  )
+)
+`;
+
+export const SIP_TRAIT_REQUIREMENTS: RequirementSource[] = [
+  { contractId: 'SP2PABAF9FTAJYNFZH93XENAJ8FVY99RRM50D2JG9.nft-trait', code: SIP_009_NFT_TRAIT, clarityVersion: 1 },
+  { contractId: 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard', code: SIP_010_FT_TRAIT, clarityVersion: 1 },
+  { contractId: 'SPDBEG5X8XD50SPM1JJH0E5CTXGDV5NJTKAKKR5V.sip013-semi-fungible-token-trait', code: SIP_013_SFT_TRAIT, clarityVersion: 1 },
+  { contractId: 'SPDBEG5X8XD50SPM1JJH0E5CTXGDV5NJTKAKKR5V.sip013-transfer-many-trait', code: SIP_013_TRANSFER_MANY_TRAIT, clarityVersion: 1 },
+];
+
+export function isSipTraitRequirement(contractId: string): boolean {
+  return SIP_TRAIT_REQUIREMENTS.some(requirement => requirement.contractId === contractId);
+}
+
+/**
+ * `requirements` followed by the SIP traits not among them, or only those `code` refers to when given. A
+ * project's cached copy of a trait is kept.
+ */
+export function withSipTraits(requirements: RequirementSource[], code?: string): RequirementSource[] {
+  const ids = new Set(requirements.map(requirement => requirement.contractId));
+  const referenced = code === undefined ? undefined : new Set(requirementReferences(code));
+  const traits = SIP_TRAIT_REQUIREMENTS.filter(trait => !ids.has(trait.contractId) && (!referenced || referenced.has(trait.contractId)));
+  return [...requirements, ...traits];
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { withProjectInterfaces } from './requirements';
+import { checkClaritySource } from './validator';
+
+function errorsOf(code: string): string[] {
+  return checkClaritySource(code).errors.map(error => error.message);
+}
+
+describe('recursion', () => {
+  it('rejects a function that calls itself', () => {
+    const errors = errorsOf(`
+(define-private (count-down (n uint))
+  (if (is-eq n u0) u0 (count-down (- n u1))))
+`);
+    expect(errors).toEqual(["'count-down' calls itself. Clarity does not allow recursion"]);
+  });
+
+  it('rejects functions that call each other', () => {
+    const errors = errorsOf(`
+(define-private (is-even (n uint)) (if (is-eq n u0) true (is-odd (- n u1))))
+(define-private (is-odd (n uint)) (if (is-eq n u0) false (is-even (- n u1))))
+`);
+    expect(errors).toEqual(["'is-even', 'is-odd' call each other. Clarity does not allow recursion"]);
+  });
+
+  it('rejects a function that passes itself to map', () => {
+    const errors = errorsOf(`
+(define-private (double-all (n uint)) (begin (map double-all (list n)) n))
+`);
+    expect(errors).toEqual(["'double-all' calls itself. Clarity does not allow recursion"]);
+  });
+
+  it('accepts functions that share a callee', () => {
+    const errors = errorsOf(`
+(define-private (double (n uint)) (* n u2))
+(define-read-only (quadruple (n uint)) (double (double n)))
+(define-read-only (doubled (items (list 10 uint))) (map double items))
+`);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('read-only functions', () => {
+  it.each([
+    ['var-set', '(define-data-var counter uint u0)', '(var-set counter u1)'],
+    ['map-set', '(define-map balances principal uint)', '(map-set balances tx-sender u1)'],
+    ['map-delete', '(define-map balances principal uint)', '(map-delete balances tx-sender)'],
+    ['stx-transfer?', '', '(is-ok (stx-transfer? u1 tx-sender tx-sender))'],
+    ['ft-mint?', '(define-fungible-token token)', '(is-ok (ft-mint? token u1 tx-sender))'],
+  ])('rejects %s', (builtin, definition, body) => {
+    const errors = errorsOf(`${definition}\n(define-read-only (write) ${body})`);
+    expect(errors).toEqual([`read-only function 'write' cannot use '${builtin}', which writes to the chain`]);
+  });
+
+  it('rejects calls to a function that writes', () => {
+    const errors = errorsOf(`
+(define-data-var counter uint u0)
+(define-private (bump) (var-set counter (+ (var-get counter) u1)))
+(define-private (bump-twice) (and (bump) (bump)))
+(define-read-only (peek) (begin (bump-twice) (var-get counter)))
+`);
+    expect(errors).toEqual(["read-only function 'peek' cannot call 'bump-twice', which writes to the chain with 'var-set'"]);
+  });
+
+  it('accepts writes in public and private functions', () => {
+    const errors = errorsOf(`
+(define-data-var counter uint u0)
+(define-private (bump) (var-set counter (+ (var-get counter) u1)))
+(define-public (increment) (ok (bump)))
+(define-read-only (get-counter) (var-get counter))
+`);
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('contracts of the same project', () => {
+  const token = {
+    name: 'token',
+    clarityVersion: 3 as const,
+    code: '(define-read-only (get-balance (who principal)) (ok u0))\n(define-trait receiver ((receive (uint) (response bool uint))))',
+  };
+
+  function errorsWithProject(code: string): string[] {
+    return checkClaritySource(code, 3, withProjectInterfaces(new Map(), [token])).errors.map(error => error.message);
+  }
+
+  it("checks contract-call?s to the project's other contracts", () => {
+    expect(errorsWithProject('(define-read-only (balance) (contract-call? .token get-balance tx-sender))')).toEqual([]);
+    expect(errorsWithProject('(define-read-only (balance) (contract-call? .token get-supply))'))
+      .toEqual(["'.token' has no public or read-only function 'get-supply'"]);
+  });
+
+  it("checks traits of the project's other contracts", () => {
+    expect(errorsWithProject('(impl-trait .token.missing)')).toEqual(["'.token' does not define a trait named 'missing'"]);
+  });
+});
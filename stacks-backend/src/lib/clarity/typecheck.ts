@@ -0,0 +1,1318 @@
+import { AtomNode, ClarityNode, ListNode, isList, listHead } from './ast';
+import { BUILTIN_FUNCTIONS, ClarityVersion, DEFINE_FORMS, LATEST_CLARITY_VERSION, unavailableBuiltinMessage } from './builtins';
+import { Diagnostic, diagnostic } from './diagnostics';
+import { ClarityType, T, TupleField, admits, leastSupertype, parseTypeSignature, sameType, typeToString } from './types';
+
+// Largest buffer `to-consensus-buff?` can produce
+const MAX_VALUE_SIZE = 1024 * 1024;
+
+// Built-ins that change chain state, which read-only functions may not use, directly or through the functions they call
+const WRITE_FUNCTIONS = new Set([
+  'var-set', 'map-set', 'map-insert', 'map-delete',
+  'stx-transfer?', 'stx-transfer-memo?', 'stx-burn?',
+  'ft-mint?', 'ft-burn?', 'ft-transfer?',
+  'nft-mint?', 'nft-burn?', 'nft-transfer?',
+]);
+
+// Built-ins that take a function by name as their first argument
+const HIGHER_ORDER_FUNCTIONS = new Set(['map', 'filter', 'fold']);
+
+interface FunctionInfo {
+  name: string;
+  access: 'public' | 'read-only' | 'private';
+  args: Array<{ name: string; type: ClarityType }>;
+  body?: ClarityNode;
+  node: ListNode;
+  returnType?: ClarityType;
+  inferring?: boolean;
+  // What its body calls and writes, filled in by checkCallGraph
+  calls?: Array<{ fn: FunctionInfo; node: ClarityNode }>;
+  writes?: Array<{ what: string; node: ClarityNode }>;
+}
+
+interface ConstantInfo {
+  value: ClarityNode;
+  type?: ClarityType;
+  inferring?: boolean;
+}
+
+interface FunctionContext {
+  /** Values that leave the function early via asserts!, unwrap!, try! ... */
+  earlyReturns: Array<{ type: ClarityType; node: ClarityNode }>;
+}
+
+interface Env {
+  locals: Map<string, ClarityType>;
+  fn?: FunctionContext;
+}
+
+type BuiltinHandler = (node: ListNode, args: ClarityNode[], env: Env) => ClarityType;
+
+/** A public or read-only function of another contract, as `contract-call?` sees it */
+export interface ExternalFunction {
+  access: 'public' | 'read-only';
+  args: Array<{ name: string; type: ClarityType }>;
+  returns: ClarityType;
+}
+
+/** A function a trait requires, as its define-trait declares it */
+export interface TraitFunction {
+  name: string;
+  args: ClarityType[];
+  returns: ClarityType;
+}
+
+/** What other contracts see of a deployed contract: the functions they can call and the traits they can implement */
+export interface ExternalContract {
+  functions: Map<string, ExternalFunction>;
+  traits: Map<string, TraitFunction[]>;
+}
+
+/** The deployed contracts a contract may call or implement the traits of, by contract id (`SP....name`) */
+export type ExternalContracts = Map<string, ExternalContract>;
+
+// The key of a contract principal in ExternalContracts: `SP....name`, or `.name` for a contract of the same project
+function externalId(target: ClarityNode): string | undefined {
+  return target.kind === 'principal' && target.contractName ? `${target.address ?? ''}.${target.contractName}` : undefined;
+}
+
+/**
+ * Infer and check the types of a contract that has already passed the structural checks in validator.ts.
+ * Inference is best-effort: anything the checker does not model is typed `unknown` and never reported.
+ * Built-ins that don't exist in `version` are reported where they are used.
+ */
+export function typeCheckContract(
+  nodes: ClarityNode[],
+  errors: Diagnostic[],
+  version: ClarityVersion = LATEST_CLARITY_VERSION,
+  externals: ExternalContracts = new Map()
+) {
+  new TypeChecker(errors, version, externals).check(nodes);
+}
+
+/** Return type of every function in a contract that type-checks, used to describe its interface */
+export function inferReturnTypes(nodes: ClarityNode[], version: ClarityVersion = LATEST_CLARITY_VERSION): Map<string, ClarityType> {
+  const checker = new TypeChecker([], version);
+  checker.check(nodes);
+  return checker.returnTypes();
+}
+
+/**
+ * The public and read-only functions of a contract with their inferred return types, and the traits it defines,
+ * for checking the `contract-call?`s and `impl-trait`s of contracts that use it
+ */
+export function contractInterface(
+  nodes: ClarityNode[],
+  version: ClarityVersion = LATEST_CLARITY_VERSION,
+  externals: ExternalContracts = new Map()
+): ExternalContract {
+  const checker = new TypeChecker([], version, externals);
+  checker.check(nodes);
+  return { functions: checker.callableFunctions(), traits: checker.definedTraits() };
+}
+
+class TypeChecker {
+  private readonly dataVars = new Map<string, ClarityType>();
+  private readonly maps = new Map<string, { key: ClarityType; value: ClarityType }>();
+  private readonly constants = new Map<string, ConstantInfo>();
+  private readonly functions = new Map<string, FunctionInfo>();
+  private readonly fungibleTokens = new Set<string>();
+  private readonly nonFungibleTokens = new Map<string, ClarityType>();
+  private readonly traits = new Map<string, TraitFunction[]>();
+  private readonly builtins: Record<string, BuiltinHandler>;
+
+  constructor(
+    private readonly errors: Diagnostic[],
+    private readonly version: ClarityVersion,
+    private readonly externals: ExternalContracts = new Map()
+  ) {
+    this.builtins = this.createBuiltins();
+  }
+
+  returnTypes(): Map<string, ClarityType> {
+    return new Map([...this.functions].map(([name, fn]) => [name, this.inferFunction(fn)]));
+  }
+
+  callableFunctions(): Map<string, ExternalFunction> {
+    const callable = new Map<string, ExternalFunction>();
+    this.functions.forEach((fn, name) => {
+      if (fn.access !== 'private') callable.set(name, { access: fn.access, args: fn.args, returns: this.inferFunction(fn) });
+    });
+    return callable;
+  }
+
+  definedTraits(): Map<string, TraitFunction[]> {
+    return this.traits;
+  }
+
+  check(nodes: ClarityNode[]) {
+    const definitions = nodes.filter(isList);
+    definitions.forEach(node => this.collect(node));
+    this.checkCallGraph();
+
+    for (const node of definitions) {
+      const form = listHead(node);
+      switch (form) {
+        case 'define-public':
+        case 'define-read-only':
+        case 'define-private': {
+          const name = (node.items[1] as ListNode).items[0] as AtomNode;
+          const fn = this.functions.get(name.name);
+          if (fn) this.inferFunction(fn);
+          break;
+        }
+        case 'define-constant':
+          this.inferConstant((node.items[1] as AtomNode).name);
+          break;
+        case 'define-data-var': {
+          const declared = this.dataVars.get((node.items[1] as AtomNode).name);
+          if (declared) this.expectType(declared, node.items[3], this.topLevelEnv(), `initial value of '${(node.items[1] as AtomNode).name}'`);
+          break;
+        }
+        case 'define-fungible-token':
+          if (node.items[2]) this.expectType(T.uint, node.items[2], this.topLevelEnv(), 'total supply');
+          break;
+        case 'impl-trait':
+          this.checkImplTrait(node);
+          break;
+        case 'define-map':
+        case 'define-non-fungible-token':
+        case 'define-trait':
+        case 'use-trait':
+          break;
+        default:
+          // Top-level expressions run once at deploy time
+          this.typeOf(node, this.topLevelEnv());
+      }
+    }
+  }
+
+  // ---- definitions ----
+
+  private collect(node: ListNode) {
+    const form = listHead(node);
+    const name = node.items[1];
+    const scratch: Diagnostic[] = []; // signature errors were already reported by the structural pass
+
+    switch (form) {
+      case 'define-public':
+      case 'define-read-only':
+      case 'define-private': {
+        if (!isList(name) || name.items[0]?.kind !== 'atom') return;
+        const args = name.items.slice(1).flatMap(arg => {
+          if (!isList(arg) || arg.items[0]?.kind !== 'atom' || !arg.items[1]) return [];
+          return [{ name: arg.items[0].name, type: parseTypeSignature(arg.items[1], scratch) ?? T.unknown }];
+        });
+        const access = form === 'define-public' ? 'public' : form === 'define-read-only' ? 'read-only' : 'private';
+        this.functions.set(name.items[0].name, { name: name.items[0].name, access, args, body: node.items[2], node });
+        return;
+      }
+      case 'define-data-var':
+        if (name?.kind === 'atom' && node.items[2]) {
+          this.dataVars.set(name.name, parseTypeSignature(node.items[2], scratch) ?? T.unknown);
+        }
+        return;
+      case 'define-map':
+        if (name?.kind === 'atom' && node.items[2] && node.items[3]) {
+          this.maps.set(name.name, {
+            key: parseTypeSignature(node.items[2], scratch) ?? T.unknown,
+            value: parseTypeSignature(node.items[3], scratch) ?? T.unknown,
+          });
+        }
+        return;
+      case 'define-constant':
+        if (name?.kind === 'atom' && node.items[2]) this.constants.set(name.name, { value: node.items[2] });
+        return;
+      case 'define-fungible-token':
+        if (name?.kind === 'atom') this.fungibleTokens.add(name.name);
+        return;
+      case 'define-non-fungible-token':
+        if (name?.kind === 'atom' && node.items[2]) {
+          this.nonFungibleTokens.set(name.name, parseTypeSignature(node.items[2], scratch) ?? T.unknown);
+        }
+        return;
+      case 'define-trait': {
+        const body = node.items[2];
+        if (name?.kind !== 'atom' || !body || !isList(body)) return;
+        this.traits.set(name.name, body.items.flatMap(fn => {
+          if (!isList(fn) || fn.items[0]?.kind !== 'atom' || !fn.items[1] || !isList(fn.items[1]) || !fn.items[2]) return [];
+          return [{
+            name: fn.items[0].name,
+            args: fn.items[1].items.map(arg => parseTypeSignature(arg, scratch) ?? T.unknown),
+            returns: parseTypeSignature(fn.items[2], scratch) ?? T.unknown,
+          }];
+        }));
+        return;
+      }
+    }
+  }
+
+  /**
+   * A trait of a contract in `externals` must be implemented with functions of exactly the argument types it
+   * declares, returning its response type. Traits of other contracts can't be checked and are trusted.
+   */
+  private checkImplTrait(node: ListNode) {
+    const target = node.items[1];
+    const contractId = target && externalId(target);
+    if (target?.kind !== 'principal' || !contractId || !target.traitName) return;
+    const contract = this.externals.get(contractId);
+    if (!contract) return;
+    const trait = contract.traits.get(target.traitName);
+    if (!trait) {
+      this.error(`'${contractId}' does not define a trait named '${target.traitName}'`, target);
+      return;
+    }
+
+    const missing: string[] = [];
+    for (const expected of trait) {
+      const fn = this.functions.get(expected.name);
+      if (!fn || fn.access === 'private') {
+        missing.push(expected.name);
+        continue;
+      }
+      const signature = (fn.node.items[1] as ListNode).items[0];
+      const declared = `(${[expected.name, ...expected.args.map(typeToString)].join(' ')}) -> ${typeToString(expected.returns)}`;
+      if (fn.args.length !== expected.args.length) {
+        this.error(
+          `'${fn.name}' must take ${expected.args.length} argument${expected.args.length === 1 ? '' : 's'} to implement '${target.traitName}', found ${fn.args.length}. The trait declares ${declared}`,
+          signature
+        );
+        continue;
+      }
+      const argsNode = (fn.node.items[1] as ListNode).items.slice(1);
+      fn.args.forEach((arg, i) => {
+        if (!sameType(expected.args[i], arg.type)) {
+          this.error(
+            `Argument '${arg.name}' of '${fn.name}' must be ${typeToString(expected.args[i])} to implement '${target.traitName}', found ${typeToString(arg.type)}`,
+            argsNode[i] ?? signature
+          );
+        }
+      });
+      const returns = this.inferFunction(fn);
+      if (!admits(expected.returns, returns)) {
+        this.error(
+          `'${fn.name}' must return ${typeToString(expected.returns)} to implement '${target.traitName}', found ${typeToString(returns)}`,
+          signature
+        );
+      }
+    }
+    if (missing.length > 0) {
+      this.error(
+        `Contract does not implement '${target.traitName}': missing ${missing.map(name => `'${name}'`).join(', ')}. Each must be a define-public or define-read-only function`,
+        target
+      );
+    }
+  }
+
+  /**
+   * Clarity rejects at deploy what the type rules alone allow: functions that call themselves, directly or through
+   * others, and read-only functions that write, directly or through the functions they call
+   */
+  private checkCallGraph() {
+    for (const fn of this.functions.values()) {
+      fn.calls = [];
+      fn.writes = [];
+      if (fn.body) this.collectCalls(fn.body, fn);
+    }
+
+    for (const cycle of this.callCycles()) {
+      const [fn] = cycle;
+      const call = fn.calls!.find(c => cycle.includes(c.fn))!;
+      this.error(
+        cycle.length === 1
+          ? `'${fn.name}' calls itself. Clarity does not allow recursion`
+          : `${cycle.map(member => `'${member.name}'`).join(', ')} call each other. Clarity does not allow recursion`,
+        call.node
+      );
+    }
+
+    for (const fn of this.functions.values()) {
+      if (fn.access !== 'read-only') continue;
+      for (const write of fn.writes!) {
+        this.error(`read-only function '${fn.name}' cannot use ${write.what}, which writes to the chain`, write.node);
+      }
+      for (const call of fn.calls!) {
+        const write = this.firstWrite(call.fn, new Set([fn]));
+        if (write) {
+          this.error(`read-only function '${fn.name}' cannot call '${call.fn.name}', which writes to the chain with ${write}`, call.node);
+        }
+      }
+    }
+  }
+
+  private collectCalls(node: ClarityNode, fn: FunctionInfo) {
+    if (node.kind === 'tuple') {
+      node.entries.forEach(entry => this.collectCalls(entry.value, fn));
+      return;
+    }
+    if (!isList(node)) return;
+    const [head, ...args] = node.items;
+    if (head?.kind === 'atom') {
+      const callee = this.functions.get(head.name);
+      if (callee) fn.calls!.push({ fn: callee, node: head });
+      else if (WRITE_FUNCTIONS.has(head.name)) fn.writes!.push({ what: `'${head.name}'`, node: head });
+      else if (HIGHER_ORDER_FUNCTIONS.has(head.name) && args[0]?.kind === 'atom') {
+        const passed = this.functions.get(args[0].name);
+        if (passed) fn.calls!.push({ fn: passed, node: args[0] });
+      } else if (head.name === 'contract-call?') {
+        const [target, name] = args;
+        const contractId = target && externalId(target);
+        if (target?.kind === 'principal' && contractId && !target.traitName && name?.kind === 'atom') {
+          const external = this.externals.get(contractId)?.functions.get(name.name);
+          if (external?.access === 'public') fn.writes!.push({ what: `a contract-call? of public function '${name.name}'`, node: name });
+        }
+      }
+    }
+    node.items.forEach(item => this.collectCalls(item, fn));
+  }
+
+  // Each group of functions that call each other, and each function that calls itself, in definition order
+  // (Tarjan's strongly connected components)
+  private callCycles(): FunctionInfo[][] {
+    const index = new Map<FunctionInfo, number>();
+    const lowLink = new Map<FunctionInfo, number>();
+    const stack: FunctionInfo[] = [];
+    const cycles: FunctionInfo[][] = [];
+    const visit = (fn: FunctionInfo) => {
+      index.set(fn, index.size);
+      lowLink.set(fn, index.get(fn)!);
+      stack.push(fn);
+      for (const { fn: callee } of fn.calls!) {
+        if (!index.has(callee)) {
+          visit(callee);
+          lowLink.set(fn, Math.min(lowLink.get(fn)!, lowLink.get(callee)!));
+        } else if (stack.includes(callee)) {
+          lowLink.set(fn, Math.min(lowLink.get(fn)!, index.get(callee)!));
+        }
+      }
+      if (lowLink.get(fn) !== index.get(fn)) return;
+      const component = stack.splice(stack.indexOf(fn));
+      if (component.length > 1 || fn.calls!.some(call => call.fn === fn)) cycles.push(component);
+    };
+    for (const fn of this.functions.values()) {
+      if (!index.has(fn)) visit(fn);
+    }
+    const order = [...this.functions.values()];
+    return cycles
+      .map(cycle => cycle.sort((a, b) => order.indexOf(a) - order.indexOf(b)))
+      .sort((a, b) => order.indexOf(a[0]) - order.indexOf(b[0]));
+  }
+
+  // The first write `fn` makes, itself or through the functions it calls
+  private firstWrite(fn: FunctionInfo, visited: Set<FunctionInfo>): string | undefined {
+    if (visited.has(fn)) return undefined;
+    visited.add(fn);
+    if (fn.writes!.length > 0) return fn.writes![0].what;
+    for (const call of fn.calls!) {
+      const write = this.firstWrite(call.fn, visited);
+      if (write) return write;
+    }
+    return undefined;
+  }
+
+  private inferConstant(name: string): ClarityType {
+    const constant = this.constants.get(name);
+    if (!constant) return T.unknown;
+    if (constant.type) return constant.type;
+    if (constant.inferring) return T.unknown;
+    constant.inferring = true;
+    constant.type = this.typeOf(constant.value, this.topLevelEnv());
+    constant.inferring = false;
+    return constant.type;
+  }
+
+  /** Infer a function's return type once, reporting any errors in its body */
+  private inferFunction(fn: FunctionInfo): ClarityType {
+    if (fn.returnType) return fn.returnType;
+    if (fn.inferring || !fn.body) return T.unknown;
+    fn.inferring = true;
+
+    const context: FunctionContext = { earlyReturns: [] };
+    const locals = new Map(fn.args.map(a => [a.name, a.type] as const));
+    let returnType = this.typeOf(fn.body, { locals, fn: context });
+
+    for (const early of context.earlyReturns) {
+      const combined = leastSupertype(returnType, early.type);
+      if (!combined) {
+        this.error(
+          `Early return value of type ${typeToString(early.type)} does not match the return type of '${fn.name}' (${typeToString(returnType)})`,
+          early.node
+        );
+        continue;
+      }
+      returnType = combined;
+    }
+
+    if (fn.access === 'public' && returnType.kind !== 'response' && returnType.kind !== 'unknown') {
+      this.error(`define-public '${fn.name}' must return a response, found ${typeToString(returnType)} — wrap the result in (ok ...) or (err ...)`, fn.body);
+    }
+
+    fn.inferring = false;
+    fn.returnType = returnType;
+    return returnType;
+  }
+
+  // ---- expressions ----
+
+  private typeOf(node: ClarityNode, env: Env): ClarityType {
+    switch (node.kind) {
+      case 'int': return T.int;
+      case 'uint': return T.uint;
+      case 'string':
+        return node.encoding === 'ascii'
+          ? { kind: 'string-ascii', length: node.value.length }
+          : { kind: 'string-utf8', length: [...node.value].length };
+      case 'buffer': return T.buff(node.hex.length / 2);
+      case 'principal': return T.principal;
+      case 'trait-ref': return T.unknown;
+      case 'tuple': {
+        const fields = node.entries.map(e => ({ name: e.key, type: this.typeOf(e.value, env) }));
+        return { kind: 'tuple', fields };
+      }
+      case 'atom': return this.resolveAtom(node, env);
+      case 'list': return this.typeOfApplication(node, env);
+    }
+  }
+
+  private resolveAtom(node: AtomNode, env: Env): ClarityType {
+    const local = env.locals.get(node.name);
+    if (local) return local;
+    if (this.constants.has(node.name)) return this.inferConstant(node.name);
+
+    const unavailable = unavailableBuiltinMessage(node.name, this.version);
+    if (!unavailable) switch (node.name) {
+      case 'true':
+      case 'false':
+      case 'is-in-mainnet':
+      case 'is-in-regtest':
+        return T.bool;
+      case 'none':
+        return T.optional(T.noType);
+      case 'tx-sender':
+      case 'contract-caller':
+        return T.principal;
+      case 'tx-sponsor?':
+        return T.optional(T.principal);
+      case 'block-height':
+      case 'burn-block-height':
+      case 'stacks-block-height':
+      case 'tenure-height':
+      case 'stx-liquid-supply':
+      case 'chain-id':
+        return T.uint;
+    }
+
+    if (this.dataVars.has(node.name)) {
+      this.error(`'${node.name}' is a data variable — read it with (var-get ${node.name})`, node);
+    } else if (this.maps.has(node.name)) {
+      this.error(`'${node.name}' is a map — read it with (map-get? ${node.name} key)`, node);
+    } else if (this.functions.has(node.name) || (BUILTIN_FUNCTIONS.has(node.name) && !unavailable)) {
+      this.error(`'${node.name}' is a function — call it as (${node.name} ...)`, node);
+    } else if (unavailable) {
+      this.error(unavailable, node);
+    } else {
+      this.error(`Use of unresolved variable '${node.name}'`, node);
+    }
+    return T.unknown;
+  }
+
+  private typeOfApplication(node: ListNode, env: Env): ClarityType {
+    const [head, ...args] = node.items;
+    if (!head) {
+      this.error('Empty expression', node);
+      return T.unknown;
+    }
+    if (head.kind !== 'atom') {
+      this.error('Expected a function name at the start of an expression', head);
+      args.forEach(arg => this.typeOf(arg, env));
+      return T.unknown;
+    }
+    if (DEFINE_FORMS.has(head.name)) {
+      this.error(`'${head.name}' can only be used at the top level of a contract`, head);
+      return T.unknown;
+    }
+
+    const fn = this.functions.get(head.name);
+    if (fn) return this.callUserFunction(fn, node, args, env);
+
+    // A built-in from another Clarity version is reported, but its arguments are still checked as usual
+    const unavailable = unavailableBuiltinMessage(head.name, this.version);
+    if (unavailable) {
+      this.error(unavailable, head);
+      if (!BUILTIN_FUNCTIONS.has(head.name)) {
+        args.forEach(arg => this.typeOf(arg, env));
+        return T.unknown;
+      }
+    }
+
+    const handler = this.builtins[head.name];
+    if (handler) return handler(node, args, env);
+
+    if (BUILTIN_FUNCTIONS.has(head.name)) {
+      // Known built-in the checker doesn't model: still check its arguments
+      args.forEach(arg => this.typeOf(arg, env));
+      return T.unknown;
+    }
+    const isValue = env.locals.has(head.name) || this.constants.has(head.name) || this.dataVars.has(head.name) || this.maps.has(head.name);
+    this.error(isValue ? `'${head.name}' is not a function` : `Unknown function '${head.name}'`, head);
+    args.forEach(arg => this.typeOf(arg, env));
+    return T.unknown;
+  }
+
+  private callUserFunction(fn: FunctionInfo, node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (args.length !== fn.args.length) {
+      this.error(`'${fn.name}' expects ${fn.args.length} argument${fn.args.length === 1 ? '' : 's'}, found ${args.length}`, node);
+    }
+    args.forEach((arg, i) => {
+      const param = fn.args[i];
+      if (param) this.expectType(param.type, arg, env, `argument '${param.name}' of '${fn.name}'`);
+      else this.typeOf(arg, env);
+    });
+    return this.inferFunction(fn);
+  }
+
+  // ---- helpers ----
+
+  private topLevelEnv(): Env {
+    return { locals: new Map() };
+  }
+
+  private expectType(expected: ClarityType, node: ClarityNode, env: Env, what: string): ClarityType {
+    const actual = this.typeOf(node, env);
+    if (!admits(expected, actual)) {
+      this.error(`Type mismatch for ${what}: expected ${typeToString(expected)}, found ${typeToString(actual)}`, node);
+    }
+    return actual;
+  }
+
+  private checkArgCount(node: ListNode, args: ClarityNode[], min: number, max = min): boolean {
+    if (args.length >= min && args.length <= max) return true;
+    const name = listHead(node);
+    const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+    this.error(`'${name}' expects ${expected} argument${min === 1 && max === 1 ? '' : 's'}, found ${args.length}`, node);
+    return false;
+  }
+
+  /** Check the argument count, typing the arguments anyway so nested errors still surface */
+  private arity(node: ListNode, args: ClarityNode[], env: Env, min: number, max = min): boolean {
+    if (this.checkArgCount(node, args, min, max)) return true;
+    args.forEach(arg => this.typeOf(arg, env));
+    return false;
+  }
+
+  private numericType(name: string, args: ClarityNode[], env: Env): ClarityType {
+    let result: ClarityType | undefined;
+    for (const arg of args) {
+      const type = this.typeOf(arg, env);
+      if (type.kind === 'unknown') continue;
+      if (type.kind !== 'int' && type.kind !== 'uint') {
+        this.error(`'${name}' expects int or uint arguments, found ${typeToString(type)}`, arg);
+        continue;
+      }
+      if (result && result.kind !== type.kind) {
+        this.error(`'${name}' arguments must all be the same type: expected ${typeToString(result)}, found ${typeToString(type)}`, arg);
+        continue;
+      }
+      result = result ?? type;
+    }
+    return result ?? T.unknown;
+  }
+
+  private sameTypes(name: string, args: ClarityNode[], env: Env): ClarityType {
+    let result: ClarityType = T.noType;
+    for (const arg of args) {
+      const type = this.typeOf(arg, env);
+      const combined = leastSupertype(result, type);
+      if (!combined) {
+        this.error(`'${name}' arguments must all be the same type: expected ${typeToString(result)}, found ${typeToString(type)}`, arg);
+        continue;
+      }
+      result = combined;
+    }
+    return result;
+  }
+
+  /** Report responses whose result is discarded in the middle of begin/let bodies, as Clarity does */
+  private typeOfBody(body: ClarityNode[], env: Env): ClarityType {
+    let last: ClarityType = T.unknown;
+    body.forEach((expr, i) => {
+      last = this.typeOf(expr, env);
+      if (i < body.length - 1 && last.kind === 'response') {
+        this.error('Intermediate expression returns a response that is never checked — wrap it in try! or unwrap!', expr);
+      }
+    });
+    return last;
+  }
+
+  private earlyReturn(env: Env, type: ClarityType, node: ClarityNode) {
+    env.fn?.earlyReturns.push({ type, node });
+  }
+
+  private withLocals(env: Env, bindings: Array<[string, ClarityType]>): Env {
+    const locals = new Map(env.locals);
+    bindings.forEach(([name, type]) => locals.set(name, type));
+    return { ...env, locals };
+  }
+
+  private atomArg(node: ClarityNode | undefined, what: string): string | undefined {
+    if (node?.kind === 'atom') return node.name;
+    if (node) this.error(`Expected ${what} name`, node);
+    return undefined;
+  }
+
+  private sequenceElement(type: ClarityType): ClarityType | undefined {
+    switch (type.kind) {
+      case 'list': return type.element;
+      case 'buff': return T.buff(1);
+      case 'string-ascii':
+      case 'string-utf8':
+        return { kind: type.kind, length: 1 };
+      case 'unknown': return T.unknown;
+      default: return undefined;
+    }
+  }
+
+  private withLength(type: ClarityType, length: number): ClarityType {
+    switch (type.kind) {
+      case 'list': return T.list(length, type.element);
+      case 'buff':
+      case 'string-ascii':
+      case 'string-utf8':
+        return { kind: type.kind, length };
+      default: return type;
+    }
+  }
+
+  private sequenceLength(type: ClarityType): number {
+    switch (type.kind) {
+      case 'list': return type.maxLength;
+      case 'buff':
+      case 'string-ascii':
+      case 'string-utf8':
+        return type.length;
+      default: return 0;
+    }
+  }
+
+  private expectSequence(name: string, node: ClarityNode, env: Env): ClarityType {
+    const type = this.typeOf(node, env);
+    if (!this.sequenceElement(type)) {
+      this.error(`'${name}' expects a list, buffer or string, found ${typeToString(type)}`, node);
+      return T.unknown;
+    }
+    return type;
+  }
+
+  /** Return type of a function passed by name to map/filter/fold */
+  private functionArgument(node: ClarityNode | undefined): FunctionInfo | undefined {
+    const name = this.atomArg(node, 'a function');
+    if (!name) return undefined;
+    const fn = this.functions.get(name);
+    if (!fn) {
+      const unavailable = unavailableBuiltinMessage(name, this.version);
+      if (unavailable) this.error(unavailable, node!);
+      else if (!BUILTIN_FUNCTIONS.has(name)) this.error(`Unknown function '${name}'`, node!);
+    }
+    return fn;
+  }
+
+  private error(message: string, node: ClarityNode) {
+    this.errors.push(diagnostic(message, node.span));
+  }
+
+  // ---- built-ins ----
+
+  private createBuiltins(): Record<string, BuiltinHandler> {
+    const numeric: BuiltinHandler = (node, args, env) => {
+      this.checkArgCount(node, args, 1, Infinity);
+      return this.numericType(listHead(node)!, args, env);
+    };
+    const binaryNumeric: BuiltinHandler = (node, args, env) => {
+      this.checkArgCount(node, args, 2);
+      return this.numericType(listHead(node)!, args, env);
+    };
+    const unaryNumeric: BuiltinHandler = (node, args, env) => {
+      this.checkArgCount(node, args, 1);
+      return this.numericType(listHead(node)!, args, env);
+    };
+    const comparison: BuiltinHandler = (node, args, env) => {
+      this.checkArgCount(node, args, 2);
+      const type = this.sameTypes(listHead(node)!, args, env);
+      if (!['int', 'uint', 'buff', 'string-ascii', 'string-utf8', 'unknown', 'no-type'].includes(type.kind)) {
+        this.error(`'${listHead(node)}' cannot compare values of type ${typeToString(type)}`, node);
+      }
+      return T.bool;
+    };
+    const logical: BuiltinHandler = (node, args, env) => {
+      this.checkArgCount(node, args, 1, Infinity);
+      args.forEach(arg => this.expectType(T.bool, arg, env, `argument of '${listHead(node)}'`));
+      return T.bool;
+    };
+    const hash = (length: number): BuiltinHandler => (node, args, env) => {
+      if (this.arity(node, args, env, 1)) {
+        const type = this.typeOf(args[0], env);
+        if (!['buff', 'int', 'uint', 'unknown'].includes(type.kind)) {
+          this.error(`'${listHead(node)}' expects a buffer, int or uint, found ${typeToString(type)}`, args[0]);
+        }
+      }
+      return T.buff(length);
+    };
+    const fixed = (params: ClarityType[], result: ClarityType): BuiltinHandler => (node, args, env) => {
+      if (this.arity(node, args, env, params.length)) {
+        args.forEach((arg, i) => this.expectType(params[i], arg, env, `argument ${i + 1} of '${listHead(node)}'`));
+      }
+      return result;
+    };
+    const tokenResponse = T.response(T.bool, T.uint);
+
+    const fungible = (params: ClarityType[], result: ClarityType): BuiltinHandler => (node, args, env) => {
+      if (!this.arity(node, args, env, params.length + 1)) return result;
+      const token = this.atomArg(args[0], 'a fungible token');
+      if (token && !this.fungibleTokens.has(token)) this.error(`Undefined fungible token '${token}'`, args[0]);
+      args.slice(1).forEach((arg, i) => this.expectType(params[i], arg, env, `argument ${i + 2} of '${listHead(node)}'`));
+      return result;
+    };
+    const nonFungible = (params: ClarityType[], result: ClarityType): BuiltinHandler => (node, args, env) => {
+      if (!this.arity(node, args, env, params.length + 2)) return result;
+      const token = this.atomArg(args[0], 'a non-fungible token');
+      const assetType = token ? this.nonFungibleTokens.get(token) : undefined;
+      if (token && !assetType) this.error(`Undefined non-fungible token '${token}'`, args[0]);
+      this.expectType(assetType ?? T.unknown, args[1], env, `asset identifier of '${token}'`);
+      args.slice(2).forEach((arg, i) => this.expectType(params[i], arg, env, `argument ${i + 3} of '${listHead(node)}'`));
+      return result;
+    };
+
+    return {
+      '+': numeric,
+      '-': numeric,
+      '*': numeric,
+      '/': numeric,
+      'mod': binaryNumeric,
+      'pow': binaryNumeric,
+      'xor': binaryNumeric,
+      'sqrti': unaryNumeric,
+      'log2': unaryNumeric,
+      'bit-and': numeric,
+      'bit-or': numeric,
+      'bit-xor': numeric,
+      'bit-not': unaryNumeric,
+      'bit-shift-left': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        this.expectType(T.uint, args[1], env, 'shift amount');
+        return this.numericType('bit-shift-left', [args[0]], env);
+      },
+      'bit-shift-right': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        this.expectType(T.uint, args[1], env, 'shift amount');
+        return this.numericType('bit-shift-right', [args[0]], env);
+      },
+      '<': comparison,
+      '>': comparison,
+      '<=': comparison,
+      '>=': comparison,
+      'is-eq': (node, args, env) => {
+        this.checkArgCount(node, args, 1, Infinity);
+        this.sameTypes('is-eq', args, env);
+        return T.bool;
+      },
+      'and': logical,
+      'or': logical,
+      'not': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.expectType(T.bool, args[0], env, "argument of 'not'");
+        return T.bool;
+      },
+      'to-int': fixed([T.uint], T.int),
+      'to-uint': fixed([T.int], T.uint),
+
+      // control flow
+      'if': (node, args, env) => {
+        if (!this.arity(node, args, env, 3)) return T.unknown;
+        this.expectType(T.bool, args[0], env, "'if' condition");
+        const then = this.typeOf(args[1], env);
+        const otherwise = this.typeOf(args[2], env);
+        const result = leastSupertype(then, otherwise);
+        if (!result) {
+          this.error(`'if' branches have incompatible types: ${typeToString(then)} and ${typeToString(otherwise)}`, args[2]);
+          return then;
+        }
+        return result;
+      },
+      'begin': (node, args, env) => {
+        if (!this.checkArgCount(node, args, 1, Infinity)) return T.unknown;
+        return this.typeOfBody(args, env);
+      },
+      'let': (node, args, env) => {
+        if (!this.checkArgCount(node, args, 2, Infinity)) return T.unknown;
+        const [bindings, ...body] = args;
+        if (!isList(bindings)) {
+          this.error("'let' expects a list of bindings such as ((name value) ...)", bindings);
+          return T.unknown;
+        }
+        let scope = env;
+        for (const binding of bindings.items) {
+          if (!isList(binding) || binding.items.length !== 2 || binding.items[0].kind !== 'atom') {
+            this.error("Malformed 'let' binding: expected (name value)", binding);
+            continue;
+          }
+          const [name, value] = binding.items as [AtomNode, ClarityNode];
+          // Each binding can see the ones before it
+          scope = this.withLocals(scope, [[name.name, this.typeOf(value, scope)]]);
+        }
+        return this.typeOfBody(body, scope);
+      },
+      'asserts!': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.bool;
+        this.expectType(T.bool, args[0], env, "'asserts!' condition");
+        this.earlyReturn(env, this.typeOf(args[1], env), args[1]);
+        return T.bool;
+      },
+      'unwrap!': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const input = this.typeOf(args[0], env);
+        this.earlyReturn(env, this.typeOf(args[1], env), args[1]);
+        if (input.kind === 'optional') return input.inner;
+        if (input.kind === 'response') return input.ok;
+        if (input.kind !== 'unknown') this.error(`'unwrap!' expects an optional or response, found ${typeToString(input)}`, args[0]);
+        return T.unknown;
+      },
+      'unwrap-err!': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const input = this.typeOf(args[0], env);
+        this.earlyReturn(env, this.typeOf(args[1], env), args[1]);
+        if (input.kind === 'response') return input.err;
+        if (input.kind !== 'unknown') this.error(`'unwrap-err!' expects a response, found ${typeToString(input)}`, args[0]);
+        return T.unknown;
+      },
+      'unwrap-panic': (node, args, env) => {
+        if (!this.arity(node, args, env, 1)) return T.unknown;
+        const input = this.typeOf(args[0], env);
+        if (input.kind === 'optional') return input.inner;
+        if (input.kind === 'response') return input.ok;
+        if (input.kind !== 'unknown') this.error(`'unwrap-panic' expects an optional or response, found ${typeToString(input)}`, args[0]);
+        return T.unknown;
+      },
+      'unwrap-err-panic': (node, args, env) => {
+        if (!this.arity(node, args, env, 1)) return T.unknown;
+        const input = this.typeOf(args[0], env);
+        if (input.kind === 'response') return input.err;
+        if (input.kind !== 'unknown') this.error(`'unwrap-err-panic' expects a response, found ${typeToString(input)}`, args[0]);
+        return T.unknown;
+      },
+      'try!': (node, args, env) => {
+        if (!this.arity(node, args, env, 1)) return T.unknown;
+        const input = this.typeOf(args[0], env);
+        if (input.kind === 'optional') {
+          this.earlyReturn(env, T.optional(T.noType), args[0]);
+          return input.inner;
+        }
+        if (input.kind === 'response') {
+          this.earlyReturn(env, T.response(T.noType, input.err), args[0]);
+          return input.ok;
+        }
+        if (input.kind !== 'unknown') this.error(`'try!' expects an optional or response, found ${typeToString(input)}`, args[0]);
+        return T.unknown;
+      },
+      'ok': (node, args, env) => this.arity(node, args, env, 1) ? T.response(this.typeOf(args[0], env), T.noType) : T.unknown,
+      'err': (node, args, env) => this.arity(node, args, env, 1) ? T.response(T.noType, this.typeOf(args[0], env)) : T.unknown,
+      'some': (node, args, env) => this.arity(node, args, env, 1) ? T.optional(this.typeOf(args[0], env)) : T.unknown,
+      'default-to': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const fallback = this.typeOf(args[0], env);
+        const input = this.typeOf(args[1], env);
+        if (input.kind === 'unknown') return fallback;
+        if (input.kind !== 'optional') {
+          this.error(`'default-to' expects an optional, found ${typeToString(input)}`, args[1]);
+          return fallback;
+        }
+        const result = leastSupertype(fallback, input.inner);
+        if (!result) {
+          this.error(`'default-to' default value ${typeToString(fallback)} does not match ${typeToString(input.inner)}`, args[0]);
+          return fallback;
+        }
+        return result;
+      },
+      'is-ok': (node, args, env) => this.checkWrapper(node, args, env, 'response'),
+      'is-err': (node, args, env) => this.checkWrapper(node, args, env, 'response'),
+      'is-some': (node, args, env) => this.checkWrapper(node, args, env, 'optional'),
+      'is-none': (node, args, env) => this.checkWrapper(node, args, env, 'optional'),
+      'match': (node, args, env) => this.typeOfMatch(node, args, env),
+
+      // data
+      'var-get': (node, args, env) => {
+        if (!this.arity(node, args, env, 1)) return T.unknown;
+        const name = this.atomArg(args[0], 'a data variable');
+        if (!name) return T.unknown;
+        const type = this.dataVars.get(name);
+        if (!type) this.error(`Undefined data variable '${name}'`, args[0]);
+        return type ?? T.unknown;
+      },
+      'var-set': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.bool;
+        const name = this.atomArg(args[0], 'a data variable');
+        const type = name ? this.dataVars.get(name) : undefined;
+        if (name && !type) this.error(`Undefined data variable '${name}'`, args[0]);
+        this.expectType(type ?? T.unknown, args[1], env, `value of '${name}'`);
+        return T.bool;
+      },
+      'map-get?': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const map = this.mapArg(args[0]);
+        this.expectType(map?.key ?? T.unknown, args[1], env, `key of map '${listName(args[0])}'`);
+        return map ? T.optional(map.value) : T.unknown;
+      },
+      'map-set': (node, args, env) => this.mapWrite(node, args, env),
+      'map-insert': (node, args, env) => this.mapWrite(node, args, env),
+      'map-delete': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.bool;
+        const map = this.mapArg(args[0]);
+        this.expectType(map?.key ?? T.unknown, args[1], env, `key of map '${listName(args[0])}'`);
+        return T.bool;
+      },
+      'get': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const field = this.atomArg(args[0], 'a tuple field');
+        const input = this.typeOf(args[1], env);
+        const tuple = input.kind === 'optional' ? input.inner : input;
+        if (!field || tuple.kind === 'unknown' || tuple.kind === 'no-type') return T.unknown;
+        if (tuple.kind !== 'tuple') {
+          this.error(`'get' expects a tuple, found ${typeToString(input)}`, args[1]);
+          return T.unknown;
+        }
+        const found = tuple.fields.find(f => f.name === field);
+        if (!found) {
+          this.error(`Tuple has no field '${field}' (fields: ${tuple.fields.map(f => f.name).join(', ')})`, args[0]);
+          return T.unknown;
+        }
+        return input.kind === 'optional' ? T.optional(found.type) : found.type;
+      },
+      'merge': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const [a, b] = args.map(arg => this.typeOf(arg, env));
+        if (a.kind !== 'tuple' || b.kind !== 'tuple') return T.unknown;
+        const fields: TupleField[] = [...a.fields.filter(f => !b.fields.some(g => g.name === f.name)), ...b.fields];
+        return { kind: 'tuple', fields };
+      },
+      'tuple': (node, args, env) => {
+        const fields: TupleField[] = [];
+        for (const entry of args) {
+          if (!isList(entry) || entry.items.length !== 2 || entry.items[0].kind !== 'atom') {
+            this.error("Malformed tuple entry: expected (name value)", entry);
+            continue;
+          }
+          fields.push({ name: (entry.items[0] as AtomNode).name, type: this.typeOf(entry.items[1], env) });
+        }
+        return { kind: 'tuple', fields };
+      },
+
+      // sequences
+      'list': (node, args, env) => {
+        let element: ClarityType = T.noType;
+        for (const arg of args) {
+          const type = this.typeOf(arg, env);
+          const combined = leastSupertype(element, type);
+          if (!combined) {
+            this.error(`List elements must all have the same type: expected ${typeToString(element)}, found ${typeToString(type)}`, arg);
+            continue;
+          }
+          element = combined;
+        }
+        return T.list(Math.max(args.length, 1), element);
+      },
+      'len': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.expectSequence('len', args[0], env);
+        return T.uint;
+      },
+      'append': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const list = this.typeOf(args[0], env);
+        const item = this.typeOf(args[1], env);
+        if (list.kind === 'unknown') return T.unknown;
+        if (list.kind !== 'list') {
+          this.error(`'append' expects a list, found ${typeToString(list)}`, args[0]);
+          return T.unknown;
+        }
+        const element = leastSupertype(list.element, item);
+        if (!element) {
+          this.error(`Cannot append ${typeToString(item)} to a list of ${typeToString(list.element)}`, args[1]);
+          return list;
+        }
+        return T.list(list.maxLength + 1, element);
+      },
+      'concat': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const a = this.expectSequence('concat', args[0], env);
+        const b = this.expectSequence('concat', args[1], env);
+        if (a.kind === 'unknown' || b.kind === 'unknown') return T.unknown;
+        const combined = leastSupertype(a, b);
+        if (!combined) {
+          this.error(`'concat' expects two sequences of the same type: ${typeToString(a)} and ${typeToString(b)}`, args[1]);
+          return T.unknown;
+        }
+        return this.withLength(combined, this.sequenceLength(a) + this.sequenceLength(b));
+      },
+      'as-max-len?': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const seq = this.expectSequence('as-max-len?', args[0], env);
+        if (args[1].kind !== 'uint') {
+          this.error("'as-max-len?' expects a uint literal as the maximum length", args[1]);
+          return T.optional(seq);
+        }
+        return T.optional(this.withLength(seq, Number(args[1].value)));
+      },
+      'element-at': (node, args, env) => this.elementAt(node, args, env),
+      'element-at?': (node, args, env) => this.elementAt(node, args, env),
+      'index-of': (node, args, env) => this.indexOf(node, args, env),
+      'index-of?': (node, args, env) => this.indexOf(node, args, env),
+      'slice?': (node, args, env) => {
+        if (!this.arity(node, args, env, 3)) return T.unknown;
+        const seq = this.expectSequence('slice?', args[0], env);
+        this.expectType(T.uint, args[1], env, "'slice?' start index");
+        this.expectType(T.uint, args[2], env, "'slice?' end index");
+        return T.optional(seq);
+      },
+      'replace-at?': (node, args, env) => {
+        if (!this.arity(node, args, env, 3)) return T.unknown;
+        const seq = this.expectSequence('replace-at?', args[0], env);
+        this.expectType(T.uint, args[1], env, "'replace-at?' index");
+        this.expectType(this.sequenceElement(seq) ?? T.unknown, args[2], env, "'replace-at?' replacement");
+        return T.optional(seq);
+      },
+      'map': (node, args, env) => {
+        if (!this.arity(node, args, env, 2, Infinity)) return T.unknown;
+        const fn = this.functionArgument(args[0]);
+        const lists = args.slice(1).map(arg => this.expectSequence('map', arg, env));
+        const length = Math.min(...lists.map(l => this.sequenceLength(l) || Infinity));
+        return fn && Number.isFinite(length) ? T.list(length, this.inferFunction(fn)) : T.unknown;
+      },
+      'filter': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const fn = this.functionArgument(args[0]);
+        const seq = this.expectSequence('filter', args[1], env);
+        if (fn) {
+          const returns = this.inferFunction(fn);
+          if (!admits(T.bool, returns)) {
+            this.error(`'filter' function '${fn.name}' must return bool, found ${typeToString(returns)}`, args[0]);
+          }
+        }
+        return seq;
+      },
+      'fold': (node, args, env) => {
+        if (!this.arity(node, args, env, 3)) return T.unknown;
+        const fn = this.functionArgument(args[0]);
+        this.expectSequence('fold', args[1], env);
+        const initial = this.typeOf(args[2], env);
+        return fn ? leastSupertype(initial, this.inferFunction(fn)) ?? initial : initial;
+      },
+
+      // conversions & hashing
+      'int-to-ascii': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.numericType('int-to-ascii', args, env);
+        return { kind: 'string-ascii', length: 40 };
+      },
+      'int-to-utf8': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.numericType('int-to-utf8', args, env);
+        return { kind: 'string-utf8', length: 40 };
+      },
+      'string-to-int?': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.typeOf(args[0], env);
+        return T.optional(T.int);
+      },
+      'string-to-uint?': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.typeOf(args[0], env);
+        return T.optional(T.uint);
+      },
+      'buff-to-int-le': fixed([T.buff(16)], T.int),
+      'buff-to-int-be': fixed([T.buff(16)], T.int),
+      'buff-to-uint-le': fixed([T.buff(16)], T.uint),
+      'buff-to-uint-be': fixed([T.buff(16)], T.uint),
+      'to-consensus-buff?': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.typeOf(args[0], env);
+        return T.optional(T.buff(MAX_VALUE_SIZE));
+      },
+      'from-consensus-buff?': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        const type = parseTypeSignature(args[0], this.errors);
+        this.expectType(T.buff(MAX_VALUE_SIZE), args[1], env, "'from-consensus-buff?' input");
+        return T.optional(type ?? T.unknown);
+      },
+      'hash160': hash(20),
+      'sha256': hash(32),
+      'sha512': hash(64),
+      'sha512/256': hash(32),
+      'keccak256': hash(32),
+      'secp256k1-recover?': fixed([T.buff(32), T.buff(65)], T.response(T.buff(33), T.uint)),
+      'secp256k1-verify': fixed([T.buff(32), T.buff(65), T.buff(33)], T.bool),
+
+      // assets
+      'stx-transfer?': fixed([T.uint, T.principal, T.principal], tokenResponse),
+      'stx-transfer-memo?': fixed([T.uint, T.principal, T.principal, T.buff(34)], tokenResponse),
+      'stx-burn?': fixed([T.uint, T.principal], tokenResponse),
+      'stx-get-balance': fixed([T.principal], T.uint),
+      'stx-account': fixed([T.principal], {
+        kind: 'tuple',
+        fields: [
+          { name: 'locked', type: T.uint },
+          { name: 'unlock-height', type: T.uint },
+          { name: 'unlocked', type: T.uint },
+        ],
+      }),
+      'ft-mint?': fungible([T.uint, T.principal], tokenResponse),
+      'ft-transfer?': fungible([T.uint, T.principal, T.principal], tokenResponse),
+      'ft-burn?': fungible([T.uint, T.principal], tokenResponse),
+      'ft-get-balance': fungible([T.principal], T.uint),
+      'ft-get-supply': fungible([], T.uint),
+      'nft-mint?': nonFungible([T.principal], tokenResponse),
+      'nft-transfer?': nonFungible([T.principal, T.principal], tokenResponse),
+      'nft-burn?': nonFungible([T.principal], tokenResponse),
+      'nft-get-owner?': nonFungible([], T.optional(T.principal)),
+
+      // context
+      'as-contract': (node, args, env) => this.arity(node, args, env, 1) ? this.typeOf(args[0], env) : T.unknown,
+      'at-block': (node, args, env) => {
+        if (!this.arity(node, args, env, 2)) return T.unknown;
+        this.expectType(T.buff(32), args[0], env, "'at-block' block hash");
+        return this.typeOf(args[1], env);
+      },
+      'contract-call?': (node, args, env) => {
+        if (!this.checkArgCount(node, args, 2, Infinity)) return T.unknown;
+        if (args[0].kind !== 'principal') this.typeOf(args[0], env);
+        const fnName = this.atomArg(args[1], 'a function');
+        return this.externalCall(args[0], fnName, args[1], args.slice(2), env);
+      },
+      'contract-of': (node, args, env) => {
+        if (this.arity(node, args, env, 1)) this.typeOf(args[0], env);
+        return T.principal;
+      },
+      'principal-of?': fixed([T.buff(33)], T.response(T.principal, T.uint)),
+      'is-standard': fixed([T.principal], T.bool),
+      'print': (node, args, env) => this.arity(node, args, env, 1) ? this.typeOf(args[0], env) : T.unknown,
+      'get-block-info?': (node, args, env) => this.blockInfo(node, args, env),
+      'get-burn-block-info?': (node, args, env) => this.blockInfo(node, args, env),
+      'get-stacks-block-info?': (node, args, env) => this.blockInfo(node, args, env),
+      'get-tenure-info?': (node, args, env) => this.blockInfo(node, args, env),
+    };
+  }
+
+  // Calls to a contract in `externals` are checked against its functions; any other callee is unknown
+  private externalCall(target: ClarityNode, fnName: string | undefined, fnNode: ClarityNode, args: ClarityNode[], env: Env): ClarityType {
+    const contractId = target.kind === 'principal' && !target.traitName ? externalId(target) : undefined;
+    const functions = contractId ? this.externals.get(contractId)?.functions : undefined;
+    if (!functions || fnName === undefined) {
+      args.forEach(arg => this.typeOf(arg, env));
+      return T.unknown;
+    }
+
+    const fn = functions.get(fnName);
+    if (!fn) {
+      this.error(`'${contractId}' has no public or read-only function '${fnName}'`, fnNode);
+      args.forEach(arg => this.typeOf(arg, env));
+      return T.unknown;
+    }
+    if (args.length !== fn.args.length) {
+      this.error(`'${fnName}' of '${contractId}' expects ${fn.args.length} argument${fn.args.length === 1 ? '' : 's'}, found ${args.length}`, fnNode);
+      args.forEach(arg => this.typeOf(arg, env));
+      return fn.returns;
+    }
+    args.forEach((arg, i) => this.expectType(fn.args[i].type, arg, env, `argument '${fn.args[i].name}' of '${fnName}'`));
+    return fn.returns;
+  }
+
+  private checkWrapper(node: ListNode, args: ClarityNode[], env: Env, kind: 'optional' | 'response'): ClarityType {
+    if (!this.arity(node, args, env, 1)) return T.bool;
+    const input = this.typeOf(args[0], env);
+    if (input.kind !== kind && input.kind !== 'unknown') {
+      this.error(`'${listHead(node)}' expects ${kind === 'optional' ? 'an optional' : 'a response'}, found ${typeToString(input)}`, args[0]);
+    }
+    return T.bool;
+  }
+
+  private typeOfMatch(node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (!this.checkArgCount(node, args, 4, 5)) return T.unknown;
+    const input = this.typeOf(args[0], env);
+    const binding = (n: ClarityNode) => this.atomArg(n, 'a binding') ?? '_';
+
+    let branches: ClarityType[];
+    if (args.length === 4 && (input.kind === 'optional' || input.kind === 'unknown')) {
+      const inner = input.kind === 'optional' ? input.inner : T.unknown;
+      branches = [
+        this.typeOf(args[2], this.withLocals(env, [[binding(args[1]), inner]])),
+        this.typeOf(args[3], env),
+      ];
+    } else if (args.length === 5 && (input.kind === 'response' || input.kind === 'unknown')) {
+      const ok = input.kind === 'response' ? input.ok : T.unknown;
+      const err = input.kind === 'response' ? input.err : T.unknown;
+      branches = [
+        this.typeOf(args[2], this.withLocals(env, [[binding(args[1]), ok]])),
+        this.typeOf(args[4], this.withLocals(env, [[binding(args[3]), err]])),
+      ];
+    } else {
+      this.error(
+        input.kind === 'optional' || input.kind === 'response'
+          ? `'match' on ${input.kind === 'optional' ? 'an optional expects (match value some-name some-branch none-branch)' : 'a response expects (match value ok-name ok-branch err-name err-branch)'}`
+          : `'match' expects an optional or response, found ${typeToString(input)}`,
+        node
+      );
+      return T.unknown;
+    }
+
+    const result = leastSupertype(branches[0], branches[1]);
+    if (!result) {
+      this.error(`'match' branches have incompatible types: ${typeToString(branches[0])} and ${typeToString(branches[1])}`, node);
+      return branches[0];
+    }
+    return result;
+  }
+
+  private mapArg(node: ClarityNode) {
+    const name = this.atomArg(node, 'a map');
+    const map = name ? this.maps.get(name) : undefined;
+    if (name && !map) this.error(`Undefined map '${name}'`, node);
+    return map;
+  }
+
+  private mapWrite(node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (!this.arity(node, args, env, 3)) return T.bool;
+    const map = this.mapArg(args[0]);
+    this.expectType(map?.key ?? T.unknown, args[1], env, `key of map '${listName(args[0])}'`);
+    this.expectType(map?.value ?? T.unknown, args[2], env, `value of map '${listName(args[0])}'`);
+    return T.bool;
+  }
+
+  private elementAt(node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (!this.arity(node, args, env, 2)) return T.unknown;
+    const seq = this.expectSequence(listHead(node)!, args[0], env);
+    this.expectType(T.uint, args[1], env, 'index');
+    return T.optional(this.sequenceElement(seq) ?? T.unknown);
+  }
+
+  private indexOf(node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (!this.arity(node, args, env, 2)) return T.unknown;
+    const seq = this.expectSequence(listHead(node)!, args[0], env);
+    this.expectType(this.sequenceElement(seq) ?? T.unknown, args[1], env, 'item to find');
+    return T.optional(T.uint);
+  }
+
+  private blockInfo(node: ListNode, args: ClarityNode[], env: Env): ClarityType {
+    if (!this.arity(node, args, env, 2)) return T.unknown;
+    const property = this.atomArg(args[0], 'a block property');
+    this.expectType(T.uint, args[1], env, 'block height');
+    return T.optional(property ? BLOCK_PROPERTY_TYPES[property] ?? T.unknown : T.unknown);
+  }
+}
+
+const BLOCK_PROPERTY_TYPES: Record<string, ClarityType> = {
+  'time': T.uint,
+  'header-hash': T.buff(32),
+  'burnchain-header-hash': T.buff(32),
+  'id-header-hash': T.buff(32),
+  'vrf-seed': T.buff(32),
+  'miner-address': T.principal,
+  'block-reward': T.uint,
+  'miner-spend-total': T.uint,
+  'miner-spend-winner': T.uint,
+  'pox-addrs': T.unknown,
+};
+
+function listName(node: ClarityNode): string {
+  return node.kind === 'atom' ? node.name : '?';
+}
@@ -0,0 +1,319 @@
+import type { ClarityNode, ListNode } from './ast';
+import { Diagnostic, diagnostic } from './diagnostics';
+import { isValidIdentifier } from './parser';
+
+// Clarity's maximum serialized value size (1 MB)
+const MAX_VALUE_SIZE = 1024 * 1024;
+
+export interface TupleField {
+  name: string;
+  type: ClarityType;
+}
+
+export type ClarityType =
+  | { kind: 'int' }
+  | { kind: 'uint' }
+  | { kind: 'bool' }
+  | { kind: 'principal' }
+  | { kind: 'buff'; length: number }
+  | { kind: 'string-ascii'; length: number }
+  | { kind: 'string-utf8'; length: number }
+  | { kind: 'list'; maxLength: number; element: ClarityType }
+  | { kind: 'optional'; inner: ClarityType }
+  | { kind: 'response'; ok: ClarityType; err: ClarityType }
+  | { kind: 'tuple'; fields: TupleField[] }
+  | { kind: 'trait'; name: string }
+  // Produced only by the type checker: the unconstrained side of `none`, `(ok x)`
+  // or an empty list, and expressions it cannot infer (which never cause errors).
+  | { kind: 'no-type' }
+  | { kind: 'unknown' };
+
+const SIMPLE_TYPES = new Set(['int', 'uint', 'bool', 'principal']);
+
+/**
+ * Parse a type signature such as `uint`, `(list 10 (buff 32))` or `{ id: uint, owner: principal }`.
+ * Returns undefined (and records an error) if the signature is malformed.
+ */
+export function parseTypeSignature(node: ClarityNode, errors: Diagnostic[]): ClarityType | undefined {
+  switch (node.kind) {
+    case 'atom':
+      if (SIMPLE_TYPES.has(node.name)) return { kind: node.name } as ClarityType;
+      errors.push(diagnostic(`Unknown type '${node.name}'`, node.span));
+      return undefined;
+    case 'trait-ref':
+      return { kind: 'trait', name: node.name };
+    case 'tuple': {
+      if (node.entries.length === 0) {
+        errors.push(diagnostic('Tuple types must have at least one field', node.span));
+        return undefined;
+      }
+      const fields: TupleField[] = [];
+      for (const entry of node.entries) {
+        const type = parseTypeSignature(entry.value, errors);
+        if (!type) return undefined;
+        fields.push({ name: entry.key, type });
+      }
+      return { kind: 'tuple', fields };
+    }
+    case 'list':
+      return parseCompositeType(node, errors);
+    default:
+      errors.push(diagnostic('Expected a type signature', node.span));
+      return undefined;
+  }
+}
+
+function parseCompositeType(node: ListNode, errors: Diagnostic[]): ClarityType | undefined {
+  const [head, ...args] = node.items;
+  if (!head) {
+    errors.push(diagnostic('Empty type signature', node.span));
+    return undefined;
+  }
+  // Clarity 1 tuple shorthand: ((key type) (key type))
+  if (head.kind === 'list') return parseTupleFields(node.items, node, errors);
+  if (head.kind !== 'atom') {
+    errors.push(diagnostic('Expected a type name', head.span));
+    return undefined;
+  }
+
+  const expectArgs = (count: number): boolean => {
+    if (args.length === count) return true;
+    errors.push(diagnostic(
+      `'${head.name}' type expects ${count} argument${count === 1 ? '' : 's'}, found ${args.length}`,
+      node.span
+    ));
+    return false;
+  };
+
+  switch (head.name) {
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8': {
+      if (!expectArgs(1)) return undefined;
+      const length = parseLength(args[0], head.name, errors);
+      return length === undefined ? undefined : { kind: head.name, length };
+    }
+    case 'list': {
+      if (!expectArgs(2)) return undefined;
+      const maxLength = parseLength(args[0], 'list', errors);
+      const element = parseTypeSignature(args[1], errors);
+      if (maxLength === undefined || !element) return undefined;
+      return { kind: 'list', maxLength, element };
+    }
+    case 'optional': {
+      if (!expectArgs(1)) return undefined;
+      const inner = parseTypeSignature(args[0], errors);
+      return inner && { kind: 'optional', inner };
+    }
+    case 'response': {
+      if (!expectArgs(2)) return undefined;
+      const ok = parseTypeSignature(args[0], errors);
+      const err = parseTypeSignature(args[1], errors);
+      return ok && err ? { kind: 'response', ok, err } : undefined;
+    }
+    case 'tuple':
+      return parseTupleFields(args, node, errors);
+    default:
+      errors.push(diagnostic(`Unknown type '${head.name}'`, head.span));
+      return undefined;
+  }
+}
+
+function parseTupleFields(items: ClarityNode[], node: ListNode, errors: Diagnostic[]): ClarityType | undefined {
+  if (items.length === 0) {
+    errors.push(diagnostic('Tuple types must have at least one field', node.span));
+    return undefined;
+  }
+  const fields: TupleField[] = [];
+  for (const item of items) {
+    if (item.kind !== 'list' || item.items.length !== 2 || item.items[0].kind !== 'atom') {
+      errors.push(diagnostic('Tuple fields must be written as (name type)', item.span));
+      return undefined;
+    }
+    const name = item.items[0].name;
+    if (!isValidIdentifier(name)) {
+      errors.push(diagnostic(`Invalid tuple field name '${name}'`, item.items[0].span));
+      return undefined;
+    }
+    if (fields.some(f => f.name === name)) {
+      errors.push(diagnostic(`Duplicate tuple field '${name}'`, item.items[0].span));
+      return undefined;
+    }
+    const type = parseTypeSignature(item.items[1], errors);
+    if (!type) return undefined;
+    fields.push({ name, type });
+  }
+  return { kind: 'tuple', fields };
+}
+
+function parseLength(node: ClarityNode, typeName: string, errors: Diagnostic[]): number | undefined {
+  if (node.kind !== 'int') {
+    const hint = node.kind === 'uint' ? ' (write the length without the u prefix)' : '';
+    errors.push(diagnostic(`'${typeName}' length must be an integer literal${hint}`, node.span));
+    return undefined;
+  }
+  if (node.value <= 0n || node.value > BigInt(MAX_VALUE_SIZE)) {
+    errors.push(diagnostic(`'${typeName}' length must be between 1 and ${MAX_VALUE_SIZE}`, node.span));
+    return undefined;
+  }
+  return Number(node.value);
+}
+
+export function typeToString(type: ClarityType): string {
+  switch (type.kind) {
+    case 'int':
+    case 'uint':
+    case 'bool':
+    case 'principal':
+      return type.kind;
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return `(${type.kind} ${type.length})`;
+    case 'list':
+      return `(list ${type.maxLength} ${typeToString(type.element)})`;
+    case 'optional':
+      return `(optional ${typeToString(type.inner)})`;
+    case 'response':
+      return `(response ${typeToString(type.ok)} ${typeToString(type.err)})`;
+    case 'tuple':
+      return `{${type.fields.map(f => `${f.name}: ${typeToString(f.type)}`).join(', ')}}`;
+    case 'trait':
+      return `<${type.name}>`;
+    case 'no-type':
+      return 'NoType';
+    case 'unknown':
+      return 'UnknownType';
+  }
+}
+
+export const T = {
+  int: { kind: 'int' } as ClarityType,
+  uint: { kind: 'uint' } as ClarityType,
+  bool: { kind: 'bool' } as ClarityType,
+  principal: { kind: 'principal' } as ClarityType,
+  noType: { kind: 'no-type' } as ClarityType,
+  unknown: { kind: 'unknown' } as ClarityType,
+  buff: (length: number): ClarityType => ({ kind: 'buff', length }),
+  optional: (inner: ClarityType): ClarityType => ({ kind: 'optional', inner }),
+  response: (ok: ClarityType, err: ClarityType): ClarityType => ({ kind: 'response', ok, err }),
+  list: (maxLength: number, element: ClarityType): ClarityType => ({ kind: 'list', maxLength, element }),
+};
+
+/**
+ * Whether a value of type `actual` can be used where `expected` is declared.
+ * Unknown types are always admitted so inference gaps never turn into errors.
+ */
+export function admits(expected: ClarityType, actual: ClarityType): boolean {
+  if (expected.kind === 'unknown' || actual.kind === 'unknown') return true;
+  if (expected.kind === 'no-type' || actual.kind === 'no-type') return true;
+
+  switch (expected.kind) {
+    case 'int':
+    case 'uint':
+    case 'bool':
+      return actual.kind === expected.kind;
+    case 'principal':
+      return actual.kind === 'principal' || actual.kind === 'trait';
+    case 'trait':
+      return actual.kind === 'principal' || actual.kind === 'trait';
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return actual.kind === expected.kind && actual.length <= expected.length;
+    case 'list':
+      return actual.kind === 'list'
+        && actual.maxLength <= expected.maxLength
+        && admits(expected.element, actual.element);
+    case 'optional':
+      return actual.kind === 'optional' && admits(expected.inner, actual.inner);
+    case 'response':
+      return actual.kind === 'response' && admits(expected.ok, actual.ok) && admits(expected.err, actual.err);
+    case 'tuple': {
+      if (actual.kind !== 'tuple' || actual.fields.length !== expected.fields.length) return false;
+      return expected.fields.every(f => {
+        const other = actual.fields.find(a => a.name === f.name);
+        return other !== undefined && admits(f.type, other.type);
+      });
+    }
+  }
+}
+
+/**
+ * Whether two declared types are the same, as trait signatures require. Trait references match any trait
+ * reference, since each contract names the traits it uses with its own aliases.
+ */
+export function sameType(a: ClarityType, b: ClarityType): boolean {
+  switch (a.kind) {
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return b.kind === a.kind && b.length === a.length;
+    case 'list':
+      return b.kind === 'list' && b.maxLength === a.maxLength && sameType(a.element, b.element);
+    case 'optional':
+      return b.kind === 'optional' && sameType(a.inner, b.inner);
+    case 'response':
+      return b.kind === 'response' && sameType(a.ok, b.ok) && sameType(a.err, b.err);
+    case 'tuple': {
+      if (b.kind !== 'tuple' || b.fields.length !== a.fields.length) return false;
+      return a.fields.every(f => {
+        const other = b.fields.find(field => field.name === f.name);
+        return other !== undefined && sameType(f.type, other.type);
+      });
+    }
+    default:
+      return b.kind === a.kind;
+  }
+}
+
+/**
+ * Smallest type that admits both `a` and `b` (e.g. for the two branches of an `if`),
+ * or undefined if they are incompatible.
+ */
+export function leastSupertype(a: ClarityType, b: ClarityType): ClarityType | undefined {
+  if (a.kind === 'unknown' || b.kind === 'unknown') return T.unknown;
+  if (a.kind === 'no-type') return b;
+  if (b.kind === 'no-type') return a;
+
+  switch (a.kind) {
+    case 'int':
+    case 'uint':
+    case 'bool':
+    case 'principal':
+      return b.kind === a.kind ? a : undefined;
+    case 'trait':
+      return b.kind === 'trait' || b.kind === 'principal' ? T.principal : undefined;
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return b.kind === a.kind ? { kind: a.kind, length: Math.max(a.length, b.length) } : undefined;
+    case 'list': {
+      if (b.kind !== 'list') return undefined;
+      const element = leastSupertype(a.element, b.element);
+      return element && T.list(Math.max(a.maxLength, b.maxLength), element);
+    }
+    case 'optional': {
+      if (b.kind !== 'optional') return undefined;
+      const inner = leastSupertype(a.inner, b.inner);
+      return inner && T.optional(inner);
+    }
+    case 'response': {
+      if (b.kind !== 'response') return undefined;
+      const ok = leastSupertype(a.ok, b.ok);
+      const err = leastSupertype(a.err, b.err);
+      return ok && err ? T.response(ok, err) : undefined;
+    }
+    case 'tuple': {
+      if (b.kind !== 'tuple' || b.fields.length !== a.fields.length) return undefined;
+      const fields: TupleField[] = [];
+      for (const field of a.fields) {
+        const other = b.fields.find(f => f.name === field.name);
+        const type = other && leastSupertype(field.type, other.type);
+        if (!type) return undefined;
+        fields.push({ name: field.name, type });
+      }
+      return { kind: 'tuple', fields };
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import { AtomNode, ClarityNode, ListNode, isList, joinSpans, listHead } from './ast';
+import { BUILTIN_FUNCTIONS, ClarityVersion, LATEST_CLARITY_VERSION, isReservedName, unavailableBuiltinMessage } from './builtins';
+import { Diagnostic, ValidateResponse, diagnostic, toClarityError } from './diagnostics';
+import { isValidIdentifier, parseClarity } from './parser';
+import { ExternalContracts, typeCheckContract } from './typecheck';
+import { parseTypeSignature } from './types';
+
+/**
+ * Syntax, structure and type check used when clarinet isn't available.
+ * Reads the contract into an AST, verifies every top-level form, then type-checks it
+ * against the built-ins of the given Clarity version. `contract-call?`s to the contracts
+ * in `externals` are checked against their functions.
+ */
+export function checkClaritySource(
+  code: string,
+  version: ClarityVersion = LATEST_CLARITY_VERSION,
+  externals?: ExternalContracts
+): ValidateResponse {
+  if (!code.trim()) {
+    return { success: false, errors: [{ severity: 'error', message: 'Contract code is empty' }], warnings: [] };
+  }
+
+  const { nodes, errors } = parseClarity(code);
+  const checker = new DefinitionChecker(errors, version);
+  nodes.forEach(node => checker.checkTopLevel(node));
+
+  // Types are only meaningful once the contract is structurally sound
+  if (errors.length === 0) {
+    typeCheckContract(nodes, errors, version, externals);
+  }
+
+  return {
+    success: errors.length === 0,
+    errors: sortDiagnostics(errors).map(d => toClarityError(d)),
+    warnings: [],
+  };
+}
+
+function sortDiagnostics(diagnostics: Diagnostic[]): Diagnostic[] {
+  return [...diagnostics].sort((a, b) => (a.span?.start.offset ?? Infinity) - (b.span?.start.offset ?? Infinity));
+}
+
+class DefinitionChecker {
+  private readonly defined = new Map<string, AtomNode>();
+
+  constructor(
+    private readonly errors: Diagnostic[],
+    private readonly version: ClarityVersion
+  ) {}
+
+  checkTopLevel(node: ClarityNode) {
+    if (!isList(node)) {
+      this.error(`Unexpected ${describe(node)} at top level — expected a definition such as (define-public ...)`, node);
+      return;
+    }
+    const head = node.items[0];
+    if (!head) {
+      this.error('Empty expression at top level', node);
+      return;
+    }
+    if (head.kind !== 'atom') {
+      this.error('Expected a definition or function name at the start of a top-level expression', head);
+      return;
+    }
+
+    switch (head.name) {
+      case 'define-public':
+      case 'define-read-only':
+      case 'define-private':
+        this.checkFunction(node, head.name);
+        return;
+      case 'define-data-var':
+        if (this.checkArity(node, 4, '(define-data-var name type initial-value)')) this.checkDataVar(node);
+        return;
+      case 'define-map':
+        if (this.checkArity(node, 4, '(define-map name key-type value-type)')) this.checkMap(node);
+        return;
+      case 'define-constant':
+        if (this.checkArity(node, 3, '(define-constant name value)')) this.defineName(node.items[1]);
+        return;
+      case 'define-fungible-token':
+        this.checkFungibleToken(node);
+        return;
+      case 'define-non-fungible-token':
+        if (this.checkArity(node, 3, '(define-non-fungible-token name asset-type)')) this.checkNonFungibleToken(node);
+        return;
+      case 'define-trait':
+        if (this.checkArity(node, 3, '(define-trait name ((function-name (arg-types) response-type) ...))')) this.checkTrait(node);
+        return;
+      case 'impl-trait':
+        if (this.checkArity(node, 2, "(impl-trait 'ADDRESS.contract.trait-name)")) this.checkTraitIdentifier(node.items[1]);
+        return;
+      case 'use-trait':
+        if (this.checkArity(node, 3, "(use-trait alias 'ADDRESS.contract.trait-name)")) this.checkUseTrait(node);
+        return;
+    }
+
+    if (head.name.startsWith('define-')) {
+      this.error(`Unknown top-level form '${head.name}'`, head);
+    } else if (!BUILTIN_FUNCTIONS.has(head.name)) {
+      this.error(`Unknown top-level form '${head.name}' — expected a definition or a built-in function call`, head);
+    } else {
+      const unavailable = unavailableBuiltinMessage(head.name, this.version);
+      if (unavailable) this.error(unavailable, head);
+    }
+  }
+
+  private checkArity(node: ListNode, expected: number, usage: string): boolean {
+    if (node.items.length === expected) return true;
+    const form = listHead(node);
+    const found = node.items.length - 1;
+    this.error(`Malformed ${form}: expected ${expected - 1} argument${expected === 2 ? '' : 's'}, found ${found}. Usage: ${usage}`, node);
+    return false;
+  }
+
+  private checkFunction(node: ListNode, form: string) {
+    const usage = `(${form} (name (arg type) ...) body)`;
+    if (node.items.length !== 3) {
+      const detail = node.items.length < 3 ? 'missing function body' : 'a function takes a single body expression — wrap multiple expressions in (begin ...)';
+      this.error(`Malformed ${form}: ${detail}. Usage: ${usage}`, node);
+    }
+
+    const signature = node.items[1];
+    if (!isList(signature) || signature.items.length === 0) {
+      this.error(`Malformed ${form}: expected a signature list (name (arg type) ...). Usage: ${usage}`, signature ?? node);
+      return;
+    }
+    this.defineName(signature.items[0]);
+
+    const argNames = new Set<string>();
+    for (const arg of signature.items.slice(1)) {
+      if (!isList(arg) || arg.items.length !== 2 || arg.items[0].kind !== 'atom') {
+        this.error(`Malformed argument in ${form}: arguments must be written as (name type)`, arg);
+        continue;
+      }
+      const argName = arg.items[0];
+      if (!isValidIdentifier(argName.name)) {
+        this.error(`Invalid argument name '${argName.name}'`, argName);
+      } else if (argNames.has(argName.name)) {
+        this.error(`Duplicate argument name '${argName.name}'`, argName);
+      } else if (isReservedName(argName.name, this.version)) {
+        this.error(`Argument name '${argName.name}' is reserved by Clarity`, argName);
+      }
+      argNames.add(argName.name);
+      parseTypeSignature(arg.items[1], this.errors);
+    }
+  }
+
+  private checkDataVar(node: ListNode) {
+    this.defineName(node.items[1]);
+    parseTypeSignature(node.items[2], this.errors);
+  }
+
+  private checkMap(node: ListNode) {
+    this.defineName(node.items[1]);
+    parseTypeSignature(node.items[2], this.errors);
+    parseTypeSignature(node.items[3], this.errors);
+  }
+
+  private checkFungibleToken(node: ListNode) {
+    if (node.items.length !== 2 && node.items.length !== 3) {
+      this.error(`Malformed define-fungible-token: expected a name and an optional total supply. Usage: (define-fungible-token name [total-supply])`, node);
+      return;
+    }
+    this.defineName(node.items[1]);
+    const supply = node.items[2];
+    if (supply && supply.kind !== 'uint' && supply.kind !== 'atom' && supply.kind !== 'list') {
+      this.error('Total supply of a fungible token must be a uint', supply);
+    }
+  }
+
+  private checkNonFungibleToken(node: ListNode) {
+    this.defineName(node.items[1]);
+    parseTypeSignature(node.items[2], this.errors);
+  }
+
+  private checkTrait(node: ListNode) {
+    this.defineName(node.items[1]);
+    const body = node.items[2];
+    if (!isList(body)) {
+      this.error('Malformed define-trait: expected a list of function signatures', body);
+      return;
+    }
+    for (const fn of body.items) {
+      if (!isList(fn) || fn.items.length !== 3 || fn.items[0].kind !== 'atom' || !isList(fn.items[1])) {
+        this.error('Malformed trait function signature: expected (function-name (arg-type ...) response-type)', fn);
+        continue;
+      }
+      fn.items[1].items.forEach(arg => parseTypeSignature(arg, this.errors));
+      const returns = parseTypeSignature(fn.items[2], this.errors);
+      if (returns && returns.kind !== 'response') {
+        this.error(`Trait function '${fn.items[0].name}' must return a response type`, fn.items[2]);
+      }
+    }
+  }
+
+  private checkUseTrait(node: ListNode) {
+    const alias = node.items[1];
+    if (alias.kind !== 'atom' || !isValidIdentifier(alias.name)) {
+      this.error('Malformed use-trait: expected a trait alias name', alias);
+    }
+    this.checkTraitIdentifier(node.items[2]);
+  }
+
+  private checkTraitIdentifier(node: ClarityNode) {
+    if (node.kind !== 'principal' || !node.contractName || !node.traitName) {
+      this.error("Expected a trait identifier such as 'SP000...contract.trait-name or .contract.trait-name", node);
+    }
+  }
+
+  private defineName(node: ClarityNode | undefined) {
+    if (!node) return;
+    if (node.kind !== 'atom') {
+      this.error(`Expected a name, found ${describe(node)}`, node);
+      return;
+    }
+    if (!isValidIdentifier(node.name)) return; // already reported by the reader
+    if (isReservedName(node.name, this.version)) {
+      this.error(`'${node.name}' is reserved by Clarity and cannot be redefined`, node);
+      return;
+    }
+    const previous = this.defined.get(node.name);
+    if (previous) {
+      this.error(`'${node.name}' is already defined at line ${previous.span.start.line}`, node);
+      return;
+    }
+    this.defined.set(node.name, node);
+  }
+
+  private error(message: string, node: ClarityNode) {
+    // Point list errors at the opening paren and head so they don't underline the whole body
+    const span = isList(node) && node.items[0] ? joinSpans(node.span, node.items[0].span) : node.span;
+    this.errors.push(diagnostic(message, span));
+  }
+}
+
+function describe(node: ClarityNode): string {
+  switch (node.kind) {
+    case 'atom': return `identifier '${node.name}'`;
+    case 'list': return 'expression';
+    case 'tuple': return 'tuple';
+    case 'trait-ref': return 'trait reference';
+    case 'string': return 'string literal';
+    case 'buffer': return 'buffer literal';
+    case 'principal': return 'principal literal';
+    default: return `${node.kind} literal`;
+  }
+}
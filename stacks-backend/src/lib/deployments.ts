@@ -0,0 +1,96 @@
+import type { Request } from 'express';
+import { TxOutcome, waitForSettlement } from './txTracker';
+import { getUserIdFromToken, isSupabaseConfigured, supabaseRequest } from './supabase';
+import { NetworkTarget, isServerNetwork, networkOfDeployment } from './networks';
+
+export type DeploymentStatus = 'pending' | 'confirmed' | 'failed' | 'dropped';
+
+/** A deployment that cannot be watched for this request; `status` is the HTTP status to answer with */
+export class DeploymentError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'DeploymentError';
+  }
+}
+
+const STATUS_BY_OUTCOME: Partial<Record<TxOutcome, DeploymentStatus>> = {
+  success: 'confirmed',
+  abort_by_response: 'failed',
+  abort_by_post_condition: 'failed',
+  dropped: 'dropped',
+};
+
+// Rows store the txid as broadcast, with or without the 0x prefix
+function txIdFilter(txId: string): string {
+  const bare = txId.replace(/^0x/, '');
+  return `tx_id=in.(${bare},0x${bare})`;
+}
+
+async function updateDeploymentStatus(txId: string, status: DeploymentStatus, userId?: string): Promise<void> {
+  const owner = userId ? `&user_id=eq.${userId}` : '';
+  await supabaseRequest(`deployments?${txIdFilter(txId)}${owner}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ status }),
+  });
+}
+
+/**
+ * Record a deploy's final status on its `deployments` row once the transaction settles on `network`,
+ * only on `userId`'s rows when given. Returns whether it is watched: not when Supabase is not configured,
+ * nor on a custom network or API, whose answers the server does not trust to write rows. A watch that
+ * times out leaves the row pending.
+ */
+export function watchDeployment(txId: string, network: NetworkTarget, userId?: string): boolean {
+  if (!isSupabaseConfigured() || !isServerNetwork(network)) return false;
+  waitForSettlement(txId, network)
+    .then(settlement => {
+      const status = STATUS_BY_OUTCOME[settlement.status];
+      return status && updateDeploymentStatus(txId, status, userId);
+    })
+    .catch(err => console.warn(`Could not record status of deployment ${txId}:`, err instanceof Error ? err.message : err));
+  return true;
+}
+
+/**
+ * Watch the request's signed-in user's deployments row for `txId`, on the network stored on the row,
+ * and return whether it is watched. Throws a DeploymentError when the user is signed out or has no such row.
+ */
+export async function watchOwnDeployment(req: Request, txId: string): Promise<boolean> {
+  if (!isSupabaseConfigured()) {
+    throw new DeploymentError('Deployment tracking needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY', 500);
+  }
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const userId = token && await getUserIdFromToken(token);
+  if (!userId) {
+    throw new DeploymentError('Sign in to track your deployments', 401);
+  }
+
+  const response = await supabaseRequest(
+    `deployments?${txIdFilter(txId)}&user_id=eq.${userId}&select=network,api_url:metadata->>api_url&limit=1`
+  );
+  const [row] = await response.json() as Array<{ network: string; api_url: string | null }>;
+  if (!row) {
+    throw new DeploymentError('Deployment not found', 404);
+  }
+  if (row.network === 'stacks-custom') return false;
+  return watchDeployment(txId, networkOfDeployment(row.network, row.api_url), userId);
+}
+
+/** Resume watching deployments that were still pending when the server last stopped */
+export async function resumePendingDeployments(): Promise<void> {
+  if (!isSupabaseConfigured()) return;
+  try {
+    const response = await supabaseRequest('deployments?status=eq.pending&network=neq.stacks-custom&select=tx_id,user_id,network,api_url:metadata->>api_url');
+    const rows = await response.json() as Array<{ tx_id: string; user_id: string; network: string; api_url: string | null }>;
+    // Staggered so a backlog of rows doesn't burst the Stacks API
+    rows.forEach((row, i) => setTimeout(() => {
+      try {
+        watchDeployment(row.tx_id, networkOfDeployment(row.network, row.api_url), row.user_id);
+      } catch (err) {
+        console.warn(`Cannot watch deployment ${row.tx_id} on ${row.network}:`, err instanceof Error ? err.message : err);
+      }
+    }, i * 500));
+  } catch (err) {
+    console.warn('Could not load pending deployments:', err instanceof Error ? err.message : err);
+  }
+}
@@ -0,0 +1,79 @@
+import { StacksTransaction, estimateTransaction, estimateTransactionByteLength } from '@stacks/transactions';
+import { NetworkTarget } from './networks';
+
+export type FeeLevel = 'low' | 'medium' | 'high';
+
+export interface FeeEstimate {
+  level: FeeLevel;
+  // µSTX for the whole transaction
+  fee: string;
+  // µSTX per byte
+  feeRate: number;
+}
+
+export interface FeeEstimates {
+  estimates: FeeEstimate[];
+  byteLength: number;
+  // 'node' when the node estimated this payload, 'transfer-rate' when it had no estimate and the
+  // per-byte rate for transfers was used instead
+  source: 'node' | 'transfer-rate';
+}
+
+const LEVELS: FeeLevel[] = ['low', 'medium', 'high'];
+// Spread applied to the transfer rate, which is a single number
+const TRANSFER_RATE_MULTIPLIERS = [1, 1.5, 2.5];
+// The mempool rejects transactions paying less than 1 µSTX per byte
+const MIN_FEE_RATE = 1;
+
+async function getTransferFeeRate(network: NetworkTarget): Promise<number> {
+  const response = await fetch(`${network.apiUrl}/v2/fees/transfer`);
+  if (!response.ok) throw new Error(`Stacks API returned ${response.status}`);
+  return Number(await response.json());
+}
+
+/**
+ * Low, medium and high fees for a signed transaction, from the node's fee-rate estimate for its
+ * payload and its serialized size
+ */
+export async function estimateFees(transaction: StacksTransaction, network: NetworkTarget): Promise<FeeEstimates> {
+  const byteLength = estimateTransactionByteLength(transaction);
+  const floor = (fee: number) => Math.max(Math.ceil(fee), byteLength * MIN_FEE_RATE);
+
+  try {
+    const estimations = await estimateTransaction(transaction.payload, byteLength, network.stacks);
+    return {
+      estimates: estimations.map((estimation, i) => ({
+        level: LEVELS[i],
+        fee: String(floor(estimation.fee)),
+        feeRate: estimation.fee_rate,
+      })),
+      byteLength,
+      source: 'node',
+    };
+  } catch (err) {
+    // New contracts and rarely called functions have no cost history, so the node answers NoEstimateAvailable
+    console.warn('No fee estimate from the node, using the transfer fee rate:', err instanceof Error ? err.message : err);
+  }
+
+  const rate = Math.max(await getTransferFeeRate(network), MIN_FEE_RATE);
+  return {
+    estimates: LEVELS.map((level, i) => ({
+      level,
+      fee: String(floor(rate * TRANSFER_RATE_MULTIPLIERS[i] * byteLength)),
+      feeRate: rate * TRANSFER_RATE_MULTIPLIERS[i],
+    })),
+    byteLength,
+    source: 'transfer-rate',
+  };
+}
+
+/** The medium estimate, or `fallback` if the API cannot be reached */
+export async function defaultFee(transaction: StacksTransaction, network: NetworkTarget, fallback: bigint): Promise<bigint> {
+  try {
+    const { estimates } = await estimateFees(transaction, network);
+    return BigInt(estimates[1].fee);
+  } catch (err) {
+    console.warn('Fee estimation failed, using the fallback fee:', err instanceof Error ? err.message : err);
+    return fallback;
+  }
+}
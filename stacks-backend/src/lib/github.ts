@@ -0,0 +1,254 @@
+import { createHash } from 'crypto';
+
+// GitHub's REST API. GITHUB_API_URL points it at GitHub Enterprise or a local mock server. Writes use the token of
+// the user's connected GitHub account; GITHUB_TOKEN, when set, is sent with reads of public repositories to get past
+// the anonymous rate limit.
+const GITHUB_API_URL = (process.env.GITHUB_API_URL || 'https://api.github.com').replace(/\/$/, '');
+const GITHUB_TOKEN = process.env.GITHUB_TOKEN;
+
+// Clarity repositories are small; anything bigger is not worth holding in memory
+const MAX_ARCHIVE_BYTES = 25 * 1024 * 1024;
+
+const FILE_MODE = '100644';
+
+/** A failed GitHub request; `status` is the HTTP status to answer with */
+export class GitHubError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'GitHubError';
+  }
+}
+
+/** A repository, optionally at a branch and a folder of it */
+export interface RepoLocation {
+  owner: string;
+  repo: string;
+  ref?: string;
+  path?: string;
+}
+
+/** A file in a repository's tree at some commit */
+export interface TreeFile {
+  path: string;
+  // The git blob id of its content (see gitBlobSha)
+  sha: string;
+}
+
+/** A file to write in a commit, or to delete when `content` is null */
+export interface FileChange {
+  path: string;
+  content: string | null;
+}
+
+export interface RepoInfo {
+  fullName: string;
+  description: string | null;
+  defaultBranch: string;
+  isPrivate: boolean;
+  htmlUrl: string;
+}
+
+/**
+ * Read a repository URL: https://github.com/owner/repo, with or without .git, /tree/<branch>/<folder>,
+ * git@github.com:owner/repo.git or just owner/repo. Branch names containing '/' are not supported.
+ */
+export function parseRepoUrl(url: string): RepoLocation | undefined {
+  const trimmed = url.trim().replace(/[?#].*$/, '');
+  const match = trimmed.match(/^(?:(?:https?:\/\/)?(?:www\.)?github\.com[/:]|git@github\.com:)?([\w.-]+)\/([\w.-]+?)(?:\.git)?(?:\/tree\/([^/]+)(?:\/(.+?))?)?\/?$/i);
+  if (!match) return undefined;
+  const [, owner, repo, ref, path] = match;
+  return { owner, repo, ref, path: path?.replace(/\/+$/, '') || undefined };
+}
+
+function repoPath(owner: string, repo: string): string {
+  return `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+}
+
+// Branch names may contain '/', which GitHub expects as is in ref and branch URLs
+function refPath(branch: string): string {
+  return branch.split('/').map(encodeURIComponent).join('/');
+}
+
+async function githubFetch(path: string, init: RequestInit = {}, token = GITHUB_TOKEN): Promise<Response> {
+  const response = await fetch(`${GITHUB_API_URL}${path}`, {
+    ...init,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+    },
+  });
+  if (response.ok) return response;
+
+  const body = await response.json().catch(() => ({})) as { message?: string };
+  const message = body.message ?? response.statusText;
+  if (response.status === 401) {
+    throw new GitHubError('GitHub rejected the access token. Connect your GitHub account again', 401);
+  }
+  if (response.status === 403 || response.status === 429) {
+    // Anonymous requests are limited to 60 an hour per server; a token may also lack the repo scope
+    throw new GitHubError(`GitHub refused the request: ${message}`, response.status);
+  }
+  if (response.status === 404 || response.status === 409 || response.status === 422) {
+    throw new GitHubError(`GitHub: ${message}`, response.status);
+  }
+  throw new GitHubError(`GitHub returned ${response.status}: ${message}`, 502);
+}
+
+// undefined for a 404, which GitHub also answers for private repositories the token can't see
+async function githubFetchOptional(path: string, token?: string): Promise<Response | undefined> {
+  try {
+    return await githubFetch(path, {}, token);
+  } catch (err) {
+    if (err instanceof GitHubError && err.status === 404) return undefined;
+    throw err;
+  }
+}
+
+interface RepoResponse {
+  full_name: string;
+  description: string | null;
+  default_branch: string;
+  private: boolean;
+  html_url: string;
+}
+
+function toRepoInfo(data: RepoResponse): RepoInfo {
+  return {
+    fullName: data.full_name,
+    description: data.description,
+    defaultBranch: data.default_branch,
+    isPrivate: data.private,
+    htmlUrl: data.html_url,
+  };
+}
+
+/** The git blob id GitHub gives a file with this content, to tell changed files apart without downloading them */
+export function gitBlobSha(content: string): string {
+  const data = Buffer.from(content);
+  return createHash('sha1').update(`blob ${data.length}\0`).update(data).digest('hex');
+}
+
+/** The repository, or undefined if it doesn't exist or `token` can't see it */
+export async function findRepository(owner: string, repo: string, token?: string): Promise<RepoInfo | undefined> {
+  const response = await githubFetchOptional(repoPath(owner, repo), token);
+  return response && toRepoInfo(await response.json() as RepoResponse);
+}
+
+/** The account a token belongs to */
+export async function getAuthenticatedUser(token: string): Promise<{ login: string }> {
+  const response = await githubFetch('/user', {}, token);
+  const data = await response.json() as { login: string };
+  return { login: data.login };
+}
+
+/**
+ * Create a repository for the token's user, or in the organization `owner` when that is someone else. It starts with
+ * a commit holding a README, as git trees can't be written to an empty repository.
+ */
+export async function createRepository(
+  token: string,
+  owner: string,
+  repo: string,
+  options: { description?: string; isPrivate: boolean }
+): Promise<RepoInfo> {
+  const { login } = await getAuthenticatedUser(token);
+  const path = owner.toLowerCase() === login.toLowerCase() ? '/user/repos' : `/orgs/${encodeURIComponent(owner)}/repos`;
+  const response = await githubFetch(path, {
+    method: 'POST',
+    body: JSON.stringify({ name: repo, description: options.description, private: options.isPrivate, auto_init: true }),
+  }, token);
+  return toRepoInfo(await response.json() as RepoResponse);
+}
+
+/** The commit a branch points to and its tree, or undefined if there is no such branch */
+export async function findBranchHead(
+  owner: string,
+  repo: string,
+  branch: string,
+  token?: string
+): Promise<{ commitSha: string; treeSha: string } | undefined> {
+  const response = await githubFetchOptional(`${repoPath(owner, repo)}/branches/${refPath(branch)}`, token);
+  if (!response) return undefined;
+  const data = await response.json() as { commit: { sha: string; commit: { tree: { sha: string } } } };
+  return { commitSha: data.commit.sha, treeSha: data.commit.commit.tree.sha };
+}
+
+/** Every file in a tree, recursively */
+export async function getTreeFiles(owner: string, repo: string, treeSha: string, token?: string): Promise<TreeFile[]> {
+  const response = await githubFetch(`${repoPath(owner, repo)}/git/trees/${treeSha}?recursive=1`, {}, token);
+  const data = await response.json() as { tree: Array<{ path: string; sha: string; type: string }> };
+  return data.tree.filter(entry => entry.type === 'blob').map(({ path, sha }) => ({ path, sha }));
+}
+
+/** A file's content, read as UTF-8 */
+export async function getBlobContent(owner: string, repo: string, sha: string, token?: string): Promise<string> {
+  const response = await githubFetch(`${repoPath(owner, repo)}/git/blobs/${sha}`, {}, token);
+  const data = await response.json() as { content: string; encoding: string };
+  return data.encoding === 'base64' ? Buffer.from(data.content, 'base64').toString('utf8') : data.content;
+}
+
+/**
+ * Commit `changes` on top of `parent` and point `branch` at the commit, creating the branch if `isNewBranch`.
+ * Moving an existing branch fails with a 422 GitHubError when it no longer points at `parent`.
+ */
+export async function commitChanges(
+  token: string,
+  owner: string,
+  repo: string,
+  options: {
+    branch: string;
+    isNewBranch: boolean;
+    parent: { commitSha: string; treeSha: string };
+    message: string;
+    changes: FileChange[];
+  }
+): Promise<{ sha: string; htmlUrl: string }> {
+  const base = repoPath(owner, repo);
+  const treeResponse = await githubFetch(`${base}/git/trees`, {
+    method: 'POST',
+    body: JSON.stringify({
+      base_tree: options.parent.treeSha,
+      tree: options.changes.map(change => change.content === null
+        ? { path: change.path, mode: FILE_MODE, type: 'blob', sha: null }
+        : { path: change.path, mode: FILE_MODE, type: 'blob', content: change.content }),
+    }),
+  }, token);
+  const tree = await treeResponse.json() as { sha: string };
+
+  const commitResponse = await githubFetch(`${base}/git/commits`, {
+    method: 'POST',
+    body: JSON.stringify({ message: options.message, tree: tree.sha, parents: [options.parent.commitSha] }),
+  }, token);
+  const commit = await commitResponse.json() as { sha: string; html_url: string };
+
+  if (options.isNewBranch) {
+    await githubFetch(`${base}/git/refs`, {
+      method: 'POST',
+      body: JSON.stringify({ ref: `refs/heads/${options.branch}`, sha: commit.sha }),
+    }, token);
+  } else {
+    await githubFetch(`${base}/git/refs/heads/${refPath(options.branch)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ sha: commit.sha, force: false }),
+    }, token);
+  }
+  return { sha: commit.sha, htmlUrl: commit.html_url };
+}
+
+/**
+ * The repository at `ref` as a zip. Its files are in one top folder, named after the repository and commit.
+ */
+export async function downloadRepository(owner: string, repo: string, ref: string): Promise<Buffer> {
+  const response = await githubFetch(`${repoPath(owner, repo)}/zipball/${encodeURIComponent(ref)}`);
+  if (Number(response.headers.get('content-length')) > MAX_ARCHIVE_BYTES) {
+    throw new GitHubError('The repository is too large to import', 413);
+  }
+  const archive = Buffer.from(await response.arrayBuffer());
+  if (archive.length > MAX_ARCHIVE_BYTES) {
+    throw new GitHubError('The repository is too large to import', 413);
+  }
+  return archive;
+}
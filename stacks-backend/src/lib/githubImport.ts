@@ -0,0 +1,189 @@
+import JSZip from 'jszip';
+import { ClarityVersion, LATEST_CLARITY_VERSION } from './clarity/builtins';
+import { SIMNET_PLAN_PATH, contractReferences, createSimnetPlan } from './clarity/deploymentPlan';
+import { DEVNET_SETTINGS, manifestContractPath, removeManifestContract } from './clarity/manifest';
+import { GitHubError, RepoInfo, RepoLocation, downloadRepository, findRepository, parseRepoUrl } from './github';
+import {
+  ClarinetArchive,
+  MANIFEST_PATH,
+  ProjectFileError,
+  createProjectWithFiles,
+  newestClarityVersion,
+  readClarinetZip,
+} from './projectFiles';
+
+/** A contract a repository's Clarinet.toml declares */
+export interface GitHubContract {
+  name: string;
+  path: string;
+  clarityVersion: ClarityVersion;
+  epoch?: string;
+  // The other declared contracts it refers to, which are imported along with it
+  dependencies: string[];
+}
+
+/** The Clarinet project in a public repository */
+export interface GitHubProject {
+  owner: string;
+  repo: string;
+  ref: string;
+  // The folder Clarinet.toml is in; undefined for the repository root
+  path?: string;
+  url: string;
+  name: string;
+  description: string | null;
+  contracts: GitHubContract[];
+  hasTests: boolean;
+  hasDeployments: boolean;
+}
+
+const DEVNET_SETTINGS_PATH = 'settings/Devnet.toml';
+
+function isWithin(path: string, directory: string): boolean {
+  return path === directory || path.startsWith(`${directory}/`);
+}
+
+// Of a repository, only the project's Clarinet.toml, declared contracts, tests, deployment plans and devnet
+// settings are imported; the rest (frontends, CI, docs) stays on GitHub
+function isProjectFile(path: string, declaredPaths: Set<string>): boolean {
+  return path === MANIFEST_PATH || declaredPaths.has(path) || isWithin(path, 'tests') || isWithin(path, 'deployments')
+    || path === 'settings' || path === DEVNET_SETTINGS_PATH;
+}
+
+async function loadGitHubProject(url: string): Promise<{ location: RepoLocation; info: RepoInfo; ref: string; archive: ClarinetArchive }> {
+  const location = parseRepoUrl(url);
+  if (!location) {
+    throw new GitHubError(`'${url}' is not a GitHub repository URL`, 400);
+  }
+  const info = await findRepository(location.owner, location.repo);
+  if (!info) {
+    throw new GitHubError('Repository not found. Check the URL; only public repositories can be imported', 404);
+  }
+  if (info.isPrivate) {
+    throw new GitHubError('Only public repositories can be imported', 403);
+  }
+  const ref = location.ref ?? info.defaultBranch;
+
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(await downloadRepository(location.owner, location.repo, ref));
+  } catch (err) {
+    if (err instanceof GitHubError) throw err;
+    throw new GitHubError('GitHub sent an archive that could not be read', 502);
+  }
+  // GitHub puts everything in one <owner>-<repo>-<commit>/ folder
+  const top = Object.keys(zip.files)[0]?.split('/')[0] ?? '';
+  const hasManifest = location.path
+    ? zip.file(`${top}/${location.path}/${MANIFEST_PATH}`) !== null
+    : zip.file(/(^|\/)Clarinet\.toml$/).length > 0;
+  if (!hasManifest) {
+    const where = location.path ? `'${location.path}'` : 'the repository';
+    throw new ProjectFileError(`There is no Clarinet.toml in ${where}. Only Clarinet projects can be imported`, 400);
+  }
+  const archive = await readClarinetZip(zip, {
+    folder: location.path ? `${top}/${location.path}/` : undefined,
+    include: (path, manifest) => isProjectFile(path, new Set(manifest.contracts.map(manifestContractPath).filter(Boolean) as string[])),
+  });
+  return { location, info, ref, archive };
+}
+
+function describeContracts(archive: ClarinetArchive): GitHubContract[] {
+  const names = new Set(archive.manifest.contracts.map(contract => contract.name));
+  return archive.manifest.contracts.map(contract => {
+    const path = manifestContractPath(contract)!;
+    const references = contractReferences(archive.entries.get(path) ?? '');
+    return {
+      name: contract.name,
+      path,
+      clarityVersion: contract.clarityVersion ?? LATEST_CLARITY_VERSION,
+      epoch: contract.epoch,
+      dependencies: [...new Set(references)].filter(name => name !== contract.name && names.has(name)),
+    };
+  });
+}
+
+/**
+ * Find the Clarinet project in a public repository, at the folder the URL points to or the one nearest the root,
+ * and list the contracts its Clarinet.toml declares
+ */
+export async function inspectGitHubProject(url: string): Promise<GitHubProject> {
+  const { location, info, ref, archive } = await loadGitHubProject(url);
+  const paths = [...archive.entries.keys()];
+  return {
+    owner: location.owner,
+    repo: location.repo,
+    ref,
+    path: location.path,
+    url: `${info.htmlUrl}/tree/${ref}${location.path ? `/${location.path}` : ''}`,
+    name: archive.manifest.name?.trim() || location.repo,
+    description: archive.manifest.description || info.description,
+    contracts: describeContracts(archive),
+    hasTests: paths.some(path => path.startsWith('tests/')),
+    hasDeployments: paths.some(path => path.startsWith('deployments/')),
+  };
+}
+
+/**
+ * Create a project for `userId` from the Clarinet project in a public repository. `contracts` picks the contracts
+ * to import, along with the contracts they depend on (all of them if omitted); the others are left out of
+ * Clarinet.toml. Tests come along as they are. Deployment plans do too when every contract is imported; otherwise
+ * only a default simnet plan for the imported contracts is written.
+ */
+export async function importGitHubProject(
+  userId: string,
+  url: string,
+  options: { contracts?: string[]; name?: string; description?: string }
+): Promise<{ projectId: string; name: string }> {
+  const { location, info, archive } = await loadGitHubProject(url);
+  const { entries, manifest } = archive;
+  const contracts = describeContracts(archive);
+  const byName = new Map(contracts.map(contract => [contract.name, contract]));
+
+  const picked = new Set<string>();
+  const pick = (name: string) => {
+    if (picked.has(name)) return;
+    picked.add(name);
+    byName.get(name)!.dependencies.forEach(pick);
+  };
+  for (const name of options.contracts ?? [...byName.keys()]) {
+    if (!byName.has(name)) {
+      throw new ProjectFileError(`Clarinet.toml has no contract named '${name}'`, 400);
+    }
+    pick(name);
+  }
+  if (contracts.length > 0 && picked.size === 0) {
+    throw new ProjectFileError('Pick at least one contract to import', 400);
+  }
+
+  if (picked.size < contracts.length) {
+    let manifestText = entries.get(MANIFEST_PATH) ?? '';
+    for (const contract of contracts.filter(contract => !picked.has(contract.name))) {
+      entries.delete(contract.path);
+      manifestText = removeManifestContract(manifestText, contract.name);
+    }
+    entries.set(MANIFEST_PATH, manifestText);
+
+    // The repository's plans would publish the contracts that were left out
+    for (const path of [...entries.keys()]) {
+      if (isWithin(path, 'deployments') && path !== 'deployments') entries.delete(path);
+    }
+    entries.set('deployments', undefined);
+    entries.set(SIMNET_PLAN_PATH, createSimnetPlan(contracts.filter(contract => picked.has(contract.name)).map(contract => ({
+      ...contract,
+      code: entries.get(contract.path) ?? '',
+    }))));
+  }
+  // Clarinet needs a devnet deployer to check the project
+  if (!entries.has(DEVNET_SETTINGS_PATH)) {
+    entries.set('settings', undefined);
+    entries.set(DEVNET_SETTINGS_PATH, DEVNET_SETTINGS);
+  }
+
+  const name = options.name?.trim() || manifest.name?.trim() || location.repo;
+  const projectId = await createProjectWithFiles(userId, {
+    name,
+    description: options.description?.trim() || manifest.description || info.description,
+    clarityVersion: newestClarityVersion({ contracts: manifest.contracts.filter(contract => picked.has(contract.name)) }),
+  }, entries);
+  return { projectId, name };
+}
@@ -0,0 +1,89 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The project's files, the GitHub repository (empty) and what was done to GitHub
+let projectFiles = new Map<string, string | undefined>();
+let repository: { htmlUrl: string; defaultBranch: string } | undefined;
+const commits: Array<{ changes: unknown[] }> = [];
+const createdRepositories: string[] = [];
+
+vi.mock('./supabase', () => ({
+  supabaseRequest: async (path: string) =>
+    new Response(JSON.stringify(path.startsWith('github_connections') ? [{ login: 'alice', access_token: 'token' }] : [])),
+}));
+
+vi.mock('./projectFiles', async importOriginal => ({
+  ...await importOriginal<typeof import('./projectFiles')>(),
+  readProjectSnapshot: async () => new Map(projectFiles),
+  snapshotProject: async () => new Map(projectFiles),
+}));
+
+vi.mock('./github', async importOriginal => ({
+  ...await importOriginal<typeof import('./github')>(),
+  findRepository: async () => repository,
+  findBranchHead: async () => repository && { commitSha: 'head-1', treeSha: 'tree-1' },
+  getTreeFiles: async () => [],
+  createRepository: async (_token: string, owner: string, repo: string) => {
+    createdRepositories.push(`${owner}/${repo}`);
+    return { htmlUrl: `https://github.com/${owner}/${repo}`, defaultBranch: 'main' };
+  },
+  commitChanges: async (_token: string, _owner: string, _repo: string, options: { changes: unknown[] }) => {
+    commits.push(options);
+    return { sha: 'commit-2', htmlUrl: 'https://github.com/alice/counter/commit/commit-2' };
+  },
+}));
+
+const { ProjectFileError } = await import('./projectFiles');
+const { previewPublish, publishProject } = await import('./githubPublish');
+
+const PROJECT = { id: 'project-1', name: 'Counter', code: '', clarityVersion: 3 as const };
+const TARGET = { repo: 'counter', branch: 'main' };
+
+beforeEach(() => {
+  projectFiles = new Map([
+    ['Clarinet.toml', '[project]\nname = "Counter"\n'],
+    ['contracts', undefined],
+    ['contracts/counter.clar', '(define-data-var count uint u0)'],
+  ]);
+  repository = { htmlUrl: 'https://github.com/alice/counter', defaultBranch: 'main' };
+  commits.length = 0;
+  createdRepositories.length = 0;
+});
+
+describe('publishProject', () => {
+  it('pushes the changes the preview listed', async () => {
+    const preview = await previewPublish(PROJECT, 'user-1', TARGET);
+
+    const result = await publishProject(PROJECT, 'user-1', TARGET, {
+      message: 'Publish', isPrivate: false, head: preview.head, digest: preview.digest,
+    });
+
+    expect(result.changed).toBe(preview.changes.length);
+    expect(commits).toHaveLength(1);
+  });
+
+  it('pushes nothing when the project changed since the preview', async () => {
+    const preview = await previewPublish(PROJECT, 'user-1', TARGET);
+    projectFiles.set('contracts/counter.clar', '(define-data-var count uint u42)');
+
+    const publishing = publishProject(PROJECT, 'user-1', TARGET, {
+      message: 'Publish', isPrivate: false, head: preview.head, digest: preview.digest,
+    });
+
+    await expect(publishing).rejects.toThrow(ProjectFileError);
+    await expect(publishing).rejects.toMatchObject({ status: 409 });
+    expect(commits).toHaveLength(0);
+  });
+
+  it('checks the preview before creating a new repository', async () => {
+    repository = undefined;
+    const preview = await previewPublish(PROJECT, 'user-1', TARGET);
+    projectFiles.set('contracts/token.clar', '(define-fungible-token token)');
+
+    const publishing = publishProject(PROJECT, 'user-1', TARGET, {
+      message: 'Publish', isPrivate: false, head: preview.head, digest: preview.digest,
+    });
+
+    await expect(publishing).rejects.toMatchObject({ status: 409 });
+    expect(createdRepositories).toEqual([]);
+  });
+});
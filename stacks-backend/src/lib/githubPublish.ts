@@ -0,0 +1,286 @@
+import { createHash } from 'crypto';
+import { manifestContractPath, parseManifest } from './clarity/manifest';
+import {
+  FileChange,
+  GitHubError,
+  commitChanges,
+  createRepository,
+  findBranchHead,
+  findRepository,
+  getAuthenticatedUser,
+  getBlobContent,
+  getTreeFiles,
+  gitBlobSha,
+} from './github';
+import { MANIFEST_PATH, ProjectFileError, ProjectRef, readProjectSnapshot, snapshotProject } from './projectFiles';
+import { supabaseRequest } from './supabase';
+
+/** The GitHub account a user connected for publishing */
+export interface GitHubConnection {
+  login: string;
+  token: string;
+}
+
+/** Where to push a project */
+export interface PublishTarget {
+  // 'name' for a repository of the connected account, or 'owner/name'
+  repo: string;
+  branch: string;
+}
+
+export interface PublishChange {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  // The file on GitHub and in the project, where it exists
+  before?: string;
+  after?: string;
+}
+
+/** What a push would change, to show before making it */
+export interface PublishPreview {
+  owner: string;
+  repo: string;
+  branch: string;
+  repoExists: boolean;
+  branchExists: boolean;
+  // The commit the branch is at; publishing fails if it has moved since
+  head: string | null;
+  changes: PublishChange[];
+  // Identifies the files and content in `changes`; publishing fails if the project no longer gives the same ones
+  digest: string;
+}
+
+export interface PublishResult {
+  repoUrl: string;
+  branch: string;
+  // Undefined when there was nothing to commit
+  commitSha?: string;
+  commitUrl?: string;
+  changed: number;
+}
+
+const README_PATH = 'README.md';
+// Directories the project owns in the repository: files in them that the project doesn't have are deleted.
+// Everything else in the repository (a frontend, CI, settings for other networks) is left alone.
+const OWNED_DIRECTORIES = ['contracts/', 'tests/', 'deployments/'];
+const NAME_RE = /^[A-Za-z0-9_.-]{1,100}$/;
+const BRANCH_RE = /^(?!\/|.*\/\/|.*\.\.|.*\/$|.*\.lock$)[A-Za-z0-9_./-]{1,200}$/;
+
+export async function getGitHubConnection(userId: string): Promise<GitHubConnection | undefined> {
+  const response = await supabaseRequest(`github_connections?user_id=eq.${userId}&select=login,access_token`);
+  const [row] = await response.json() as Array<{ login: string; access_token: string }>;
+  return row && { login: row.login, token: row.access_token };
+}
+
+/** Connect the GitHub account `token` belongs to, replacing the one connected before */
+export async function saveGitHubConnection(userId: string, token: string): Promise<{ login: string }> {
+  const { login } = await getAuthenticatedUser(token);
+  await supabaseRequest('github_connections?on_conflict=user_id', {
+    method: 'POST',
+    headers: { Prefer: 'resolution=merge-duplicates' },
+    body: JSON.stringify({ user_id: userId, login, access_token: token, updated_at: new Date().toISOString() }),
+  });
+  return { login };
+}
+
+export async function deleteGitHubConnection(userId: string): Promise<void> {
+  await supabaseRequest(`github_connections?user_id=eq.${userId}`, { method: 'DELETE' });
+}
+
+async function requireConnection(userId: string): Promise<GitHubConnection> {
+  const connection = await getGitHubConnection(userId);
+  if (!connection) {
+    throw new ProjectFileError('Connect a GitHub account to publish projects', 400);
+  }
+  return connection;
+}
+
+function resolveTarget(connection: GitHubConnection, target: PublishTarget): { owner: string; repo: string; branch: string } {
+  const [owner, repo] = target.repo.includes('/') ? target.repo.split('/', 2) : [connection.login, target.repo];
+  if (!NAME_RE.test(owner) || !NAME_RE.test(repo) || target.repo.split('/').length > 2) {
+    throw new ProjectFileError(`'${target.repo}' is not a repository name. Use 'name' or 'owner/name'`, 400);
+  }
+  if (!BRANCH_RE.test(target.branch)) {
+    throw new ProjectFileError(`'${target.branch}' is not a valid branch name`, 400);
+  }
+  return { owner, repo, branch: target.branch };
+}
+
+// A README for repositories that have none, from what Clarinet.toml says about the project
+function createReadme(projectName: string, manifestText: string): string {
+  const manifest = parseManifest(manifestText);
+  const lines = [`# ${manifest.name || projectName}`, ''];
+  if (manifest.description) lines.push(manifest.description, '');
+  if (manifest.contracts.length > 0) {
+    lines.push('## Contracts', '', '| Contract | Path | Clarity |', '| --- | --- | --- |');
+    for (const contract of manifest.contracts) {
+      lines.push(`| \`${contract.name}\` | \`${manifestContractPath(contract) ?? ''}\` | ${contract.clarityVersion ?? ''} |`);
+    }
+    lines.push('');
+  }
+  lines.push(
+    '## Development',
+    '',
+    'This is a [Clarinet](https://github.com/hirosystems/clarinet) project, published from Clarity Studio.',
+    '',
+    '```bash',
+    'clarinet check     # check the contracts',
+    'clarinet console   # deploy them on a local simnet and call them',
+    '```',
+    '',
+  );
+  return lines.join('\n');
+}
+
+// The files of a project snapshot; git has no empty directories, so those are left out
+function gitFiles(snapshot: Map<string, string | undefined>): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const [path, content] of snapshot) {
+    if (content !== undefined) files.set(path, content);
+  }
+  return files;
+}
+
+// Adds a README when neither the project nor the repository has one
+function addReadme(project: ProjectRef, files: Map<string, string>, repositoryHasReadme: boolean): void {
+  if (!files.has(README_PATH) && !repositoryHasReadme) {
+    files.set(README_PATH, createReadme(project.name, files.get(MANIFEST_PATH) ?? ''));
+  }
+}
+
+// The files to write and delete so that `remote` (path -> blob sha) holds `files`
+function diffFiles(files: Map<string, string>, remote: Map<string, string>): Array<{ path: string; status: PublishChange['status'] }> {
+  const changes: Array<{ path: string; status: PublishChange['status'] }> = [];
+  for (const [path, content] of files) {
+    const sha = remote.get(path);
+    if (sha === undefined) {
+      changes.push({ path, status: 'added' });
+    } else if (sha !== gitBlobSha(content)) {
+      changes.push({ path, status: 'modified' });
+    }
+  }
+  for (const path of remote.keys()) {
+    if (!files.has(path) && OWNED_DIRECTORIES.some(directory => path.startsWith(directory))) {
+      changes.push({ path, status: 'deleted' });
+    }
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+// Identifies a change set by what it writes: each path with its new content, or null for a deletion. A file
+// that a new repository's README turns from added into modified is the same change.
+function changesDigest(changes: FileChange[]): string {
+  return createHash('sha256').update(JSON.stringify(changes.map(change => [change.path, change.content]))).digest('hex');
+}
+
+// The files to write and delete so that `remote` holds `files`
+function fileChanges(files: Map<string, string>, remote: Map<string, string>): FileChange[] {
+  return diffFiles(files, remote).map(({ path, status }) => ({
+    path,
+    content: status === 'deleted' ? null : files.get(path)!,
+  }));
+}
+
+// Fails unless `changes` are the ones the preview identified by `digest`, so that nothing unreviewed is pushed
+function assertPreviewed(changes: FileChange[], digest: string): void {
+  if (changesDigest(changes) !== digest) {
+    throw new ProjectFileError('The project changed since the preview. Review the changes again', 409);
+  }
+}
+
+async function remoteFiles(owner: string, repo: string, treeSha: string | undefined, token: string): Promise<Map<string, string>> {
+  if (!treeSha) return new Map();
+  return new Map((await getTreeFiles(owner, repo, treeSha, token)).map(file => [file.path, file.sha]));
+}
+
+/**
+ * What pushing the project to `target` would change, with the content of each changed file before and after.
+ * A branch that doesn't exist yet is compared with the default branch it will start from.
+ */
+export async function previewPublish(project: ProjectRef, userId: string, target: PublishTarget): Promise<PublishPreview> {
+  const connection = await requireConnection(userId);
+  const { owner, repo, branch } = resolveTarget(connection, target);
+  const info = await findRepository(owner, repo, connection.token);
+  const head = info && await findBranchHead(owner, repo, branch, connection.token);
+  const base = head ?? (info && await findBranchHead(owner, repo, info.defaultBranch, connection.token));
+
+  const remote = await remoteFiles(owner, repo, base?.treeSha, connection.token);
+  // Previewing changes nothing; the project's files are only brought up to date when it is published
+  const files = gitFiles(await readProjectSnapshot(project));
+  addReadme(project, files, remote.has(README_PATH));
+  const changes = await Promise.all(diffFiles(files, remote).map(async change => ({
+    ...change,
+    before: change.status === 'added' ? undefined : await getBlobContent(owner, repo, remote.get(change.path)!, connection.token),
+    after: files.get(change.path),
+  })));
+
+  return {
+    owner,
+    repo,
+    branch,
+    repoExists: Boolean(info),
+    branchExists: Boolean(head),
+    head: head?.commitSha ?? null,
+    changes,
+    digest: changesDigest(fileChanges(files, remote)),
+  };
+}
+
+/**
+ * Push the project to `target` as one commit holding only the files that changed, creating the repository
+ * (`isPrivate` or public) or branch if needed. `head` is the commit the preview was made against and `digest`
+ * the preview's; if the branch has moved or the project changed since, nothing is pushed and the preview has to
+ * be made again.
+ */
+export async function publishProject(
+  project: ProjectRef,
+  userId: string,
+  target: PublishTarget,
+  options: { message: string; isPrivate: boolean; head: string | null; digest: string }
+): Promise<PublishResult> {
+  const connection = await requireConnection(userId);
+  const { owner, repo, branch } = resolveTarget(connection, target);
+
+  const files = gitFiles(await snapshotProject(project));
+  let info = await findRepository(owner, repo, connection.token);
+  const isNewRepo = !info;
+  if (!info) {
+    // Everything is added to a new repository, so what was reviewed is checked before creating it
+    addReadme(project, files, false);
+    assertPreviewed(fileChanges(files, new Map()), options.digest);
+    const description = parseManifest(files.get(MANIFEST_PATH) ?? '').description;
+    info = await createRepository(connection.token, owner, repo, { description, isPrivate: options.isPrivate });
+  }
+
+  const head = await findBranchHead(owner, repo, branch, connection.token);
+  if (!isNewRepo && (head?.commitSha ?? null) !== options.head) {
+    throw new ProjectFileError(`${owner}/${repo}@${branch} changed on GitHub since the preview. Review the changes again`, 409);
+  }
+  const base = head ?? await findBranchHead(owner, repo, info.defaultBranch, connection.token);
+  if (!base) {
+    throw new GitHubError(`${owner}/${repo} has no commits yet. Push an initial commit, then publish again`, 409);
+  }
+
+  const remote = await remoteFiles(owner, repo, base.treeSha, connection.token);
+  // The README GitHub creates a new repository with is replaced by the project's
+  addReadme(project, files, remote.has(README_PATH) && !isNewRepo);
+  const changes = fileChanges(files, remote);
+  assertPreviewed(changes, options.digest);
+
+  let commit: { sha: string; htmlUrl: string } | undefined;
+  if (changes.length > 0) {
+    commit = await commitChanges(connection.token, owner, repo, {
+      branch,
+      isNewBranch: !head,
+      parent: base,
+      message: options.message,
+      changes,
+    });
+  }
+
+  await supabaseRequest(`projects?id=eq.${project.id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ github_repo: `${owner}/${repo}`, github_branch: branch }),
+  });
+  return { repoUrl: info.htmlUrl, branch, commitSha: commit?.sha, commitUrl: commit?.htmlUrl, changed: changes.length };
+}
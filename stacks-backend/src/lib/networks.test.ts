@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// The allowlist is read when the module loads
+async function loadNetworks(allowlist?: string) {
+  vi.resetModules();
+  if (allowlist !== undefined) vi.stubEnv('STACKS_API_ALLOWLIST', allowlist);
+  return import('./networks');
+}
+
+describe('custom API URLs', () => {
+  beforeEach(() => {
+    vi.stubEnv('STACKS_API_ALLOWLIST', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects URLs that are not on the allowlist', async () => {
+    const { NetworkError, getNetwork } = await loadNetworks();
+    for (const apiUrl of ['http://127.0.0.1:3999', 'http://169.254.169.254', 'http://10.0.0.5', 'https://stacks-api.example.com']) {
+      expect(() => getNetwork('custom', apiUrl)).toThrow(NetworkError);
+      expect(() => getNetwork('testnet', apiUrl)).toThrow(NetworkError);
+    }
+    expect(() => getNetwork('custom', 'http://127.0.0.1:3999')).toThrow(expect.objectContaining({ status: 403 }));
+  });
+
+  it('accepts URLs on the allowlist, by origin', async () => {
+    const { getNetwork } = await loadNetworks('https://stacks-api.example.com, http://10.0.0.5:3999');
+    expect(getNetwork('custom', 'https://stacks-api.example.com/v2/').apiUrl).toBe('https://stacks-api.example.com/v2');
+    expect(getNetwork('devnet', 'http://10.0.0.5:3999').apiUrl).toBe('http://10.0.0.5:3999');
+    expect(() => getNetwork('custom', 'http://10.0.0.5:3998')).toThrow();
+  });
+
+  it('accepts the built-in networks\' own URLs', async () => {
+    const { getNetwork } = await loadNetworks();
+    expect(getNetwork('testnet', 'https://api.testnet.hiro.so/').apiUrl).toBe('https://api.testnet.hiro.so');
+  });
+
+  it('never signs through a custom network or API', async () => {
+    const { assertServerSignable, getNetwork } = await loadNetworks('https://stacks-api.example.com');
+    expect(() => assertServerSignable(getNetwork('testnet'))).not.toThrow();
+    expect(() => assertServerSignable(getNetwork('devnet'))).not.toThrow();
+    expect(() => assertServerSignable(getNetwork('mainnet'))).toThrow();
+    expect(() => assertServerSignable(getNetwork('custom', 'https://stacks-api.example.com'))).toThrow();
+    expect(() => assertServerSignable(getNetwork('testnet', 'https://stacks-api.example.com'))).toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+import type { Request } from 'express';
+import { StacksMainnet, StacksMocknet, StacksNetwork, StacksTestnet } from '@stacks/network';
+
+export type NetworkName = 'testnet' | 'mainnet' | 'devnet' | 'custom';
+
+/** The Stacks network a request reads from or broadcasts to */
+export interface NetworkTarget {
+  name: NetworkName;
+  // Stacks Blockchain API base URL, without a trailing slash
+  apiUrl: string;
+  // Mainnet addresses and transaction versions; devnets and custom APIs use testnet ones
+  isMainnet: boolean;
+  stacks: StacksNetwork;
+}
+
+/**
+ * An unknown network name or an unusable or disallowed custom API URL; `status` is the HTTP status to answer
+ * with, 403 for an API the server doesn't allow
+ */
+export class NetworkError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// A local Clarinet devnet serves the API on port 3999
+const DEFAULT_API_URLS: Record<Exclude<NetworkName, 'custom'>, string> = {
+  testnet: process.env.STACKS_TESTNET_API || 'https://api.testnet.hiro.so',
+  mainnet: process.env.STACKS_MAINNET_API || 'https://api.hiro.so',
+  devnet: process.env.STACKS_DEVNET_API || 'http://localhost:3999',
+};
+
+const NETWORK_NAMES: NetworkName[] = ['testnet', 'mainnet', 'devnet', 'custom'];
+
+// Origins of the Stacks APIs requests may point the server at besides its own, e.g.
+// STACKS_API_ALLOWLIST=https://stacks-api.example.com,http://10.0.0.5:3999. The server fetches from
+// these URLs itself, so an open list would let any caller reach hosts on its private network.
+const ALLOWED_API_ORIGINS = new Set(
+  (process.env.STACKS_API_ALLOWLIST ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      try {
+        return new URL(entry).origin;
+      } catch {
+        console.warn(`Ignoring '${entry}' in STACKS_API_ALLOWLIST: not a URL`);
+        return undefined;
+      }
+    })
+    .filter((origin): origin is string => origin !== undefined)
+);
+
+// Built once per network and API URL
+const targets = new Map<string, NetworkTarget>();
+
+function parseApiUrl(apiUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(apiUrl);
+  } catch {
+    throw new NetworkError(`'${apiUrl}' is not a valid API URL`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new NetworkError('The API URL must use http or https');
+  }
+  const normalized = url.toString().replace(/\/+$/, '');
+  const isDefault = Object.values(DEFAULT_API_URLS).some(defaultUrl => defaultUrl.replace(/\/+$/, '') === normalized);
+  if (!isDefault && !ALLOWED_API_ORIGINS.has(url.origin)) {
+    throw new NetworkError(`This server does not use the API at ${url.origin}; its operator can allow it in STACKS_API_ALLOWLIST`, 403);
+  }
+  return normalized;
+}
+
+/**
+ * The network called `name`. `apiUrl` is required for 'custom', whose addresses are testnet ones; for the
+ * other networks it replaces the default API URL, e.g. with a self-hosted stacks-blockchain-api.
+ */
+export function getNetwork(name: NetworkName, apiUrl?: string): NetworkTarget {
+  if (!NETWORK_NAMES.includes(name)) {
+    throw new NetworkError(`Unknown network '${name}'. Use ${NETWORK_NAMES.join(', ')}`);
+  }
+  if (name === 'custom' && !apiUrl) {
+    throw new NetworkError("A 'custom' network needs an apiUrl");
+  }
+  const url = apiUrl ? parseApiUrl(apiUrl) : DEFAULT_API_URLS[name as Exclude<NetworkName, 'custom'>];
+
+  const key = `${name} ${url}`;
+  let target = targets.get(key);
+  if (!target) {
+    const stacks = name === 'mainnet'
+      ? new StacksMainnet({ url })
+      : name === 'testnet'
+        ? new StacksTestnet({ url })
+        : new StacksMocknet({ url });
+    target = { name, apiUrl: url, isMainnet: name === 'mainnet', stacks };
+    targets.set(key, target);
+  }
+  return target;
+}
+
+export const DEFAULT_NETWORK = getNetwork('testnet');
+
+/**
+ * The network a request asks for in its `network` and `apiUrl` fields (the query string for GET
+ * requests), testnet when it names none
+ */
+export function resolveNetwork(req: Request): NetworkTarget {
+  const source = (req.method === 'GET' ? req.query : req.body ?? {}) as { network?: unknown; apiUrl?: unknown };
+  if (source.network === undefined) return DEFAULT_NETWORK;
+  if (typeof source.network !== 'string' || (source.apiUrl !== undefined && typeof source.apiUrl !== 'string')) {
+    throw new NetworkError('network and apiUrl must be strings');
+  }
+  return getNetwork(source.network as NetworkName, source.apiUrl as string | undefined);
+}
+
+/** Whether `network` is a built-in network on the server's own API, rather than an API a request named */
+export function isServerNetwork(network: NetworkTarget): boolean {
+  return network.name !== 'custom' && network.apiUrl === DEFAULT_API_URLS[network.name];
+}
+
+/**
+ * The server's deployer wallets hold testnet funds, so they never sign for mainnet; users deploy
+ * there from their own wallet instead. Nor do they sign through an API a request chose, which
+ * would see the wallets' transactions and feed them nonces and fees.
+ */
+export function assertServerSignable(network: NetworkTarget): void {
+  if (network.isMainnet) {
+    throw new NetworkError('The playground deployer only signs on testnet and devnet. Use your own wallet for mainnet.');
+  }
+  if (!isServerNetwork(network)) {
+    throw new NetworkError('The playground deployer only signs through the server\'s own testnet and devnet APIs. Use your own wallet on custom networks.');
+  }
+}
+
+/**
+ * The network a `deployments` row was deployed to, from its `network` column (e.g. 'stacks-testnet')
+ * and, for custom networks, the `api_url` stored in its metadata
+ */
+export function networkOfDeployment(column: string, apiUrl?: string | null): NetworkTarget {
+  return getNetwork(column.replace(/^stacks-/, '') as NetworkName, apiUrl ?? undefined);
+}
+
+/** Hiro Explorer link to a transaction; devnets and custom networks are opened through their API URL */
+export function explorerTxUrl(txId: string, network: NetworkTarget): string {
+  const chain = network.isMainnet ? 'mainnet' : 'testnet';
+  const api = network.name === 'devnet' || network.name === 'custom' ? `&api=${encodeURIComponent(network.apiUrl)}` : '';
+  return `https://explorer.hiro.so/txid/${txId}?chain=${chain}${api}`;
+}
@@ -0,0 +1,118 @@
+import { Pc, PostCondition, PostConditionMode, validateStacksAddress } from '@stacks/transactions';
+import { ArgumentError, TypedArgument, encodeArgument } from './clarity/encode';
+
+export type FungibleCondition = 'eq' | 'gt' | 'gte' | 'lt' | 'lte';
+
+/**
+ * A post-condition as sent by the client. `principal` defaults to the transaction sender; amounts
+ * are in base units (micro-STX or the token's smallest unit); `asset` is `<contract id>::<token name>`.
+ */
+export type PostConditionSpec =
+  | { type: 'stx'; principal?: string; condition: FungibleCondition; amount: string | number }
+  | { type: 'ft'; principal?: string; condition: FungibleCondition; amount: string | number; asset: string }
+  | { type: 'nft'; principal?: string; condition: 'sends' | 'does-not-send'; asset: string; tokenId: TypedArgument };
+
+/** A post-condition or mode in the request that cannot be built */
+export class PostConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PostConditionError';
+  }
+}
+
+const CONTRACT_NAME = /^[a-zA-Z]([a-zA-Z0-9]|[-_])*$/;
+const FUNGIBLE_CONDITIONS: FungibleCondition[] = ['eq', 'gt', 'gte', 'lt', 'lte'];
+
+function parsePrincipal(principal: string): string {
+  const [address, contractName, ...rest] = principal.replace(/^'/, '').split('.');
+  if (rest.length > 0 || !validateStacksAddress(address) || (contractName !== undefined && !CONTRACT_NAME.test(contractName))) {
+    throw new PostConditionError(`'${principal}' is not a valid principal`);
+  }
+  return contractName === undefined ? address : `${address}.${contractName}`;
+}
+
+function parseAsset(asset: unknown): { contractId: `${string}.${string}`; tokenName: string } {
+  const [contractId, tokenName, ...rest] = typeof asset === 'string' ? asset.split('::') : [];
+  if (!contractId || !tokenName || rest.length > 0 || !contractId.includes('.')) {
+    throw new PostConditionError('asset must look like <address>.<contract>::<token-name>');
+  }
+  return { contractId: parsePrincipal(contractId) as `${string}.${string}`, tokenName };
+}
+
+function parseAmount(amount: unknown): bigint {
+  const text = typeof amount === 'number' ? String(amount) : amount;
+  if (typeof text !== 'string' || !/^\d+$/.test(text)) {
+    throw new PostConditionError('amount must be a non-negative whole number of base units');
+  }
+  return BigInt(text);
+}
+
+function buildPostCondition(spec: PostConditionSpec, sender: string): PostCondition {
+  const principal = Pc.principal(parsePrincipal(spec.principal || sender));
+
+  if (spec.type === 'stx' || spec.type === 'ft') {
+    if (!FUNGIBLE_CONDITIONS.includes(spec.condition)) {
+      throw new PostConditionError(`condition must be one of ${FUNGIBLE_CONDITIONS.join(', ')}`);
+    }
+    const amount = parseAmount(spec.amount);
+    const withCode = {
+      eq: () => principal.willSendEq(amount),
+      gt: () => principal.willSendGt(amount),
+      gte: () => principal.willSendGte(amount),
+      lt: () => principal.willSendLt(amount),
+      lte: () => principal.willSendLte(amount),
+    }[spec.condition]();
+    if (spec.type === 'stx') return withCode.ustx();
+    const { contractId, tokenName } = parseAsset(spec.asset);
+    return withCode.ft(contractId, tokenName);
+  }
+
+  if (spec.type === 'nft') {
+    if (spec.condition !== 'sends' && spec.condition !== 'does-not-send') {
+      throw new PostConditionError("condition must be 'sends' or 'does-not-send'");
+    }
+    const { contractId, tokenName } = parseAsset(spec.asset);
+    if (!spec.tokenId || typeof spec.tokenId !== 'object') {
+      throw new PostConditionError('tokenId must be { value, type }');
+    }
+    let tokenId;
+    try {
+      tokenId = encodeArgument(spec.tokenId, contractId.split('.')[0]);
+    } catch (err) {
+      if (err instanceof ArgumentError) throw new PostConditionError(`tokenId: ${err.message}`);
+      throw err;
+    }
+    const withCode = spec.condition === 'sends' ? principal.willSendAsset() : principal.willNotSendAsset();
+    return withCode.nft(contractId, tokenName, tokenId);
+  }
+
+  throw new PostConditionError("type must be 'stx', 'ft' or 'nft'");
+}
+
+/**
+ * Build the post-conditions of a request. Errors name the offending entry, e.g. "Post-condition 2: ...".
+ */
+export function buildPostConditions(specs: unknown, sender: string): PostCondition[] {
+  if (specs === undefined) return [];
+  if (!Array.isArray(specs)) throw new PostConditionError('postConditions must be an array');
+  return specs.map((spec, i) => {
+    try {
+      if (!spec || typeof spec !== 'object') throw new PostConditionError('expected an object');
+      return buildPostCondition(spec as PostConditionSpec, sender);
+    } catch (err) {
+      if (err instanceof PostConditionError) throw new PostConditionError(`Post-condition ${i + 1}: ${err.message}`);
+      throw err;
+    }
+  });
+}
+
+/**
+ * 'allow' lets the transaction move assets not covered by a post-condition; 'deny' aborts it.
+ * Without an explicit mode, requests with post-conditions use deny and others allow.
+ */
+export function parsePostConditionMode(mode: unknown, postConditions: PostCondition[]): PostConditionMode {
+  if (mode === undefined) return postConditions.length > 0 ? PostConditionMode.Deny : PostConditionMode.Allow;
+  if (mode === 'allow') return PostConditionMode.Allow;
+  if (mode === 'deny') return PostConditionMode.Deny;
+  throw new PostConditionError("postConditionMode must be 'allow' or 'deny'");
+}
@@ -0,0 +1,114 @@
+import JSZip from 'jszip';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SIMNET_PLAN_PATH } from './clarity/deploymentPlan';
+
+// The project's rows, and every request made to Supabase
+let rows: Array<{ id: string; path: string; is_directory: boolean; content?: string }> = [];
+const requests: Array<{ path: string; method: string }> = [];
+
+vi.mock('./supabase', () => ({
+  isSupabaseConfigured: () => true,
+  getUserIdFromToken: async () => 'user-1',
+  supabaseRequest: async (path: string, init: RequestInit = {}) => {
+    requests.push({ path, method: init.method ?? 'GET' });
+    const body = path.startsWith('projects?') ? [{ description: 'A counter' }] : rows;
+    return new Response(JSON.stringify(body));
+  },
+}));
+
+const { MANIFEST_PATH, exportProject, readClarinetZip, readProjectSnapshot } = await import('./projectFiles');
+
+const PROJECT = { id: 'project-1', name: 'Counter', code: '(define-data-var count uint u0)', clarityVersion: 3 as const };
+
+beforeEach(() => {
+  rows = [];
+  requests.length = 0;
+});
+
+describe('readProjectSnapshot', () => {
+  it('gives a project without files the layout it would be initialized with, without saving it', async () => {
+    const snapshot = await readProjectSnapshot(PROJECT);
+
+    expect(snapshot.get('contracts/counter.clar')).toBe(PROJECT.code);
+    expect(snapshot.get(MANIFEST_PATH)).toContain('description = "A counter"');
+    expect(snapshot.get(SIMNET_PLAN_PATH)).toContain('contract-name: counter');
+    expect(snapshot.has('deployments')).toBe(true);
+    expect(snapshot.get('deployments')).toBeUndefined();
+    expect(requests.every(request => request.method === 'GET')).toBe(true);
+  });
+
+  it('brings the Clarinet files of a saved project up to date in memory only', async () => {
+    rows = [
+      { id: '1', path: MANIFEST_PATH, is_directory: false, content: '[project]\nname = "Old name"\n\n[contracts.counter]\npath = "contracts/counter.clar"\n' },
+      { id: '2', path: 'contracts', is_directory: true },
+      { id: '3', path: 'contracts/counter.clar', is_directory: false, content: '(define-data-var saved uint u1)' },
+    ];
+
+    const snapshot = await readProjectSnapshot(PROJECT);
+
+    expect(snapshot.get(MANIFEST_PATH)).toContain('name = "Counter"');
+    expect(snapshot.get('contracts/counter.clar')).toBe('(define-data-var saved uint u1)');
+    expect(snapshot.get(SIMNET_PLAN_PATH)).toContain('contract-name: counter');
+    expect(requests.every(request => request.method === 'GET')).toBe(true);
+  });
+});
+
+describe('readClarinetZip', () => {
+  const MANIFEST = '[project]\nname = "counter"\n';
+
+  async function zipOf(files: Record<string, string>): Promise<Buffer> {
+    const zip = new JSZip();
+    for (const [path, content] of Object.entries(files)) zip.file(path, content);
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  it('rejects a file that inflates past 1 MB', async () => {
+    const data = await zipOf({ [MANIFEST_PATH]: MANIFEST, 'tests/big.txt': '0'.repeat(2 * 1024 * 1024) });
+
+    await expect(readClarinetZip(data)).rejects.toMatchObject({ status: 413, message: expect.stringContaining('tests/big.txt') });
+  });
+
+  it('stops inflating a file that is larger than the zip declares', async () => {
+    const zip = await JSZip.loadAsync(await zipOf({ [MANIFEST_PATH]: MANIFEST, 'tests/big.txt': '0'.repeat(2 * 1024 * 1024) }));
+    (zip.files['tests/big.txt'] as unknown as { _data: { uncompressedSize: number } })._data.uncompressedSize = 10;
+
+    await expect(readClarinetZip(zip)).rejects.toMatchObject({ status: 413, message: expect.stringContaining('tests/big.txt') });
+  });
+
+  it('rejects files that inflate past 16 MB together', async () => {
+    const files: Record<string, string> = { [MANIFEST_PATH]: MANIFEST };
+    const content = '0'.repeat(1000 * 1000);
+    for (let i = 0; i < 17; i++) files[`tests/file-${i}.txt`] = content;
+
+    await expect(readClarinetZip(await zipOf(files))).rejects.toMatchObject({ status: 413, message: expect.stringContaining('16 MB') });
+  });
+
+  it('reads files within the limits', async () => {
+    const archive = await readClarinetZip(await zipOf({ [MANIFEST_PATH]: MANIFEST, 'tests/notes.txt': 'ok' }));
+
+    expect(archive.entries.get('tests/notes.txt')).toBe('ok');
+    expect(archive.entries.get(MANIFEST_PATH)).toBe(MANIFEST);
+  });
+});
+
+describe('exportProject', () => {
+  it('zips the project without changing it, and reading the zip back gives the same files', async () => {
+    rows = [
+      { id: '1', path: MANIFEST_PATH, is_directory: false, content: '[project]\nname = "Counter"\n\n[contracts.counter]\npath = "contracts/counter.clar"\n' },
+      { id: '2', path: 'contracts', is_directory: true },
+      { id: '3', path: 'contracts/counter.clar', is_directory: false, content: '(define-data-var saved uint u1)' },
+      { id: '4', path: 'tests', is_directory: true },
+      { id: '5', path: 'tests/counter_test.clar', is_directory: false, content: '(define-public (test-count) (ok true))' },
+    ];
+
+    const { fileName, zip } = await exportProject(PROJECT);
+    const archive = await readClarinetZip(zip);
+
+    expect(fileName).toBe('counter.zip');
+    expect(archive.folderName).toBe('counter');
+    expect(archive.entries).toEqual(await readProjectSnapshot(PROJECT));
+    expect(archive.manifest.name).toBe('Counter');
+    expect(archive.manifest.description).toBe('A counter');
+    expect(requests.every(request => request.method === 'GET')).toBe(true);
+  });
+});
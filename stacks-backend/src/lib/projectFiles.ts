@@ -0,0 +1,673 @@
+import type { Request } from 'express';
+import JSZip from 'jszip';
+import { ClarityVersion, LATEST_CLARITY_VERSION, parseClarityVersion } from './clarity/builtins';
+import { PlanContract, SIMNET_PLAN_PATH, createSimnetPlan } from './clarity/deploymentPlan';
+import {
+  DEVNET_SETTINGS,
+  createManifest,
+  ParsedManifest,
+  manifestContractPath,
+  parseManifest,
+  removeManifestContract,
+  setManifestContract,
+  setManifestProjectKey,
+} from './clarity/manifest';
+import { isValidContractName } from './clarity/parser';
+import { getUserIdFromToken, isSupabaseConfigured, supabaseRequest } from './supabase';
+
+/** A file or directory of a project; the root has the empty path */
+export interface FileNode {
+  name: string;
+  path: string;
+  is_directory: boolean;
+  children?: FileNode[];
+}
+
+export interface FileSearchResult {
+  path: string;
+  name: string;
+  // The matching line, for content searches
+  preview?: string;
+  line_number?: number;
+}
+
+/** A project the caller owns */
+export interface ProjectRef {
+  id: string;
+  name: string;
+  // The single contract projects were saved as before they had files
+  code: string;
+  clarityVersion: ClarityVersion;
+}
+
+/** A file operation that can't be done; `status` is the HTTP status to answer with */
+export class ProjectFileError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'ProjectFileError';
+  }
+}
+
+interface FileRow {
+  id: string;
+  path: string;
+  is_directory: boolean;
+  content?: string;
+}
+
+export const MANIFEST_PATH = 'Clarinet.toml';
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const SEGMENT_RE = /^[A-Za-z0-9_.-]+$/;
+const MAX_PATH_LENGTH = 255;
+const MAX_FILE_BYTES = 1024 * 1024;
+const MAX_SEARCH_RESULTS = 200;
+const MAX_IMPORT_ENTRIES = 500;
+// What the files of an imported zip may inflate to, all together
+const MAX_IMPORT_BYTES = 16 * 1024 * 1024;
+
+// Left out of imports: editor, OS and tool clutter that zipped project folders often carry
+const IGNORED_IMPORT_ENTRY = /(^|\/)(__MACOSX|\.git|\.cache|node_modules|\.DS_Store)(\/|$)/;
+
+/** Check that the request's session is `userId`'s */
+export async function authorizeUser(req: Request, userId: string): Promise<void> {
+  if (!isSupabaseConfigured()) {
+    throw new ProjectFileError('Project files need SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY', 500);
+  }
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const sessionUserId = token && await getUserIdFromToken(token);
+  if (!sessionUserId) {
+    throw new ProjectFileError('Sign in to open project files', 401);
+  }
+  if (sessionUserId !== userId) {
+    throw new ProjectFileError('Project files can only be opened by their owner', 403);
+  }
+}
+
+/**
+ * The project `projectId`, once the request's session is checked to be `userId`'s and the project theirs
+ */
+export async function authorizeProject(req: Request, userId: string, projectId: string): Promise<ProjectRef> {
+  await authorizeUser(req, userId);
+  if (!UUID_RE.test(projectId)) {
+    throw new ProjectFileError('Project not found', 404);
+  }
+
+  const response = await supabaseRequest(`projects?id=eq.${projectId}&select=user_id,name,code,clarity_version`);
+  const [row] = await response.json() as Array<{ user_id: string; name: string; code: string | null; clarity_version: number | null }>;
+  // Someone else's project is reported as missing rather than forbidden
+  if (!row || row.user_id !== userId) {
+    throw new ProjectFileError('Project not found', 404);
+  }
+  return {
+    id: projectId,
+    name: row.name,
+    code: row.code ?? '',
+    clarityVersion: parseClarityVersion(row.clarity_version) ?? LATEST_CLARITY_VERSION,
+  };
+}
+
+/** A path relative to the project root without empty segments; rejects anything that could leave the project */
+export function normalizePath(path: unknown): string {
+  if (typeof path !== 'string') {
+    throw new ProjectFileError('path must be a string', 400);
+  }
+  const segments = path.split('/').filter(Boolean);
+  const isValid = segments.length > 0 && path.length <= MAX_PATH_LENGTH
+    && segments.every(segment => segment !== '.' && segment !== '..' && SEGMENT_RE.test(segment));
+  if (!isValid) {
+    throw new ProjectFileError(`'${path}' is not a valid path. Use letters, digits, '.', '_' and '-' separated by '/'`, 400);
+  }
+  return segments.join('/');
+}
+
+export function checkContent(content: unknown): string {
+  if (typeof content !== 'string') {
+    throw new ProjectFileError('content must be a string', 400);
+  }
+  if (Buffer.byteLength(content) > MAX_FILE_BYTES) {
+    throw new ProjectFileError('Files are limited to 1 MB', 413);
+  }
+  return content;
+}
+
+function isWithin(path: string, directory: string): boolean {
+  return path === directory || path.startsWith(`${directory}/`);
+}
+
+// 'a/b/c.clar' -> ['a', 'a/b']
+function parentsOf(path: string): string[] {
+  const segments = path.split('/');
+  return segments.slice(1).map((_, i) => segments.slice(0, i + 1).join('/'));
+}
+
+// Clarinet.toml declares the .clar files directly under contracts/, named after the file
+function contractNameOf(path: string): string | undefined {
+  return path.match(/^contracts\/([^/]+)\.clar$/)?.[1];
+}
+
+function assertContractPath(path: string): void {
+  const name = contractNameOf(path);
+  if (name !== undefined && !isValidContractName(name)) {
+    throw new ProjectFileError(`'${name}' is not a valid contract name. Start with a letter and use letters, digits, '-' and '_'`, 400);
+  }
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9-]/g, '-');
+}
+
+// The slug the editor named single-file projects' contracts with
+function contractNameForProject(projectName: string): string {
+  const name = slugify(projectName);
+  return isValidContractName(name) ? name : 'contract';
+}
+
+async function listRows(projectId: string, withContent = false): Promise<FileRow[]> {
+  const columns = withContent ? 'id,path,is_directory,content' : 'id,path,is_directory';
+  const response = await supabaseRequest(`project_files?project_id=eq.${projectId}&select=${columns}&order=path`);
+  return response.json() as Promise<FileRow[]>;
+}
+
+async function findRow(projectId: string, path: string): Promise<FileRow | undefined> {
+  const response = await supabaseRequest(
+    `project_files?project_id=eq.${projectId}&path=eq.${encodeURIComponent(path)}&select=id,path,is_directory,content`
+  );
+  const [row] = await response.json() as FileRow[];
+  return row;
+}
+
+// A row as it is inserted, or as a snapshot made in memory holds it
+type NewRow = Pick<FileRow, 'path' | 'content'> & { is_directory?: boolean };
+
+async function insertRows(projectId: string, rows: NewRow[]): Promise<void> {
+  await supabaseRequest('project_files', {
+    method: 'POST',
+    body: JSON.stringify(rows.map(row => ({ project_id: projectId, is_directory: false, content: '', ...row }))),
+  });
+}
+
+async function updateRow(id: string, fields: { path?: string; content?: string }): Promise<void> {
+  await supabaseRequest(`project_files?id=eq.${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ ...fields, updated_at: new Date().toISOString() }),
+  });
+}
+
+// Directories above `path` that have no row yet
+function missingParents(rows: FileRow[], path: string): string[] {
+  const byPath = new Map(rows.map(row => [row.path, row]));
+  const missing: string[] = [];
+  for (const parent of parentsOf(path)) {
+    const row = byPath.get(parent);
+    if (row && !row.is_directory) {
+      throw new ProjectFileError(`'${parent}' is a file`, 409);
+    }
+    if (!row) missing.push(parent);
+  }
+  return missing;
+}
+
+// Keeps Clarinet.toml's contract entries in step with the files under contracts/. A project without a
+// Clarinet.toml is left without one.
+async function updateManifest(project: ProjectRef, removedPaths: string[], addedPaths: string[]): Promise<void> {
+  const removed = removedPaths.map(contractNameOf).filter((name): name is string => name !== undefined);
+  const added = addedPaths.filter(path => contractNameOf(path) !== undefined);
+  if (removed.length === 0 && added.length === 0) return;
+
+  const manifest = await findRow(project.id, MANIFEST_PATH);
+  if (!manifest || manifest.is_directory) return;
+
+  let content = manifest.content ?? '';
+  for (const name of removed) {
+    content = removeManifestContract(content, name);
+  }
+  for (const path of added) {
+    content = setManifestContract(content, { name: contractNameOf(path)!, path, clarityVersion: project.clarityVersion });
+  }
+  if (content !== manifest.content) {
+    await updateRow(manifest.id, { content });
+  }
+}
+
+function sortTree(node: FileNode): void {
+  node.children?.sort((a, b) => Number(b.is_directory) - Number(a.is_directory) || a.name.localeCompare(b.name));
+  node.children?.forEach(sortTree);
+}
+
+function buildTree(projectName: string, rows: FileRow[]): FileNode {
+  const root: FileNode = { name: projectName, path: '', is_directory: true, children: [] };
+  const directories = new Map<string, FileNode>([['', root]]);
+
+  const parentPath = (path: string) => path.slice(0, Math.max(path.lastIndexOf('/'), 0));
+  const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+  const directory = (path: string): FileNode => {
+    let node = directories.get(path);
+    if (!node) {
+      node = { name: baseName(path), path, is_directory: true, children: [] };
+      directory(parentPath(path)).children!.push(node);
+      directories.set(path, node);
+    }
+    return node;
+  };
+
+  for (const row of rows) {
+    if (row.is_directory) {
+      directory(row.path);
+    } else {
+      directory(parentPath(row.path)).children!.push({ name: baseName(row.path), path: row.path, is_directory: false });
+    }
+  }
+  sortTree(root);
+  return root;
+}
+
+/** The project's files and directories, directories first; the root is named after the project */
+export async function getFileTree(project: ProjectRef): Promise<FileNode> {
+  return buildTree(project.name, await listRows(project.id));
+}
+
+export async function readProjectFile(project: ProjectRef, path: string): Promise<{ path: string; content: string }> {
+  const row = await findRow(project.id, path);
+  if (!row || row.is_directory) {
+    throw new ProjectFileError(`No file at '${path}'`, 404);
+  }
+  return { path, content: row.content ?? '' };
+}
+
+/** The files under `directory`, with their contents */
+export async function readProjectFiles(project: ProjectRef, directory: string): Promise<Array<{ path: string; content: string }>> {
+  return (await listRows(project.id, true))
+    .filter(row => !row.is_directory && isWithin(row.path, directory))
+    .map(row => ({ path: row.path, content: row.content ?? '' }));
+}
+
+/** Create a file or an empty directory, along with any directories above it */
+export async function createEntry(project: ProjectRef, path: string, isDirectory: boolean, content = ''): Promise<void> {
+  const rows = await listRows(project.id);
+  if (rows.some(row => row.path === path)) {
+    throw new ProjectFileError(`'${path}' already exists`, 409);
+  }
+  if (!isDirectory) assertContractPath(path);
+
+  const parents = missingParents(rows, path);
+  await insertRows(project.id, [
+    ...parents.map(parent => ({ path: parent, is_directory: true })),
+    { path, is_directory: isDirectory, content },
+  ]);
+  if (!isDirectory) await updateManifest(project, [], [path]);
+}
+
+/** Save a file, creating it if it doesn't exist yet */
+export async function writeProjectFile(project: ProjectRef, path: string, content: string): Promise<void> {
+  const row = await findRow(project.id, path);
+  if (row?.is_directory) {
+    throw new ProjectFileError(`'${path}' is a directory`, 409);
+  }
+  if (row) {
+    await updateRow(row.id, { content });
+  } else {
+    await createEntry(project, path, false, content);
+  }
+}
+
+/** Delete a file, or a directory and everything in it */
+export async function deleteEntry(project: ProjectRef, path: string): Promise<void> {
+  const rows = (await listRows(project.id)).filter(row => isWithin(row.path, path));
+  if (rows.length === 0) {
+    throw new ProjectFileError(`No file or directory at '${path}'`, 404);
+  }
+
+  await supabaseRequest(`project_files?id=in.(${rows.map(row => row.id).join(',')})`, { method: 'DELETE' });
+  await updateManifest(project, rows.filter(row => !row.is_directory).map(row => row.path), []);
+}
+
+/** Rename or move a file, or a directory and everything in it */
+export async function renameEntry(project: ProjectRef, from: string, to: string): Promise<void> {
+  if (from === to) return;
+  if (isWithin(to, from)) {
+    throw new ProjectFileError(`Cannot move '${from}' into itself`, 400);
+  }
+
+  const rows = await listRows(project.id);
+  const moved = rows.filter(row => isWithin(row.path, from));
+  if (moved.length === 0) {
+    throw new ProjectFileError(`No file or directory at '${from}'`, 404);
+  }
+  if (rows.some(row => isWithin(row.path, to))) {
+    throw new ProjectFileError(`'${to}' already exists`, 409);
+  }
+
+  const renamed = moved.map(row => ({ row, path: to + row.path.slice(from.length) }));
+  renamed.filter(({ row }) => !row.is_directory).forEach(({ path }) => assertContractPath(path));
+
+  const parents = missingParents(rows, to);
+  if (parents.length > 0) {
+    await insertRows(project.id, parents.map(parent => ({ path: parent, is_directory: true })));
+  }
+  for (const { row, path } of renamed) {
+    await updateRow(row.id, { path });
+  }
+
+  const files = renamed.filter(({ row }) => !row.is_directory);
+  await updateManifest(project, files.map(({ row }) => row.path), files.map(({ path }) => path));
+}
+
+/** Files whose path contains `query`, or with `inContent`, each line that contains it; case-insensitive */
+export async function searchProjectFiles(project: ProjectRef, query: string, inContent: boolean): Promise<FileSearchResult[]> {
+  const needle = query.toLowerCase();
+  const files = (await listRows(project.id, inContent)).filter(row => !row.is_directory);
+  const results: FileSearchResult[] = [];
+
+  for (const file of files) {
+    const name = file.path.slice(file.path.lastIndexOf('/') + 1);
+    if (!inContent) {
+      if (file.path.toLowerCase().includes(needle)) results.push({ path: file.path, name });
+      continue;
+    }
+    (file.content ?? '').split('\n').forEach((line, i) => {
+      if (line.toLowerCase().includes(needle)) {
+        results.push({ path: file.path, name, preview: line.trim().slice(0, 200), line_number: i + 1 });
+      }
+    });
+  }
+  return results.slice(0, MAX_SEARCH_RESULTS);
+}
+
+// The Clarinet layout a project without files is given, with `code` or else `projects.code` as its contract
+function initialLayout(project: ProjectRef, code?: string): NewRow[] {
+  const name = contractNameForProject(project.name);
+  const path = `contracts/${name}.clar`;
+  return [
+    { path: MANIFEST_PATH, content: createManifest(project.name, [{ name, path, clarityVersion: project.clarityVersion }]) },
+    { path: 'contracts', is_directory: true },
+    { path, content: code ?? project.code },
+    { path: 'settings', is_directory: true },
+    { path: 'settings/Devnet.toml', content: DEVNET_SETTINGS },
+    { path: 'tests', is_directory: true },
+  ];
+}
+
+/**
+ * Give a project without files a Clarinet layout: Clarinet.toml, contracts/<name>.clar, tests/ and
+ * settings/Devnet.toml. The contract is `code`, or else the `projects.code` single-file projects were saved
+ * in. Returns whether the project was initialized.
+ */
+export async function initializeProject(project: ProjectRef, code?: string): Promise<boolean> {
+  if ((await listRows(project.id)).length > 0) return false;
+
+  try {
+    await insertRows(project.id, initialLayout(project, code));
+  } catch (err) {
+    // A concurrent request initialized it first
+    if ((await listRows(project.id)).length > 0) return false;
+    throw err;
+  }
+  return true;
+}
+
+// The contracts `manifest` lists that are among the project's files, with their saved code
+function manifestContracts(project: ProjectRef, manifest: string, rows: NewRow[]): PlanContract[] {
+  const files = new Map(rows.filter(row => !row.is_directory).map(row => [row.path, row]));
+  const contracts: PlanContract[] = [];
+  for (const contract of parseManifest(manifest).contracts) {
+    const path = manifestContractPath(contract);
+    const file = path && files.get(path);
+    if (!file) continue;
+    contracts.push({
+      name: contract.name,
+      path: file.path,
+      code: file.content ?? '',
+      clarityVersion: contract.clarityVersion ?? project.clarityVersion,
+      epoch: contract.epoch,
+    });
+  }
+  return contracts;
+}
+
+/**
+ * The contracts the project's Clarinet.toml lists, with their saved code, read without changing the project.
+ * A project without a Clarinet.toml has none.
+ */
+export async function readProjectContracts(project: ProjectRef): Promise<PlanContract[]> {
+  const rows = await listRows(project.id, true);
+  const manifestRow = rows.find(row => row.path === MANIFEST_PATH && !row.is_directory);
+  return manifestRow ? manifestContracts(project, manifestRow.content ?? '', rows) : [];
+}
+
+async function readDescription(project: ProjectRef): Promise<string> {
+  const response = await supabaseRequest(`projects?id=eq.${project.id}&select=description`);
+  const [{ description }] = await response.json() as Array<{ description: string | null }>;
+  return description ?? '';
+}
+
+// Clarinet.toml and the default simnet plan, by path, where they differ from `rows` once Clarinet.toml's
+// [project] keys and the plan are brought up to date with the project. Projects without a Clarinet.toml have
+// no plan either.
+function staleClarinetFiles(project: ProjectRef, description: string, rows: NewRow[]): Map<string, string> {
+  const updates = new Map<string, string>();
+  const manifestRow = rows.find(row => row.path === MANIFEST_PATH);
+  if (!manifestRow || manifestRow.is_directory) return updates;
+
+  let manifest = setManifestProjectKey(manifestRow.content ?? '', 'name', project.name);
+  manifest = setManifestProjectKey(manifest, 'description', description);
+  if (manifest !== manifestRow.content) updates.set(MANIFEST_PATH, manifest);
+
+  const plan = createSimnetPlan(manifestContracts(project, manifest, rows));
+  if (rows.find(row => row.path === SIMNET_PLAN_PATH)?.content !== plan) updates.set(SIMNET_PLAN_PATH, plan);
+  return updates;
+}
+
+function snapshotOf(rows: NewRow[]): Map<string, string | undefined> {
+  return new Map(rows.map(row => [row.path, row.is_directory ? undefined : row.content ?? '']));
+}
+
+/**
+ * The project's files as they are exported and published, by path; directories map to undefined. Clarinet.toml's
+ * name and description and the default simnet deployment plan are brought up to date first and saved with the
+ * project, so the snapshot holds exactly the project's files.
+ */
+export async function snapshotProject(project: ProjectRef): Promise<Map<string, string | undefined>> {
+  await initializeProject(project);
+  const description = await readDescription(project);
+  for (const [path, content] of staleClarinetFiles(project, description, await listRows(project.id, true))) {
+    await writeProjectFile(project, path, content);
+  }
+  return snapshotOf(await listRows(project.id, true));
+}
+
+/**
+ * The snapshot snapshotProject would take, made without changing the project: a project without files gets
+ * the layout it would be initialized with, and the Clarinet files are brought up to date in memory only.
+ */
+export async function readProjectSnapshot(project: ProjectRef): Promise<Map<string, string | undefined>> {
+  const [saved, description] = await Promise.all([listRows(project.id, true), readDescription(project)]);
+  const rows = saved.length > 0 ? saved : initialLayout(project);
+  const snapshot = snapshotOf(rows);
+  for (const [path, content] of staleClarinetFiles(project, description, rows)) {
+    for (const parent of parentsOf(path)) {
+      if (!snapshot.has(parent)) snapshot.set(parent, undefined);
+    }
+    snapshot.set(path, content);
+  }
+  return snapshot;
+}
+
+/**
+ * A Clarinet project zip of the project (see readProjectSnapshot), in a folder named after it. Exporting doesn't
+ * change the project; importing the zip gives the same project back.
+ */
+export async function exportProject(project: ProjectRef): Promise<{ fileName: string; zip: Buffer }> {
+  const slug = slugify(project.name) || 'project';
+  const zip = new JSZip();
+  const folder = zip.folder(slug)!;
+  for (const [path, content] of await readProjectSnapshot(project)) {
+    if (content === undefined) {
+      folder.folder(path);
+    } else {
+      folder.file(path, content);
+    }
+  }
+  return { fileName: `${slug}.zip`, zip: await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }) };
+}
+
+/** A Clarinet project read from a zip, with paths relative to the folder Clarinet.toml is in */
+export interface ClarinetArchive {
+  // That folder's name; empty when Clarinet.toml is at the zip's root
+  folderName: string;
+  // File contents by path; directories have no content
+  entries: Map<string, string | undefined>;
+  manifest: ParsedManifest;
+}
+
+// An entry's text, inflated only as far as the file size limit and what is left of the archive's `budget`: the
+// sizes a zip declares can't be trusted, so a small upload can't inflate into more than the limits allow
+async function readZipEntry(entry: JSZip.JSZipObject, budget: { bytes: number }): Promise<string> {
+  const tooLarge = () => new ProjectFileError(`'${entry.name}' is larger than 1 MB. Files are limited to 1 MB`, 413);
+  const overBudget = () => new ProjectFileError(`Projects are limited to ${MAX_IMPORT_BYTES / 1024 / 1024} MB of files`, 413);
+  // JSZip keeps the size from the zip's directory in a private field
+  const declared = (entry as unknown as { _data?: { uncompressedSize?: number } })._data?.uncompressedSize ?? 0;
+  if (declared > MAX_FILE_BYTES) throw tooLarge();
+  if (declared > budget.bytes) throw overBudget();
+
+  // JSZip's own stream, unlike its Node stream, stops inflating when paused
+  const stream = (entry as unknown as { internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array> })
+    .internalStream('uint8array');
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let aborted = false;
+  return new Promise((resolve, reject) => {
+    const abort = (err: ProjectFileError) => {
+      aborted = true;
+      stream.pause();
+      reject(err);
+    };
+    stream.on('data', chunk => {
+      if (aborted) return;
+      size += chunk.length;
+      budget.bytes -= chunk.length;
+      if (size > MAX_FILE_BYTES) return abort(tooLarge());
+      if (budget.bytes < 0) return abort(overBudget());
+      chunks.push(chunk);
+    });
+    stream.on('error', err => { if (!aborted) reject(err); });
+    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    stream.resume();
+  });
+}
+
+/**
+ * Read a Clarinet project out of a zip. Clarinet.toml is looked for in `folder` (a path in the zip ending in '/'),
+ * or else is the one nearest the zip's root. `include` picks the files and directories to read, e.g. to leave out
+ * the rest of a repository; every contract Clarinet.toml lists must be among them.
+ */
+export async function readClarinetZip(
+  data: Buffer | JSZip,
+  options: { folder?: string; include?: (path: string, manifest: ParsedManifest) => boolean } = {}
+): Promise<ClarinetArchive> {
+  let zip: JSZip;
+  try {
+    zip = data instanceof JSZip ? data : await JSZip.loadAsync(data);
+  } catch {
+    throw new ProjectFileError('The upload is not a zip file', 400);
+  }
+
+  const zipEntries = Object.values(zip.files).filter(entry => !IGNORED_IMPORT_ENTRY.test(entry.name));
+  const manifestEntry = zipEntries
+    .filter(entry => !entry.dir && (options.folder === undefined
+      ? /(^|\/)Clarinet\.toml$/.test(entry.name)
+      : entry.name === `${options.folder}${MANIFEST_PATH}`))
+    .sort((a, b) => a.name.length - b.name.length)[0];
+  if (!manifestEntry) {
+    throw new ProjectFileError(options.folder ? `There is no Clarinet.toml in '${options.folder}'` : 'The zip has no Clarinet.toml', 400);
+  }
+  const budget = { bytes: MAX_IMPORT_BYTES };
+  const manifestText = checkContent(await readZipEntry(manifestEntry, budget));
+  const manifest = parseManifest(manifestText);
+
+  // Everything is read relative to the folder Clarinet.toml is in
+  const root = manifestEntry.name.slice(0, -MANIFEST_PATH.length);
+  const projectEntries = zipEntries.filter(entry => entry.name.startsWith(root) && entry.name !== root
+    && (!options.include || options.include(entry.name.slice(root.length).replace(/\/$/, ''), manifest)));
+  if (projectEntries.length > MAX_IMPORT_ENTRIES) {
+    throw new ProjectFileError(`Projects are limited to ${MAX_IMPORT_ENTRIES} files and directories`, 413);
+  }
+
+  const rows = new Map<string, FileRow>();
+  for (const entry of projectEntries) {
+    const path = normalizePath(entry.name.slice(root.length));
+    rows.set(path, entry.dir
+      ? { id: '', path, is_directory: true }
+      : { id: '', path, is_directory: false, content: entry === manifestEntry ? manifestText : checkContent(await readZipEntry(entry, budget)) });
+  }
+  // Zips may leave out the entries of directories that have files
+  for (const path of [...rows.keys()]) {
+    for (const parent of missingParents([...rows.values()], path)) {
+      rows.set(parent, { id: '', path: parent, is_directory: true });
+    }
+  }
+
+  for (const contract of manifest.contracts) {
+    const path = manifestContractPath(contract);
+    if (!path || rows.get(path)?.is_directory !== false) {
+      throw new ProjectFileError(`Clarinet.toml lists contracts.${contract.name} at '${contract.path ?? ''}', which is not in the zip`, 400);
+    }
+  }
+
+  return {
+    folderName: root.replace(/\/$/, '').split('/').pop() ?? '',
+    entries: new Map([...rows.values()].map(row => [row.path, row.is_directory ? undefined : row.content])),
+    manifest,
+  };
+}
+
+/** The newest Clarity version among a Clarinet.toml's contracts, or the latest if none says */
+export function newestClarityVersion(manifest: Pick<ParsedManifest, 'contracts'>): ClarityVersion {
+  const versions = manifest.contracts.map(contract => contract.clarityVersion).filter((v): v is ClarityVersion => v !== undefined);
+  return versions.length > 0 ? Math.max(...versions) as ClarityVersion : LATEST_CLARITY_VERSION;
+}
+
+/** Create a project for `userId` holding `entries` (see ClarinetArchive); returns its id */
+export async function createProjectWithFiles(
+  userId: string,
+  fields: { name: string; description: string | null; clarityVersion: ClarityVersion },
+  entries: Map<string, string | undefined>
+): Promise<string> {
+  const response = await supabaseRequest('projects', {
+    method: 'POST',
+    headers: { Prefer: 'return=representation' },
+    body: JSON.stringify({
+      user_id: userId,
+      name: fields.name,
+      description: fields.description,
+      clarity_version: fields.clarityVersion,
+    }),
+  });
+  const [project] = await response.json() as Array<{ id: string }>;
+
+  try {
+    await insertRows(project.id, [...entries].map(([path, content]) => ({ path, is_directory: content === undefined, content })));
+  } catch (err) {
+    await supabaseRequest(`projects?id=eq.${project.id}`, { method: 'DELETE' })
+      .catch(cleanupErr => console.warn(`Could not remove half-imported project ${project.id}:`, cleanupErr instanceof Error ? cleanupErr.message : cleanupErr));
+    throw err;
+  }
+  return project.id;
+}
+
+/**
+ * Create a project for `userId` from a Clarinet project zip, either zipped as a folder or with Clarinet.toml
+ * at its root. The project takes its name and description from Clarinet.toml and the newest Clarity version
+ * its contracts use; every file is kept as it is.
+ */
+export async function importProject(userId: string, data: Buffer): Promise<{ projectId: string; name: string }> {
+  const { folderName, entries, manifest } = await readClarinetZip(data);
+  const name = manifest.name?.trim() || folderName || 'Imported project';
+  const projectId = await createProjectWithFiles(userId, {
+    name,
+    description: manifest.description || null,
+    clarityVersion: newestClarityVersion(manifest),
+  }, entries);
+  return { projectId, name };
+}
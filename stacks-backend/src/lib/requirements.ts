@@ -0,0 +1,292 @@
+import { ClarityVersion } from './clarity/builtins';
+import { DEVNET_SETTINGS, createManifest, parseManifest, setManifestRequirements } from './clarity/manifest';
+import {
+  RequirementSource,
+  inferClarityVersion,
+  isMainnetAddress,
+  parseContractId,
+  qualifyContractReferences,
+  remapPrincipal,
+  requirementIdOfPath,
+  requirementInterfaces,
+  requirementPath,
+  requirementReferences,
+  REQUIREMENTS_DIRECTORY,
+} from './clarity/requirements';
+import { isSipTraitRequirement, withSipTraits } from './clarity/sipTraits';
+import { ExternalFunction } from './clarity/typecheck';
+import { typeToString } from './clarity/types';
+import { NetworkTarget, getNetwork } from './networks';
+import {
+  MANIFEST_PATH,
+  ProjectFileError,
+  ProjectRef,
+  createProjectWithFiles,
+  deleteEntry,
+  initializeProject,
+  readProjectFile,
+  readProjectFiles,
+  writeProjectFile,
+} from './projectFiles';
+
+/** A public or read-only function of a requirement, with its types written as in Clarity */
+export interface RequirementFunction {
+  name: string;
+  access: 'public' | 'read-only';
+  args: Array<{ name: string; type: string }>;
+  returns: string;
+}
+
+/** A deployed contract the project requires, or one of the contracts those refer to */
+export interface ProjectRequirement {
+  contractId: string;
+  // Listed in Clarinet.toml, rather than fetched because another requirement refers to it
+  required: boolean;
+  // One of the SIP traits every project has, without listing or fetching it
+  builtin: boolean;
+  // Whether its source is in the project; Clarinet.toml may list requirements that were never fetched here
+  cached: boolean;
+  clarityVersion?: ClarityVersion;
+  // Where it is deployed when the project is: the simulator's copy and the testnet contract it stands for
+  simnetId: string;
+  testnetId: string;
+  // The other deployed contracts it refers to
+  dependencies: string[];
+  functions: RequirementFunction[];
+}
+
+/** A deployed contract as looked up on its network, before it is added */
+export interface RequirementLookup {
+  contractId: string;
+  network: string;
+  publishHeight: number;
+  clarityVersion: ClarityVersion;
+  source: string;
+  dependencies: string[];
+  functions: RequirementFunction[];
+}
+
+// Requirements refer to other contracts, which are fetched with them; a chain this long is a mistake
+const MAX_REQUIREMENTS = 25;
+
+function checkContractId(contractId: unknown): string {
+  const id = typeof contractId === 'string' ? contractId.trim().replace(/^'/, '') : '';
+  if (!parseContractId(id)) {
+    throw new ProjectFileError(`'${contractId}' is not a contract id. Use the deployer's address and the contract name, e.g. SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.sip-010-trait-ft-standard`, 400);
+  }
+  return id;
+}
+
+// Mainnet contracts are fetched from mainnet and testnet ones from testnet, unless `network` is a devnet or custom
+// API for the same kind of address
+function networkFor(address: string, network?: NetworkTarget): NetworkTarget {
+  const mainnet = isMainnetAddress(address);
+  if (network && network.isMainnet === mainnet) return network;
+  return getNetwork(mainnet ? 'mainnet' : 'testnet');
+}
+
+async function fetchContractSource(contractId: string, network?: NetworkTarget): Promise<{ source: string; publishHeight: number; network: NetworkTarget }> {
+  const { address, name } = parseContractId(contractId)!;
+  const target = networkFor(address, network);
+  let response: Response;
+  try {
+    response = await fetch(`${target.apiUrl}/v2/contracts/source/${address}/${name}?proof=0`);
+  } catch {
+    throw new ProjectFileError(`Could not reach the ${target.name} Stacks API`, 502);
+  }
+  if (response.status === 404) {
+    throw new ProjectFileError(`There is no contract ${contractId} on ${target.name}`, 404);
+  }
+  if (!response.ok) {
+    throw new ProjectFileError(`The ${target.name} Stacks API responded with ${response.status}`, 502);
+  }
+  const data = await response.json() as { source: string; publish_height: number };
+  return { source: data.source, publishHeight: data.publish_height, network: target };
+}
+
+function describeFunctions(functions: Map<string, ExternalFunction> = new Map()): RequirementFunction[] {
+  return [...functions].map(([name, fn]) => ({
+    name,
+    access: fn.access,
+    args: fn.args.map(arg => ({ name: arg.name, type: typeToString(arg.type) })),
+    returns: typeToString(fn.returns),
+  }));
+}
+
+async function readManifest(project: ProjectRef): Promise<string | undefined> {
+  try {
+    return (await readProjectFile(project, MANIFEST_PATH)).content;
+  } catch (err) {
+    if (err instanceof ProjectFileError && err.status === 404) return undefined;
+    throw err;
+  }
+}
+
+/** The cached sources of the project's requirements and the contracts they refer to */
+export async function loadRequirementSources(project: ProjectRef): Promise<RequirementSource[]> {
+  const files = await readProjectFiles(project, REQUIREMENTS_DIRECTORY);
+  return files.flatMap(file => {
+    const contractId = requirementIdOfPath(file.path);
+    return contractId ? [{ contractId, code: file.content, clarityVersion: inferClarityVersion(file.content) }] : [];
+  });
+}
+
+/** Fetch a deployed contract's source from the network its address belongs to, and describe its functions */
+export async function lookupRequirement(contractId: unknown, network?: NetworkTarget): Promise<RequirementLookup> {
+  const id = checkContractId(contractId);
+  const { source, publishHeight, network: target } = await fetchContractSource(id, network);
+  const clarityVersion = inferClarityVersion(source);
+  return {
+    contractId: id,
+    network: target.name,
+    publishHeight,
+    clarityVersion,
+    source,
+    dependencies: requirementReferences(source, id),
+    functions: describeFunctions(requirementInterfaces([{ contractId: id, code: source, clarityVersion }]).get(id)?.functions),
+  };
+}
+
+/**
+ * The contracts Clarinet.toml requires, followed by the cached contracts they refer to and the SIP traits. A
+ * trait the project has its own copy of is listed once, with that copy.
+ */
+export async function listRequirements(project: ProjectRef): Promise<ProjectRequirement[]> {
+  const manifest = await readManifest(project);
+  const required = manifest === undefined ? [] : parseManifest(manifest).requirements;
+  const cached = await loadRequirementSources(project);
+  const sources = withSipTraits(cached);
+  const byId = new Map(sources.map(source => [source.contractId, source]));
+  const interfaces = requirementInterfaces(sources);
+  const ids = [...new Set([...required, ...sources.map(source => source.contractId)])];
+
+  return ids.map(contractId => {
+    const source = byId.get(contractId);
+    return {
+      contractId,
+      required: required.includes(contractId),
+      builtin: isSipTraitRequirement(contractId),
+      cached: cached.some(other => other.contractId === contractId),
+      clarityVersion: source?.clarityVersion,
+      simnetId: remapPrincipal(contractId, 'simnet'),
+      testnetId: remapPrincipal(contractId, 'testnet'),
+      dependencies: source ? requirementReferences(source.code, contractId) : [],
+      functions: describeFunctions(interfaces.get(contractId)?.functions),
+    };
+  });
+}
+
+// The sources of `contractIds` and of every contract they refer to, other than the SIP traits and the contracts in
+// `skip`, by contract id
+async function fetchRequirementSources(contractIds: string[], network?: NetworkTarget, skip = new Set<string>()): Promise<Map<string, string>> {
+  const fetched = new Map<string, string>();
+  const pending = [...contractIds];
+  while (pending.length > 0) {
+    const next = pending.shift()!;
+    if (fetched.has(next) || (!contractIds.includes(next) && (skip.has(next) || isSipTraitRequirement(next)))) continue;
+    if (fetched.size >= MAX_REQUIREMENTS) {
+      throw new ProjectFileError(`${contractIds.join(', ')} refer to more than ${MAX_REQUIREMENTS} other contracts`, 400);
+    }
+    const { source } = await fetchContractSource(next, network);
+    fetched.set(next, source);
+    pending.push(...requirementReferences(source, next));
+  }
+  return fetched;
+}
+
+/**
+ * Add a deployed contract to the project's requirements: its source, and that of every contract it refers to
+ * other than the SIP traits, is cached under .cache/requirements as Clarinet does, and Clarinet.toml lists it.
+ * Adding a requirement again fetches its source again.
+ */
+export async function addRequirement(project: ProjectRef, contractId: unknown, network?: NetworkTarget): Promise<ProjectRequirement[]> {
+  const id = checkContractId(contractId);
+  await initializeProject(project);
+  const cached = new Set((await loadRequirementSources(project)).map(source => source.contractId));
+
+  for (const [next, source] of await fetchRequirementSources([id], network, cached)) {
+    await writeProjectFile(project, requirementPath(next), source);
+  }
+
+  const manifest = await readManifest(project);
+  if (manifest !== undefined) {
+    const required = parseManifest(manifest).requirements;
+    if (!required.includes(id)) {
+      await writeProjectFile(project, MANIFEST_PATH, setManifestRequirements(manifest, [...required, id]));
+    }
+  }
+  return listRequirements(project);
+}
+
+/**
+ * Remove a requirement from Clarinet.toml, along with the cached sources no remaining requirement refers to
+ */
+export async function removeRequirement(project: ProjectRef, contractId: unknown): Promise<ProjectRequirement[]> {
+  const id = checkContractId(contractId);
+  const manifest = await readManifest(project);
+  const required = manifest === undefined ? [] : parseManifest(manifest).requirements;
+  const remaining = required.filter(other => other !== id);
+  if (manifest !== undefined && remaining.length !== required.length) {
+    await writeProjectFile(project, MANIFEST_PATH, setManifestRequirements(manifest, remaining));
+  }
+
+  const sources = new Map((await loadRequirementSources(project)).map(source => [source.contractId, source]));
+  const kept = new Set<string>();
+  const keep = (other: string) => {
+    if (kept.has(other)) return;
+    kept.add(other);
+    requirementReferences(sources.get(other)?.code ?? '', other).forEach(keep);
+  };
+  remaining.forEach(keep);
+  for (const other of sources.keys()) {
+    if (!kept.has(other)) await deleteEntry(project, requirementPath(other));
+  }
+  return listRequirements(project);
+}
+
+/**
+ * Create a project for `userId` from a deployed contract: its source becomes the project's contract, with `.name`
+ * references to its deployer's other contracts written out in full, and the deployed contracts it refers to
+ * become the project's requirements, fetched as addRequirement does. Everything is fetched before the project
+ * is created.
+ */
+export async function forkContract(
+  userId: string,
+  contractId: unknown,
+  network?: NetworkTarget,
+  options: { name?: string } = {}
+): Promise<{ projectId: string; name: string }> {
+  const id = checkContractId(contractId);
+  const { source, network: target } = await fetchContractSource(id, network);
+  const code = qualifyContractReferences(source, id);
+  const clarityVersion = inferClarityVersion(source);
+  const required = requirementReferences(code, id);
+  const requirements = await fetchRequirementSources(required, target);
+
+  const contractName = parseContractId(id)!.name;
+  const path = `contracts/${contractName}.clar`;
+  const name = options.name?.trim() || contractName;
+  const contract = { name: contractName, path, clarityVersion };
+  const entries = new Map<string, string | undefined>([
+    [MANIFEST_PATH, setManifestRequirements(createManifest(name, [contract]), required)],
+    ['contracts', undefined],
+    [path, code],
+    ['settings', undefined],
+    ['settings/Devnet.toml', DEVNET_SETTINGS],
+    ['tests', undefined],
+  ]);
+  if (requirements.size > 0) {
+    entries.set('.cache', undefined);
+    entries.set(REQUIREMENTS_DIRECTORY, undefined);
+    for (const [requirementId, requirementSource] of requirements) {
+      entries.set(requirementPath(requirementId), requirementSource);
+    }
+  }
+
+  const projectId = await createProjectWithFiles(userId, {
+    name,
+    description: `Forked from ${id} on ${target.name}`,
+    clarityVersion,
+  }, entries);
+  return { projectId, name };
+}
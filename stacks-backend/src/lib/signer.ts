@@ -0,0 +1,97 @@
+import type { Request } from 'express';
+import { StacksAccount, deriveAccount } from './wallet';
+import { getUserIdFromToken, isSupabaseConfigured, supabaseRequest } from './supabase';
+
+// Server master seed phrase; each user gets their own account derived from it
+const WALLET_SEED_PHRASE = process.env.WALLET_SEED_PHRASE;
+
+/** The account that signs a request's transactions */
+export interface Signer {
+  address: string;
+  privateKey: string;
+  // Derivation index of a per-user account; absent for the shared deployer wallet
+  accountIndex?: number;
+}
+
+/** No account to sign with: the caller is not signed in, or the server has no wallet configured */
+export class SignerError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'SignerError';
+  }
+}
+
+// Indexes never change once assigned, so accounts are derived once per user
+const accounts = new Map<string, StacksAccount>();
+
+export function usesUserWallets(): boolean {
+  return Boolean(WALLET_SEED_PHRASE);
+}
+
+async function findAccountIndex(userId: string): Promise<number | undefined> {
+  const response = await supabaseRequest(`user_wallets?user_id=eq.${userId}&select=account_index`);
+  const rows = await response.json() as Array<{ account_index: number }>;
+  return rows[0]?.account_index;
+}
+
+// The user's account index, assigning the next free one on first use
+async function getAccountIndex(userId: string): Promise<number> {
+  const existing = await findAccountIndex(userId);
+  if (existing !== undefined) return existing;
+
+  try {
+    const response = await supabaseRequest('user_wallets', {
+      method: 'POST',
+      headers: { Prefer: 'return=representation' },
+      body: JSON.stringify({ user_id: userId }),
+    });
+    const [row] = await response.json() as Array<{ account_index: number }>;
+    return row.account_index;
+  } catch (err) {
+    // A concurrent request may have assigned one first
+    const assigned = await findAccountIndex(userId);
+    if (assigned !== undefined) return assigned;
+    throw err;
+  }
+}
+
+async function getUserAccount(userId: string): Promise<StacksAccount> {
+  const cached = accounts.get(userId);
+  if (cached) return cached;
+
+  const account = deriveAccount(WALLET_SEED_PHRASE!, await getAccountIndex(userId));
+  accounts.set(userId, account);
+  // Stored for lookups from the dashboard; the key is always derived, never stored
+  await supabaseRequest(`user_wallets?user_id=eq.${userId}&address=is.null`, {
+    method: 'PATCH',
+    body: JSON.stringify({ address: account.address }),
+  }).catch(err => console.warn(`Could not store the address of ${userId}:`, err instanceof Error ? err.message : err));
+  return account;
+}
+
+/**
+ * The account to sign a request's transactions with. With `WALLET_SEED_PHRASE` set, that is the
+ * signed-in caller's own account; otherwise it is the shared `DEPLOYER_PRIVATE_KEY` wallet.
+ */
+export async function resolveSigner(req: Request): Promise<Signer> {
+  if (!usesUserWallets()) {
+    const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
+    const address = process.env.DEPLOYER_ADDRESS;
+    if (!privateKey || !address) {
+      throw new SignerError('Deployer wallet not configured on server', 500);
+    }
+    return { address, privateKey };
+  }
+
+  if (!isSupabaseConfigured()) {
+    throw new SignerError('Per-user wallets need SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY', 500);
+  }
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const userId = token && await getUserIdFromToken(token);
+  if (!userId) {
+    throw new SignerError('Sign in to use your deployer wallet', 401);
+  }
+
+  const { address, privateKey, index } = await getUserAccount(userId);
+  return { address, privateKey, accountIndex: index };
+}
@@ -0,0 +1,1189 @@
+import { createHash } from 'crypto';
+import { ripemd160 } from '@noble/hashes/ripemd160';
+import { keccak_256 } from '@noble/hashes/sha3';
+import * as secp from '@noble/secp256k1';
+import {
+  TransactionVersion,
+  addressFromVersionHash,
+  addressToString,
+  createAddress,
+  getAddressFromPublicKey,
+} from '@stacks/transactions';
+import { AtomNode, ClarityNode, ListNode, PrincipalNode, SourceSpan, isList, listHead } from '../clarity/ast';
+import type { ClarityVersion } from '../clarity/builtins';
+import { ClarityType, parseTypeSignature } from '../clarity/types';
+import type { WorldState } from './state';
+import {
+  ClarityValue,
+  FALSE,
+  TRUE,
+  V,
+  conformsTo,
+  deserializeValue,
+  serializeValue,
+  utf8Length,
+  valueToString,
+  valuesEqual,
+} from './values';
+
+const MAX_INT = (1n << 127n) - 1n;
+const MIN_INT = -(1n << 127n);
+const MAX_UINT = (1n << 128n) - 1n;
+
+// Clarity's limit on nested function calls
+const MAX_CALL_DEPTH = 64;
+
+// Testnet chain id and address versions (single-sig and multi-sig)
+const CHAIN_ID = 0x80000000n;
+const STANDARD_VERSIONS = new Set([26, 21]);
+
+/** An error that aborts the transaction, like a runtime error on chain */
+export class ClarityRuntimeError extends Error {
+  constructor(message: string, readonly span?: SourceSpan) {
+    super(message);
+    this.name = 'ClarityRuntimeError';
+  }
+}
+
+/** Thrown by asserts!, unwrap!, try! ... and caught where the function returns */
+class EarlyReturn {
+  constructor(readonly value: ClarityValue) {}
+}
+
+export interface ContractFunction {
+  name: string;
+  access: 'public' | 'read-only' | 'private';
+  args: Array<{ name: string; type: ClarityType }>;
+  body: ClarityNode;
+}
+
+/** A deployed contract: its definitions, with state kept separately in WorldState */
+export interface Contract {
+  id: string;
+  name: string;
+  deployer: string;
+  clarityVersion: ClarityVersion;
+  source: string;
+  nodes: ClarityNode[];
+  functions: Map<string, ContractFunction>;
+  constants: Map<string, ClarityNode>;
+  constantValues: Map<string, ClarityValue>;
+  dataVars: Map<string, { type: ClarityType; initial: ClarityNode }>;
+  maps: Map<string, { key: ClarityType; value: ClarityType }>;
+  fungibleTokens: Map<string, { supply?: ClarityNode; maxSupply?: bigint }>;
+  nonFungibleTokens: Map<string, ClarityType>;
+  implementedTraits: string[];
+}
+
+export type SimnetEvent =
+  | { type: 'print'; contract: string; value: ClarityValue }
+  | { type: 'stx-transfer'; sender: string; recipient: string; amount: bigint; memo?: Uint8Array }
+  | { type: 'stx-burn'; sender: string; amount: bigint }
+  | { type: 'ft-mint'; asset: string; recipient: string; amount: bigint }
+  | { type: 'ft-transfer'; asset: string; sender: string; recipient: string; amount: bigint }
+  | { type: 'ft-burn'; asset: string; sender: string; amount: bigint }
+  | { type: 'nft-mint'; asset: string; recipient: string; value: ClarityValue }
+  | { type: 'nft-transfer'; asset: string; sender: string; recipient: string; value: ClarityValue }
+  | { type: 'nft-burn'; asset: string; sender: string; value: ClarityValue };
+
+export interface BlockInfo {
+  time: bigint;
+  headerHash: Uint8Array;
+  idHeaderHash: Uint8Array;
+  burnHeaderHash: Uint8Array;
+  vrfSeed: Uint8Array;
+  miner: string;
+}
+
+/** What the interpreter needs from the chain it runs on (implemented by Simnet) */
+export interface Chain {
+  state: WorldState;
+  events: SimnetEvent[];
+  readonly blockHeight: number;
+  getContract(id: string): Contract | undefined;
+  getBlock(height: number): BlockInfo | undefined;
+}
+
+interface Frame {
+  contract: Contract;
+  sender: string;
+  caller: string;
+  sponsor?: string;
+  readOnly: boolean;
+  depth: number;
+}
+
+interface Env {
+  frame: Frame;
+  locals: Map<string, ClarityValue>;
+}
+
+type SpecialForm = (node: ListNode, args: ClarityNode[], env: Env) => ClarityValue;
+type NativeFunction = (args: ClarityValue[], node: ListNode, env: Env) => ClarityValue;
+
+/** Build a contract's definitions from an AST that has passed checkClaritySource */
+export function loadContract(
+  nodes: ClarityNode[],
+  info: { name: string; deployer: string; clarityVersion: ClarityVersion; source: string }
+): Contract {
+  const contract: Contract = {
+    ...info,
+    id: `${info.deployer}.${info.name}`,
+    nodes,
+    functions: new Map(),
+    constants: new Map(),
+    constantValues: new Map(),
+    dataVars: new Map(),
+    maps: new Map(),
+    fungibleTokens: new Map(),
+    nonFungibleTokens: new Map(),
+    implementedTraits: [],
+  };
+  // The contract already type-checked, so signatures parse without errors
+  const type = (node: ClarityNode) => parseTypeSignature(node, []) ?? { kind: 'unknown' as const };
+  const name = (node: ClarityNode) => (node as AtomNode).name;
+
+  for (const node of nodes.filter(isList)) {
+    const items = node.items;
+    switch (listHead(node)) {
+      case 'define-public':
+      case 'define-read-only':
+      case 'define-private': {
+        const [fnName, ...args] = (items[1] as ListNode).items;
+        contract.functions.set(name(fnName), {
+          name: name(fnName),
+          access: listHead(node)!.slice('define-'.length) as ContractFunction['access'],
+          args: args.map(arg => ({ name: name((arg as ListNode).items[0]), type: type((arg as ListNode).items[1]) })),
+          body: items[2],
+        });
+        break;
+      }
+      case 'define-constant':
+        contract.constants.set(name(items[1]), items[2]);
+        break;
+      case 'define-data-var':
+        contract.dataVars.set(name(items[1]), { type: type(items[2]), initial: items[3] });
+        break;
+      case 'define-map':
+        contract.maps.set(name(items[1]), { key: type(items[2]), value: type(items[3]) });
+        break;
+      case 'define-fungible-token':
+        contract.fungibleTokens.set(name(items[1]), { supply: items[2] });
+        break;
+      case 'define-non-fungible-token':
+        contract.nonFungibleTokens.set(name(items[1]), type(items[2]));
+        break;
+      case 'impl-trait': {
+        const trait = items[1] as PrincipalNode;
+        contract.implementedTraits.push(`${trait.address ?? info.deployer}.${trait.contractName}.${trait.traitName}`);
+        break;
+      }
+    }
+  }
+  return contract;
+}
+
+function principalName(node: PrincipalNode, defaultAddress: string): string {
+  const address = node.address ?? defaultAddress;
+  return node.contractName ? `${address}.${node.contractName}` : address;
+}
+
+function integer(kind: 'int' | 'uint', value: bigint, node?: ClarityNode): ClarityValue {
+  const [min, max] = kind === 'int' ? [MIN_INT, MAX_INT] : [0n, MAX_UINT];
+  if (value < min) throw new ClarityRuntimeError('Arithmetic underflow', node?.span);
+  if (value > max) throw new ClarityRuntimeError('Arithmetic overflow', node?.span);
+  return kind === 'int' ? V.int(value) : V.uint(value);
+}
+
+function isqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) >> 1n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) >> 1n;
+  }
+  return x;
+}
+
+/** 16-byte little-endian encoding Clarity uses to hash and convert integers */
+function integerBytes(value: bigint): Uint8Array {
+  const bytes = new Uint8Array(16);
+  let remaining = BigInt.asUintN(128, value);
+  for (let i = 0; i < 16; i++) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return bytes;
+}
+
+function bytesToUnsigned(bytes: Uint8Array, littleEndian: boolean): bigint {
+  const ordered = littleEndian ? [...bytes].reverse() : [...bytes];
+  return ordered.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  return Uint8Array.from(Buffer.concat(parts));
+}
+
+function hash(algorithm: string, data: Uint8Array): Uint8Array {
+  return Uint8Array.from(createHash(algorithm).update(data).digest());
+}
+
+type SequenceKind = 'list' | 'buff' | 'string-ascii' | 'string-utf8';
+
+function sequenceItems(value: ClarityValue): ClarityValue[] | undefined {
+  switch (value.kind) {
+    case 'list': return value.items;
+    case 'buff': return [...value.value].map(byte => V.buff(Uint8Array.of(byte)));
+    case 'string-ascii': return [...value.value].map(char => V.ascii(char));
+    case 'string-utf8': return Array.from(value.value).map(char => V.utf8(char));
+    default: return undefined;
+  }
+}
+
+function sequenceFrom(kind: SequenceKind, items: ClarityValue[]): ClarityValue {
+  switch (kind) {
+    case 'list': return V.list(items);
+    case 'buff': return V.buff(concatBytes(items.map(item => (item as { value: Uint8Array }).value)));
+    case 'string-ascii': return V.ascii(items.map(item => (item as { value: string }).value).join(''));
+    case 'string-utf8': return V.utf8(items.map(item => (item as { value: string }).value).join(''));
+  }
+}
+
+/**
+ * Tree-walking evaluator for contracts loaded with loadContract.
+ * State lives in `chain.state`; contract calls snapshot it and restore the snapshot
+ * when the callee returns an err, matching how Clarity rolls back failed calls.
+ */
+export class Interpreter {
+  private readonly special: Record<string, SpecialForm>;
+  private readonly natives: Record<string, NativeFunction>;
+
+  constructor(private readonly chain: Chain) {
+    this.special = this.createSpecialForms();
+    this.natives = this.createNatives();
+  }
+
+  /** Evaluate the top-level forms of a contract being deployed by `sender` */
+  initialize(contract: Contract, sender: string) {
+    const storage = this.chain.state.storage(contract.id);
+    contract.maps.forEach((_, name) => storage.maps.set(name, new Map()));
+    contract.nonFungibleTokens.forEach((_, name) => storage.nfts.set(name, new Map()));
+    contract.fungibleTokens.forEach((_, name) => {
+      storage.ftSupply.set(name, 0n);
+      storage.ftBalances.set(name, new Map());
+    });
+
+    const env: Env = {
+      frame: { contract, sender, caller: sender, readOnly: false, depth: 0 },
+      locals: new Map(),
+    };
+    for (const node of contract.nodes) {
+      const form = listHead(node);
+      const items = isList(node) ? node.items : [];
+      try {
+        switch (form) {
+          case 'define-constant':
+            this.constantValue(contract, (items[1] as AtomNode).name, env);
+            break;
+          case 'define-data-var': {
+            const name = (items[1] as AtomNode).name;
+            const value = this.eval(items[3], env);
+            if (!conformsTo(value, contract.dataVars.get(name)!.type)) {
+              throw new ClarityRuntimeError(`Initial value of '${name}' does not match its declared type`, items[3].span);
+            }
+            this.chain.state.storage(contract.id).dataVars.set(name, value);
+            break;
+          }
+          case 'define-fungible-token': {
+            const token = contract.fungibleTokens.get((items[1] as AtomNode).name)!;
+            if (token.supply) token.maxSupply = this.uint(this.eval(token.supply, env), token.supply);
+            break;
+          }
+          case 'define-public':
+          case 'define-read-only':
+          case 'define-private':
+          case 'define-map':
+          case 'define-non-fungible-token':
+          case 'define-trait':
+          case 'impl-trait':
+          case 'use-trait':
+            break;
+          default:
+            this.eval(node, env);
+        }
+      } catch (err) {
+        if (err instanceof EarlyReturn) {
+          throw new ClarityRuntimeError('Early return outside of a function', node.span);
+        }
+        throw err;
+      }
+    }
+  }
+
+  /**
+   * Call a public or read-only function as a transaction (or read-only query) would.
+   * Returns the function's result; state changes are rolled back if it returns an err.
+   */
+  call(contract: Contract, fn: ContractFunction, args: ClarityValue[], sender: string, readOnly: boolean): ClarityValue {
+    return this.invokeInTransaction(fn, args, { contract, sender, caller: sender, readOnly, depth: 0 });
+  }
+
+  // ---- evaluation ----
+
+  private eval(node: ClarityNode, env: Env): ClarityValue {
+    switch (node.kind) {
+      case 'int': return V.int(node.value);
+      case 'uint': return V.uint(node.value);
+      case 'string': return node.encoding === 'ascii' ? V.ascii(node.value) : V.utf8(node.value);
+      case 'buffer': return V.buff(Uint8Array.from(Buffer.from(node.hex, 'hex')));
+      case 'principal': return V.principal(principalName(node, env.frame.contract.deployer));
+      case 'tuple': return V.tuple(node.entries.map(e => [e.key, this.eval(e.value, env)]));
+      case 'atom': return this.resolve(node, env);
+      case 'trait-ref': throw new ClarityRuntimeError('Trait references can only be used in type signatures', node.span);
+      case 'list': return this.apply(node, env);
+    }
+  }
+
+  private resolve(node: AtomNode, env: Env): ClarityValue {
+    const local = env.locals.get(node.name);
+    if (local) return local;
+    const { frame } = env;
+    if (frame.contract.constants.has(node.name)) return this.constantValue(frame.contract, node.name, env);
+
+    switch (node.name) {
+      case 'true': return TRUE;
+      case 'false': return FALSE;
+      case 'none': return V.none;
+      case 'tx-sender': return V.principal(frame.sender);
+      case 'contract-caller': return V.principal(frame.caller);
+      case 'tx-sponsor?': return frame.sponsor ? V.some(V.principal(frame.sponsor)) : V.none;
+      case 'block-height':
+      case 'stacks-block-height':
+      case 'burn-block-height':
+      case 'tenure-height':
+        return V.uint(BigInt(this.chain.blockHeight));
+      case 'stx-liquid-supply': {
+        let total = 0n;
+        this.chain.state.stxBalances.forEach(balance => { total += balance; });
+        return V.uint(total);
+      }
+      case 'chain-id': return V.uint(CHAIN_ID);
+      case 'is-in-mainnet':
+      case 'is-in-regtest':
+        return FALSE;
+    }
+    throw new ClarityRuntimeError(`Use of unresolved variable '${node.name}'`, node.span);
+  }
+
+  private constantValue(contract: Contract, name: string, env: Env): ClarityValue {
+    const known = contract.constantValues.get(name);
+    if (known) return known;
+    // Constants are evaluated on first use during deployment, so they may refer to later definitions
+    if (env.locals.has(`#constant:${name}`)) {
+      throw new ClarityRuntimeError(`Constant '${name}' refers to itself`, contract.constants.get(name)!.span);
+    }
+    const value = this.eval(contract.constants.get(name)!, {
+      frame: env.frame,
+      locals: new Map([[`#constant:${name}`, TRUE]]),
+    });
+    contract.constantValues.set(name, value);
+    return value;
+  }
+
+  private apply(node: ListNode, env: Env): ClarityValue {
+    const [head, ...args] = node.items;
+    if (head?.kind !== 'atom') throw new ClarityRuntimeError('Expected a function name', node.span);
+
+    const fn = env.frame.contract.functions.get(head.name);
+    if (fn) return this.invoke(fn, args.map(arg => this.eval(arg, env)), env.frame, node);
+
+    const special = this.special[head.name];
+    if (special) return special(node, args, env);
+
+    const native = this.natives[head.name];
+    if (native) return native(args.map(arg => this.eval(arg, env)), node, env);
+
+    throw new ClarityRuntimeError(`Unknown function '${head.name}'`, head.span);
+  }
+
+  private invoke(fn: ContractFunction, args: ClarityValue[], frame: Frame, node?: ClarityNode): ClarityValue {
+    if (frame.depth >= MAX_CALL_DEPTH) throw new ClarityRuntimeError('Maximum call depth exceeded', node?.span);
+    if (args.length !== fn.args.length) {
+      throw new ClarityRuntimeError(`'${fn.name}' expects ${fn.args.length} argument(s), found ${args.length}`, node?.span);
+    }
+    const locals = new Map(fn.args.map((arg, i) => [arg.name, args[i]]));
+    try {
+      return this.eval(fn.body, { frame: { ...frame, depth: frame.depth + 1 }, locals });
+    } catch (err) {
+      if (err instanceof EarlyReturn) return err.value;
+      throw err;
+    }
+  }
+
+  /** Invoke with a state snapshot so an err result leaves no changes or events behind */
+  private invokeInTransaction(fn: ContractFunction, args: ClarityValue[], frame: Frame, node?: ClarityNode): ClarityValue {
+    const snapshot = this.chain.state.clone();
+    const eventCount = this.chain.events.length;
+    const result = this.invoke(fn, args, frame, node);
+    if (result.kind === 'response' && !result.isOk) {
+      this.chain.state = snapshot;
+      this.chain.events.length = eventCount;
+    }
+    return result;
+  }
+
+  /** Call a function passed by name to map, filter or fold */
+  private applyNamed(nameNode: ClarityNode, args: ClarityValue[], node: ListNode, env: Env): ClarityValue {
+    const name = this.atomName(nameNode, 'a function name');
+    const fn = env.frame.contract.functions.get(name);
+    if (fn) return this.invoke(fn, args, env.frame, node);
+    const native = this.natives[name];
+    if (native) return native(args, node, env);
+    throw new ClarityRuntimeError(`'${name}' cannot be used as a function argument`, nameNode.span);
+  }
+
+  // ---- helpers ----
+
+  private fail(message: string, node: ClarityNode): ClarityRuntimeError {
+    return new ClarityRuntimeError(message, node.span);
+  }
+
+  private atomName(node: ClarityNode | undefined, what: string): string {
+    if (node?.kind !== 'atom') throw new ClarityRuntimeError(`Expected ${what}`, node?.span);
+    return node.name;
+  }
+
+  private expect<K extends ClarityValue['kind']>(value: ClarityValue, kind: K, node: ClarityNode): Extract<ClarityValue, { kind: K }> {
+    if (value.kind !== kind) throw this.fail(`Expected ${kind}, found ${valueToString(value)}`, node);
+    return value as Extract<ClarityValue, { kind: K }>;
+  }
+
+  private uint(value: ClarityValue, node: ClarityNode): bigint {
+    return this.expect(value, 'uint', node).value;
+  }
+
+  private bool(value: ClarityValue, node: ClarityNode): boolean {
+    return this.expect(value, 'bool', node).value;
+  }
+
+  private principal(value: ClarityValue, node: ClarityNode): string {
+    return this.expect(value, 'principal', node).value;
+  }
+
+  private bytes(value: ClarityValue, node: ClarityNode): Uint8Array {
+    return this.expect(value, 'buff', node).value;
+  }
+
+  private integerKind(values: ClarityValue[], node: ListNode): 'int' | 'uint' {
+    const kind = values[0]?.kind;
+    if ((kind !== 'int' && kind !== 'uint') || values.some(v => v.kind !== kind)) {
+      throw this.fail(`'${listHead(node)}' expects int or uint arguments of the same type`, node);
+    }
+    return kind;
+  }
+
+  private integers(values: ClarityValue[]): bigint[] {
+    return values.map(v => (v as { value: bigint }).value);
+  }
+
+  private sequence(value: ClarityValue, node: ClarityNode): ClarityValue[] {
+    const items = sequenceItems(value);
+    if (!items) throw this.fail(`Expected a list, buffer or string, found ${valueToString(value)}`, node);
+    return items;
+  }
+
+  private requireWritable(node: ListNode, env: Env) {
+    if (env.frame.readOnly) throw this.fail(`'${listHead(node)}' cannot be used in a read-only call`, node);
+  }
+
+  private storage(env: Env) {
+    return this.chain.state.storage(env.frame.contract.id);
+  }
+
+  private emit(event: SimnetEvent) {
+    this.chain.events.push(event);
+  }
+
+  private assetId(env: Env, token: string): string {
+    return `${env.frame.contract.id}::${token}`;
+  }
+
+  private compare(test: (order: number) => boolean): NativeFunction {
+    return ([a, b], node) => {
+      let order: number;
+      if ((a.kind === 'int' || a.kind === 'uint') && b.kind === a.kind) {
+        order = a.value < b.value ? -1 : a.value > b.value ? 1 : 0;
+      } else if ((a.kind === 'string-ascii' || a.kind === 'string-utf8') && b.kind === a.kind) {
+        order = Buffer.compare(Buffer.from(a.value, 'utf8'), Buffer.from(b.value, 'utf8'));
+      } else if (a.kind === 'buff' && b.kind === 'buff') {
+        order = Buffer.compare(Buffer.from(a.value), Buffer.from(b.value));
+      } else {
+        throw this.fail(`'${listHead(node)}' expects two values of the same comparable type`, node);
+      }
+      return V.bool(test(order));
+    };
+  }
+
+  private arithmetic(op: (a: bigint, b: bigint, node: ListNode) => bigint, unary?: (a: bigint) => bigint): NativeFunction {
+    return (args, node) => {
+      const kind = this.integerKind(args, node);
+      const [first, ...rest] = this.integers(args);
+      if (rest.length === 0 && unary) return integer(kind, unary(first), node);
+      return integer(kind, rest.reduce((acc, value) => op(acc, value, node), first), node);
+    };
+  }
+
+  private bitwise(op: (a: bigint, b: bigint) => bigint): NativeFunction {
+    return (args, node) => {
+      const kind = this.integerKind(args, node);
+      const [first, ...rest] = this.integers(args);
+      return integer(kind, rest.reduce(op, first), node);
+    };
+  }
+
+  private hashFunction(digest: (data: Uint8Array) => Uint8Array): NativeFunction {
+    return ([value], node) => {
+      if (value.kind === 'buff') return V.buff(digest(value.value));
+      if (value.kind === 'int' || value.kind === 'uint') return V.buff(digest(integerBytes(value.value)));
+      throw this.fail(`'${listHead(node)}' expects a buff, int or uint`, node);
+    };
+  }
+
+  private unwrapValue(value: ClarityValue): ClarityValue | undefined {
+    if (value.kind === 'optional') return value.value;
+    if (value.kind === 'response' && value.isOk) return value.value;
+    return undefined;
+  }
+
+  // ---- special forms (arguments are evaluated on demand) ----
+
+  private createSpecialForms(): Record<string, SpecialForm> {
+    const body = (nodes: ClarityNode[], env: Env) => {
+      let result: ClarityValue = FALSE;
+      for (const node of nodes) result = this.eval(node, env);
+      return result;
+    };
+
+    const dataVar = (node: ClarityNode, env: Env) => {
+      const name = this.atomName(node, 'a data variable name');
+      if (!env.frame.contract.dataVars.has(name)) throw this.fail(`Undefined data variable '${name}'`, node);
+      return name;
+    };
+
+    const mapName = (node: ClarityNode, env: Env) => {
+      const name = this.atomName(node, 'a map name');
+      const map = this.storage(env).maps.get(name);
+      if (!map) throw this.fail(`Undefined map '${name}'`, node);
+      return { name, map, types: env.frame.contract.maps.get(name)! };
+    };
+
+    const checkType = (value: ClarityValue, type: ClarityType, what: string, node: ClarityNode) => {
+      if (!conformsTo(value, type)) throw this.fail(`${what} ${valueToString(value)} does not match the declared type`, node);
+    };
+
+    const fungibleToken = (node: ClarityNode, env: Env) => {
+      const name = this.atomName(node, 'a fungible token name');
+      const token = env.frame.contract.fungibleTokens.get(name);
+      if (!token) throw this.fail(`Undefined fungible token '${name}'`, node);
+      const storage = this.storage(env);
+      return { name, token, balances: storage.ftBalances.get(name)!, supply: storage.ftSupply.get(name)! };
+    };
+
+    const nonFungibleToken = (node: ClarityNode, env: Env) => {
+      const name = this.atomName(node, 'a non-fungible token name');
+      const type = env.frame.contract.nonFungibleTokens.get(name);
+      if (!type) throw this.fail(`Undefined non-fungible token '${name}'`, node);
+      return { name, type, owners: this.storage(env).nfts.get(name)! };
+    };
+
+    const blockProperty = (node: ListNode, args: ClarityNode[], env: Env, properties: Record<string, (block: BlockInfo) => ClarityValue>) => {
+      const property = this.atomName(args[0], 'a block property');
+      const read = properties[property];
+      if (!read) throw this.fail(`Unknown block property '${property}'`, args[0]);
+      const height = this.uint(this.eval(args[1], env), args[1]);
+      const block = height < BigInt(this.chain.blockHeight) ? this.chain.getBlock(Number(height)) : undefined;
+      return block ? V.some(read(block)) : V.none;
+    };
+
+    const stacksBlockProperties: Record<string, (block: BlockInfo) => ClarityValue> = {
+      'time': block => V.uint(block.time),
+      'header-hash': block => V.buff(block.headerHash),
+      'id-header-hash': block => V.buff(block.idHeaderHash),
+    };
+    const tenureProperties: Record<string, (block: BlockInfo) => ClarityValue> = {
+      'time': block => V.uint(block.time),
+      'burnchain-header-hash': block => V.buff(block.burnHeaderHash),
+      'miner-address': block => V.principal(block.miner),
+      'vrf-seed': block => V.buff(block.vrfSeed),
+      'block-reward': () => V.uint(0n),
+      'miner-spend-total': () => V.uint(0n),
+      'miner-spend-winner': () => V.uint(0n),
+    };
+
+    return {
+      'if': (node, [cond, then, otherwise], env) =>
+        this.bool(this.eval(cond, env), cond) ? this.eval(then, env) : this.eval(otherwise, env),
+
+      'let': (node, [bindings, ...rest], env) => {
+        if (!isList(bindings)) throw this.fail('Expected a list of bindings', bindings ?? node);
+        const locals = new Map(env.locals);
+        const scope: Env = { frame: env.frame, locals };
+        for (const binding of bindings.items) {
+          if (!isList(binding) || binding.items.length !== 2) throw this.fail('Expected (name value)', binding);
+          locals.set(this.atomName(binding.items[0], 'a binding name'), this.eval(binding.items[1], scope));
+        }
+        return body(rest, scope);
+      },
+
+      'begin': (node, args, env) => body(args, env),
+
+      'and': (node, args, env) => V.bool(args.every(arg => this.bool(this.eval(arg, env), arg))),
+      'or': (node, args, env) => V.bool(args.some(arg => this.bool(this.eval(arg, env), arg))),
+
+      'asserts!': (node, [cond, thrown], env) => {
+        if (!this.bool(this.eval(cond, env), cond)) throw new EarlyReturn(this.eval(thrown, env));
+        return TRUE;
+      },
+
+      'unwrap!': (node, [input, thrown], env) => {
+        const value = this.unwrapValue(this.eval(input, env));
+        if (!value) throw new EarlyReturn(this.eval(thrown, env));
+        return value;
+      },
+
+      'unwrap-err!': (node, [input, thrown], env) => {
+        const value = this.eval(input, env);
+        if (value.kind === 'response' && !value.isOk) return value.value;
+        throw new EarlyReturn(this.eval(thrown, env));
+      },
+
+      'try!': (node, [input], env) => {
+        const value = this.eval(input, env);
+        const inner = this.unwrapValue(value);
+        if (inner) return inner;
+        if (value.kind !== 'optional' && value.kind !== 'response') throw this.fail("'try!' expects an optional or a response", input);
+        throw new EarlyReturn(value);
+      },
+
+      'match': (node, args, env) => {
+        const value = this.eval(args[0], env);
+        const branch = (nameNode: ClarityNode, expr: ClarityNode, bound: ClarityValue) => {
+          const locals = new Map(env.locals);
+          locals.set(this.atomName(nameNode, 'a binding name'), bound);
+          return this.eval(expr, { frame: env.frame, locals });
+        };
+        if (value.kind === 'optional') {
+          return value.value ? branch(args[1], args[2], value.value) : this.eval(args[3], env);
+        }
+        if (value.kind === 'response') {
+          return value.isOk ? branch(args[1], args[2], value.value) : branch(args[3], args[4], value.value);
+        }
+        throw this.fail("'match' expects an optional or a response", args[0]);
+      },
+
+      'tuple': (node, args, env) => V.tuple(args.map(arg => {
+        if (!isList(arg) || arg.items.length !== 2) throw this.fail('Expected (name value)', arg);
+        return [this.atomName(arg.items[0], 'a tuple field name'), this.eval(arg.items[1], env)];
+      })),
+
+      'get': (node, [key, tuple], env) => {
+        const name = this.atomName(key, 'a tuple field name');
+        const value = this.eval(tuple, env);
+        if (value.kind === 'optional') {
+          if (!value.value) return V.none;
+          return V.some(this.expect(value.value, 'tuple', tuple).fields.get(name) ?? V.none);
+        }
+        const field = this.expect(value, 'tuple', tuple).fields.get(name);
+        if (!field) throw this.fail(`Tuple has no field '${name}'`, key);
+        return field;
+      },
+
+      // ---- data ----
+
+      'var-get': (node, [name], env) => this.storage(env).dataVars.get(dataVar(name, env))!,
+
+      'var-set': (node, [name, valueNode], env) => {
+        this.requireWritable(node, env);
+        const varName = dataVar(name, env);
+        const value = this.eval(valueNode, env);
+        checkType(value, env.frame.contract.dataVars.get(varName)!.type, `Value`, valueNode);
+        this.storage(env).dataVars.set(varName, value);
+        return TRUE;
+      },
+
+      'map-get?': (node, [name, keyNode], env) => {
+        const { map } = mapName(name, env);
+        const entry = map.get(valueToString(this.eval(keyNode, env)));
+        return entry ? V.some(entry.value) : V.none;
+      },
+
+      'map-set': (node, [name, keyNode, valueNode], env) => {
+        this.requireWritable(node, env);
+        const { map, types } = mapName(name, env);
+        const key = this.eval(keyNode, env);
+        const value = this.eval(valueNode, env);
+        checkType(key, types.key, 'Key', keyNode);
+        checkType(value, types.value, 'Value', valueNode);
+        map.set(valueToString(key), { key, value });
+        return TRUE;
+      },
+
+      'map-insert': (node, [name, keyNode, valueNode], env) => {
+        this.requireWritable(node, env);
+        const { map, types } = mapName(name, env);
+        const key = this.eval(keyNode, env);
+        const value = this.eval(valueNode, env);
+        checkType(key, types.key, 'Key', keyNode);
+        checkType(value, types.value, 'Value', valueNode);
+        if (map.has(valueToString(key))) return FALSE;
+        map.set(valueToString(key), { key, value });
+        return TRUE;
+      },
+
+      'map-delete': (node, [name, keyNode], env) => {
+        this.requireWritable(node, env);
+        const { map } = mapName(name, env);
+        return V.bool(map.delete(valueToString(this.eval(keyNode, env))));
+      },
+
+      // ---- higher-order sequence functions ----
+
+      'map': (node, [fn, ...sequences], env) => {
+        const lists = sequences.map(seq => this.sequence(this.eval(seq, env), seq));
+        const length = Math.min(...lists.map(list => list.length));
+        const results: ClarityValue[] = [];
+        for (let i = 0; i < length; i++) results.push(this.applyNamed(fn, lists.map(list => list[i]), node, env));
+        return V.list(results);
+      },
+
+      'filter': (node, [fn, seqNode], env) => {
+        const seq = this.eval(seqNode, env);
+        const kept = this.sequence(seq, seqNode).filter(item => this.bool(this.applyNamed(fn, [item], node, env), node));
+        return sequenceFrom(seq.kind as SequenceKind, kept);
+      },
+
+      'fold': (node, [fn, seqNode, initial], env) =>
+        this.sequence(this.eval(seqNode, env), seqNode)
+          .reduce((acc, item) => this.applyNamed(fn, [item, acc], node, env), this.eval(initial, env)),
+
+      // ---- tokens ----
+
+      'ft-get-balance': (node, [name, owner], env) =>
+        V.uint(fungibleToken(name, env).balances.get(this.principal(this.eval(owner, env), owner)) ?? 0n),
+
+      'ft-get-supply': (node, [name], env) => V.uint(fungibleToken(name, env).supply),
+
+      'ft-mint?': (node, [name, amountNode, recipientNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, token: definition, balances, supply } = fungibleToken(name, env);
+        const amount = this.uint(this.eval(amountNode, env), amountNode);
+        const recipient = this.principal(this.eval(recipientNode, env), recipientNode);
+        if (amount <= 0n) return V.err(V.uint(1n));
+        if (definition.maxSupply !== undefined && supply + amount > definition.maxSupply) {
+          throw this.fail(`Minting ${amount} would exceed the total supply of '${token}'`, node);
+        }
+        this.storage(env).ftSupply.set(token, supply + amount);
+        balances.set(recipient, (balances.get(recipient) ?? 0n) + amount);
+        this.emit({ type: 'ft-mint', asset: this.assetId(env, token), recipient, amount });
+        return V.ok(TRUE);
+      },
+
+      'ft-transfer?': (node, [name, amountNode, senderNode, recipientNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, balances } = fungibleToken(name, env);
+        const amount = this.uint(this.eval(amountNode, env), amountNode);
+        const sender = this.principal(this.eval(senderNode, env), senderNode);
+        const recipient = this.principal(this.eval(recipientNode, env), recipientNode);
+        if (amount <= 0n) return V.err(V.uint(3n));
+        if (sender === recipient) return V.err(V.uint(2n));
+        const balance = balances.get(sender) ?? 0n;
+        if (balance < amount) return V.err(V.uint(1n));
+        balances.set(sender, balance - amount);
+        balances.set(recipient, (balances.get(recipient) ?? 0n) + amount);
+        this.emit({ type: 'ft-transfer', asset: this.assetId(env, token), sender, recipient, amount });
+        return V.ok(TRUE);
+      },
+
+      'ft-burn?': (node, [name, amountNode, senderNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, balances, supply } = fungibleToken(name, env);
+        const amount = this.uint(this.eval(amountNode, env), amountNode);
+        const sender = this.principal(this.eval(senderNode, env), senderNode);
+        const balance = balances.get(sender) ?? 0n;
+        if (amount <= 0n || balance < amount) return V.err(V.uint(1n));
+        balances.set(sender, balance - amount);
+        this.storage(env).ftSupply.set(token, supply - amount);
+        this.emit({ type: 'ft-burn', asset: this.assetId(env, token), sender, amount });
+        return V.ok(TRUE);
+      },
+
+      'nft-get-owner?': (node, [name, idNode], env) => {
+        const entry = nonFungibleToken(name, env).owners.get(valueToString(this.eval(idNode, env)));
+        return entry ? V.some(V.principal(entry.owner)) : V.none;
+      },
+
+      'nft-mint?': (node, [name, idNode, recipientNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, type, owners } = nonFungibleToken(name, env);
+        const id = this.eval(idNode, env);
+        const recipient = this.principal(this.eval(recipientNode, env), recipientNode);
+        checkType(id, type, 'Asset identifier', idNode);
+        if (owners.has(valueToString(id))) return V.err(V.uint(1n));
+        owners.set(valueToString(id), { id, owner: recipient });
+        this.emit({ type: 'nft-mint', asset: this.assetId(env, token), recipient, value: id });
+        return V.ok(TRUE);
+      },
+
+      'nft-transfer?': (node, [name, idNode, senderNode, recipientNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, owners } = nonFungibleToken(name, env);
+        const id = this.eval(idNode, env);
+        const sender = this.principal(this.eval(senderNode, env), senderNode);
+        const recipient = this.principal(this.eval(recipientNode, env), recipientNode);
+        const entry = owners.get(valueToString(id));
+        if (!entry) return V.err(V.uint(3n));
+        if (entry.owner !== sender) return V.err(V.uint(1n));
+        if (sender === recipient) return V.err(V.uint(2n));
+        owners.set(valueToString(id), { id, owner: recipient });
+        this.emit({ type: 'nft-transfer', asset: this.assetId(env, token), sender, recipient, value: id });
+        return V.ok(TRUE);
+      },
+
+      'nft-burn?': (node, [name, idNode, senderNode], env) => {
+        this.requireWritable(node, env);
+        const { name: token, owners } = nonFungibleToken(name, env);
+        const id = this.eval(idNode, env);
+        const sender = this.principal(this.eval(senderNode, env), senderNode);
+        const entry = owners.get(valueToString(id));
+        if (!entry) return V.err(V.uint(3n));
+        if (entry.owner !== sender) return V.err(V.uint(1n));
+        owners.delete(valueToString(id));
+        this.emit({ type: 'nft-burn', asset: this.assetId(env, token), sender, value: id });
+        return V.ok(TRUE);
+      },
+
+      // ---- contract context ----
+
+      'contract-call?': (node, [targetNode, fnNode, ...argNodes], env) => {
+        const contractId = this.principal(this.eval(targetNode, env), targetNode);
+        const contract = this.chain.getContract(contractId);
+        if (!contract) throw this.fail(`Contract '${contractId}' is not deployed`, targetNode);
+        const fnName = this.atomName(fnNode, 'a function name');
+        const fn = contract.functions.get(fnName);
+        if (!fn || fn.access === 'private') throw this.fail(`'${contractId}' has no public or read-only function '${fnName}'`, fnNode);
+        const args = argNodes.map(arg => this.eval(arg, env));
+        fn.args.forEach((param, i) => {
+          if (args[i] && !conformsTo(args[i], param.type)) {
+            throw this.fail(`Argument '${param.name}' of '${fnName}' does not match its declared type`, argNodes[i]);
+          }
+        });
+        return this.invokeInTransaction(fn, args, {
+          contract,
+          sender: env.frame.sender,
+          caller: env.frame.contract.id,
+          sponsor: env.frame.sponsor,
+          readOnly: env.frame.readOnly || fn.access === 'read-only',
+          depth: env.frame.depth,
+        }, node);
+      },
+
+      'as-contract': (node, [expr], env) => {
+        const self = env.frame.contract.id;
+        return this.eval(expr, { frame: { ...env.frame, sender: self, caller: self }, locals: env.locals });
+      },
+
+      // The simulator keeps no history, so at-block evaluates read-only against the current state
+      'at-block': (node, [, expr], env) => this.eval(expr, { frame: { ...env.frame, readOnly: true }, locals: env.locals }),
+
+      'get-block-info?': (node, args, env) => blockProperty(node, args, env, { ...stacksBlockProperties, ...tenureProperties }),
+      'get-stacks-block-info?': (node, args, env) => blockProperty(node, args, env, stacksBlockProperties),
+      'get-tenure-info?': (node, args, env) => blockProperty(node, args, env, tenureProperties),
+      'get-burn-block-info?': (node, args, env) => blockProperty(node, args, env, {
+        'header-hash': block => V.buff(block.burnHeaderHash),
+        'pox-addrs': () => V.tuple([['addrs', V.list([])], ['payout', V.uint(0n)]]),
+      }),
+
+      'from-consensus-buff?': (node, [typeNode, bufferNode], env) => {
+        const type = parseTypeSignature(typeNode, []);
+        const bytes = this.bytes(this.eval(bufferNode, env), bufferNode);
+        try {
+          const value = deserializeValue(bytes);
+          return type && conformsTo(value, type) ? V.some(value) : V.none;
+        } catch {
+          return V.none;
+        }
+      },
+    };
+  }
+
+  // ---- functions with evaluated arguments ----
+
+  private createNatives(): Record<string, NativeFunction> {
+    const optionalIndex = (index: bigint, length: number) => (index < BigInt(length) ? Number(index) : undefined);
+
+    const stxTransfer = (args: ClarityValue[], node: ListNode, env: Env, memo?: Uint8Array): ClarityValue => {
+      this.requireWritable(node, env);
+      const amount = this.uint(args[0], node);
+      const sender = this.principal(args[1], node);
+      const recipient = this.principal(args[2], node);
+      if (amount <= 0n) return V.err(V.uint(3n));
+      if (sender === recipient) return V.err(V.uint(2n));
+      if (sender !== env.frame.sender) return V.err(V.uint(4n));
+      const balances = this.chain.state.stxBalances;
+      const balance = balances.get(sender) ?? 0n;
+      if (balance < amount) return V.err(V.uint(1n));
+      balances.set(sender, balance - amount);
+      balances.set(recipient, (balances.get(recipient) ?? 0n) + amount);
+      this.emit({ type: 'stx-transfer', sender, recipient, amount, memo });
+      return V.ok(TRUE);
+    };
+
+    const intToString = (make: (s: string) => ClarityValue): NativeFunction => ([value], node) => {
+      if (value.kind !== 'int' && value.kind !== 'uint') throw this.fail('Expected an int or uint', node);
+      return make(value.value.toString());
+    };
+
+    const stringToInt = (kind: 'int' | 'uint'): NativeFunction => ([value], node) => {
+      if (value.kind !== 'string-ascii' && value.kind !== 'string-utf8') throw this.fail('Expected a string', node);
+      const pattern = kind === 'int' ? /^-?\d+$/ : /^\d+$/;
+      if (!pattern.test(value.value)) return V.none;
+      const parsed = BigInt(value.value);
+      const [min, max] = kind === 'int' ? [MIN_INT, MAX_INT] : [0n, MAX_UINT];
+      return parsed < min || parsed > max ? V.none : V.some(kind === 'int' ? V.int(parsed) : V.uint(parsed));
+    };
+
+    const buffToInt = (kind: 'int' | 'uint', littleEndian: boolean): NativeFunction => ([value], node) => {
+      const bytes = this.bytes(value, node);
+      if (bytes.length > 16) throw this.fail('Expected a buffer of at most 16 bytes', node);
+      const unsigned = bytesToUnsigned(bytes, littleEndian);
+      return kind === 'int' ? V.int(BigInt.asIntN(128, unsigned)) : V.uint(unsigned);
+    };
+
+    const shift = (left: boolean): NativeFunction => ([value, amount], node) => {
+      const shiftBy = this.uint(amount, node) % 128n;
+      if (value.kind === 'int') return V.int(left ? BigInt.asIntN(128, value.value << shiftBy) : value.value >> shiftBy);
+      if (value.kind === 'uint') return V.uint(left ? BigInt.asUintN(128, value.value << shiftBy) : value.value >> shiftBy);
+      throw this.fail('Expected an int or uint', node);
+    };
+
+    const principalDestruct = (principal: string) => {
+      const [address, name] = principal.split('.');
+      const parsed = createAddress(address);
+      return { version: parsed.version, hash: Uint8Array.from(Buffer.from(parsed.hash160, 'hex')), name };
+    };
+
+    const natives: Record<string, NativeFunction> = {
+      // arithmetic & logic
+      '+': this.arithmetic((a, b) => a + b),
+      '-': this.arithmetic((a, b) => a - b, a => -a),
+      '*': this.arithmetic((a, b) => a * b),
+      '/': this.arithmetic((a, b, node) => {
+        if (b === 0n) throw this.fail('Division by zero', node);
+        return a / b;
+      }),
+      'mod': this.arithmetic((a, b, node) => {
+        if (b === 0n) throw this.fail('Division by zero', node);
+        return a % b;
+      }),
+      'pow': (args, node) => {
+        const kind = this.integerKind(args, node);
+        const [base, exponent] = this.integers(args);
+        if (exponent < 0n || exponent > 0xffffffffn) throw this.fail('Power argument out of range', node);
+        // Anything past 128 bits overflows, so stop before building a huge number
+        if (exponent > 128n && (base > 1n || base < -1n)) throw this.fail('Arithmetic overflow', node);
+        return integer(kind, base ** exponent, node);
+      },
+      'sqrti': ([value], node) => {
+        const kind = this.integerKind([value], node);
+        if (this.integers([value])[0] < 0n) throw this.fail('sqrti of a negative number', node);
+        return integer(kind, isqrt(this.integers([value])[0]), node);
+      },
+      'log2': ([value], node) => {
+        const kind = this.integerKind([value], node);
+        const n = this.integers([value])[0];
+        if (n <= 0n) throw this.fail('log2 of a non-positive number', node);
+        return integer(kind, BigInt(n.toString(2).length - 1), node);
+      },
+      '<': this.compare(order => order < 0),
+      '>': this.compare(order => order > 0),
+      '<=': this.compare(order => order <= 0),
+      '>=': this.compare(order => order >= 0),
+      'is-eq': ([first, ...rest]) => V.bool(rest.every(value => valuesEqual(first, value))),
+      'and': (args, node) => V.bool(args.every(arg => this.bool(arg, node))),
+      'or': (args, node) => V.bool(args.some(arg => this.bool(arg, node))),
+      'not': ([value], node) => V.bool(!this.bool(value, node)),
+      'xor': this.bitwise((a, b) => a ^ b),
+      'bit-and': this.bitwise((a, b) => a & b),
+      'bit-or': this.bitwise((a, b) => a | b),
+      'bit-xor': this.bitwise((a, b) => a ^ b),
+      'bit-not': ([value], node) => {
+        if (value.kind === 'int') return V.int(~value.value);
+        if (value.kind === 'uint') return V.uint(MAX_UINT ^ value.value);
+        throw this.fail('Expected an int or uint', node);
+      },
+      'bit-shift-left': shift(true),
+      'bit-shift-right': shift(false),
+      'to-int': ([value], node) => integer('int', this.uint(value, node), node),
+      'to-uint': ([value], node) => integer('uint', this.expect(value, 'int', node).value, node),
+
+      // sequences
+      'list': args => V.list(args),
+      'len': ([value], node) => V.uint(BigInt(value.kind === 'string-utf8' ? utf8Length(value.value) : this.sequence(value, node).length)),
+      'element-at': ([seq, index], node) => {
+        const items = this.sequence(seq, node);
+        const i = optionalIndex(this.uint(index, node), items.length);
+        return i === undefined ? V.none : V.some(items[i]);
+      },
+      'index-of': ([seq, item], node) => {
+        const i = this.sequence(seq, node).findIndex(element => valuesEqual(element, item));
+        return i < 0 ? V.none : V.some(V.uint(BigInt(i)));
+      },
+      'append': ([list, item], node) => V.list([...this.expect(list, 'list', node).items, item]),
+      'concat': ([a, b], node) => {
+        if (a.kind !== b.kind) throw this.fail("'concat' expects two sequences of the same type", node);
+        return sequenceFrom(a.kind as SequenceKind, [...this.sequence(a, node), ...this.sequence(b, node)]);
+      },
+      'as-max-len?': ([seq, max], node) => {
+        const length = seq.kind === 'string-utf8' ? utf8Length(seq.value) : this.sequence(seq, node).length;
+        return BigInt(length) <= this.uint(max, node) ? V.some(seq) : V.none;
+      },
+      'slice?': ([seq, left, right], node) => {
+        const items = this.sequence(seq, node);
+        const [from, to] = [this.uint(left, node), this.uint(right, node)];
+        if (from > to || to > BigInt(items.length)) return V.none;
+        return V.some(sequenceFrom(seq.kind as SequenceKind, items.slice(Number(from), Number(to))));
+      },
+      'replace-at?': ([seq, index, element], node) => {
+        const items = this.sequence(seq, node);
+        const i = optionalIndex(this.uint(index, node), items.length);
+        if (i === undefined) return V.none;
+        if (seq.kind !== 'list' && (element.kind !== seq.kind || this.sequence(element, node).length !== 1)) {
+          throw this.fail("'replace-at?' expects a single element of the sequence's type", node);
+        }
+        return V.some(sequenceFrom(seq.kind as SequenceKind, items.map((item, j) => (j === i ? element : item))));
+      },
+
+      // conversions
+      'int-to-ascii': intToString(V.ascii),
+      'int-to-utf8': intToString(V.utf8),
+      'string-to-int?': stringToInt('int'),
+      'string-to-uint?': stringToInt('uint'),
+      'buff-to-int-le': buffToInt('int', true),
+      'buff-to-uint-le': buffToInt('uint', true),
+      'buff-to-int-be': buffToInt('int', false),
+      'buff-to-uint-be': buffToInt('uint', false),
+      'to-consensus-buff?': ([value]) => V.some(V.buff(serializeValue(value))),
+
+      // hashing & signatures
+      'sha256': this.hashFunction(data => hash('sha256', data)),
+      'sha512': this.hashFunction(data => hash('sha512', data)),
+      'sha512/256': this.hashFunction(data => hash('sha512-256', data)),
+      'hash160': this.hashFunction(data => ripemd160(hash('sha256', data))),
+      'keccak256': this.hashFunction(data => keccak_256(data)),
+      'secp256k1-recover?': ([hashValue, signatureValue], node) => {
+        const messageHash = this.bytes(hashValue, node);
+        const signature = this.bytes(signatureValue, node);
+        if (signature.length !== 65) return V.err(V.uint(2n));
+        try {
+          const recovered = secp.recoverPublicKey(messageHash, secp.Signature.fromCompact(signature.slice(0, 64)), signature[64], true);
+          return V.ok(V.buff(Uint8Array.from(recovered)));
+        } catch {
+          return V.err(V.uint(1n));
+        }
+      },
+      'secp256k1-verify': ([hashValue, signatureValue, keyValue], node) => {
+        const signature = this.bytes(signatureValue, node);
+        if (signature.length !== 64 && signature.length !== 65) return FALSE;
+        try {
+          return V.bool(secp.verify(secp.Signature.fromCompact(signature.slice(0, 64)), this.bytes(hashValue, node), this.bytes(keyValue, node)));
+        } catch {
+          return FALSE;
+        }
+      },
+
+      // optionals & responses
+      'ok': ([value]) => V.ok(value),
+      'err': ([value]) => V.err(value),
+      'some': ([value]) => V.some(value),
+      'default-to': ([fallback, value], node) => this.expect(value, 'optional', node).value ?? fallback,
+      'is-ok': ([value], node) => V.bool(this.expect(value, 'response', node).isOk),
+      'is-err': ([value], node) => V.bool(!this.expect(value, 'response', node).isOk),
+      'is-some': ([value], node) => V.bool(this.expect(value, 'optional', node).value !== undefined),
+      'is-none': ([value], node) => V.bool(this.expect(value, 'optional', node).value === undefined),
+      'unwrap-panic': ([value], node) => {
+        const inner = this.unwrapValue(value);
+        if (!inner) throw this.fail(`unwrap-panic on ${valueToString(value)}`, node);
+        return inner;
+      },
+      'unwrap-err-panic': ([value], node) => {
+        if (value.kind === 'response' && !value.isOk) return value.value;
+        throw this.fail(`unwrap-err-panic on ${valueToString(value)}`, node);
+      },
+      'merge': ([a, b], node) => V.tuple([...this.expect(a, 'tuple', node).fields, ...this.expect(b, 'tuple', node).fields]),
+
+      // STX
+      'stx-get-balance': ([owner], node) => V.uint(this.chain.state.stxBalance(this.principal(owner, node))),
+      'stx-account': ([owner], node) => V.tuple([
+        ['locked', V.uint(0n)],
+        ['unlock-height', V.uint(0n)],
+        ['unlocked', V.uint(this.chain.state.stxBalance(this.principal(owner, node)))],
+      ]),
+      'stx-transfer?': (args, node, env) => stxTransfer(args, node, env),
+      'stx-transfer-memo?': (args, node, env) => stxTransfer(args, node, env, this.bytes(args[3], node)),
+      'stx-burn?': ([amountValue, senderValue], node, env) => {
+        this.requireWritable(node, env);
+        const amount = this.uint(amountValue, node);
+        const sender = this.principal(senderValue, node);
+        if (amount <= 0n) return V.err(V.uint(3n));
+        if (sender !== env.frame.sender) return V.err(V.uint(4n));
+        const balance = this.chain.state.stxBalance(sender);
+        if (balance < amount) return V.err(V.uint(1n));
+        this.chain.state.stxBalances.set(sender, balance - amount);
+        this.emit({ type: 'stx-burn', sender, amount });
+        return V.ok(TRUE);
+      },
+
+      // principals & context
+      'print': ([value], node, env) => {
+        this.emit({ type: 'print', contract: env.frame.contract.id, value });
+        return value;
+      },
+      'contract-of': ([value], node) => V.principal(this.principal(value, node)),
+      'principal-of?': ([key], node) => {
+        try {
+          return V.ok(V.principal(getAddressFromPublicKey(this.bytes(key, node), TransactionVersion.Testnet)));
+        } catch {
+          return V.err(V.uint(1n));
+        }
+      },
+      'is-standard': ([value], node) => V.bool(STANDARD_VERSIONS.has(principalDestruct(this.principal(value, node)).version)),
+      'principal-destruct?': ([value], node) => {
+        const { version, hash: hashBytes, name } = principalDestruct(this.principal(value, node));
+        const tuple = V.tuple([
+          ['hash-bytes', V.buff(hashBytes)],
+          ['name', name ? V.some(V.ascii(name)) : V.none],
+          ['version', V.buff(Uint8Array.of(version))],
+        ]);
+        return STANDARD_VERSIONS.has(version) ? V.ok(tuple) : V.err(tuple);
+      },
+      'principal-construct?': ([versionValue, hashValue, nameValue], node) => {
+        const versionBytes = this.bytes(versionValue, node);
+        const hashBytes = this.bytes(hashValue, node);
+        const failure = (code: bigint, principal?: string) => V.err(V.tuple([
+          ['error_code', V.uint(code)],
+          ['value', principal ? V.some(V.principal(principal)) : V.none],
+        ]));
+        if (versionBytes.length !== 1 || versionBytes[0] > 31 || hashBytes.length !== 20) return failure(1n);
+        const address = addressToString(addressFromVersionHash(versionBytes[0], Buffer.from(hashBytes).toString('hex')));
+        const principal = nameValue ? `${address}.${this.expect(nameValue, 'string-ascii', node).value}` : address;
+        return STANDARD_VERSIONS.has(versionBytes[0]) ? V.ok(V.principal(principal)) : failure(0n, principal);
+      },
+    };
+    // Clarity 2 names for the same functions
+    natives['element-at?'] = natives['element-at'];
+    natives['index-of?'] = natives['index-of'];
+    return natives;
+  }
+}
@@ -0,0 +1,30 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+let sessions: typeof import('./sessions');
+
+beforeEach(async () => {
+  // Sessions live in the module, so each test starts with none
+  vi.resetModules();
+  sessions = await import('./sessions');
+});
+
+describe('createSession', () => {
+  it("ends the caller's least recently used session once it has ten, and no one else's", () => {
+    const other = sessions.createSession('ip:10.0.0.2');
+    const own = Array.from({ length: 10 }, () => sessions.createSession('ip:10.0.0.1'));
+    sessions.getSession(own[0].id);
+
+    sessions.createSession('ip:10.0.0.1');
+
+    expect(sessions.getSession(own[0].id)).toBeDefined();
+    expect(sessions.getSession(own[1].id)).toBeUndefined();
+    expect(sessions.getSession(other.id)).toBeDefined();
+  });
+
+  it("refuses new sessions once the server is full, rather than ending other callers' ones", () => {
+    const started = Array.from({ length: 200 }, (_, i) => sessions.createSession(`ip:10.0.${Math.floor(i / 10)}.1`));
+
+    expect(() => sessions.createSession('ip:10.1.0.1')).toThrow(sessions.SessionLimitError);
+    expect(started.every(session => sessions.getSession(session.id))).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { randomUUID } from 'crypto';
+import { Simnet } from './simnet';
+
+// Sessions are dropped after an hour without use. A caller's new session replaces its least recently used one once it
+// has the most a caller may keep; no caller can end anyone else's, so once the server holds its cap new ones are refused.
+const SESSION_TTL_MS = 60 * 60 * 1000;
+const MAX_SESSIONS = 200;
+const MAX_SESSIONS_PER_CALLER = 10;
+
+interface Session {
+  simnet: Simnet;
+  lastUsed: number;
+  // Who started it: a signed-in user or an IP address
+  caller: string;
+}
+
+/** Every session the server keeps is in use, so no new one can start until some end or expire */
+export class SessionLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionLimitError';
+  }
+}
+
+const sessions = new Map<string, Session>();
+
+function evict(now: number, caller: string) {
+  // Maps iterate in insertion order and getSession re-inserts, so the caller's sessions come least recently used first
+  const own: string[] = [];
+  sessions.forEach((session, id) => {
+    if (now - session.lastUsed > SESSION_TTL_MS) sessions.delete(id);
+    else if (session.caller === caller) own.push(id);
+  });
+  own.slice(0, Math.max(0, own.length - MAX_SESSIONS_PER_CALLER + 1)).forEach(id => sessions.delete(id));
+}
+
+/**
+ * Start a session for `caller`, ending its least recently used one if it already has MAX_SESSIONS_PER_CALLER.
+ * Throws a SessionLimitError when the server already holds MAX_SESSIONS.
+ */
+export function createSession(caller: string): { id: string; simnet: Simnet } {
+  const now = Date.now();
+  evict(now, caller);
+  if (sessions.size >= MAX_SESSIONS) {
+    throw new SessionLimitError('Too many simulations are running. Try again in a few minutes.');
+  }
+  const id = randomUUID();
+  const simnet = new Simnet();
+  sessions.set(id, { simnet, lastUsed: now, caller });
+  return { id, simnet };
+}
+
+export function getSession(id: string): Simnet | undefined {
+  const session = sessions.get(id);
+  if (!session) return undefined;
+  if (Date.now() - session.lastUsed > SESSION_TTL_MS) {
+    sessions.delete(id);
+    return undefined;
+  }
+  session.lastUsed = Date.now();
+  sessions.delete(id);
+  sessions.set(id, session);
+  return session.simnet;
+}
+
+export function deleteSession(id: string): boolean {
+  return sessions.delete(id);
+}
@@ -0,0 +1,370 @@
+import { createHash } from 'crypto';
+import { TransactionVersion, getAddressFromPrivateKey } from '@stacks/transactions';
+import { CLARITY_VERSION_EPOCHS, ClarityVersion, LATEST_CLARITY_VERSION } from '../clarity/builtins';
+import type { ClarityError } from '../clarity/diagnostics';
+import { ArgumentError, encodeValue } from '../clarity/encode';
+import { isValidContractName, parseClarity } from '../clarity/parser';
+import { RequirementSource, parseContractId, remapPrincipals, testnetAddress } from '../clarity/requirements';
+import { inferReturnTypes } from '../clarity/typecheck';
+import type { ClarityType } from '../clarity/types';
+import { checkClaritySource } from '../clarity/validator';
+import {
+  BlockInfo,
+  Chain,
+  ClarityRuntimeError,
+  Contract,
+  ContractFunction,
+  Interpreter,
+  SimnetEvent,
+  loadContract,
+} from './interpreter';
+import { StateChange, WorldState, diffStates } from './state';
+import { ClarityValue, bytesToHex, valueToHex, valueToString } from './values';
+
+export const ACCOUNT_NAMES = ['deployer', ...Array.from({ length: 8 }, (_, i) => `wallet_${i + 1}`), 'faucet'];
+
+// 100M STX in micro-STX, like the default Clarinet devnet accounts
+const INITIAL_BALANCE = 100_000_000_000_000n;
+
+// 2024-01-01T00:00:00Z; every block is ten minutes after the previous one
+const GENESIS_TIME = 1704067200n;
+const BLOCK_INTERVAL = 600n;
+
+/** Bad input from the API caller, as opposed to a contract failing at runtime */
+export class SimnetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimnetError';
+  }
+}
+
+export interface SimnetAccount {
+  name: string;
+  address: string;
+}
+
+export type EventJSON = { type: SimnetEvent['type']; [field: string]: string };
+
+export interface TransactionResult {
+  success: boolean;
+  // The function's return value as Clarity source and as a serialized hex CV
+  result?: { repr: string; hex: string };
+  error?: string;
+  events: EventJSON[];
+  stateChanges: StateChange[];
+  blockHeight: number;
+}
+
+export interface DeployResult extends TransactionResult {
+  contractId?: string;
+  errors?: ClarityError[];
+}
+
+function deterministicKey(name: string): string {
+  return createHash('sha256').update(`simnet/${name}`).digest('hex') + '01';
+}
+
+function blockHash(kind: string, height: number): Uint8Array {
+  return Uint8Array.from(createHash('sha256').update(`simnet/${kind}/${height}`).digest());
+}
+
+function eventToJSON(event: SimnetEvent): EventJSON {
+  const json: EventJSON = { type: event.type };
+  Object.entries(event).forEach(([field, value]) => {
+    if (value === undefined || field === 'type') return;
+    if (typeof value === 'bigint') json[field] = value.toString();
+    else if (value instanceof Uint8Array) json[field] = `0x${bytesToHex(value)}`;
+    else if (typeof value === 'object') json[field] = valueToString(value as ClarityValue);
+    else json[field] = String(value);
+  });
+  return json;
+}
+
+function runtimeErrorMessage(err: unknown): string {
+  if (err instanceof ClarityRuntimeError) {
+    const at = err.span ? ` (line ${err.span.start.line}, column ${err.span.start.column})` : '';
+    return `${err.message}${at}`;
+  }
+  throw err;
+}
+
+/** Type descriptor in the format of the Stacks node's /v2/contracts/interface endpoint */
+function abiType(type: ClarityType): unknown {
+  switch (type.kind) {
+    case 'int': return 'int128';
+    case 'uint': return 'uint128';
+    case 'bool':
+    case 'principal':
+      return type.kind;
+    case 'buff': return { buffer: { length: type.length } };
+    case 'string-ascii': return { 'string-ascii': { length: type.length } };
+    case 'string-utf8': return { 'string-utf8': { length: type.length } };
+    case 'list': return { list: { type: abiType(type.element), length: type.maxLength } };
+    case 'optional': return { optional: abiType(type.inner) };
+    case 'response': return { response: { ok: abiType(type.ok), error: abiType(type.err) } };
+    case 'tuple': return { tuple: type.fields.map(f => ({ name: f.name, type: abiType(f.type) })) };
+    case 'trait': return 'trait_reference';
+    case 'no-type':
+    case 'unknown':
+      return 'none';
+  }
+}
+
+/** Type of a constant's value, for the interface description */
+function valueType(value: ClarityValue): ClarityType {
+  switch (value.kind) {
+    case 'int':
+    case 'uint':
+    case 'bool':
+    case 'principal':
+      return { kind: value.kind };
+    case 'buff': return { kind: 'buff', length: value.value.length };
+    case 'string-ascii': return { kind: 'string-ascii', length: value.value.length };
+    case 'string-utf8': return { kind: 'string-utf8', length: Array.from(value.value).length };
+    case 'list': return { kind: 'list', maxLength: value.items.length, element: value.items[0] ? valueType(value.items[0]) : { kind: 'no-type' } };
+    case 'optional': return { kind: 'optional', inner: value.value ? valueType(value.value) : { kind: 'no-type' } };
+    case 'response': return value.isOk
+      ? { kind: 'response', ok: valueType(value.value), err: { kind: 'no-type' } }
+      : { kind: 'response', ok: { kind: 'no-type' }, err: valueType(value.value) };
+    case 'tuple': return { kind: 'tuple', fields: [...value.fields].map(([name, field]) => ({ name, type: valueType(field) })) };
+  }
+}
+
+/**
+ * An in-memory chain: a set of funded accounts, the contracts deployed to it and their state.
+ * Every public call or deployment is mined in its own block; read-only calls never change state.
+ */
+export class Simnet implements Chain {
+  state = new WorldState();
+  events: SimnetEvent[] = [];
+  blockHeight = 1;
+  readonly accounts: SimnetAccount[];
+  private readonly contracts = new Map<string, Contract>();
+  private readonly interpreter = new Interpreter(this);
+
+  constructor() {
+    this.accounts = ACCOUNT_NAMES.map(name => ({
+      name,
+      address: getAddressFromPrivateKey(deterministicKey(name), TransactionVersion.Testnet),
+    }));
+    this.accounts.forEach(account => this.state.stxBalances.set(account.address, INITIAL_BALANCE));
+  }
+
+  get deployer(): string {
+    return this.accounts[0].address;
+  }
+
+  getContract(id: string): Contract | undefined {
+    return this.contracts.get(id);
+  }
+
+  getBlock(height: number): BlockInfo | undefined {
+    if (height < 0 || height >= this.blockHeight) return undefined;
+    return {
+      time: GENESIS_TIME + BigInt(height) * BLOCK_INTERVAL,
+      headerHash: blockHash('header', height),
+      idHeaderHash: blockHash('index', height),
+      burnHeaderHash: blockHash('burn', height),
+      vrfSeed: blockHash('vrf', height),
+      miner: this.deployer,
+    };
+  }
+
+  get contractIds(): string[] {
+    return [...this.contracts.keys()];
+  }
+
+  /** An independent copy of this chain; deployed contracts are shared since they never change */
+  fork(): Simnet {
+    const copy = new Simnet();
+    copy.state = this.state.clone();
+    copy.blockHeight = this.blockHeight;
+    this.contracts.forEach((contract, id) => copy.contracts.set(id, contract));
+    return copy;
+  }
+
+  /** Resolve an account name such as `wallet_1`, or check a principal; defaults to the deployer */
+  resolveSender(sender?: string): string {
+    if (!sender) return this.deployer;
+    const account = this.accounts.find(a => a.name === sender || a.address === sender);
+    if (account) return account.address;
+    const parsed = parseClarity(`'${sender}`);
+    if (parsed.errors.length > 0 || parsed.nodes[0]?.kind !== 'principal' || parsed.nodes[0].contractName) {
+      throw new SimnetError(`Invalid sender '${sender}'`);
+    }
+    return sender;
+  }
+
+  mineBlocks(count = 1): number {
+    if (!Number.isInteger(count) || count < 1 || count > 10_000) {
+      throw new SimnetError('blocks must be an integer between 1 and 10000');
+    }
+    this.blockHeight += count;
+    return this.blockHeight;
+  }
+
+  /**
+   * Deploy a contract as `sender` (the deployer by default). Like Clarinet's simnet, the chain only has testnet
+   * addresses, so mainnet principals in the contract are replaced with the testnet address of the same key.
+   */
+  deployContract(source: string, contractName: string, options: { sender?: string; clarityVersion?: ClarityVersion } = {}): DeployResult {
+    if (!isValidContractName(contractName)) throw new SimnetError(`Invalid contract name '${contractName}'`);
+    const code = remapPrincipals(source, 'simnet');
+    const deployer = this.resolveSender(options.sender);
+    const contractId = `${deployer}.${contractName}`;
+    if (this.contracts.has(contractId)) throw new SimnetError(`Contract '${contractId}' is already deployed`);
+
+    const clarityVersion = options.clarityVersion ?? LATEST_CLARITY_VERSION;
+    const check = checkClaritySource(code, clarityVersion);
+    if (!check.success) {
+      return { success: false, errors: check.errors, error: 'Contract has errors', events: [], stateChanges: [], blockHeight: this.blockHeight };
+    }
+
+    const contract = loadContract(parseClarity(code).nodes, { name: contractName, deployer, clarityVersion, source: code });
+    const result = this.transaction(() => {
+      this.interpreter.initialize(contract, deployer);
+      this.contracts.set(contractId, contract);
+      return undefined;
+    });
+    return result.success ? { ...result, contractId } : result;
+  }
+
+  /** Deploy a contract the project requires where its mainnet principal is remapped to (see deployContract) */
+  deployRequirement(requirement: RequirementSource): DeployResult {
+    const id = parseContractId(requirement.contractId);
+    if (!id) throw new SimnetError(`Invalid contract id '${requirement.contractId}'`);
+    return this.deployContract(requirement.code, id.name, {
+      sender: testnetAddress(id.address),
+      clarityVersion: requirement.clarityVersion,
+    });
+  }
+
+  callPublic(contractId: string, functionName: string, args: string[], sender?: string): TransactionResult {
+    const { contract, fn, values, caller } = this.prepareCall(contractId, functionName, args, sender, 'public');
+    return this.transaction(() => this.interpreter.call(contract, fn, values, caller, false));
+  }
+
+  /** Evaluate a read-only function against the current state without mining a block */
+  callReadOnly(contractId: string, functionName: string, args: string[], sender?: string): TransactionResult {
+    const { contract, fn, values, caller } = this.prepareCall(contractId, functionName, args, sender, 'read-only');
+    const snapshot = this.state;
+    this.state = snapshot.clone();
+    this.events = [];
+    try {
+      const result = this.interpreter.call(contract, fn, values, caller, true);
+      return {
+        success: true,
+        result: { repr: valueToString(result), hex: valueToHex(result) },
+        events: this.events.map(eventToJSON),
+        stateChanges: [],
+        blockHeight: this.blockHeight,
+      };
+    } catch (err) {
+      return { success: false, error: runtimeErrorMessage(err), events: [], stateChanges: [], blockHeight: this.blockHeight };
+    } finally {
+      this.state = snapshot;
+      this.events = [];
+    }
+  }
+
+  /** Functions, variables, maps and tokens, in the shape of the Stacks node's contract interface */
+  contractInterface(contractId: string) {
+    const contract = this.requireContract(contractId);
+    const returnTypes = inferReturnTypes(contract.nodes, contract.clarityVersion);
+    return {
+      functions: [...contract.functions.values()].map(fn => ({
+        name: fn.name,
+        access: fn.access.replace('-', '_'),
+        args: fn.args.map(arg => ({ name: arg.name, type: abiType(arg.type) })),
+        outputs: { type: abiType(returnTypes.get(fn.name) ?? { kind: 'unknown' }) },
+      })),
+      variables: [
+        ...[...contract.constantValues].map(([name, value]) => ({ name, type: abiType(valueType(value)), access: 'constant' })),
+        ...[...contract.dataVars].map(([name, v]) => ({ name, type: abiType(v.type), access: 'variable' })),
+      ],
+      maps: [...contract.maps].map(([name, m]) => ({ name, key: abiType(m.key), value: abiType(m.value) })),
+      fungible_tokens: [...contract.fungibleTokens.keys()].map(name => ({ name })),
+      non_fungible_tokens: [...contract.nonFungibleTokens].map(([name, type]) => ({ name, type: abiType(type) })),
+      epoch: `Epoch${CLARITY_VERSION_EPOCHS[contract.clarityVersion].replace('.', '')}`,
+      clarity_version: `Clarity${contract.clarityVersion}`,
+    };
+  }
+
+  /** Current values of a contract's data-vars, maps and tokens as Clarity source */
+  contractState(contractId: string) {
+    this.requireContract(contractId);
+    const storage = this.state.storage(contractId);
+    const record = <T, R>(map: Map<string, T>, convert: (value: T) => R) =>
+      Object.fromEntries([...map].map(([key, value]) => [key, convert(value)]));
+
+    return {
+      dataVars: record(storage.dataVars, valueToString),
+      maps: record(storage.maps, entries =>
+        [...entries.values()].map(entry => ({ key: valueToString(entry.key), value: valueToString(entry.value) }))),
+      fungibleTokens: Object.fromEntries([...storage.ftBalances].map(([name, balances]) => [name, {
+        supply: String(storage.ftSupply.get(name) ?? 0n),
+        balances: record(balances, String),
+      }])),
+      nonFungibleTokens: record(storage.nfts, owners =>
+        [...owners.values()].map(entry => ({ id: valueToString(entry.id), owner: entry.owner }))),
+    };
+  }
+
+  private requireContract(contractId: string): Contract {
+    const contract = this.contracts.get(contractId);
+    if (!contract) throw new SimnetError(`Contract '${contractId}' is not deployed`);
+    return contract;
+  }
+
+  private prepareCall(contractId: string, functionName: string, args: string[], sender: string | undefined, access: ContractFunction['access']) {
+    const contract = this.requireContract(contractId);
+    const fn = contract.functions.get(functionName);
+    if (!fn || fn.access !== access) throw new SimnetError(`'${contractId}' has no ${access} function '${functionName}'`);
+    if (args.length !== fn.args.length) {
+      throw new SimnetError(`'${functionName}' expects ${fn.args.length} argument(s), got ${args.length}`);
+    }
+
+    const values = fn.args.map((param, i) => {
+      try {
+        return encodeValue(args[i], param.type, contract.deployer);
+      } catch (err) {
+        if (!(err instanceof ArgumentError)) throw err;
+        throw new SimnetError(`Argument '${param.name}': ${err.message}`);
+      }
+    });
+
+    return { contract, fn, values, caller: this.resolveSender(sender) };
+  }
+
+  /**
+   * Run `execute` as a transaction in a new block. A runtime error or an err response
+   * discards its state changes and events; the block is mined either way.
+   */
+  private transaction(execute: () => ClarityValue | undefined): TransactionResult {
+    const before = this.state;
+    this.state = before.clone();
+    this.events = [];
+    const blockHeight = this.blockHeight;
+
+    let outcome: TransactionResult;
+    try {
+      const result = execute();
+      const success = result?.kind !== 'response' || result.isOk;
+      if (!success) this.state = before;
+      outcome = {
+        success,
+        result: result && { repr: valueToString(result), hex: valueToHex(result) },
+        events: success ? this.events.map(eventToJSON) : [],
+        stateChanges: success ? diffStates(before, this.state) : [],
+        blockHeight,
+      };
+    } catch (err) {
+      this.state = before;
+      outcome = { success: false, error: runtimeErrorMessage(err), events: [], stateChanges: [], blockHeight };
+    }
+
+    this.events = [];
+    this.blockHeight += 1;
+    return outcome;
+  }
+}
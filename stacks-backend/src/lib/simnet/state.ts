@@ -0,0 +1,148 @@
+import { ClarityValue, valueKey, valueToString } from './values';
+
+export interface MapEntry {
+  key: ClarityValue;
+  value: ClarityValue;
+}
+
+export interface NftEntry {
+  id: ClarityValue;
+  owner: string;
+}
+
+/** Mutable storage of one deployed contract */
+export interface ContractStorage {
+  dataVars: Map<string, ClarityValue>;
+  // map name -> value key -> entry
+  maps: Map<string, Map<string, MapEntry>>;
+  ftSupply: Map<string, bigint>;
+  // token name -> principal -> balance
+  ftBalances: Map<string, Map<string, bigint>>;
+  // token name -> value key -> entry
+  nfts: Map<string, Map<string, NftEntry>>;
+}
+
+export function emptyStorage(): ContractStorage {
+  return { dataVars: new Map(), maps: new Map(), ftSupply: new Map(), ftBalances: new Map(), nfts: new Map() };
+}
+
+function cloneNested<K1, K2, T>(map: Map<K1, Map<K2, T>>): Map<K1, Map<K2, T>> {
+  return new Map([...map].map(([key, inner]) => [key, new Map(inner)]));
+}
+
+/**
+ * Everything a transaction can change. Cloning is cheap because values are immutable,
+ * so a snapshot taken before a call can simply be restored to roll it back.
+ */
+export class WorldState {
+  constructor(
+    readonly stxBalances = new Map<string, bigint>(),
+    readonly contracts = new Map<string, ContractStorage>()
+  ) {}
+
+  clone(): WorldState {
+    const contracts = new Map<string, ContractStorage>();
+    this.contracts.forEach((storage, id) => {
+      contracts.set(id, {
+        dataVars: new Map(storage.dataVars),
+        maps: cloneNested(storage.maps),
+        ftSupply: new Map(storage.ftSupply),
+        ftBalances: cloneNested(storage.ftBalances),
+        nfts: cloneNested(storage.nfts),
+      });
+    });
+    return new WorldState(new Map(this.stxBalances), contracts);
+  }
+
+  storage(contractId: string): ContractStorage {
+    let storage = this.contracts.get(contractId);
+    if (!storage) {
+      storage = emptyStorage();
+      this.contracts.set(contractId, storage);
+    }
+    return storage;
+  }
+
+  stxBalance(principal: string): bigint {
+    return this.stxBalances.get(principal) ?? 0n;
+  }
+}
+
+export type StateChange =
+  | { type: 'stx-balance'; principal: string; before: string; after: string }
+  | { type: 'data-var'; contract: string; name: string; before?: string; after: string }
+  | { type: 'map-entry'; contract: string; map: string; key: string; before?: string; after?: string }
+  | { type: 'ft-balance'; contract: string; token: string; principal: string; before: string; after: string }
+  | { type: 'nft-owner'; contract: string; token: string; id: string; before?: string; after?: string };
+
+function diffMaps<T>(
+  before: Map<string, T> | undefined,
+  after: Map<string, T> | undefined,
+  same: (a: T, b: T) => boolean,
+  report: (key: string, before?: T, after?: T) => void
+) {
+  const keys = new Set([...(before?.keys() ?? []), ...(after?.keys() ?? [])]);
+  keys.forEach(key => {
+    const a = before?.get(key);
+    const b = after?.get(key);
+    if (a === undefined || b === undefined ? a !== b : !same(a, b)) report(key, a, b);
+  });
+}
+
+const sameValue = (a: ClarityValue, b: ClarityValue) => a === b || valueKey(a) === valueKey(b);
+
+/** What a transaction changed, in a form that can be shown to the user */
+export function diffStates(before: WorldState, after: WorldState): StateChange[] {
+  const changes: StateChange[] = [];
+
+  diffMaps(before.stxBalances, after.stxBalances, (a, b) => a === b, (principal, a, b) => {
+    changes.push({ type: 'stx-balance', principal, before: String(a ?? 0n), after: String(b ?? 0n) });
+  });
+
+  const contractIds = new Set([...before.contracts.keys(), ...after.contracts.keys()]);
+  contractIds.forEach(contract => {
+    const a = before.contracts.get(contract);
+    const b = after.contracts.get(contract);
+
+    diffMaps(a?.dataVars, b?.dataVars, sameValue, (name, prev, next) => {
+      changes.push({ type: 'data-var', contract, name, before: prev && valueToString(prev), after: valueToString(next!) });
+    });
+
+    const mapNames = new Set([...(a?.maps.keys() ?? []), ...(b?.maps.keys() ?? [])]);
+    mapNames.forEach(map => {
+      diffMaps(a?.maps.get(map), b?.maps.get(map), (x, y) => sameValue(x.value, y.value), (_, prev, next) => {
+        changes.push({
+          type: 'map-entry',
+          contract,
+          map,
+          key: valueToString((prev ?? next)!.key),
+          before: prev && valueToString(prev.value),
+          after: next && valueToString(next.value),
+        });
+      });
+    });
+
+    const tokens = new Set([...(a?.ftBalances.keys() ?? []), ...(b?.ftBalances.keys() ?? [])]);
+    tokens.forEach(token => {
+      diffMaps(a?.ftBalances.get(token), b?.ftBalances.get(token), (x, y) => x === y, (principal, prev, next) => {
+        changes.push({ type: 'ft-balance', contract, token, principal, before: String(prev ?? 0n), after: String(next ?? 0n) });
+      });
+    });
+
+    const nfts = new Set([...(a?.nfts.keys() ?? []), ...(b?.nfts.keys() ?? [])]);
+    nfts.forEach(token => {
+      diffMaps(a?.nfts.get(token), b?.nfts.get(token), (x, y) => x.owner === y.owner, (_, prev, next) => {
+        changes.push({
+          type: 'nft-owner',
+          contract,
+          token,
+          id: valueToString((prev ?? next)!.id),
+          before: prev?.owner,
+          after: next?.owner,
+        });
+      });
+    });
+  });
+
+  return changes;
+}
@@ -0,0 +1,228 @@
+import { performance } from 'perf_hooks';
+import { isList, listHead, type AtomNode, type ListNode } from '../clarity/ast';
+import { ClarityVersion, LATEST_CLARITY_VERSION } from '../clarity/builtins';
+import { dependencyOrder } from '../clarity/deploymentPlan';
+import type { ClarityError } from '../clarity/diagnostics';
+import { parseClarity } from '../clarity/parser';
+import { inferClarityVersion, requirementIdOfPath, requirementOrder } from '../clarity/requirements';
+import { EventJSON, Simnet, SimnetError, TransactionResult } from './simnet';
+
+export interface ProjectFile {
+  path: string;
+  content: string;
+}
+
+export interface TestCase {
+  // `<file>::<name>`
+  id: string;
+  file: string;
+  name: string;
+  line?: number;
+}
+
+export type TestStatus = 'passed' | 'failed' | 'skipped';
+
+export interface SetupError {
+  file: string;
+  message: string;
+  errors?: ClarityError[];
+}
+
+export type TestRunEvent =
+  | { type: 'start'; tests: TestCase[] }
+  | ({ type: 'setup-error' } & SetupError)
+  | { type: 'test-start'; id: string }
+  | { type: 'test-result'; id: string; status: TestStatus; duration: number; message?: string; output?: string }
+  | { type: 'done'; passed: number; failed: number; skipped: number; duration: number };
+
+export interface RunOptions {
+  clarityVersion?: ClarityVersion;
+  // Test ids to run; all tests when omitted
+  only?: string[];
+  isCancelled?: () => boolean;
+}
+
+interface Outcome {
+  status: TestStatus;
+  message?: string;
+  output?: string;
+}
+
+interface Runnable {
+  test: TestCase;
+  run(base: Simnet): Promise<Outcome>;
+}
+
+const TEST_PREFIX = 'test-';
+
+function contractName(path: string): string {
+  return path.split('/').pop()!.replace(/\.clar$/, '');
+}
+
+/**
+ * Split project files into contracts, Clarity test contracts (`.clar` files under a tests/
+ * directory) and the cached sources of the deployed contracts the project requires.
+ */
+export function classifyFiles(files: ProjectFile[]) {
+  const inTests = (path: string) => /(^|\/)tests\//.test(path);
+  const inCache = (path: string) => path.startsWith('.cache/');
+  return {
+    requirements: files.filter(f => requirementIdOfPath(f.path) !== undefined),
+    contracts: files.filter(f => f.path.endsWith('.clar') && !inTests(f.path) && !inCache(f.path)),
+    testContracts: files.filter(f => f.path.endsWith('.clar') && inTests(f.path)),
+  };
+}
+
+function formatEvent({ type, ...fields }: EventJSON): string {
+  if (type === 'print') return `print ${fields.value}`;
+  return `${type} ${Object.entries(fields).map(([field, value]) => `${field}=${value}`).join(' ')}`;
+}
+
+function failureMessage(result: TransactionResult): string {
+  return result.error ?? `returned ${result.result?.repr}`;
+}
+
+/**
+ * Annotations in the comment lines right above a test function, as used by clarunit:
+ * `;; @caller wallet_1` and `;; @mine-blocks-before 10`.
+ */
+function annotations(lines: string[], line: number): Map<string, string> {
+  const found = new Map<string, string>();
+  for (let i = line - 2; i >= 0 && lines[i].trim().startsWith(';;'); i--) {
+    const match = lines[i].trim().match(/^;;\s*@([\w-]+)\s*(.*)$/);
+    if (match && !found.has(match[1])) found.set(match[1], match[2].trim());
+  }
+  return found;
+}
+
+/**
+ * Tests of a Clarity test contract: its public `test-*` functions. Each runs as a transaction
+ * in a fresh copy of the chain after the contract's public `prepare` function, if it has one,
+ * and passes when it returns `(ok ...)`.
+ */
+function clarityTests(file: ProjectFile): Runnable[] {
+  const parsed = parseClarity(file.content);
+  const name = contractName(file.path);
+  const lines = file.content.split('\n');
+  const publics = parsed.nodes
+    .filter((node): node is ListNode => isList(node) && listHead(node) === 'define-public' && isList(node.items[1]))
+    .map(node => {
+      const signature = node.items[1] as ListNode;
+      return { node, name: (signature.items[0] as AtomNode).name, arity: signature.items.length - 1 };
+    });
+  const hasPrepare = publics.some(fn => fn.name === 'prepare');
+
+  return publics
+    .filter(fn => fn.name.startsWith(TEST_PREFIX))
+    .map(fn => {
+      const line = fn.node.span.start.line;
+      const notes = annotations(lines, line);
+      return {
+        test: { id: `${file.path}::${fn.name}`, file: file.path, name: fn.name, line },
+        async run(base: Simnet): Promise<Outcome> {
+          if (fn.arity > 0) return { status: 'failed', message: 'Test functions cannot take arguments' };
+          const chain = base.fork();
+          const contractId = `${chain.deployer}.${name}`;
+          if (!chain.getContract(contractId)) {
+            return { status: 'failed', message: `Test contract '${name}' could not be deployed` };
+          }
+
+          const caller = notes.get('caller');
+          if (hasPrepare) {
+            const prepared = chain.callPublic(contractId, 'prepare', [], caller);
+            if (!prepared.success) return { status: 'failed', message: `prepare failed: ${failureMessage(prepared)}` };
+          }
+          const blocks = notes.get('mine-blocks-before');
+          if (blocks) chain.mineBlocks(Number(blocks));
+
+          const result = chain.callPublic(contractId, fn.name, [], caller);
+          return {
+            status: result.success ? 'passed' : 'failed',
+            message: result.success ? undefined : failureMessage(result),
+            output: result.events.map(formatEvent).join('\n') || undefined,
+          };
+        },
+      };
+    });
+}
+
+function collectTests(files: ProjectFile[]): Runnable[] {
+  return classifyFiles(files).testContracts.flatMap(clarityTests);
+}
+
+/** Find the tests in a project without running anything */
+export function discoverTests(files: ProjectFile[]): { tests: TestCase[]; errors: SetupError[] } {
+  return { tests: collectTests(files).map(r => r.test), errors: [] };
+}
+
+/** Deploy the project's requirements, then its contracts, then its test contracts, to a new chain */
+function deployProject(files: ProjectFile[], clarityVersion: ClarityVersion, setupErrors: SetupError[]): Simnet {
+  const { requirements, contracts, testContracts } = classifyFiles(files);
+  const chain = new Simnet();
+  const required = requirementOrder(requirements.map(file => ({
+    file,
+    contractId: requirementIdOfPath(file.path)!,
+    code: file.content,
+  })));
+  const ordered = dependencyOrder(contracts, file => contractName(file.path), file => file.content);
+  const deployments = [
+    ...required.map(({ file, contractId, code }) => ({
+      file,
+      deploy: () => chain.deployRequirement({ contractId, code, clarityVersion: inferClarityVersion(code) }),
+    })),
+    ...[...ordered, ...testContracts].map(file => ({
+      file,
+      deploy: () => chain.deployContract(file.content, contractName(file.path), { clarityVersion }),
+    })),
+  ];
+  for (const { file, deploy } of deployments) {
+    try {
+      const result = deploy();
+      if (!result.success) {
+        setupErrors.push({
+          file: file.path,
+          message: result.error ?? 'Deployment failed',
+          errors: result.errors?.map(error => ({ ...error, file: file.path })),
+        });
+      }
+    } catch (err) {
+      if (!(err instanceof SimnetError)) throw err;
+      setupErrors.push({ file: file.path, message: err.message });
+    }
+  }
+  return chain;
+}
+
+/**
+ * Run a project's tests, reporting progress through `emit` as each test starts and finishes.
+ * Yields to the event loop between tests so results stream out and cancellation is noticed.
+ */
+export async function runTests(files: ProjectFile[], options: RunOptions, emit: (event: TestRunEvent) => void) {
+  const started = performance.now();
+  const runnables = collectTests(files);
+  const setupErrors: SetupError[] = [];
+  const base = deployProject(files, options.clarityVersion ?? LATEST_CLARITY_VERSION, setupErrors);
+  const selected = options.only ? runnables.filter(r => options.only!.includes(r.test.id)) : runnables;
+
+  emit({ type: 'start', tests: selected.map(r => r.test) });
+  setupErrors.forEach(error => emit({ type: 'setup-error', ...error }));
+
+  const counts: Record<TestStatus, number> = { passed: 0, failed: 0, skipped: 0 };
+  for (const { test, run } of selected) {
+    await new Promise(resolve => setImmediate(resolve));
+    if (options.isCancelled?.()) return;
+
+    emit({ type: 'test-start', id: test.id });
+    const testStarted = performance.now();
+    let outcome: Outcome;
+    try {
+      outcome = await run(base);
+    } catch (err) {
+      outcome = { status: 'failed', message: err instanceof Error ? err.message : String(err) };
+    }
+    counts[outcome.status] += 1;
+    emit({ type: 'test-result', id: test.id, ...outcome, duration: performance.now() - testStarted });
+  }
+
+  emit({ type: 'done', ...counts, duration: performance.now() - started });
+}
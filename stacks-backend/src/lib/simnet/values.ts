@@ -0,0 +1,203 @@
+import {
+  ClarityType as CVType,
+  ClarityValue as CV,
+  boolCV,
+  bufferCV,
+  deserializeCV,
+  intCV,
+  listCV,
+  noneCV,
+  principalCV,
+  principalToString,
+  responseErrorCV,
+  responseOkCV,
+  serializeCV,
+  someCV,
+  stringAsciiCV,
+  stringUtf8CV,
+  tupleCV,
+  uintCV,
+} from '@stacks/transactions';
+import type { ClarityType } from '../clarity/types';
+
+/** A Clarity value at runtime. Values are immutable: operations always build new ones. */
+export type ClarityValue =
+  | { kind: 'int'; value: bigint }
+  | { kind: 'uint'; value: bigint }
+  | { kind: 'bool'; value: boolean }
+  // "ST..." for standard principals, "ST....contract-name" for contracts
+  | { kind: 'principal'; value: string }
+  | { kind: 'buff'; value: Uint8Array }
+  | { kind: 'string-ascii'; value: string }
+  | { kind: 'string-utf8'; value: string }
+  | { kind: 'list'; items: ClarityValue[] }
+  // `value` is undefined for none
+  | { kind: 'optional'; value?: ClarityValue }
+  | { kind: 'response'; isOk: boolean; value: ClarityValue }
+  | { kind: 'tuple'; fields: Map<string, ClarityValue> };
+
+export const V = {
+  int: (value: bigint): ClarityValue => ({ kind: 'int', value }),
+  uint: (value: bigint): ClarityValue => ({ kind: 'uint', value }),
+  bool: (value: boolean): ClarityValue => ({ kind: 'bool', value }),
+  principal: (value: string): ClarityValue => ({ kind: 'principal', value }),
+  buff: (value: Uint8Array): ClarityValue => ({ kind: 'buff', value }),
+  ascii: (value: string): ClarityValue => ({ kind: 'string-ascii', value }),
+  utf8: (value: string): ClarityValue => ({ kind: 'string-utf8', value }),
+  list: (items: ClarityValue[]): ClarityValue => ({ kind: 'list', items }),
+  none: { kind: 'optional' } as ClarityValue,
+  some: (value: ClarityValue): ClarityValue => ({ kind: 'optional', value }),
+  ok: (value: ClarityValue): ClarityValue => ({ kind: 'response', isOk: true, value }),
+  err: (value: ClarityValue): ClarityValue => ({ kind: 'response', isOk: false, value }),
+  tuple: (entries: Iterable<[string, ClarityValue]>): ClarityValue => ({ kind: 'tuple', fields: new Map(entries) }),
+};
+
+export const TRUE = V.bool(true);
+export const FALSE = V.bool(false);
+
+/** Number of elements a string-utf8 has in Clarity (unicode scalar values) */
+export function utf8Length(value: string): number {
+  return Array.from(value).length;
+}
+
+export function bytesToHex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function escapeString(value: string, utf8: boolean): string {
+  let out = '';
+  for (const char of value) {
+    switch (char) {
+      case '\\': out += '\\\\'; break;
+      case '"': out += '\\"'; break;
+      case '\n': out += '\\n'; break;
+      case '\t': out += '\\t'; break;
+      case '\r': out += '\\r'; break;
+      case '\0': out += '\\0'; break;
+      default: {
+        const code = char.codePointAt(0)!;
+        out += utf8 && code > 0x7e ? `\\u{${code.toString(16)}}` : char;
+      }
+    }
+  }
+  return out;
+}
+
+/** Clarity source representation of a value, e.g. `(ok { id: u1, owner: 'ST1... })` */
+export function valueToString(value: ClarityValue): string {
+  switch (value.kind) {
+    case 'int': return value.value.toString();
+    case 'uint': return `u${value.value}`;
+    case 'bool': return String(value.value);
+    case 'principal': return `'${value.value}`;
+    case 'buff': return `0x${bytesToHex(value.value)}`;
+    case 'string-ascii': return `"${escapeString(value.value, false)}"`;
+    case 'string-utf8': return `u"${escapeString(value.value, true)}"`;
+    case 'list': return value.items.length === 0 ? '(list)' : `(list ${value.items.map(valueToString).join(' ')})`;
+    case 'optional': return value.value ? `(some ${valueToString(value.value)})` : 'none';
+    case 'response': return `(${value.isOk ? 'ok' : 'err'} ${valueToString(value.value)})`;
+    case 'tuple': {
+      const fields = [...value.fields.keys()].sort().map(name => `${name}: ${valueToString(value.fields.get(name)!)}`);
+      return `{ ${fields.join(', ')} }`;
+    }
+  }
+}
+
+/** Canonical key for a value, used to index maps and NFTs and to compare values */
+export function valueKey(value: ClarityValue): string {
+  return valueToString(value);
+}
+
+export function valuesEqual(a: ClarityValue, b: ClarityValue): boolean {
+  return valueKey(a) === valueKey(b);
+}
+
+export function toStacksCV(value: ClarityValue): CV {
+  switch (value.kind) {
+    case 'int': return intCV(value.value);
+    case 'uint': return uintCV(value.value);
+    case 'bool': return boolCV(value.value);
+    case 'principal': return principalCV(value.value);
+    case 'buff': return bufferCV(value.value);
+    case 'string-ascii': return stringAsciiCV(value.value);
+    case 'string-utf8': return stringUtf8CV(value.value);
+    case 'list': return listCV(value.items.map(toStacksCV));
+    case 'optional': return value.value ? someCV(toStacksCV(value.value)) : noneCV();
+    case 'response': return value.isOk ? responseOkCV(toStacksCV(value.value)) : responseErrorCV(toStacksCV(value.value));
+    case 'tuple': {
+      const data: Record<string, CV> = {};
+      value.fields.forEach((field, name) => { data[name] = toStacksCV(field); });
+      return tupleCV(data);
+    }
+  }
+}
+
+export function fromStacksCV(cv: CV): ClarityValue {
+  switch (cv.type) {
+    case CVType.Int: return V.int(BigInt(cv.value));
+    case CVType.UInt: return V.uint(BigInt(cv.value));
+    case CVType.BoolTrue: return TRUE;
+    case CVType.BoolFalse: return FALSE;
+    case CVType.PrincipalStandard:
+    case CVType.PrincipalContract:
+      return V.principal(principalToString(cv));
+    case CVType.Buffer: return V.buff(Uint8Array.from(cv.buffer));
+    case CVType.StringASCII: return V.ascii(cv.data);
+    case CVType.StringUTF8: return V.utf8(cv.data);
+    case CVType.List: return V.list(cv.list.map(fromStacksCV));
+    case CVType.OptionalNone: return V.none;
+    case CVType.OptionalSome: return V.some(fromStacksCV(cv.value));
+    case CVType.ResponseOk: return V.ok(fromStacksCV(cv.value));
+    case CVType.ResponseErr: return V.err(fromStacksCV(cv.value));
+    case CVType.Tuple: return V.tuple(Object.entries(cv.data).map(([name, field]) => [name, fromStacksCV(field)]));
+  }
+}
+
+/** Consensus serialization, as produced by `to-consensus-buff?` and used on the wire */
+export function serializeValue(value: ClarityValue): Uint8Array {
+  return serializeCV(toStacksCV(value));
+}
+
+/** Inverse of serializeValue; throws if the bytes are not a serialized value */
+export function deserializeValue(bytes: Uint8Array): ClarityValue {
+  return fromStacksCV(deserializeCV(bytes));
+}
+
+export function valueToHex(value: ClarityValue): string {
+  return `0x${bytesToHex(serializeValue(value))}`;
+}
+
+/** Whether a value fits a declared type, e.g. a function argument or a map key */
+export function conformsTo(value: ClarityValue, type: ClarityType): boolean {
+  switch (type.kind) {
+    case 'unknown':
+    case 'no-type':
+      return true;
+    case 'int':
+    case 'uint':
+    case 'bool':
+    case 'principal':
+      return value.kind === type.kind;
+    case 'trait':
+      // Trait references are passed as contract principals
+      return value.kind === 'principal' && value.value.includes('.');
+    case 'buff':
+      return value.kind === 'buff' && value.value.length <= type.length;
+    case 'string-ascii':
+      return value.kind === 'string-ascii' && value.value.length <= type.length;
+    case 'string-utf8':
+      return value.kind === 'string-utf8' && utf8Length(value.value) <= type.length;
+    case 'list':
+      return value.kind === 'list'
+        && value.items.length <= type.maxLength
+        && value.items.every(item => conformsTo(item, type.element));
+    case 'optional':
+      return value.kind === 'optional' && (!value.value || conformsTo(value.value, type.inner));
+    case 'response':
+      return value.kind === 'response' && conformsTo(value.value, value.isOk ? type.ok : type.err);
+    case 'tuple':
+      return value.kind === 'tuple'
+        && value.fields.size === type.fields.length
+        && type.fields.every(f => value.fields.has(f.name) && conformsTo(value.fields.get(f.name)!, f.type));
+  }
+}
@@ -0,0 +1,120 @@
+import { StacksTransaction, TxBroadcastResult, TxRejectedReason } from '@stacks/transactions';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NetworkTarget } from './networks';
+
+// What the API reports for the sender, the node's answers in order, and every transaction broadcast
+let chain = { possible_next_nonce: 0, detected_missing_nonces: [] as number[] };
+let answers: TxBroadcastResult[] = [];
+const broadcasts: Array<{ nonce: bigint; fee: bigint }> = [];
+
+vi.mock('@stacks/transactions', async importOriginal => ({
+  ...await importOriginal<typeof import('@stacks/transactions')>(),
+  broadcastTransaction: async (tx: { nonce: bigint; fee: bigint }) => {
+    broadcasts.push(tx);
+    return answers.shift() ?? { txid: `tx-${broadcasts.length}` };
+  },
+}));
+
+const { BroadcastRejectedError, queueBroadcast } = await import('./stacks');
+
+const NETWORK = { name: 'testnet', apiUrl: 'https://api.testnet.hiro.so', isMainnet: false } as NetworkTarget;
+
+// Sign nothing, just record the nonce and fee the queue picked
+const build = async (nonce: bigint, fee: bigint) => ({ nonce, fee }) as unknown as StacksTransaction;
+
+function rejected(reason: TxRejectedReason, expected: number): TxBroadcastResult {
+  return { txid: '', error: 'transaction rejected', reason, reason_data: { expected, actual: 0 } } as TxBroadcastResult;
+}
+
+// Each test sends from its own address, so it gets a queue of its own
+let sender = 0;
+let address = '';
+
+beforeEach(() => {
+  address = `ST-SENDER-${++sender}`;
+  chain = { possible_next_nonce: 5, detected_missing_nonces: [] };
+  answers = [];
+  broadcasts.length = 0;
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.stubGlobal('fetch', async () => new Response(JSON.stringify(chain)));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('queueBroadcast', () => {
+  it('numbers queued transactions locally without waiting for the API', async () => {
+    const results = await Promise.all([queueBroadcast(NETWORK, address, build, 100n), queueBroadcast(NETWORK, address, build, 100n)]);
+
+    expect(results.map(result => result.nonce)).toEqual([5, 6]);
+    expect(results.map(result => result.queuePosition)).toEqual([0, 1]);
+  });
+
+  it("retries with the node's nonce when it rejects a bad one", async () => {
+    answers = [rejected(TxRejectedReason.BadNonce, 9)];
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(broadcasts.map(tx => tx.nonce)).toEqual([5n, 9n]);
+    expect(result.nonce).toBe(9);
+  });
+
+  it('takes the next free nonce when another transaction holds it', async () => {
+    answers = [rejected(TxRejectedReason.ConflictingNonceInMempool, 0)];
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(result.nonce).toBe(6);
+  });
+
+  it('bumps the fee to what the node asks for, keeping the nonce', async () => {
+    answers = [rejected(TxRejectedReason.FeeTooLow, 180)];
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(broadcasts).toEqual([{ nonce: 5n, fee: 100n }, { nonce: 5n, fee: 180n }]);
+    expect(result.fee).toBe('180');
+  });
+
+  it('gives up once the fee reaches four times the requested one', async () => {
+    answers = [rejected(TxRejectedReason.FeeTooLow, 1000), rejected(TxRejectedReason.FeeTooLow, 1000)];
+
+    const broadcasting = queueBroadcast(NETWORK, address, build, 100n);
+
+    await expect(broadcasting).rejects.toThrow(BroadcastRejectedError);
+    expect(broadcasts.map(tx => tx.fee)).toEqual([100n, 400n]);
+  });
+
+  it("doesn't take a lagging API's nonce over the local one", async () => {
+    await queueBroadcast(NETWORK, address, build, 100n);
+    vi.setSystemTime(Date.now() + 20_000);
+    await queueBroadcast(NETWORK, address, build, 100n);
+    vi.setSystemTime(Date.now() + 20_000);
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(result.nonce).toBe(7);
+  });
+
+  it('fills the gap left by an accepted transaction the mempool dropped', async () => {
+    await queueBroadcast(NETWORK, address, build, 100n);
+    await queueBroadcast(NETWORK, address, build, 100n);
+    chain = { possible_next_nonce: 7, detected_missing_nonces: [5] };
+    vi.setSystemTime(Date.now() + 31_000);
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(result.nonce).toBe(5);
+  });
+
+  it("takes the chain's nonce after a quiet spell, when the last accepted transaction was dropped", async () => {
+    await queueBroadcast(NETWORK, address, build, 100n);
+    vi.setSystemTime(Date.now() + 31_000);
+
+    const result = await queueBroadcast(NETWORK, address, build, 100n);
+
+    expect(result.nonce).toBe(5);
+  });
+});
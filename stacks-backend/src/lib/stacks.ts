@@ -1,19 +1,177 @@
-import { StacksTestnet } from '@stacks/network';
+import {
+  StacksTransaction,
+  TxBroadcastResult,
+  TxBroadcastResultRejected,
+  TxRejectedReason,
+  broadcastTransaction,
+} from '@stacks/transactions';
+import { NetworkTarget } from './networks';
 
-export const TESTNET_API = 'https://api.testnet.hiro.so';
-export const network = new StacksTestnet();
-
-export async function getAccountNonce(address: string): Promise<number> {
-  const response = await fetch(`${TESTNET_API}/v2/accounts/${address}?proof=0`);
+export async function getAccountNonce(address: string, network: NetworkTarget): Promise<number> {
+  const response = await fetch(`${network.apiUrl}/v2/accounts/${address}?proof=0`);
   const data = await response.json() as { nonce: number };
   return data.nonce;
 }
 
-export async function getAccountBalance(address: string): Promise<string> {
-  const response = await fetch(`${TESTNET_API}/v2/accounts/${address}?proof=0`);
+export async function getAccountBalance(address: string, network: NetworkTarget): Promise<string> {
+  const response = await fetch(`${network.apiUrl}/v2/accounts/${address}?proof=0`);
   const data = await response.json() as { balance: string };
   // balance is in microSTX, convert to STX
   const microStx = BigInt(data.balance || '0');
   const stx = Number(microStx) / 1_000_000;
   return stx.toFixed(6);
 }
+
+// Give up after this many rejected broadcasts of one transaction
+const MAX_BROADCAST_ATTEMPTS = 4;
+// Replace-by-fee never goes past this multiple of the requested fee
+const MAX_FEE_MULTIPLIER = 4n;
+// The local nonce is checked against the chain at most this often, and the API is assumed to have indexed a
+// transaction this long after the node accepted it
+const NONCE_RESYNC_MS = 30_000;
+
+/** A transaction the node rejected for a reason a retry cannot fix, e.g. NotEnoughFunds */
+export class BroadcastRejectedError extends Error {
+  constructor(message: string, readonly reason?: string) {
+    super(message);
+    this.name = 'BroadcastRejectedError';
+  }
+}
+
+export interface QueuedBroadcastResult {
+  txid: string;
+  nonce: number;
+  // The fee paid, higher than requested when the first attempt was too low
+  fee: string;
+  // Broadcasts that were ahead of this one when it was queued
+  queuePosition: number;
+}
+
+// Signs a transaction for the given nonce and fee
+export type TransactionBuilder = (nonce: bigint, fee: bigint) => Promise<StacksTransaction>;
+
+interface NonceInfo {
+  possible_next_nonce: number;
+  detected_missing_nonces: number[];
+}
+
+interface ChainNonce {
+  next: bigint;
+  // `next` is missing below nonces already in the mempool, e.g. the mempool dropped that transaction
+  gap: boolean;
+}
+
+// Counts mempool transactions too, unlike the account endpoint
+async function getNextNonce(address: string, network: NetworkTarget): Promise<ChainNonce> {
+  const response = await fetch(`${network.apiUrl}/extended/v1/address/${address}/nonces`);
+  if (!response.ok) return { next: BigInt(await getAccountNonce(address, network)), gap: false };
+  const data = await response.json() as NonceInfo;
+  // Fill gaps first, or everything after them stays stuck in the mempool
+  const missing = data.detected_missing_nonces ?? [];
+  return missing.length > 0
+    ? { next: BigInt(Math.min(...missing)), gap: true }
+    : { next: BigInt(data.possible_next_nonce), gap: false };
+}
+
+/**
+ * Serializes signing and broadcasting for one sender on one network. The next nonce is tracked locally so queued
+ * transactions don't wait for the API to index the previous one, and resynced from the chain
+ * whenever the node disagrees, and every NONCE_RESYNC_MS in case an accepted transaction was dropped.
+ */
+class BroadcastQueue {
+  private nextNonce?: bigint;
+  // When the local nonce was last checked against the chain, and when the node last accepted a transaction
+  private syncedAt = 0;
+  private acceptedAt = 0;
+  private tail: Promise<unknown> = Promise.resolve();
+  private waiting = 0;
+
+  constructor(private readonly address: string, private readonly network: NetworkTarget) {}
+
+  enqueue(build: TransactionBuilder, fee: bigint): Promise<QueuedBroadcastResult> {
+    const queuePosition = this.waiting++;
+    const job = this.tail.then(() => this.broadcast(build, fee, queuePosition));
+    this.tail = job.catch(() => undefined).finally(() => this.waiting--);
+    return job;
+  }
+
+  private async localNonce(): Promise<bigint> {
+    const now = Date.now();
+    if (this.nextNonce !== undefined && now - this.syncedAt < NONCE_RESYNC_MS) return this.nextNonce;
+
+    const chain = await getNextNonce(this.address, this.network);
+    this.syncedAt = now;
+    // A chain nonce behind the local one may only mean the API hasn't indexed the latest transactions yet. It is
+    // taken when it fills a gap, or once nothing was accepted for a while: then an accepted transaction was dropped,
+    // and every nonce after it would sit in the mempool waiting for it.
+    const dropped = chain.gap || now - this.acceptedAt >= NONCE_RESYNC_MS;
+    if (this.nextNonce === undefined || chain.next > this.nextNonce || dropped) this.nextNonce = chain.next;
+    return this.nextNonce;
+  }
+
+  private async broadcast(build: TransactionBuilder, requestedFee: bigint, queuePosition: number): Promise<QueuedBroadcastResult> {
+    const maxFee = requestedFee * MAX_FEE_MULTIPLIER;
+    let fee = requestedFee;
+    let rejection: TxBroadcastResultRejected | undefined;
+
+    for (let attempt = 0; attempt < MAX_BROADCAST_ATTEMPTS; attempt++) {
+      const nonce = await this.localNonce();
+
+      let result: TxBroadcastResult;
+      try {
+        result = await broadcastTransaction(await build(nonce, fee), this.network.stacks);
+      } catch (err) {
+        // The node may or may not have accepted it, so ask the chain next time
+        this.nextNonce = undefined;
+        throw err;
+      }
+
+      if (!('error' in result) || !result.error) {
+        this.nextNonce = nonce + 1n;
+        this.acceptedAt = Date.now();
+        return { txid: result.txid, nonce: Number(nonce), fee: fee.toString(), queuePosition };
+      }
+
+      rejection = result as TxBroadcastResultRejected;
+      if (rejection.reason === TxRejectedReason.BadNonce) {
+        this.nextNonce = BigInt(rejection.reason_data.expected);
+      } else if (rejection.reason === TxRejectedReason.ConflictingNonceInMempool) {
+        // Another transaction from this wallet holds the nonce; take the next free one
+        const chainNonce = (await getNextNonce(this.address, this.network)).next;
+        this.nextNonce = chainNonce > nonce ? chainNonce : nonce + 1n;
+      } else if (rejection.reason === TxRejectedReason.FeeTooLow && fee < maxFee) {
+        // Replace-by-fee: same nonce, at least the fee the node asked for and 25% more than before
+        const bumped = fee + fee / 4n + 1n;
+        const expected = BigInt(rejection.reason_data.expected);
+        fee = bumped > expected ? bumped : expected;
+        if (fee > maxFee) fee = maxFee;
+      } else {
+        break;
+      }
+    }
+
+    throw new BroadcastRejectedError(rejection?.error ?? 'Transaction rejected', rejection?.reason);
+  }
+}
+
+const queues = new Map<string, BroadcastQueue>();
+
+/**
+ * Sign and broadcast a transaction from `address` once every earlier transaction from it has been
+ * broadcast, retrying with the node's expected nonce or a bumped fee when it is rejected for those.
+ * Each network keeps its own nonces, so it has its own queue.
+ */
+export function queueBroadcast(
+  network: NetworkTarget,
+  address: string,
+  build: TransactionBuilder,
+  fee: bigint
+): Promise<QueuedBroadcastResult> {
+  const key = `${network.apiUrl} ${address}`;
+  let queue = queues.get(key);
+  if (!queue) {
+    queue = new BroadcastQueue(address, network);
+    queues.set(key, queue);
+  }
+  return queue.enqueue(build, fee);
+}
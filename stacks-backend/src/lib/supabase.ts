@@ -0,0 +1,32 @@
+// Supabase over its REST API, with the service role, which bypasses row level security
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export function isSupabaseConfigured(): boolean {
+  return Boolean(SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY);
+}
+
+/** A PostgREST request against `/rest/v1/<path>`; throws on a non-2xx response */
+export async function supabaseRequest(path: string, init: RequestInit = {}): Promise<Response> {
+  const response = await fetch(`${SUPABASE_URL}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: SUPABASE_SERVICE_ROLE_KEY!,
+      Authorization: `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+  if (!response.ok) throw new Error(`Supabase returned ${response.status}: ${await response.text()}`);
+  return response;
+}
+
+/** The id of the user an access token belongs to, or undefined if it is invalid or expired */
+export async function getUserIdFromToken(accessToken: string): Promise<string | undefined> {
+  const response = await fetch(`${SUPABASE_URL}/auth/v1/user`, {
+    headers: { apikey: SUPABASE_SERVICE_ROLE_KEY!, Authorization: `Bearer ${accessToken}` },
+  });
+  if (!response.ok) return undefined;
+  const user = await response.json() as { id?: string };
+  return user.id;
+}
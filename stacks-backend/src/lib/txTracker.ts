@@ -0,0 +1,217 @@
+import { EventEmitter } from 'events';
+import { NetworkTarget } from './networks';
+
+const POLL_INTERVAL_MS = 3_000;
+// Give up on transactions that neither confirm nor drop within this time
+const WATCH_TIMEOUT_MS = 30 * 60_000;
+
+export type TxPhase = 'pending' | 'microblock' | 'anchored';
+export type TxOutcome = 'success' | 'abort_by_response' | 'abort_by_post_condition' | 'dropped' | 'timeout';
+
+// Events in the shape the simulator reports them, so the frontend renders both the same way
+export type TxEventJSON = { type: string; [field: string]: string };
+
+export interface TxSettlement {
+  status: TxOutcome;
+  // Raw status from the API, e.g. dropped_replace_by_fee
+  apiStatus?: string;
+  result?: { repr: string; hex: string };
+  events: TxEventJSON[];
+  fee?: { rate: string; executionCost?: Record<string, number> };
+  blockHeight?: number;
+  senderAddress?: string;
+  vmError?: string;
+}
+
+export type TxTrackEvent =
+  | { type: 'status'; txId: string; status: TxPhase; blockHeight?: number }
+  | ({ type: 'settled'; txId: string } & TxSettlement);
+
+interface HiroAssetEvent {
+  event_type: string;
+  contract_log?: { contract_id: string; topic: string; value: { repr: string } };
+  asset?: { asset_event_type: string; asset_id?: string; sender?: string; recipient?: string; amount?: string; value?: { repr: string } };
+  stx_lock_event?: { locked_amount: string; unlock_height: number; locked_address: string };
+}
+
+interface HiroTransaction {
+  tx_status: string;
+  sender_address: string;
+  fee_rate: string;
+  is_unanchored?: boolean;
+  block_height?: number;
+  tx_result?: { repr: string; hex: string };
+  events?: HiroAssetEvent[];
+  vm_error?: string | null;
+  execution_cost_read_count?: number;
+  execution_cost_read_length?: number;
+  execution_cost_runtime?: number;
+  execution_cost_write_count?: number;
+  execution_cost_write_length?: number;
+}
+
+function eventToJSON(event: HiroAssetEvent): TxEventJSON {
+  if (event.event_type === 'smart_contract_log' && event.contract_log) {
+    return { type: 'print', contract: event.contract_log.contract_id, value: event.contract_log.value.repr };
+  }
+  if (event.event_type === 'stx_lock' && event.stx_lock_event) {
+    const lock = event.stx_lock_event;
+    return { type: 'stx-lock', principal: lock.locked_address, amount: lock.locked_amount, unlockHeight: String(lock.unlock_height) };
+  }
+  if (event.asset) {
+    const prefix = { stx_asset: 'stx', fungible_token_asset: 'ft', non_fungible_token_asset: 'nft' }[event.event_type];
+    if (prefix) {
+      const json: TxEventJSON = { type: `${prefix}-${event.asset.asset_event_type}` };
+      if (event.asset.asset_id) json.asset = event.asset.asset_id;
+      if (event.asset.sender) json.sender = event.asset.sender;
+      if (event.asset.recipient) json.recipient = event.asset.recipient;
+      if (event.asset.amount) json.amount = event.asset.amount;
+      if (event.asset.value) json.value = event.asset.value.repr;
+      return json;
+    }
+  }
+  return { type: event.event_type };
+}
+
+function settlement(tx: HiroTransaction): TxSettlement {
+  const status: TxOutcome = tx.tx_status.startsWith('dropped') ? 'dropped' : tx.tx_status as TxOutcome;
+  const cost = {
+    readCount: tx.execution_cost_read_count,
+    readLength: tx.execution_cost_read_length,
+    runtime: tx.execution_cost_runtime,
+    writeCount: tx.execution_cost_write_count,
+    writeLength: tx.execution_cost_write_length,
+  };
+  const executionCost = Object.fromEntries(Object.entries(cost).filter(([, value]) => value !== undefined)) as Record<string, number>;
+  return {
+    status,
+    apiStatus: tx.tx_status,
+    result: tx.tx_result,
+    events: (tx.events ?? []).map(eventToJSON),
+    fee: { rate: tx.fee_rate, executionCost: Object.keys(executionCost).length > 0 ? executionCost : undefined },
+    blockHeight: tx.block_height,
+    senderAddress: tx.sender_address,
+    vmError: tx.vm_error ?? undefined,
+  };
+}
+
+// Where a transaction the API knows about is; 'settled' once it has a final status
+function phaseOf(tx: HiroTransaction): TxPhase | 'settled' {
+  if (tx.tx_status === 'pending') return 'pending';
+  if (tx.tx_status.startsWith('dropped')) return 'settled';
+  return tx.is_unanchored ? 'microblock' : 'settled';
+}
+
+async function fetchTransaction(txId: string, network: NetworkTarget): Promise<HiroTransaction | undefined> {
+  const response = await fetch(`${network.apiUrl}/extended/v1/tx/${txId}?event_limit=50`);
+  if (response.status === 404) return undefined;
+  if (!response.ok) throw new Error(`Stacks API returned ${response.status}`);
+  return await response.json() as HiroTransaction;
+}
+
+/**
+ * Polls one transaction until it settles and emits its progress. Watchers are shared, so any
+ * number of subscribers (SSE clients, the deployment status writer) cost one poll loop.
+ */
+class TxWatcher extends EventEmitter {
+  private last?: TxTrackEvent;
+  private timer?: NodeJS.Timeout;
+  private readonly startedAt = Date.now();
+
+  constructor(readonly txId: string, private readonly network: NetworkTarget, private onDone: () => void) {
+    super();
+    this.poll();
+  }
+
+  /** The most recent event, so late subscribers start from the current state */
+  get latest(): TxTrackEvent | undefined {
+    return this.last;
+  }
+
+  private emitEvent(event: TxTrackEvent) {
+    this.last = event;
+    this.emit('event', event);
+  }
+
+  private async poll() {
+    try {
+      const tx = await fetchTransaction(this.txId, this.network);
+      if (tx) {
+        const phase = phaseOf(tx);
+        if (phase === 'settled') {
+          if (!tx.tx_status.startsWith('dropped') && !(this.last?.type === 'status' && this.last.status === 'anchored')) {
+            this.emitEvent({ type: 'status', txId: this.txId, status: 'anchored', blockHeight: tx.block_height });
+          }
+          this.finish({ type: 'settled', txId: this.txId, ...settlement(tx) });
+          return;
+        }
+        if (this.last?.type !== 'status' || this.last.status !== phase) {
+          this.emitEvent({ type: 'status', txId: this.txId, status: phase, blockHeight: tx.block_height });
+        }
+      } else if (!this.last) {
+        // Just broadcast: the API may not have indexed it yet
+        this.emitEvent({ type: 'status', txId: this.txId, status: 'pending' });
+      }
+    } catch (err) {
+      console.warn(`Polling ${this.txId} failed:`, err instanceof Error ? err.message : err);
+    }
+
+    if (Date.now() - this.startedAt > WATCH_TIMEOUT_MS) {
+      this.finish({ type: 'settled', txId: this.txId, status: 'timeout', events: [] });
+      return;
+    }
+    this.timer = setTimeout(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  private finish(event: TxTrackEvent) {
+    if (this.timer) clearTimeout(this.timer);
+    this.emitEvent(event);
+    this.onDone();
+  }
+}
+
+const watchers = new Map<string, TxWatcher>();
+
+export function isTxId(txId: string): boolean {
+  return /^(0x)?[0-9a-fA-F]{64}$/.test(txId);
+}
+
+function normalizeTxId(txId: string): string {
+  return `0x${txId.replace(/^0x/, '').toLowerCase()}`;
+}
+
+/**
+ * Follow a transaction on `network` through pending → microblock → anchored → settled. `onEvent`
+ * receives the current state straight away, then every change; the returned function unsubscribes.
+ */
+export function trackTransaction(
+  txId: string,
+  network: NetworkTarget,
+  onEvent: (event: TxTrackEvent) => void
+): () => void {
+  const id = normalizeTxId(txId);
+  const key = `${network.apiUrl} ${id}`;
+  let watcher = watchers.get(key);
+  if (!watcher) {
+    watcher = new TxWatcher(id, network, () => watchers.delete(key));
+    watchers.set(key, watcher);
+  }
+  if (watcher.latest) onEvent(watcher.latest);
+  watcher.on('event', onEvent);
+  const current = watcher;
+  return () => {
+    current.off('event', onEvent);
+  };
+}
+
+/** Resolves with the settlement of a transaction once it confirms, aborts, drops or times out */
+export function waitForSettlement(txId: string, network: NetworkTarget): Promise<TxSettlement> {
+  return new Promise(resolve => {
+    const unsubscribe = trackTransaction(txId, network, event => {
+      if (event.type !== 'settled') return;
+      // The first event can arrive synchronously, before trackTransaction returns
+      setImmediate(() => unsubscribe());
+      resolve(event);
+    });
+  });
+}
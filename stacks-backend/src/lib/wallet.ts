@@ -1,4 +1,5 @@
 import * as bip39 from 'bip39';
+import { HDKey } from '@scure/bip32';
 import { getAddressFromPrivateKey, TransactionVersion } from '@stacks/transactions';
 
 export interface StacksWallet {
@@ -7,13 +8,30 @@ export interface StacksWallet {
   address: string;
 }
 
-export function generateWallet(): StacksWallet {
-  const mnemonic = bip39.generateMnemonic(256);
-  // Derive a simple private key from mnemonic seed
+export interface StacksAccount {
+  index: number;
+  privateKey: string;
+  address: string;
+}
+
+// BIP44 path for Stacks accounts, as used by Leather and Xverse
+const STACKS_DERIVATION_PATH = "m/44'/5757'/0'/0";
+
+/**
+ * Derive account `index` of a seed phrase at m/44'/5757'/0'/0/index, so the same phrase
+ * imported into a Stacks wallet shows the same addresses
+ */
+export function deriveAccount(mnemonic: string, index: number): StacksAccount {
   const seed = bip39.mnemonicToSeedSync(mnemonic);
-  // Use first 32 bytes of seed as private key
-  const privateKeyBytes = seed.slice(0, 32);
-  const privateKey = privateKeyBytes.toString('hex') + '01'; // compressed
+  const child = HDKey.fromMasterSeed(seed).derive(`${STACKS_DERIVATION_PATH}/${index}`);
+  if (!child.privateKey) throw new Error(`Could not derive account ${index}`);
+  const privateKey = Buffer.from(child.privateKey).toString('hex') + '01'; // compressed
   const address = getAddressFromPrivateKey(privateKey, TransactionVersion.Testnet);
+  return { index, privateKey, address };
+}
+
+export function generateWallet(): StacksWallet {
+  const mnemonic = bip39.generateMnemonic(256);
+  const { privateKey, address } = deriveAccount(mnemonic, 0);
   return { mnemonic, privateKey, address };
 }
@@ -1,13 +1,24 @@
 import { Router } from 'express';
-import { TESTNET_API } from '../lib/stacks';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
 
 const router = Router();
 
 router.get('/:address', async (req, res) => {
   const { address } = req.params;
 
+  let network: NetworkTarget;
   try {
-    const response = await fetch(`${TESTNET_API}/v2/accounts/${address}?proof=0`);
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  try {
+    const response = await fetch(`${network.apiUrl}/v2/accounts/${address}?proof=0`);
+    if (response.status >= 500) {
+      return res.status(502).json({ error: `Stacks API responded with ${response.status}` });
+    }
     const data = await response.json() as { balance: string; nonce: number };
 
     const microStx = BigInt(data.balance || '0');
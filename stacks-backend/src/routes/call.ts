@@ -1,5 +1,6 @@
 import { Router } from 'express';
-import { TESTNET_API } from '../lib/stacks';
+import { ArgumentError, TypedArgument, cvToHexArgument, encodeArguments } from '../lib/clarity/encode';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
 
 const router = Router();
 
@@ -7,8 +8,12 @@ interface CallReadRequest {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  args?: string[];
+  // { value, type } pairs to encode, or hex-serialized CVs
+  args?: Array<TypedArgument | string>;
   senderAddress?: string;
+  network?: string;
+  // Required when network is 'custom'
+  apiUrl?: string;
 }
 
 router.post('/', async (req, res) => {
@@ -18,14 +23,30 @@ router.post('/', async (req, res) => {
     return res.status(400).json({ error: 'Missing required fields' });
   }
 
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  let encoded: string[];
+  try {
+    encoded = encodeArguments(args, contractAddress).map(cvToHexArgument);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof ArgumentError ? 400 : 500).json({ error: message });
+  }
+
   try {
     const body = {
       sender: senderAddress || contractAddress,
-      arguments: args,
+      arguments: encoded,
     };
 
     const response = await fetch(
-      `${TESTNET_API}/v2/contracts/call-read/${contractAddress}/${contractName}/${functionName}`,
+      `${network.apiUrl}/v2/contracts/call-read/${contractAddress}/${contractName}/${functionName}`,
       {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
@@ -33,6 +54,11 @@ router.post('/', async (req, res) => {
       }
     );
 
+    // Reported as a gateway error so clients can retry against another API
+    if (response.status >= 500) {
+      return res.status(502).json({ error: `Stacks API responded with ${response.status}` });
+    }
+
     const data = await response.json();
     return res.json(data);
   } catch (err: any) {
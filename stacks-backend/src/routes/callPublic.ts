@@ -1,117 +1,113 @@
 import { Router } from 'express';
 import {
   makeContractCall,
-  broadcastTransaction,
   AnchorMode,
-  PostConditionMode,
-  stringAsciiCV,
-  stringUtf8CV,
-  uintCV,
-  intCV,
-  boolCV,
-  principalCV,
-  bufferCV,
-  noneCV,
-  someCV,
   ClarityValue,
+  PostCondition,
+  PostConditionMode,
 } from '@stacks/transactions';
-import { StacksTestnet } from '@stacks/network';
-import { getAccountNonce } from '../lib/stacks';
+import { ArgumentError, TypedArgument, encodeArguments } from '../lib/clarity/encode';
+import { BroadcastRejectedError, queueBroadcast } from '../lib/stacks';
+import { NetworkError, NetworkTarget, assertServerSignable, explorerTxUrl, resolveNetwork } from '../lib/networks';
+import { defaultFee } from '../lib/fees';
+import { Signer, SignerError, resolveSigner } from '../lib/signer';
+import { PostConditionError, PostConditionSpec, buildPostConditions, parsePostConditionMode } from '../lib/postConditions';
 
 const router = Router();
-const network = new StacksTestnet();
+// µSTX, used when no fee is given and the API cannot estimate one
+const FALLBACK_FEE = 10000n;
 
 interface CallPublicRequest {
   contractAddress: string;
   contractName: string;
   functionName: string;
-  args?: Array<{ value: string; type: string }>;
+  args?: TypedArgument[];
   fee?: number;
-}
-
-function buildClarityArg(value: string, type: string): ClarityValue {
-  const trimmed = value.trim();
-  // Handle nested type strings like "(optional uint128)", "(response ...)", etc.
-  const baseType = type.replace(/\(.*\)/, '').trim() || type;
-
-  if (type === 'uint128' || type.startsWith('uint')) {
-    const n = trimmed.startsWith('u') ? trimmed.slice(1) : trimmed;
-    return uintCV(BigInt(n || '0'));
-  }
-  if (type === 'int128' || type.startsWith('int')) {
-    return intCV(BigInt(trimmed || '0'));
-  }
-  if (type === 'bool') {
-    return boolCV(trimmed === 'true' || trimmed === '1');
-  }
-  if (type === 'principal') {
-    return principalCV(trimmed);
-  }
-  if (type.startsWith('(string-ascii') || type === 'string-ascii') {
-    return stringAsciiCV(trimmed);
-  }
-  if (type.startsWith('(string-utf8') || type === 'string-utf8') {
-    return stringUtf8CV(trimmed);
-  }
-  if (type.startsWith('(buff') || type === 'buff') {
-    const hex = trimmed.startsWith('0x') ? trimmed.slice(2) : trimmed;
-    return bufferCV(Buffer.from(hex, 'hex'));
-  }
-  if (type === 'none') return noneCV();
-  // Default: try as string-ascii
-  return stringAsciiCV(trimmed);
+  postConditions?: PostConditionSpec[];
+  postConditionMode?: 'allow' | 'deny';
+  network?: string;
+  // Required when network is 'custom'
+  apiUrl?: string;
 }
 
 router.post('/', async (req, res) => {
-  const { contractAddress, contractName, functionName, args = [], fee = 10000 } = req.body as CallPublicRequest;
+  const {
+    contractAddress,
+    contractName,
+    functionName,
+    args = [],
+    fee,
+    postConditions: postConditionSpecs,
+    postConditionMode: mode,
+  } = req.body as CallPublicRequest;
 
   if (!contractAddress || !contractName || !functionName) {
     return res.status(400).json({ error: 'Missing required fields' });
   }
 
-  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
-  const senderAddress = process.env.DEPLOYER_ADDRESS;
-
-  if (!privateKey || !senderAddress) {
-    return res.status(500).json({ error: 'Deployer wallet not configured' });
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+    assertServerSignable(network);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
   }
 
+  let signer: Signer;
   try {
-    const nonce = await getAccountNonce(senderAddress);
+    signer = await resolveSigner(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof SignerError ? err.status : 500).json({ error: message });
+  }
+  const { address: senderAddress, privateKey } = signer;
 
-    const functionArgs: ClarityValue[] = args.map(a => buildClarityArg(a.value, a.type));
+  let functionArgs: ClarityValue[];
+  let postConditions: PostCondition[];
+  let postConditionMode: PostConditionMode;
+  try {
+    functionArgs = encodeArguments(args, contractAddress);
+    postConditions = buildPostConditions(postConditionSpecs, senderAddress);
+    postConditionMode = parsePostConditionMode(mode, postConditions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const isInputError = err instanceof ArgumentError || err instanceof PostConditionError;
+    return res.status(isInputError ? 400 : 500).json({ error: message });
+  }
 
+  try {
     const txOptions = {
       contractAddress,
       contractName,
       functionName,
       functionArgs,
       senderKey: privateKey,
-      network,
+      network: network.stacks,
       anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Allow,
-      fee: BigInt(fee),
-      nonce: BigInt(nonce),
+      postConditionMode,
+      postConditions,
     };
 
-    const transaction = await makeContractCall(txOptions);
-    const result = await broadcastTransaction(transaction, network);
+    const build = (nonce: bigint, txFee: bigint) => makeContractCall({ ...txOptions, nonce, fee: txFee });
+    // Without an explicit fee, pay the medium estimate for this call
+    const txFee = fee === undefined ? await defaultFee(await build(0n, 0n), network, FALLBACK_FEE) : BigInt(fee);
+    const result = await queueBroadcast(network, senderAddress, build, txFee);
 
-    if ('error' in result) {
-      const reason = (result as any).reason as string | undefined;
-      let message = result.error as string;
+    const txId = result.txid;
+    const explorerUrl = explorerTxUrl(txId, network);
+    return res.json({ txId, explorerUrl, nonce: result.nonce, fee: result.fee, queuePosition: result.queuePosition });
+  } catch (err: any) {
+    if (err instanceof BroadcastRejectedError) {
+      const reason = err.reason;
+      let message = err.message;
       if (reason === 'ContractAlreadyExists') message = `Contract already exists.`;
-      else if (reason === 'BadNonce') message = `Nonce mismatch — please try again.`;
-      else if (reason === 'FeeTooLow') message = `Transaction fee too low.`;
+      else if (reason === 'BadNonce') message = `Nonce mismatch after several retries — please try again.`;
+      else if (reason === 'FeeTooLow') message = `Transaction fee too low, even after raising it.`;
       else if (reason === 'NotEnoughFunds') message = `Deployer wallet has insufficient funds.`;
       else if (reason) message = `Transaction rejected: ${reason}`;
       return res.status(400).json({ error: message, reason });
     }
-
-    const txId = result.txid;
-    const explorerUrl = `https://explorer.hiro.so/txid/${txId}?chain=testnet`;
-    return res.json({ txId, explorerUrl });
-  } catch (err: any) {
     return res.status(500).json({ error: err.message });
   }
 });
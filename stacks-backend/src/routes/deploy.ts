@@ -1,63 +1,114 @@
 import { Router } from 'express';
 import {
   makeContractDeploy,
-  broadcastTransaction,
   AnchorMode,
+  PostCondition,
   PostConditionMode,
 } from '@stacks/transactions';
-import { StacksTestnet } from '@stacks/network';
-import { getAccountNonce } from '../lib/stacks';
+import { LATEST_CLARITY_VERSION, parseClarityVersion } from '../lib/clarity/builtins';
+import { BroadcastRejectedError, queueBroadcast } from '../lib/stacks';
+import { NetworkError, NetworkTarget, assertServerSignable, explorerTxUrl, resolveNetwork } from '../lib/networks';
+import { watchDeployment } from '../lib/deployments';
+import { defaultFee } from '../lib/fees';
+import { Signer, SignerError, resolveSigner } from '../lib/signer';
+import { PostConditionError, PostConditionSpec, buildPostConditions, parsePostConditionMode } from '../lib/postConditions';
 
 const router = Router();
-const network = new StacksTestnet();
+// µSTX, used when no fee is given and the API cannot estimate one
+const FALLBACK_FEE = 10000n;
 
 interface DeployRequest {
   code: string;
   contractName: string;
   fee?: number;
+  clarityVersion?: number;
+  postConditions?: PostConditionSpec[];
+  postConditionMode?: 'allow' | 'deny';
+  network?: string;
+  // Required when network is 'custom'
+  apiUrl?: string;
 }
 
 router.post('/', async (req, res) => {
-  const { code, contractName, fee = 10000 } = req.body as DeployRequest;
+  const {
+    code,
+    contractName,
+    fee,
+    clarityVersion,
+    postConditions: postConditionSpecs,
+    postConditionMode: mode,
+  } = req.body as DeployRequest;
 
   if (!code || !contractName) {
     return res.status(400).json({ error: 'Missing required fields: code, contractName' });
   }
 
-  const privateKey = process.env.DEPLOYER_PRIVATE_KEY;
-  const senderAddress = process.env.DEPLOYER_ADDRESS;
+  const version = clarityVersion === undefined ? LATEST_CLARITY_VERSION : parseClarityVersion(clarityVersion);
+  if (!version) {
+    return res.status(400).json({ error: `Unsupported Clarity version: ${clarityVersion}` });
+  }
+
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+    assertServerSignable(network);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
 
-  if (!privateKey || !senderAddress) {
-    return res.status(500).json({ error: 'Deployer wallet not configured on server' });
+  let signer: Signer;
+  try {
+    signer = await resolveSigner(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof SignerError ? err.status : 500).json({ error: message });
   }
+  const { address: senderAddress, privateKey } = signer;
 
+  let postConditions: PostCondition[];
+  let postConditionMode: PostConditionMode;
   try {
-    const nonce = await getAccountNonce(senderAddress);
+    postConditions = buildPostConditions(postConditionSpecs, senderAddress);
+    postConditionMode = parsePostConditionMode(mode, postConditions);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof PostConditionError ? 400 : 500).json({ error: message });
+  }
 
+  try {
     const txOptions = {
       contractName,
       codeBody: code,
+      clarityVersion: version,
       senderKey: privateKey,
-      network,
+      network: network.stacks,
       anchorMode: AnchorMode.Any,
-      postConditionMode: PostConditionMode.Allow,
-      fee: BigInt(fee),
-      nonce: BigInt(nonce),
+      postConditionMode,
+      postConditions,
     };
 
-    const transaction = await makeContractDeploy(txOptions);
-    const result = await broadcastTransaction(transaction, network);
+    const build = (nonce: bigint, txFee: bigint) => makeContractDeploy({ ...txOptions, nonce, fee: txFee });
+    // Without an explicit fee, pay the medium estimate for this contract's size
+    const txFee = fee === undefined ? await defaultFee(await build(0n, 0n), network, FALLBACK_FEE) : BigInt(fee);
+    const result = await queueBroadcast(network, senderAddress, build, txFee);
+
+    const txId = result.txid;
+    watchDeployment(txId, network);
+    const contractAddress = `${senderAddress}.${contractName}`;
+    const explorerUrl = explorerTxUrl(txId, network);
 
-    if ('error' in result) {
-      const reason = (result as any).reason as string | undefined;
-      const reasonData = (result as any).reason_data;
-      let message = result.error as string;
+    return res.json({ txId, contractAddress, explorerUrl, nonce: result.nonce, fee: result.fee, queuePosition: result.queuePosition });
+  } catch (err: any) {
+    if (err instanceof BroadcastRejectedError) {
+      const reason = err.reason;
+      let message = err.message;
       if (reason === 'ContractAlreadyExists') {
         message = `A contract named "${contractName}" already exists for this deployer. Please choose a different name.`;
       } else if (reason === 'BadNonce') {
-        message = `Nonce mismatch — please try again.`;
+        message = `Nonce mismatch after several retries — please try again.`;
       } else if (reason === 'FeeTooLow') {
-        message = `Transaction fee too low. Please try again.`;
+        message = `Transaction fee too low, even after raising it. Please try again with a higher fee.`;
       } else if (reason === 'NotEnoughFunds') {
         message = `Deployer wallet has insufficient funds.`;
       } else if (reason) {
@@ -65,13 +116,6 @@ router.post('/', async (req, res) => {
       }
       return res.status(400).json({ error: message, reason });
     }
-
-    const txId = result.txid;
-    const contractAddress = `${senderAddress}.${contractName}`;
-    const explorerUrl = `https://explorer.hiro.so/txid/${txId}?chain=testnet`;
-
-    return res.json({ txId, contractAddress, explorerUrl });
-  } catch (err: any) {
     return res.status(500).json({ error: err.message });
   }
 });
@@ -0,0 +1,104 @@
+import { Router } from 'express';
+import {
+  makeContractCall,
+  makeContractDeploy,
+  AnchorMode,
+  PostConditionMode,
+  StacksTransaction,
+  TransactionVersion,
+  getAddressFromPrivateKey,
+  makeRandomPrivKey,
+  privateKeyToString,
+} from '@stacks/transactions';
+import { LATEST_CLARITY_VERSION, parseClarityVersion } from '../lib/clarity/builtins';
+import { ArgumentError, TypedArgument, encodeArguments } from '../lib/clarity/encode';
+import { estimateFees } from '../lib/fees';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+import { PostConditionError, PostConditionSpec, buildPostConditions } from '../lib/postConditions';
+
+const router = Router();
+
+// The same fields as a /deploy or /call request. Mainnet is allowed: estimates are also shown for
+// transactions users sign in their own wallet.
+type FeeEstimateRequest =
+  | { type: 'deploy'; code: string; contractName: string; clarityVersion?: number; postConditions?: PostConditionSpec[] }
+  | {
+      type: 'call';
+      contractAddress: string;
+      contractName: string;
+      functionName: string;
+      args?: TypedArgument[];
+      postConditions?: PostConditionSpec[];
+    };
+
+router.post('/estimate', async (req, res) => {
+  const request = req.body as FeeEstimateRequest;
+
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  // Signed like the real transaction, so its size matches; the key, nonce and fee don't change it. A throwaway
+  // key keeps estimates from needing, or assigning, a deployer account, as in wallet mode or on mainnet.
+  const privateKey = privateKeyToString(makeRandomPrivKey());
+  const senderAddress = getAddressFromPrivateKey(privateKey, network.isMainnet ? TransactionVersion.Mainnet : TransactionVersion.Testnet);
+  const common = {
+    senderKey: privateKey,
+    network: network.stacks,
+    anchorMode: AnchorMode.Any,
+    postConditionMode: PostConditionMode.Allow,
+    fee: 0n,
+    nonce: 0n,
+  };
+
+  let transaction: StacksTransaction;
+  try {
+    if (request.type === 'deploy') {
+      if (!request.code || !request.contractName) {
+        return res.status(400).json({ error: 'Missing required fields: code, contractName' });
+      }
+      const version = request.clarityVersion === undefined ? LATEST_CLARITY_VERSION : parseClarityVersion(request.clarityVersion);
+      if (!version) {
+        return res.status(400).json({ error: `Unsupported Clarity version: ${request.clarityVersion}` });
+      }
+      transaction = await makeContractDeploy({
+        ...common,
+        contractName: request.contractName,
+        codeBody: request.code,
+        clarityVersion: version,
+        postConditions: buildPostConditions(request.postConditions, senderAddress),
+      });
+    } else if (request.type === 'call') {
+      if (!request.contractAddress || !request.contractName || !request.functionName) {
+        return res.status(400).json({ error: 'Missing required fields' });
+      }
+      transaction = await makeContractCall({
+        ...common,
+        contractAddress: request.contractAddress,
+        contractName: request.contractName,
+        functionName: request.functionName,
+        functionArgs: encodeArguments(request.args ?? [], request.contractAddress),
+        postConditions: buildPostConditions(request.postConditions, senderAddress),
+      });
+    } else {
+      return res.status(400).json({ error: "type must be 'deploy' or 'call'" });
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const isInputError = err instanceof ArgumentError || err instanceof PostConditionError;
+    return res.status(isInputError ? 400 : 500).json({ error: message });
+  }
+
+  try {
+    return res.json(await estimateFees(transaction, network));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(500).json({ error: `Fee estimation failed: ${message}` });
+  }
+});
+
+export { router as feesRouter };
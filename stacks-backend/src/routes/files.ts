@@ -0,0 +1,172 @@
+import express, { Router, Request, Response } from 'express';
+import {
+  ProjectFileError,
+  ProjectRef,
+  authorizeProject,
+  authorizeUser,
+  checkContent,
+  createEntry,
+  deleteEntry,
+  exportProject,
+  getFileTree,
+  importProject,
+  initializeProject,
+  normalizePath,
+  readProjectFile,
+  renameEntry,
+  searchProjectFiles,
+  writeProjectFile,
+} from '../lib/projectFiles';
+import { GitHubError } from '../lib/github';
+import { importGitHubProject } from '../lib/githubImport';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+import { addRequirement, forkContract, listRequirements, lookupRequirement, removeRequirement } from '../lib/requirements';
+
+// Every route acts on the signed-in user's projects: /files/:userId/import and /files/:userId/:projectId/...
+const router = Router();
+
+type FilesRequest = Request<{ userId: string; projectId: string }>;
+
+function sendError(res: Response, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  const status = err instanceof ProjectFileError || err instanceof GitHubError ? err.status : err instanceof NetworkError ? err.status : 500;
+  return res.status(status).json({ error: message });
+}
+
+/** Run `handler` on the caller's project, answering with its result or its error */
+function withProject(handler: (project: ProjectRef, req: FilesRequest) => Promise<unknown>) {
+  return async (req: FilesRequest, res: Response) => {
+    try {
+      const project = await authorizeProject(req, req.params.userId, req.params.projectId);
+      return res.json(await handler(project, req) ?? { success: true });
+    } catch (err) {
+      return sendError(res, err);
+    }
+  };
+}
+
+// The network a request names in `network` and `apiUrl`, if it names one
+function requestedNetwork(req: Request<{ userId: string }>): NetworkTarget | undefined {
+  const source = (req.method === 'GET' ? req.query : req.body ?? {}) as { network?: unknown };
+  return source.network === undefined ? undefined : resolveNetwork(req);
+}
+
+const PROJECT = '/:userId/:projectId';
+
+router.get(`${PROJECT}/tree`, withProject(project => getFileTree(project)));
+
+// Creates the Clarinet layout of a project that has no files yet, from `code` or its saved contract
+router.post(`${PROJECT}/init`, withProject(async (project, req) => {
+  const { code } = req.body as { code?: unknown };
+  const initialized = await initializeProject(project, code === undefined ? undefined : checkContent(code));
+  return { initialized };
+}));
+
+router.get(`${PROJECT}/file`, withProject((project, req) => readProjectFile(project, normalizePath(req.query.path))));
+
+router.put(`${PROJECT}/file`, withProject(async (project, req) => {
+  const { path, content } = req.body as { path?: unknown; content?: unknown };
+  await writeProjectFile(project, normalizePath(path), checkContent(content));
+}));
+
+router.post(`${PROJECT}/file`, withProject(async (project, req) => {
+  const { path, content = '' } = req.body as { path?: unknown; content?: unknown };
+  await createEntry(project, normalizePath(path), false, checkContent(content));
+}));
+
+router.delete(`${PROJECT}/file`, withProject(async (project, req) => {
+  await deleteEntry(project, normalizePath(req.query.path));
+}));
+
+router.post(`${PROJECT}/directory`, withProject(async (project, req) => {
+  const { path } = req.body as { path?: unknown };
+  await createEntry(project, normalizePath(path), true);
+}));
+
+router.post(`${PROJECT}/rename`, withProject(async (project, req) => {
+  const { from, to } = req.body as { from?: unknown; to?: unknown };
+  await renameEntry(project, normalizePath(from), normalizePath(to));
+}));
+
+router.get(`${PROJECT}/search`, withProject((project, req) => {
+  const { q, content } = req.query;
+  if (typeof q !== 'string' || !q.trim()) {
+    throw new ProjectFileError('q must be a non-empty string', 400);
+  }
+  return searchProjectFiles(project, q.trim(), content === 'true');
+}));
+
+// Deployed contracts the project requires (see lib/requirements)
+router.get(`${PROJECT}/requirements`, withProject(project => listRequirements(project)));
+
+// Looks up `contractId` on the network its address belongs to without adding it
+router.get(`${PROJECT}/requirements/lookup`, withProject((_, req) => lookupRequirement(req.query.contractId, requestedNetwork(req))));
+
+router.post(`${PROJECT}/requirements`, withProject((project, req) => {
+  const { contractId } = req.body as { contractId?: unknown };
+  return addRequirement(project, contractId, requestedNetwork(req));
+}));
+
+router.delete(`${PROJECT}/requirements`, withProject((project, req) => removeRequirement(project, req.query.contractId)));
+
+// The project as a Clarinet project zip
+router.get(`${PROJECT}/export`, async (req: FilesRequest, res: Response) => {
+  try {
+    const project = await authorizeProject(req, req.params.userId, req.params.projectId);
+    const { fileName, zip } = await exportProject(project);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    return res.send(zip);
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// Creates a project from a Clarinet project zip sent as the request body
+router.post('/:userId/import', express.raw({ type: 'application/zip', limit: '10mb' }), async (req: Request<{ userId: string }>, res: Response) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      throw new ProjectFileError('Send the zip as the request body with Content-Type: application/zip', 400);
+    }
+    return res.json(await importProject(req.params.userId, req.body));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// Creates a project from the Clarinet project in a public GitHub repository, with the `contracts` picked from it
+router.post('/:userId/import/github', async (req: Request<{ userId: string }>, res: Response) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    const { url, contracts, name, description } = req.body as { url?: unknown; contracts?: unknown; name?: unknown; description?: unknown };
+    if (typeof url !== 'string' || !url.trim()) {
+      throw new ProjectFileError('url is required', 400);
+    }
+    if (contracts !== undefined && !(Array.isArray(contracts) && contracts.every(contract => typeof contract === 'string'))) {
+      throw new ProjectFileError('contracts must be an array of contract names', 400);
+    }
+    return res.json(await importGitHubProject(req.params.userId, url, {
+      contracts: contracts as string[] | undefined,
+      name: typeof name === 'string' ? name : undefined,
+      description: typeof description === 'string' ? description : undefined,
+    }));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// Creates a project from a deployed contract and the contracts it refers to, fetched from `network`
+router.post('/:userId/fork', async (req: Request<{ userId: string }>, res: Response) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    const { contractId, name } = req.body as { contractId?: unknown; name?: unknown };
+    return res.json(await forkContract(req.params.userId, contractId, requestedNetwork(req), {
+      name: typeof name === 'string' ? name : undefined,
+    }));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+export { router as filesRouter };
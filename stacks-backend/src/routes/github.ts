@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { GitHubError } from '../lib/github';
+import { inspectGitHubProject } from '../lib/githubImport';
+import {
+  PublishTarget,
+  deleteGitHubConnection,
+  getGitHubConnection,
+  previewPublish,
+  publishProject,
+  saveGitHubConnection,
+} from '../lib/githubPublish';
+import { ProjectFileError, authorizeProject, authorizeUser } from '../lib/projectFiles';
+
+const router = Router();
+
+function sendError(res: Response, err: unknown) {
+  const message = err instanceof Error ? err.message : String(err);
+  const status = err instanceof GitHubError || err instanceof ProjectFileError ? err.status : 500;
+  return res.status(status).json({ error: message });
+}
+
+function parseTarget(body: { repo?: unknown; branch?: unknown }): PublishTarget {
+  if (typeof body.repo !== 'string' || typeof body.branch !== 'string') {
+    throw new ProjectFileError('repo and branch are required', 400);
+  }
+  return { repo: body.repo.trim(), branch: body.branch.trim() };
+}
+
+// The Clarinet project in a public repository and the contracts it declares, to pick from before importing
+router.get('/project', async (req, res) => {
+  const { url } = req.query;
+  if (typeof url !== 'string' || !url.trim()) {
+    return res.status(400).json({ error: 'url is required' });
+  }
+
+  try {
+    return res.json(await inspectGitHubProject(url));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// The GitHub account the user publishes with; `login` is null when none is connected
+router.get('/connection/:userId', async (req: Request<{ userId: string }>, res) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    const connection = await getGitHubConnection(req.params.userId);
+    return res.json({ login: connection?.login ?? null });
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// Connects the account of the OAuth token GitHub issued when the user linked their identity
+router.put('/connection/:userId', async (req: Request<{ userId: string }>, res) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    const { token } = req.body as { token?: unknown };
+    if (typeof token !== 'string' || !token) {
+      throw new ProjectFileError('token is required', 400);
+    }
+    return res.json(await saveGitHubConnection(req.params.userId, token));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+router.delete('/connection/:userId', async (req: Request<{ userId: string }>, res) => {
+  try {
+    await authorizeUser(req, req.params.userId);
+    await deleteGitHubConnection(req.params.userId);
+    return res.json({ success: true });
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// The files a push would add, change and delete, with their content before and after
+router.post('/publish/:userId/:projectId/preview', async (req: Request<{ userId: string; projectId: string }>, res) => {
+  try {
+    const project = await authorizeProject(req, req.params.userId, req.params.projectId);
+    return res.json(await previewPublish(project, req.params.userId, parseTarget(req.body)));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+// Commits the changed files; `head` and `digest` are the preview's, so that only what was reviewed is pushed
+router.post('/publish/:userId/:projectId', async (req: Request<{ userId: string; projectId: string }>, res) => {
+  try {
+    const project = await authorizeProject(req, req.params.userId, req.params.projectId);
+    const { message, isPrivate, head, digest } = req.body as { message?: unknown; isPrivate?: unknown; head?: unknown; digest?: unknown };
+    if (typeof message !== 'string' || !message.trim()) {
+      throw new ProjectFileError('message is required', 400);
+    }
+    if (head !== null && typeof head !== 'string') {
+      throw new ProjectFileError('head must be the commit the preview was made against, or null', 400);
+    }
+    if (typeof digest !== 'string' || !digest) {
+      throw new ProjectFileError("digest must be the preview's", 400);
+    }
+    return res.json(await publishProject(project, req.params.userId, parseTarget(req.body), {
+      message: message.trim(),
+      isPrivate: isPrivate === true,
+      head,
+      digest,
+    }));
+  } catch (err) {
+    return sendError(res, err);
+  }
+});
+
+export { router as githubRouter };
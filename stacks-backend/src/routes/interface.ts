@@ -1,14 +1,27 @@
 import { Router } from 'express';
-import { TESTNET_API } from '../lib/stacks';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+import { ProjectFileError } from '../lib/projectFiles';
+import { lookupRequirement } from '../lib/requirements';
 
 const router = Router();
 
 router.get('/:address/:name', async (req, res) => {
   const { address, name } = req.params;
 
+  let network: NetworkTarget;
   try {
-    const response = await fetch(`${TESTNET_API}/v2/contracts/interface/${address}/${name}`);
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  try {
+    const response = await fetch(`${network.apiUrl}/v2/contracts/interface/${address}/${name}`);
 
+    if (response.status >= 500) {
+      return res.status(502).json({ error: `Stacks API responded with ${response.status}` });
+    }
     if (!response.ok) {
       return res.status(response.status).json({ error: 'Contract not found or not deployed' });
     }
@@ -20,4 +33,17 @@ router.get('/:address/:name', async (req, res) => {
   }
 });
 
+// A deployed contract's source with its Clarity version and the deployed contracts it refers to, for opening it
+// read-only. Mainnet addresses are read from mainnet and testnet ones from testnet when `network` is the other.
+router.get('/:address/:name/source', async (req, res) => {
+  try {
+    const network = req.query.network === undefined ? undefined : resolveNetwork(req);
+    return res.json(await lookupRequirement(`${req.params.address}.${req.params.name}`, network));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = err instanceof ProjectFileError ? err.status : err instanceof NetworkError ? err.status : 500;
+    return res.status(status).json({ error: message });
+  }
+});
+
 export { router as interfaceRouter };
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+
+const router = Router();
+
+// The chain tip of the requested network's API as the server reaches it. The editor checks its API providers
+// here rather than from the browser, so a provider the server doesn't allow shows as such (403).
+router.get('/info', async (req, res) => {
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  const start = Date.now();
+  try {
+    const response = await fetch(`${network.apiUrl}/v2/info`, { signal: AbortSignal.timeout(10_000) });
+    if (!response.ok) {
+      return res.status(502).json({ error: `Stacks API responded with ${response.status}` });
+    }
+    const info = await response.json() as { stacks_tip_height?: number };
+    return res.json({ apiUrl: network.apiUrl, latency: Date.now() - start, blockHeight: info.stacks_tip_height ?? null });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(502).json({ error: `Could not reach ${network.apiUrl}: ${message}` });
+  }
+});
+
+export { router as networkRouter };
@@ -0,0 +1,171 @@
+import { Request, Router, Response } from 'express';
+import { LATEST_CLARITY_VERSION, parseClarityVersion } from '../lib/clarity/builtins';
+import { requirementOrder } from '../lib/clarity/requirements';
+import { ProjectFileError, authorizeProject } from '../lib/projectFiles';
+import { loadRequirementSources } from '../lib/requirements';
+import { SessionLimitError, createSession, deleteSession, getSession } from '../lib/simnet/sessions';
+import { Simnet, SimnetError } from '../lib/simnet/simnet';
+import { getUserIdFromToken, isSupabaseConfigured } from '../lib/supabase';
+
+const router = Router();
+
+interface DeployRequest {
+  code: string;
+  contractName: string;
+  sender?: string;
+  clarityVersion?: number;
+}
+
+interface CallRequest {
+  contract: string;
+  functionName: string;
+  args?: string[];
+  sender?: string;
+}
+
+function summary(id: string, simnet: Simnet) {
+  return {
+    sessionId: id,
+    blockHeight: simnet.blockHeight,
+    accounts: simnet.accounts.map(account => ({
+      ...account,
+      balance: simnet.state.stxBalance(account.address).toString(),
+    })),
+    contracts: simnet.contractIds,
+  };
+}
+
+function sessionOr404(id: string, res: Response): Simnet | undefined {
+  const simnet = getSession(id);
+  if (!simnet) res.status(404).json({ error: 'Simulation session not found or expired' });
+  return simnet;
+}
+
+function handleError(err: unknown, res: Response) {
+  if (err instanceof SimnetError) return res.status(400).json({ error: err.message });
+  if (err instanceof ProjectFileError) return res.status(err.status).json({ error: err.message });
+  if (err instanceof SessionLimitError) return res.status(503).json({ error: err.message });
+  return res.status(500).json({ error: err instanceof Error ? err.message : String(err) });
+}
+
+// Sessions are limited per caller: signed-in users by account, everyone else by IP address
+async function callerOf(req: Request): Promise<string> {
+  const token = req.headers.authorization?.match(/^Bearer (.+)$/)?.[1];
+  const userId = token && isSupabaseConfigured() ? await getUserIdFromToken(token) : undefined;
+  return userId ? `user:${userId}` : `ip:${req.ip}`;
+}
+
+// With a `userId` and `projectId`, the project's requirements are deployed first, at their simnet principals
+router.post('/sessions', async (req, res) => {
+  const { userId, projectId } = (req.body ?? {}) as { userId?: string; projectId?: string };
+  try {
+    const requirements = userId && projectId
+      ? await loadRequirementSources(await authorizeProject(req, userId, projectId))
+      : [];
+    const { id, simnet } = createSession(await callerOf(req));
+    const failed = requirementOrder(requirements).flatMap(requirement => {
+      const result = simnet.deployRequirement(requirement);
+      return result.success ? [] : [`${requirement.contractId}: ${result.error ?? 'Deployment failed'}`];
+    });
+    return res.json({ ...summary(id, simnet), ...(failed.length > 0 ? { requirementErrors: failed } : {}) });
+  } catch (err) {
+    return handleError(err, res);
+  }
+});
+
+router.get('/sessions/:id', (req, res) => {
+  const simnet = sessionOr404(req.params.id, res);
+  if (!simnet) return;
+  return res.json(summary(req.params.id, simnet));
+});
+
+router.delete('/sessions/:id', (req, res) => {
+  if (!deleteSession(req.params.id)) {
+    return res.status(404).json({ error: 'Simulation session not found or expired' });
+  }
+  return res.json({ deleted: true });
+});
+
+router.post('/sessions/:id/deploy', (req, res) => {
+  const { code, contractName, sender, clarityVersion } = req.body as DeployRequest;
+
+  if (!code || !contractName) {
+    return res.status(400).json({ error: 'Missing required fields: code, contractName' });
+  }
+
+  const version = clarityVersion === undefined ? LATEST_CLARITY_VERSION : parseClarityVersion(clarityVersion);
+  if (!version) {
+    return res.status(400).json({ error: `Unsupported Clarity version: ${clarityVersion}` });
+  }
+
+  const simnet = sessionOr404(req.params.id, res);
+  if (!simnet) return;
+
+  try {
+    return res.json(simnet.deployContract(code, contractName, { sender, clarityVersion: version }));
+  } catch (err) {
+    return handleError(err, res);
+  }
+});
+
+for (const [path, readOnly] of [['/sessions/:id/call', false], ['/sessions/:id/call-read', true]] as const) {
+  router.post(path, (req, res) => {
+    const { contract, functionName, args = [], sender } = req.body as CallRequest;
+
+    if (!contract || !functionName) {
+      return res.status(400).json({ error: 'Missing required fields: contract, functionName' });
+    }
+    if (!Array.isArray(args) || args.some(arg => typeof arg !== 'string')) {
+      return res.status(400).json({ error: 'args must be an array of Clarity values, e.g. ["u1", "\'ST1..."]' });
+    }
+
+    const simnet = sessionOr404(req.params.id, res);
+    if (!simnet) return;
+
+    try {
+      const result = readOnly
+        ? simnet.callReadOnly(contract, functionName, args, sender)
+        : simnet.callPublic(contract, functionName, args, sender);
+      return res.json(result);
+    } catch (err) {
+      return handleError(err, res);
+    }
+  });
+}
+
+router.post('/sessions/:id/mine', (req, res) => {
+  const { blocks = 1 } = req.body as { blocks?: number };
+
+  const simnet = sessionOr404(req.params.id, res);
+  if (!simnet) return;
+
+  try {
+    return res.json({ blockHeight: simnet.mineBlocks(blocks) });
+  } catch (err) {
+    return handleError(err, res);
+  }
+});
+
+router.get('/sessions/:id/contracts/:contractId/interface', (req, res) => {
+  const simnet = sessionOr404(req.params.id, res);
+  if (!simnet) return;
+
+  try {
+    return res.json(simnet.contractInterface(req.params.contractId));
+  } catch (err) {
+    return handleError(err, res);
+  }
+});
+
+router.get('/sessions/:id/contracts/:contractId/state', (req, res) => {
+  const simnet = sessionOr404(req.params.id, res);
+  if (!simnet) return;
+
+  try {
+    return res.json(simnet.contractState(req.params.contractId));
+  } catch (err) {
+    return handleError(err, res);
+  }
+});
+
+export { router as simulateRouter };
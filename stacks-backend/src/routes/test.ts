@@ -0,0 +1,85 @@
+import { Router, Request, Response } from 'express';
+import { parseClarityVersion } from '../lib/clarity/builtins';
+import { ProjectFileError, authorizeProject } from '../lib/projectFiles';
+import { ProjectFile, TestRunEvent, discoverTests, runTests } from '../lib/simnet/testRunner';
+
+const router = Router();
+
+interface TestRequest {
+  userId?: string;
+  projectId?: string;
+  files?: ProjectFile[];
+  clarityVersion?: number;
+  only?: string[];
+}
+
+function validFiles(files: unknown): files is ProjectFile[] {
+  return Array.isArray(files) && files.every(file =>
+    typeof file?.path === 'string' && typeof file?.content === 'string');
+}
+
+function badRequest(body: TestRequest, res: Response): boolean {
+  if (typeof body.userId !== 'string' || typeof body.projectId !== 'string') {
+    res.status(400).json({ error: 'Missing required fields: userId, projectId' });
+    return true;
+  }
+  if (!validFiles(body.files)) {
+    res.status(400).json({ error: 'files must be an array of { path, content }' });
+    return true;
+  }
+  if (body.clarityVersion !== undefined && !parseClarityVersion(body.clarityVersion)) {
+    res.status(400).json({ error: `Unsupported Clarity version: ${body.clarityVersion}` });
+    return true;
+  }
+  return false;
+}
+
+// Tests run on the simnet for the project's owner only
+async function unauthorized(req: Request, body: TestRequest, res: Response): Promise<boolean> {
+  try {
+    await authorizeProject(req, body.userId!, body.projectId!);
+    return false;
+  } catch (err) {
+    const status = err instanceof ProjectFileError ? err.status : 500;
+    res.status(status).json({ error: err instanceof Error ? err.message : String(err) });
+    return true;
+  }
+}
+
+router.post('/discover', async (req, res) => {
+  const body = (req.body ?? {}) as TestRequest;
+  if (badRequest(body, res) || await unauthorized(req, body, res)) return;
+  return res.json(discoverTests(body.files!));
+});
+
+// Streams TestRunEvents as server-sent events while the tests run
+router.post('/run', async (req, res) => {
+  const body = (req.body ?? {}) as TestRequest;
+  if (badRequest(body, res) || await unauthorized(req, body, res)) return;
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  let closed = false;
+  res.on('close', () => { closed = true; });
+
+  const sendEvent = (data: TestRunEvent | { type: 'error'; message: string }) => {
+    res.write(`data: ${JSON.stringify(data)}\n\n`);
+  };
+
+  try {
+    await runTests(body.files!, {
+      clarityVersion: body.clarityVersion === undefined ? undefined : parseClarityVersion(body.clarityVersion),
+      only: Array.isArray(body.only) ? body.only : undefined,
+      isCancelled: () => closed,
+    }, sendEvent);
+  } catch (err) {
+    sendEvent({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+
+  res.end();
+});
+
+export { router as testRouter };
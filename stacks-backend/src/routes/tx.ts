@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { TxTrackEvent, isTxId, trackTransaction } from '../lib/txTracker';
+import { DeploymentError, watchOwnDeployment } from '../lib/deployments';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+
+const router = Router();
+
+// Streams TxTrackEvents as server-sent events until the transaction settles
+router.get('/:txid/events', (req, res) => {
+  const { txid } = req.params;
+  if (!isTxId(txid)) {
+    return res.status(400).json({ error: 'txid must be 64 hex characters' });
+  }
+
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+
+  const unsubscribe = trackTransaction(txid, network, (event: TxTrackEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    // Ending the response fires 'close', which unsubscribes
+    if (event.type === 'settled') res.end();
+  });
+  res.on('close', unsubscribe);
+});
+
+// Deploys signed in the user's own wallet never pass through /deploy, so the client asks for their
+// deployments row to be resolved here once it has inserted it. The row's own network is polled;
+// rows on custom networks stay pending.
+router.post('/:txid/deployment', async (req, res) => {
+  const { txid } = req.params;
+  if (!isTxId(txid)) {
+    return res.status(400).json({ error: 'txid must be 64 hex characters' });
+  }
+
+  try {
+    const watching = await watchOwnDeployment(req, txid);
+    return res.status(202).json({ watching });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    const status = err instanceof DeploymentError ? err.status : err instanceof NetworkError ? err.status : 500;
+    return res.status(status).json({ error: message });
+  }
+});
+
+export { router as txRouter };
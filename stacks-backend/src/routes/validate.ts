@@ -4,6 +4,17 @@ import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
+import { CLARITY_VERSION_EPOCHS, ClarityVersion, LATEST_CLARITY_VERSION, parseClarityVersion } from '../lib/clarity/builtins';
+import { parseClarinetOutput } from '../lib/clarity/clarinet';
+import { DEVNET_SETTINGS, createManifest, setManifestRequirements } from '../lib/clarity/manifest';
+import { PlanContract } from '../lib/clarity/deploymentPlan';
+import { ClarityError, ValidateResponse } from '../lib/clarity/diagnostics';
+import { isValidContractName } from '../lib/clarity/parser';
+import { RequirementSource, requirementInterfaces, requirementPath, withProjectInterfaces } from '../lib/clarity/requirements';
+import { withSipTraits } from '../lib/clarity/sipTraits';
+import { checkClaritySource } from '../lib/clarity/validator';
+import { ProjectFileError, authorizeProject, readProjectContracts } from '../lib/projectFiles';
+import { loadRequirementSources } from '../lib/requirements';
 
 const execAsync = promisify(exec);
 const router = Router();
@@ -11,90 +22,145 @@ const router = Router();
 interface ValidateRequest {
   code: string;
   contractName?: string;
+  clarityVersion?: number;
+  // The project the contract is in, whose other contracts and requirements its contract-call?s are checked against
+  userId?: string;
+  projectId?: string;
 }
 
-interface ValidateResponse {
-  success: boolean;
-  errors: Array<{ line?: number; column?: number; message: string }>;
-  warnings: string[];
-}
-
-function basicClarityCheck(code: string): ValidateResponse {
-  const errors: Array<{ line?: number; column?: number; message: string }> = [];
-  const warnings: string[] = [];
-  const lines = code.split('\n');
-
-  let depth = 0;
-  lines.forEach((line, lineNum) => {
-    for (const char of line) {
-      if (char === '(') depth++;
-      if (char === ')') depth--;
-      if (depth < 0) {
-        errors.push({ line: lineNum + 1, message: 'Unexpected closing parenthesis' });
-        depth = 0;
-      }
-    }
-  });
-
-  if (depth !== 0) {
-    errors.push({ message: `Unbalanced parentheses: ${depth} unclosed` });
+/**
+ * Write a Clarinet project of the contract and the rest of its project's contracts, as saved, so
+ * `contract-call?`s between them resolve and `clarinet check` uses the requested Clarity version and
+ * epoch instead of its defaults. Requirements go in Clarinet's cache, with the metadata it reads them
+ * back with, so clarinet doesn't fetch them again.
+ */
+function writeClarinetProject(
+  dir: string,
+  contractName: string,
+  code: string,
+  version: ClarityVersion,
+  requirements: RequirementSource[],
+  projectContracts: PlanContract[]
+) {
+  const checked = projectContracts.find(contract => contract.name === contractName);
+  const contracts = [
+    ...projectContracts.filter(contract => contract !== checked),
+    { name: contractName, path: checked?.path ?? `contracts/${contractName}.clar`, code, clarityVersion: version },
+  ];
+
+  fs.mkdirSync(path.join(dir, 'settings'));
+  for (const contract of contracts) {
+    const file = path.resolve(dir, contract.path);
+    if (!file.startsWith(dir + path.sep)) continue;
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, contract.code);
   }
-
-  // Check for common issues
-  if (!code.trim()) {
-    errors.push({ message: 'Contract code is empty' });
+  const manifest = createManifest('validate', contracts.map(({ name, path, clarityVersion }) => ({ name, path, clarityVersion })));
+  fs.writeFileSync(path.join(dir, 'Clarinet.toml'), setManifestRequirements(manifest, requirements.map(r => r.contractId)));
+  fs.writeFileSync(path.join(dir, 'settings', 'Devnet.toml'), DEVNET_SETTINGS);
+
+  for (const requirement of requirements) {
+    const file = path.join(dir, requirementPath(requirement.contractId));
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, requirement.code);
+    fs.writeFileSync(file.replace(/\.clar$/, '.json'), JSON.stringify({
+      epoch: `Epoch${CLARITY_VERSION_EPOCHS[requirement.clarityVersion].replace(/^2\.0/, '2_0').replace('.', '')}`,
+      clarity_version: `Clarity${requirement.clarityVersion}`,
+    }));
   }
+}
 
-  return { success: errors.length === 0, errors, warnings };
+// Diagnostics in the project's other contracts are listed under their path, but not placed in the checked
+// contract's source
+function unlocatedElsewhere(diagnostics: ClarityError[], checkedPath: string): ClarityError[] {
+  return diagnostics.map(diagnostic => diagnostic.file && diagnostic.file !== checkedPath
+    ? { severity: diagnostic.severity, file: diagnostic.file, message: `${diagnostic.file}: ${diagnostic.message}` }
+    : diagnostic);
 }
 
-async function clarityCheckWithClarinet(code: string, contractName: string): Promise<ValidateResponse> {
+async function clarityCheckWithClarinet(
+  code: string,
+  contractName: string,
+  version: ClarityVersion,
+  requirements: RequirementSource[],
+  projectContracts: PlanContract[]
+): Promise<ValidateResponse> {
   const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'clarity-'));
-  const contractFile = path.join(tmpDir, `${contractName}.clar`);
 
   try {
-    fs.writeFileSync(contractFile, code);
+    writeClarinetProject(tmpDir, contractName, code, version, requirements, projectContracts);
+
+    // clarinet exits non-zero when the contract has errors; the diagnostics are in its output either way
+    let output: string;
+    let failed = false;
+    try {
+      const { stdout, stderr } = await execAsync('clarinet check', { cwd: tmpDir, timeout: 30000 });
+      output = `${stdout}\n${stderr}`;
+    } catch (err: any) {
+      output = `${err.stdout ?? ''}\n${err.stderr ?? ''}`;
+      failed = true;
+      if (!output.trim()) output = err.message || '';
+    }
 
-    // Try clarinet if available
-    const { stderr } = await execAsync(`clarinet check ${contractFile}`, { timeout: 30000 });
+    // The checked contract keeps its project path, which may not be named after it
+    const checkedPath = projectContracts.find(contract => contract.name === contractName)?.path ?? `contracts/${contractName}.clar`;
+    const parsed = parseClarinetOutput(output, tmpDir);
+    const errors = unlocatedElsewhere(parsed.errors, checkedPath);
+    const warnings = unlocatedElsewhere(parsed.warnings, checkedPath);
 
-    if (stderr && stderr.toLowerCase().includes('error')) {
-      const errorLines = stderr.split('\n').filter(l => l.includes('error') || l.includes('Error'));
+    if (failed && errors.length === 0) {
+      // Output we couldn't recognise (e.g. clarinet itself crashed): surface it verbatim
+      const lines = output.split('\n').map(l => l.trim()).filter(Boolean);
       return {
         success: false,
-        errors: errorLines.map(msg => ({ message: msg.trim() })),
-        warnings: []
+        errors: lines.length > 0 ? lines.map(message => ({ severity: 'error', message })) : [{ severity: 'error', message: 'clarinet check failed' }],
+        warnings,
       };
     }
 
-    return { success: true, errors: [], warnings: [] };
-  } catch (err: any) {
-    const errMsg = err.stderr || err.message || '';
-    // Parse clarinet error output
-    const errors = errMsg.split('\n')
-      .filter((l: string) => l.trim())
-      .map((msg: string) => ({ message: msg.trim() }));
-    return { success: false, errors: errors.length > 0 ? errors : [{ message: errMsg }], warnings: [] };
+    return { success: errors.length === 0, errors, warnings };
   } finally {
     fs.rmSync(tmpDir, { recursive: true, force: true });
   }
 }
 
 router.post('/', async (req, res) => {
-  const { code, contractName = 'contract' } = req.body as ValidateRequest;
+  const { code, contractName = 'contract', clarityVersion, userId, projectId } = req.body as ValidateRequest;
 
   if (!code) {
     return res.status(400).json({ success: false, errors: [{ message: 'No code provided' }], warnings: [] });
   }
 
+  const version = clarityVersion === undefined ? LATEST_CLARITY_VERSION : parseClarityVersion(clarityVersion);
+  if (!version) {
+    return res.status(400).json({ success: false, errors: [{ message: `Unsupported Clarity version: ${clarityVersion}` }], warnings: [] });
+  }
+
+  // Every contract can implement the SIP traits
+  let requirements: RequirementSource[] = [];
+  let projectContracts: PlanContract[] = [];
+  if (userId && projectId) {
+    try {
+      const project = await authorizeProject(req, userId, projectId);
+      [requirements, projectContracts] = await Promise.all([loadRequirementSources(project), readProjectContracts(project)]);
+    } catch (err) {
+      const status = err instanceof ProjectFileError ? err.status : 500;
+      return res.status(status).json({ success: false, errors: [{ message: err instanceof Error ? err.message : String(err) }], warnings: [] });
+    }
+  }
+  requirements = withSipTraits(requirements, code);
+
   try {
-    // Try clarinet first, fall back to basic check
+    // Try clarinet first, fall back to the built-in parser
+    const name = isValidContractName(contractName) ? contractName : 'contract';
     let result: ValidateResponse;
     try {
       await execAsync('which clarinet');
-      result = await clarityCheckWithClarinet(code, contractName);
+      result = await clarityCheckWithClarinet(code, name, version, requirements, projectContracts);
     } catch {
-      result = basicClarityCheck(code);
+      // The project's other contracts as saved; the checked one is `code`
+      const siblings = projectContracts.filter(contract => contract.name !== name);
+      result = checkClaritySource(code, version, withProjectInterfaces(requirementInterfaces(requirements), siblings));
     }
 
     return res.json(result);
@@ -1,37 +1,70 @@
 import { Router } from 'express';
-import { TESTNET_API, getAccountBalance } from '../lib/stacks';
+import { getAccountBalance } from '../lib/stacks';
+import { NetworkError, NetworkTarget, resolveNetwork } from '../lib/networks';
+import { Signer, SignerError, resolveSigner } from '../lib/signer';
+import { generateWallet } from '../lib/wallet';
 
 const router = Router();
 
-// Return the deployer wallet address (no private key exposed)
-router.get('/info', async (_, res) => {
-  const address = process.env.DEPLOYER_ADDRESS;
+// Return the caller's deployer wallet address and its balance on the requested network (no private key exposed)
+router.get('/info', async (req, res) => {
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
 
-  if (!address) {
-    return res.status(500).json({ error: 'Deployer wallet not configured on server' });
+  let signer: Signer;
+  try {
+    signer = await resolveSigner(req);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof SignerError ? err.status : 500).json({ error: message });
   }
+  const { address, accountIndex } = signer;
 
   try {
-    const balance = await getAccountBalance(address);
-    return res.json({ address, balance });
+    const balance = await getAccountBalance(address, network);
+    return res.json({ address, balance, accountIndex });
   } catch (err: any) {
-    return res.json({ address, balance: '0' });
+    return res.json({ address, balance: '0', accountIndex });
   }
 });
 
+// Generate a fresh testnet wallet (account 0 of a new seed phrase); nothing is stored
+router.get('/new', (_, res) => {
+  return res.json(generateWallet());
+});
+
 router.post('/faucet', async (req, res) => {
   const { address } = req.body as { address?: string };
 
-  // Use provided address or fall back to deployer address
-  const targetAddress = address || process.env.DEPLOYER_ADDRESS;
+  let network: NetworkTarget;
+  try {
+    network = resolveNetwork(req);
+    // Hiro's faucet only funds testnet; devnets and custom nodes may run their own
+    if (network.isMainnet) throw new NetworkError('There is no faucet on mainnet');
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return res.status(err instanceof NetworkError ? err.status : 500).json({ error: message });
+  }
 
+
+  // Use provided address or fall back to the caller's deployer address
+  let targetAddress = address;
   if (!targetAddress) {
-    return res.status(400).json({ error: 'Address required' });
+    try {
+      targetAddress = (await resolveSigner(req)).address;
+    } catch {
+      return res.status(400).json({ error: 'Address required' });
+    }
   }
 
   try {
     const response = await fetch(
-      `${TESTNET_API}/extended/v1/faucets/stx?address=${targetAddress}&stacking=false`,
+      `${network.apiUrl}/extended/v1/faucets/stx?address=${targetAddress}&stacking=false`,
       { method: 'POST' }
     );
 
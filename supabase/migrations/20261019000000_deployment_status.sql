@@ -0,0 +1,9 @@
+-- Clarity Studio - Deployment status
+-- Written by stacks-backend once the deploy transaction settles (see stacks-backend/src/lib/deployments.ts).
+-- Existing rows start as pending; the backend resolves them from the Stacks API on its next start.
+
+ALTER TABLE public.deployments
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (status IN ('pending', 'confirmed', 'failed', 'dropped'));
+
+CREATE INDEX IF NOT EXISTS idx_deployments_pending ON public.deployments(tx_id) WHERE status = 'pending';
@@ -0,0 +1,19 @@
+-- Clarity Studio - Per-user deployer wallets
+-- Maps each user to an account index; stacks-backend derives the account at m/44'/5757'/0'/0/<account_index>
+-- from its WALLET_SEED_PHRASE (see stacks-backend/src/lib/signer.ts). Keys are never stored.
+
+CREATE TABLE IF NOT EXISTS public.user_wallets (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Identity, so an index is never handed out twice, even after its user is deleted
+  account_index INTEGER GENERATED ALWAYS AS IDENTITY UNIQUE,
+  address TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE public.user_wallets ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the backend with the service role; users can only read their own
+DROP POLICY IF EXISTS "Users can view own wallet" ON public.user_wallets;
+CREATE POLICY "Users can view own wallet"
+  ON public.user_wallets FOR SELECT
+  USING (auth.uid() = user_id);
@@ -0,0 +1,28 @@
+-- Clarity Studio - Project files
+-- A project's Clarinet-style layout (Clarinet.toml, contracts/, tests/, settings/), one row per file or directory.
+-- Written by stacks-backend (see stacks-backend/src/lib/projectFiles.ts). Projects that only have `projects.code`
+-- are moved into contracts/<name>.clar the first time they are opened.
+
+CREATE TABLE IF NOT EXISTS public.project_files (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  -- Relative to the project root, without leading or trailing slashes, e.g. 'contracts/counter.clar'
+  path TEXT NOT NULL,
+  is_directory BOOLEAN NOT NULL DEFAULT FALSE,
+  content TEXT NOT NULL DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_id, path)
+);
+
+ALTER TABLE public.project_files ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the backend with the service role; users can read the files of their own and public projects
+DROP POLICY IF EXISTS "Users can view files of own and public projects" ON public.project_files;
+CREATE POLICY "Users can view files of own and public projects"
+  ON public.project_files FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM public.projects
+    WHERE projects.id = project_files.project_id
+      AND (projects.user_id = auth.uid() OR projects.is_public = true)
+  ));
@@ -0,0 +1,18 @@
+-- Clarity Studio - Publishing projects to GitHub
+-- The GitHub account each user connected for publishing, and the repository and branch each project was last pushed to.
+-- Written by stacks-backend (see stacks-backend/src/lib/githubPublish.ts).
+
+CREATE TABLE IF NOT EXISTS public.github_connections (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  login TEXT NOT NULL,
+  -- The OAuth token GitHub issued when the user linked their identity with the repo scope
+  access_token TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- No policies: tokens are only read by the backend with the service role
+ALTER TABLE public.github_connections ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS github_repo TEXT;  -- 'owner/name'
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS github_branch TEXT;
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import react from '@vitejs/plugin-react';
 import { defineConfig } from 'vite';
@@ -23,6 +24,10 @@ export default defineConfig({
     exclude: ['lucide-react'],
     include: ['buffer'],
   },
+  test: {
+    // stacks-backend runs its own tests
+    include: ['src/**/*.test.ts'],
+  },
   server: {
     proxy: {
       '/crates-api': {